@@ -0,0 +1,117 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import ConversationList from "@/components/ConversationList";
+import { useConversations } from "@/hooks/useConversations";
+
+// useConversationsフックをモック
+jest.mock("@/hooks/useConversations");
+
+describe("ConversationList コンポーネント", () => {
+  const mockCreateConversation = jest.fn();
+  const mockRenameConversation = jest.fn();
+  const mockDeleteConversation = jest.fn();
+  const mockSwitchConversation = jest.fn();
+  const mockOnSelect = jest.fn();
+
+  const conversations = [
+    {
+      id: "1",
+      title: "旅行の相談",
+      messages: [],
+      createdAt: "2025-01-02T00:00:00Z",
+      updatedAt: "2025-01-02T00:00:00Z",
+    },
+    {
+      id: "2",
+      title: "レシピの質問",
+      messages: [],
+      createdAt: "2025-01-01T00:00:00Z",
+      updatedAt: "2025-01-01T00:00:00Z",
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useConversations as jest.Mock).mockReturnValue({
+      conversations,
+      activeConversationId: "1",
+      createConversation: mockCreateConversation,
+      renameConversation: mockRenameConversation,
+      deleteConversation: mockDeleteConversation,
+      switchConversation: mockSwitchConversation,
+    });
+  });
+
+  it("会話一覧が表示され、選択中の会話が強調表示されること", () => {
+    render(<ConversationList />);
+
+    const active = screen.getByRole("button", { name: "旅行の相談" });
+    const inactive = screen.getByRole("button", { name: "レシピの質問" });
+
+    expect(active).toHaveAttribute("aria-current", "true");
+    expect(active.closest("li")).toHaveClass("bg-blue-100");
+    expect(inactive).not.toHaveAttribute("aria-current");
+  });
+
+  it("会話をクリックすると切り替えてonSelectが呼ばれること", () => {
+    render(<ConversationList onSelect={mockOnSelect} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "レシピの質問" }));
+
+    expect(mockSwitchConversation).toHaveBeenCalledWith("2");
+    expect(mockOnSelect).toHaveBeenCalled();
+  });
+
+  it("新しい会話ボタンで会話が作成されること", () => {
+    render(<ConversationList onSelect={mockOnSelect} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "新しい会話" }));
+
+    expect(mockCreateConversation).toHaveBeenCalled();
+    expect(mockOnSelect).toHaveBeenCalled();
+  });
+
+  it("名前変更はEnterで確定されること", () => {
+    render(<ConversationList />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "「旅行の相談」の名前を変更" })
+    );
+    const input = screen.getByLabelText("会話の名前");
+    fireEvent.change(input, { target: { value: "北海道旅行" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(mockRenameConversation).toHaveBeenCalledWith("1", "北海道旅行");
+    expect(screen.queryByLabelText("会話の名前")).not.toBeInTheDocument();
+  });
+
+  it("名前変更はEscapeで取り消されること", () => {
+    render(<ConversationList />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "「旅行の相談」の名前を変更" })
+    );
+    fireEvent.keyDown(screen.getByLabelText("会話の名前"), { key: "Escape" });
+
+    expect(mockRenameConversation).not.toHaveBeenCalled();
+    expect(screen.queryByLabelText("会話の名前")).not.toBeInTheDocument();
+  });
+
+  it("削除は確認後にのみ実行されること", () => {
+    const confirmSpy = jest.spyOn(window, "confirm");
+    render(<ConversationList />);
+    const deleteButton = screen.getByRole("button", {
+      name: "「レシピの質問」を削除",
+    });
+
+    confirmSpy.mockReturnValueOnce(false);
+    fireEvent.click(deleteButton);
+    expect(mockDeleteConversation).not.toHaveBeenCalled();
+
+    confirmSpy.mockReturnValueOnce(true);
+    fireEvent.click(deleteButton);
+    expect(mockDeleteConversation).toHaveBeenCalledWith("2");
+
+    confirmSpy.mockRestore();
+  });
+});
@@ -2,7 +2,7 @@ import React from "react";
 import { render, screen, fireEvent } from "@testing-library/react";
 import InputBar from "@/components/InputBar";
 import DOMPurify from "dompurify";
-import { OpenAIModel } from "@/types/model";
+import { ModelId } from "@/types/model";
 import "@testing-library/jest-dom";
 
 // DOMPurifyをモック
@@ -16,15 +16,15 @@ jest.mock("@/components/ModelSelector", () => {
     selectedModel,
     onChange,
   }: {
-    selectedModel: OpenAIModel;
-    onChange: (model: OpenAIModel) => void;
+    selectedModel: ModelId;
+    onChange: (model: ModelId) => void;
   }) {
     return (
       <div data-testid="model-selector">
         <select
           data-testid="mock-model-selector"
           value={selectedModel}
-          onChange={(e) => onChange(e.target.value as OpenAIModel)}
+          onChange={(e) => onChange(e.target.value as ModelId)}
         >
           <option value="gpt-3.5-turbo">GPT-3.5 Turbo</option>
           <option value="gpt-4o-mini">GPT-4o Mini</option>
@@ -41,7 +41,8 @@ describe("InputBar コンポーネント", () => {
     setInput: jest.fn(),
     handleSend: jest.fn(),
     setMessages: jest.fn(),
-    selectedModel: "gpt-4o-mini" as OpenAIModel,
+    selectedModel: "gpt-4o-mini" as ModelId,
+    models: [],
     onModelChange: jest.fn(),
   };
 
@@ -205,4 +206,35 @@ describe("InputBar コンポーネント", () => {
     // onModelChange関数が正しく呼ばれたことを確認
     expect(mockProps.onModelChange).toHaveBeenCalledWith("gpt-3.5-turbo");
   });
+
+  it("応答の生成中は停止ボタンが表示され、クリックするとonStop関数が呼ばれること", () => {
+    const onStop = jest.fn();
+    render(<InputBar {...mockProps} isGenerating onStop={onStop} />);
+
+    // 送信ボタンの代わりに停止ボタンが表示されることを確認
+    expect(
+      screen.queryByRole("button", { name: "送信" })
+    ).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "応答の生成を停止" }));
+
+    expect(onStop).toHaveBeenCalled();
+    expect(mockProps.handleSend).not.toHaveBeenCalled();
+  });
+
+  it("レート制限による待機中は送信できず、残り秒数が表示されること", () => {
+    render(
+      <InputBar {...mockProps} input="こんにちは" cooldownSeconds={12} />
+    );
+
+    expect(screen.getByRole("button", { name: "送信" })).toBeDisabled();
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "あと12秒で送信できます"
+    );
+
+    fireEvent.keyDown(
+      screen.getByRole("textbox", { name: /メッセージ入力/i }),
+      { key: "Enter" }
+    );
+    expect(mockProps.handleSend).not.toHaveBeenCalled();
+  });
 });
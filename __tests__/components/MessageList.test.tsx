@@ -1,5 +1,5 @@
 import React from "react";
-import { render, screen } from "@testing-library/react";
+import { render, screen, fireEvent } from "@testing-library/react";
 import MessageList from "@/components/MessageList";
 import { Message } from "@/types/message";
 
@@ -178,4 +178,54 @@ describe("MessageList コンポーネント", () => {
       screen.getByText("こんにちは！どのようにお手伝いできますか？")
     ).toBeInTheDocument();
   });
+
+  it("最新の応答にのみ再生成ボタンが表示されること", () => {
+    const onRegenerate = jest.fn();
+    const conversation: Message[] = [
+      ...mockMessages.slice(0, 2),
+      { id: "6", text: "次の質問", sender: "user" },
+      { id: "7", text: "次の応答", sender: "bot" },
+    ];
+    render(<MessageList messages={conversation} onRegenerate={onRegenerate} />);
+
+    const buttons = screen.getAllByRole("button", { name: "応答を再生成" });
+    expect(buttons).toHaveLength(1);
+
+    fireEvent.click(buttons[0]);
+
+    expect(onRegenerate).toHaveBeenCalledWith("7");
+  });
+
+  it("ユーザーのメッセージを編集すると onEdit がメッセージIDとともに呼ばれること", () => {
+    const onEdit = jest.fn();
+    render(<MessageList messages={mockMessages} onEdit={onEdit} />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "メッセージを編集して再送信" })
+    );
+    fireEvent.change(screen.getByLabelText("メッセージを編集"), {
+      target: { value: "こんばんは！" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "送信" }));
+
+    expect(onEdit).toHaveBeenCalledWith("1", "こんばんは！");
+  });
+
+  it("応答の生成中は再生成ボタンと編集ボタンが表示されないこと", () => {
+    render(
+      <MessageList
+        messages={mockMessages.slice(0, 2)}
+        isGenerating={true}
+        onRegenerate={jest.fn()}
+        onEdit={jest.fn()}
+      />
+    );
+
+    expect(
+      screen.queryByRole("button", { name: "応答を再生成" })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "メッセージを編集して再送信" })
+    ).not.toBeInTheDocument();
+  });
 });
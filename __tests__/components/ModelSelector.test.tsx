@@ -1,17 +1,42 @@
 import React from "react";
 import { render, screen, fireEvent } from "@testing-library/react";
 import ModelSelector from "@/components/ModelSelector";
-import {
-  AVAILABLE_MODELS,
-  MODEL_DISPLAY_NAMES,
-  OpenAIModel,
-} from "@/types/model";
+import { ModelCatalogEntry, ModelId } from "@/types/model";
 import "@testing-library/jest-dom";
 
 describe("ModelSelector コンポーネント", () => {
+  // テスト用のモデル一覧（サーバーのモデルカタログ）
+  const models: ModelCatalogEntry[] = [
+    {
+      id: "gpt-3.5-turbo",
+      displayName: "GPT-3.5 Turbo",
+      contextWindow: 16385,
+      supportsSearch: true,
+      costTier: "low",
+      enabled: true,
+    },
+    {
+      id: "gpt-4o-mini",
+      displayName: "GPT-4o Mini",
+      contextWindow: 128000,
+      supportsSearch: true,
+      costTier: "low",
+      enabled: true,
+    },
+    {
+      id: "test-model",
+      displayName: "テスト用モデル（APIなし）",
+      contextWindow: 4096,
+      supportsSearch: true,
+      costTier: "free",
+      enabled: false,
+    },
+  ];
+
   // テスト用のprops
   const mockProps = {
-    selectedModel: "gpt-4o-mini" as OpenAIModel,
+    selectedModel: "gpt-4o-mini" as ModelId,
+    models,
     onChange: jest.fn(),
   };
 
@@ -34,14 +59,32 @@ describe("ModelSelector コンポーネント", () => {
     expect(selectBox).toHaveValue(mockProps.selectedModel);
   });
 
-  it("すべての利用可能なモデルがオプションとして表示されること", () => {
+  it("モデルカタログのすべてのモデルがオプションとして表示されること", () => {
     render(<ModelSelector {...mockProps} />);
 
-    // 利用可能なすべてのモデルがオプションとして表示されていることを確認
-    AVAILABLE_MODELS.forEach((model) => {
-      const option = screen.getByText(MODEL_DISPLAY_NAMES[model]);
-      expect(option).toBeInTheDocument();
-    });
+    // 選択可能なモデルがオプションとして表示されていることを確認
+    models
+      .filter((model) => model.enabled)
+      .forEach((model) => {
+        const option = screen.getByRole("option", { name: model.displayName });
+        expect(option).toBeEnabled();
+      });
+
+    // 選択できないモデルは無効化して表示されていることを確認
+    expect(
+      screen.getByRole("option", {
+        name: "テスト用モデル（APIなし）（利用不可）",
+      })
+    ).toBeDisabled();
+  });
+
+  it("モデル一覧の取得前でも選択中のモデルが表示されること", () => {
+    render(<ModelSelector {...mockProps} models={[]} />);
+
+    expect(screen.getByRole("combobox")).toHaveValue("gpt-4o-mini");
+    expect(
+      screen.getByRole("option", { name: "GPT-4o Mini" })
+    ).toBeInTheDocument();
   });
 
   it("モデルが変更されると、onChange関数が呼ばれること", () => {
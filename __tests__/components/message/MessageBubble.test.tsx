@@ -1,5 +1,5 @@
 import React from "react";
-import { render, screen } from "@testing-library/react";
+import { render, screen, fireEvent } from "@testing-library/react";
 import { MessageBubble } from "@/components/message/MessageBubble";
 import { Message } from "@/types/message";
 import "@testing-library/jest-dom";
@@ -99,4 +99,157 @@ describe("MessageBubble コンポーネント", () => {
     // コピーボタンが表示されないことを確認
     expect(screen.queryByTestId("mock-copy-button")).not.toBeInTheDocument();
   });
+
+  it("onRegenerate を指定した場合、再生成ボタンが表示されること", () => {
+    const onRegenerate = jest.fn();
+    render(
+      <MessageBubble
+        message={botMessage}
+        showCopyButton={true}
+        onRegenerate={onRegenerate}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "応答を再生成" }));
+
+    expect(onRegenerate).toHaveBeenCalled();
+  });
+
+  it("再生成ボタンと編集ボタンは指定しない場合は表示されないこと", () => {
+    render(<MessageBubble message={userMessage} showCopyButton={false} />);
+
+    expect(
+      screen.queryByRole("button", { name: "応答を再生成" })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "メッセージを編集して再送信" })
+    ).not.toBeInTheDocument();
+  });
+
+  it("編集したメッセージを送信すると onEdit が呼ばれること", () => {
+    const onEdit = jest.fn();
+    render(
+      <MessageBubble
+        message={userMessage}
+        showCopyButton={false}
+        onEdit={onEdit}
+      />
+    );
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "メッセージを編集して再送信" })
+    );
+    const input = screen.getByLabelText("メッセージを編集");
+    expect(input).toHaveValue("ユーザーメッセージ");
+
+    fireEvent.change(input, { target: { value: "修正したメッセージ" } });
+    fireEvent.click(screen.getByRole("button", { name: "送信" }));
+
+    expect(onEdit).toHaveBeenCalledWith("修正したメッセージ");
+    expect(screen.queryByLabelText("メッセージを編集")).not.toBeInTheDocument();
+  });
+
+  it("編集はEscapeで取り消され、空のメッセージは送信できないこと", () => {
+    const onEdit = jest.fn();
+    render(
+      <MessageBubble
+        message={userMessage}
+        showCopyButton={false}
+        onEdit={onEdit}
+      />
+    );
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "メッセージを編集して再送信" })
+    );
+    const input = screen.getByLabelText("メッセージを編集");
+    fireEvent.change(input, { target: { value: "  " } });
+    expect(screen.getByRole("button", { name: "送信" })).toBeDisabled();
+
+    fireEvent.keyDown(input, { key: "Escape" });
+
+    expect(onEdit).not.toHaveBeenCalled();
+    expect(screen.queryByLabelText("メッセージを編集")).not.toBeInTheDocument();
+    expect(screen.getByText("ユーザーメッセージ")).toBeInTheDocument();
+  });
+
+  it("複数のバージョンがある場合、バージョンを切り替えられること", () => {
+    const onSelectVersion = jest.fn();
+    const versionedMessage: Message = {
+      ...botMessage,
+      model: "gpt-4o-mini",
+      versions: [{ text: "最初の応答" }, { text: "ボットメッセージ" }],
+      versionIndex: 1,
+    };
+    render(
+      <MessageBubble
+        message={versionedMessage}
+        showCopyButton={true}
+        onSelectVersion={onSelectVersion}
+      />
+    );
+
+    expect(screen.getByText("2 / 2")).toBeInTheDocument();
+    expect(screen.getByText("GPT-4o Mini")).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "次の応答を表示" })
+    ).toBeDisabled();
+
+    fireEvent.click(screen.getByRole("button", { name: "前の応答を表示" }));
+
+    expect(onSelectVersion).toHaveBeenCalledWith(0);
+  });
+
+  it("ボットの応答に使用したトークン数と推定コストを表示すること", () => {
+    render(
+      <MessageBubble
+        message={{
+          ...botMessage,
+          usage: {
+            promptTokens: 1200,
+            completionTokens: 300,
+            totalTokens: 1500,
+            estimatedCostUsd: 0.00036,
+          },
+        }}
+        showCopyButton={true}
+      />
+    );
+
+    const label = screen.getByText("1,500 トークン · 約$0.0004");
+    expect(label).toHaveAttribute("title", "入力 1,200 / 出力 300 トークン");
+  });
+
+  it("推定コストがない場合はトークン数のみを表示すること", () => {
+    render(
+      <MessageBubble
+        message={{
+          ...botMessage,
+          usage: {
+            promptTokens: 10,
+            completionTokens: 5,
+            totalTokens: 15,
+            estimatedCostUsd: null,
+          },
+        }}
+        showCopyButton={true}
+      />
+    );
+
+    expect(screen.getByText("15 トークン")).toBeInTheDocument();
+  });
+
+  it("バージョンが1つの場合、バージョンの切り替えは表示されないこと", () => {
+    render(
+      <MessageBubble
+        message={botMessage}
+        showCopyButton={true}
+        onSelectVersion={jest.fn()}
+      />
+    );
+
+    expect(
+      screen.queryByRole("button", { name: "前の応答を表示" })
+    ).not.toBeInTheDocument();
+  });
 });
@@ -13,6 +13,9 @@ jest.mock("@/components/message/LoadingIndicator", () => ({
 
 // SearchResultsDisplay コンポーネントをモック
 jest.mock("@/components/message/SearchResultsDisplay", () => ({
+  scopeCitationLinks: jest.requireActual(
+    "@/components/message/SearchResultsDisplay"
+  ).scopeCitationLinks,
   SearchResultsDisplay: ({ results }: { results: any[] }) => (
     <div data-testid="search-results">{results.length} 件の検索結果</div>
   ),
@@ -109,4 +112,55 @@ describe("MessageContent コンポーネント", () => {
     expect(screen.getByTestId("search-results")).toBeInTheDocument();
     expect(screen.getByText("2 件の検索結果")).toBeInTheDocument();
   });
+
+  it("検索結果付きメッセージの引用リンクはメッセージごとの情報源を指すこと", () => {
+    const citedMessage: Message = {
+      ...searchResultsMessage,
+      html: '<p>回答<sup><a href="#source-2" class="citation">[2]</a></sup></p>',
+      isMarkdown: true,
+    };
+
+    const { container } = render(<MessageContent message={citedMessage} />);
+
+    expect(container.querySelector("a.citation")).toHaveAttribute(
+      "href",
+      "#search-1-source-2"
+    );
+  });
+
+  it("ストリーミング中のメッセージには途中までの応答とカーソルが表示されること", () => {
+    const streamingMessage: Message = {
+      id: "streaming-1",
+      text: "途中までの応答",
+      sender: "bot",
+      isStreaming: true,
+    };
+
+    render(<MessageContent message={streamingMessage} />);
+
+    expect(screen.getByText("途中までの応答")).toBeInTheDocument();
+    expect(screen.getByTestId("streaming-cursor")).toBeInTheDocument();
+    expect(screen.queryByTestId("loading-indicator")).not.toBeInTheDocument();
+  });
+
+  it("ストリーミングが完了したメッセージにはカーソルが表示されないこと", () => {
+    render(<MessageContent message={textMessage} />);
+
+    expect(screen.queryByTestId("streaming-cursor")).not.toBeInTheDocument();
+  });
+
+  it("生成を停止したメッセージには途中までの応答と停止した旨が表示されること", () => {
+    const stoppedMessage: Message = {
+      id: "stopped-1",
+      text: "途中までの応答",
+      sender: "bot",
+      isStopped: true,
+    };
+
+    render(<MessageContent message={stoppedMessage} />);
+
+    expect(screen.getByText("途中までの応答")).toBeInTheDocument();
+    expect(screen.getByText("応答の生成を停止しました")).toBeInTheDocument();
+    expect(screen.queryByTestId("streaming-cursor")).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,79 @@
+import { ReactNode } from "react";
+import { renderHook, act } from "@testing-library/react";
+import {
+  ConversationProvider,
+  useConversations,
+} from "@/hooks/useConversations";
+import { Message } from "@/types/message";
+
+/**
+ * 会話管理のコンテキストを提供するラッパー
+ */
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <ConversationProvider>{children}</ConversationProvider>
+);
+
+/**
+ * ストレージに保存されている会話一覧を取得するヘルパー関数
+ */
+const getStoredConversations = () =>
+  JSON.parse(localStorage.getItem("chat-conversations") ?? "[]");
+
+describe("useConversations フック", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("連続した変更は落ち着いてからまとめて保存すること", () => {
+    const { result } = renderHook(() => useConversations(), { wrapper });
+    act(() => {
+      jest.runOnlyPendingTimers();
+    });
+    const id = result.current.activeConversationId as string;
+    const setItem = jest.spyOn(Storage.prototype, "setItem");
+
+    // ストリーミング中の差分のように短い間隔で更新する
+    for (let i = 1; i <= 5; i++) {
+      act(() => {
+        result.current.updateMessages(id, (messages): Message[] => [
+          ...messages.filter((msg) => msg.id !== "bot"),
+          { id: "bot", sender: "bot", text: "あ".repeat(i) },
+        ]);
+        jest.advanceTimersByTime(100);
+      });
+    }
+    expect(setItem).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(500);
+    });
+
+    expect(setItem).toHaveBeenCalledWith(
+      "chat-conversations",
+      expect.any(String)
+    );
+    expect(getStoredConversations()[0].messages[1].text).toBe("あああああ");
+    setItem.mockRestore();
+  });
+
+  it("アンマウント時は保存を待っている状態をすぐに保存すること", () => {
+    const { result, unmount } = renderHook(() => useConversations(), {
+      wrapper,
+    });
+    act(() => {
+      result.current.renameConversation(
+        result.current.activeConversationId as string,
+        "名前を変更した会話"
+      );
+    });
+
+    unmount();
+
+    expect(getStoredConversations()[0].title).toBe("名前を変更した会話");
+  });
+});
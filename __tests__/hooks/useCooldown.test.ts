@@ -0,0 +1,60 @@
+import { renderHook, act } from "@testing-library/react";
+import { useCooldown } from "@/hooks/useCooldown";
+
+describe("useCooldown フック", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("初期状態では待機中でないこと", () => {
+    const { result } = renderHook(() => useCooldown());
+
+    expect(result.current.remainingSeconds).toBe(0);
+  });
+
+  it("残り秒数を1秒ごとに更新し、終了すると0に戻ること", () => {
+    const { result } = renderHook(() => useCooldown());
+
+    act(() => {
+      result.current.startCooldown(3000);
+    });
+    expect(result.current.remainingSeconds).toBe(3);
+
+    act(() => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(result.current.remainingSeconds).toBe(2);
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+    expect(result.current.remainingSeconds).toBe(0);
+  });
+
+  it("待機中に短い待機を開始しても終了時刻を早めないこと", () => {
+    const { result } = renderHook(() => useCooldown());
+
+    act(() => {
+      result.current.startCooldown(10000);
+    });
+    act(() => {
+      result.current.startCooldown(2000);
+    });
+
+    expect(result.current.remainingSeconds).toBe(10);
+  });
+
+  it("0以下の時間は無視すること", () => {
+    const { result } = renderHook(() => useCooldown());
+
+    act(() => {
+      result.current.startCooldown(0);
+    });
+
+    expect(result.current.remainingSeconds).toBe(0);
+  });
+});
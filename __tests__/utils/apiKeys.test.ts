@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm, utimes, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  API_AUTH_MODES,
+  API_KEY_ERROR_MESSAGES,
+  API_KEY_STORE_ERROR_MESSAGES,
+  ApiKeyRecord,
+  ApiKeyStore,
+  createApiKeyAuthenticator,
+  createFileApiKeyStore,
+  hashApiKeySecret,
+  isModelAllowedForKey,
+  parseApiKey,
+  verifyApiKey,
+} from "@/app/utils/apiKeys";
+
+/**
+ * APIキー認証のテスト
+ *
+ * キーの形式の解析と検証、失効したキーの拒否、モデルの制限、
+ * 認証の要否ごとの動作、ファイルの保存先の読み込み直しをテストします
+ */
+describe("APIキー認証", () => {
+  const id = "0123456789ab";
+  const secret = "c".repeat(64);
+  const token = `ck_${id}_${secret}`;
+
+  const record: ApiKeyRecord = {
+    id,
+    name: "batch job",
+    hash: hashApiKeySecret(secret),
+    createdAt: "2025-01-01T00:00:00.000Z",
+  };
+
+  /**
+   * 指定した記録を返す保存先を生成するヘルパー関数
+   */
+  const createStore = (records: ApiKeyRecord[]): ApiKeyStore => ({
+    list: async () => records,
+  });
+
+  /**
+   * 指定したAuthorizationヘッダーのリクエストを認証するヘルパー関数
+   */
+  const authenticate = (mode: string, authorization?: string) =>
+    createApiKeyAuthenticator({
+      mode,
+      store: createStore([record]),
+    }).authenticate(
+      new Headers(authorization ? { authorization } : undefined)
+    );
+
+  describe("parseApiKey 関数", () => {
+    test("IDと秘密の部分に分解すること", () => {
+      expect(parseApiKey(token)).toEqual({ id, secret });
+    });
+
+    test("形式が不正な場合はnullを返すこと", () => {
+      expect(parseApiKey(`ck_${id}_short`)).toBeNull();
+      expect(parseApiKey(`sk_${id}_${secret}`)).toBeNull();
+    });
+  });
+
+  describe("verifyApiKey 関数", () => {
+    test("有効なキーの記録を返すこと", () => {
+      expect(verifyApiKey([record], token)).toBe(record);
+    });
+
+    test("秘密の部分が一致しない場合はnullを返すこと", () => {
+      expect(verifyApiKey([record], `ck_${id}_${"d".repeat(64)}`)).toBeNull();
+    });
+
+    test("失効したキーはnullを返すこと", () => {
+      const revoked = { ...record, revokedAt: "2025-02-01T00:00:00.000Z" };
+      expect(verifyApiKey([revoked], token)).toBeNull();
+    });
+  });
+
+  describe("isModelAllowedForKey 関数", () => {
+    test("モデルの指定がない場合はすべて許可すること", () => {
+      expect(isModelAllowedForKey(record, "gpt-4o")).toBe(true);
+    });
+
+    test("指定されたモデルのみ許可すること", () => {
+      const limited = { ...record, models: ["gpt-4o-mini"] };
+      expect(isModelAllowedForKey(limited, "gpt-4o-mini")).toBe(true);
+      expect(isModelAllowedForKey(limited, "gpt-4o")).toBe(false);
+    });
+  });
+
+  describe("createApiKeyAuthenticator 関数", () => {
+    test("offの場合はキーを参照しないこと", async () => {
+      expect(await authenticate(API_AUTH_MODES.OFF, "Bearer invalid")).toEqual(
+        { status: "anonymous" }
+      );
+    });
+
+    test("optionalの場合はキーなしのリクエストを匿名として扱うこと", async () => {
+      expect(await authenticate(API_AUTH_MODES.OPTIONAL)).toEqual({
+        status: "anonymous",
+      });
+      expect(
+        await authenticate(API_AUTH_MODES.OPTIONAL, `Bearer ${token}`)
+      ).toEqual({ status: "authenticated", key: record });
+    });
+
+    test("optionalの場合でも無効なキーは拒否すること", async () => {
+      expect(
+        await authenticate(API_AUTH_MODES.OPTIONAL, "Bearer ck_invalid")
+      ).toEqual({ status: "unauthorized" });
+      expect(await authenticate(API_AUTH_MODES.OPTIONAL, token)).toEqual({
+        status: "unauthorized",
+      });
+    });
+
+    test("requiredの場合はキーなしのリクエストを拒否すること", async () => {
+      expect(await authenticate(API_AUTH_MODES.REQUIRED)).toEqual({
+        status: "unauthorized",
+      });
+      expect(
+        await authenticate(API_AUTH_MODES.REQUIRED, `bearer ${token}`)
+      ).toEqual({ status: "authenticated", key: record });
+    });
+
+    test("不明な設定の場合はエラーをスローすること", () => {
+      expect(() =>
+        createApiKeyAuthenticator({ mode: "always", store: createStore([]) })
+      ).toThrow(API_KEY_ERROR_MESSAGES.UNKNOWN_MODE("always"));
+    });
+  });
+
+  describe("createFileApiKeyStore 関数", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "api-keys-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    test("ファイルが存在しない場合は空の一覧を返すこと", async () => {
+      const store = createFileApiKeyStore({ path: join(directory, "none") });
+      expect(await store.list()).toEqual([]);
+    });
+
+    test("ファイルが更新された場合は読み込み直すこと", async () => {
+      const path = join(directory, "api-keys.json");
+      await writeFile(path, JSON.stringify({ keys: [record] }));
+      await utimes(path, new Date(1000), new Date(1000));
+      const store = createFileApiKeyStore({ path });
+      expect(await store.list()).toEqual([record]);
+
+      const revoked = { ...record, revokedAt: "2025-02-01T00:00:00.000Z" };
+      await writeFile(path, JSON.stringify({ keys: [revoked] }));
+      await utimes(path, new Date(2000), new Date(2000));
+      expect(await store.list()).toEqual([revoked]);
+    });
+
+    test("形式が不正な場合はエラーをスローすること", async () => {
+      const path = join(directory, "api-keys.json");
+      await writeFile(
+        path,
+        JSON.stringify({ keys: [{ ...record, quota: { perMinute: 0 } }] })
+      );
+
+      await expect(createFileApiKeyStore({ path }).list()).rejects.toThrow(
+        API_KEY_STORE_ERROR_MESSAGES.INVALID_STORE(path)
+      );
+    });
+  });
+});
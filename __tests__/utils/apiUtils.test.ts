@@ -1,15 +1,27 @@
 import {
   sanitizeInput,
   isTestMode,
-  TEST_MODEL_ID,
+  generateResponseWithWebSearch,
 } from "@/app/utils/openai/apiUtils";
-import { OpenAIModel } from "@/types/model";
+import {
+  extractSearchKeywords,
+  performWebSearch,
+} from "@/app/utils/openai/webSearch";
+import { createRequestContext } from "@/app/utils/openai/requestContext";
+import { ModelId, TEST_MODEL_ID } from "@/types/model";
 
 /**
  * APIのモックとログのオリジナル参照
  */
 let originalConsoleLog: typeof console.log;
 let originalConsoleWarn: typeof console.warn;
+let originalConsoleError: typeof console.error;
+
+/**
+ * OpenAIクライアントの応答生成のモック
+ * （クライアントは最初の呼び出し時に生成されるため、ファクトリ内から参照できる）
+ */
+const mockCreate = jest.fn();
 
 // OpenAIモジュールをモック化
 jest.mock("openai", () => {
@@ -19,7 +31,7 @@ jest.mock("openai", () => {
       return {
         chat: {
           completions: {
-            create: jest.fn(),
+            create: mockCreate,
           },
         },
       };
@@ -27,6 +39,12 @@ jest.mock("openai", () => {
   };
 });
 
+// Web検索ユーティリティをモック化
+jest.mock("@/app/utils/openai/webSearch", () => ({
+  extractSearchKeywords: jest.fn(),
+  performWebSearch: jest.fn(),
+}));
+
 describe("apiUtils ユーティリティ", () => {
   /**
    * テスト開始前の共通セットアップ
@@ -35,8 +53,10 @@ describe("apiUtils ユーティリティ", () => {
     // コンソール出力をモック化して不要な出力を抑制
     originalConsoleLog = console.log;
     originalConsoleWarn = console.warn;
+    originalConsoleError = console.error;
     console.log = jest.fn();
     console.warn = jest.fn();
+    console.error = jest.fn();
   });
 
   /**
@@ -46,6 +66,7 @@ describe("apiUtils ユーティリティ", () => {
     // コンソール出力を元に戻す
     console.log = originalConsoleLog;
     console.warn = originalConsoleWarn;
+    console.error = originalConsoleError;
   });
 
   /**
@@ -146,17 +167,15 @@ describe("apiUtils ユーティリティ", () => {
 
   describe("isTestMode 関数", () => {
     test("テストモデルIDの場合にtrueを返すこと", () => {
-      const result = isTestMode(TEST_MODEL_ID as OpenAIModel);
+      const result = isTestMode(TEST_MODEL_ID as ModelId);
 
       expect(result).toBe(true);
-      expect(console.log).toHaveBeenCalled();
     });
 
     test("通常のモデルIDの場合にfalseを返すこと", () => {
-      const result = isTestMode("gpt-4o-mini" as OpenAIModel);
+      const result = isTestMode("gpt-4o-mini" as ModelId);
 
       expect(result).toBe(false);
-      expect(console.log).toHaveBeenCalled();
     });
 
     test("大文字小文字が異なる場合は一致しないこと", () => {
@@ -174,4 +193,118 @@ describe("apiUtils ユーティリティ", () => {
       expect(result).toBe(false);
     });
   });
+
+  describe("generateResponseWithWebSearch 関数", () => {
+    const searchResults = [
+      {
+        title: "検索結果1",
+        url: "https://example.com/1",
+        description: "説明1",
+      },
+    ];
+
+    beforeEach(() => {
+      (extractSearchKeywords as jest.Mock).mockResolvedValue("東京 天気");
+    });
+
+    test("補完した応答とあわせて使用した検索結果とキーワードを返すこと", async () => {
+      (performWebSearch as jest.Mock).mockResolvedValue(searchResults);
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: "検索結果による回答" } }],
+      });
+
+      const result = await generateResponseWithWebSearch(
+        "東京の天気は？",
+        "最新情報はありません",
+        createRequestContext("gpt-4o-mini")
+      );
+
+      expect(result).toEqual({
+        text: "検索結果による回答",
+        searchResults,
+        searchKeywords: "東京 天気",
+      });
+    });
+
+    test("再生成に使用したトークン数をコンテキストに記録すること", async () => {
+      (performWebSearch as jest.Mock).mockResolvedValue(searchResults);
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: "検索結果による回答" } }],
+        usage: { prompt_tokens: 400, completion_tokens: 120, total_tokens: 520 },
+      });
+      const context = createRequestContext("gpt-4o-mini");
+
+      await generateResponseWithWebSearch(
+        "東京の天気は？",
+        "最新情報はありません",
+        context
+      );
+
+      expect(context.usage.summarize()).toMatchObject({
+        promptTokens: 400,
+        completionTokens: 120,
+        totalTokens: 520,
+        calls: [{ model: "gpt-4o-mini", purpose: "web-search" }],
+      });
+    });
+
+    test("検索結果が空の場合は初期応答と空の検索結果を返すこと", async () => {
+      (performWebSearch as jest.Mock).mockResolvedValue([]);
+
+      const result = await generateResponseWithWebSearch(
+        "東京の天気は？",
+        "最新情報はありません",
+        createRequestContext("gpt-4o-mini")
+      );
+
+      expect(result).toEqual({
+        text: "最新情報はありません",
+        searchResults: [],
+        searchKeywords: "東京 天気",
+      });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    test("補完の呼び出しに失敗した場合は検索結果を返さないこと", async () => {
+      (performWebSearch as jest.Mock).mockResolvedValue(searchResults);
+      mockCreate.mockRejectedValueOnce(new Error("API error"));
+
+      const result = await generateResponseWithWebSearch(
+        "東京の天気は？",
+        "最新情報はありません",
+        createRequestContext("gpt-4o-mini")
+      );
+
+      expect(result.text).toBe("最新情報はありません");
+      expect(result.searchResults).toEqual([]);
+    });
+
+    test("リクエストが中断された場合は初期応答を返さずエラーをスローすること", async () => {
+      const controller = new AbortController();
+      (performWebSearch as jest.Mock).mockResolvedValue(searchResults);
+      mockCreate.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error("Request was aborted.");
+      });
+
+      await expect(
+        generateResponseWithWebSearch(
+          "東京の天気は？",
+          "最新情報はありません",
+          createRequestContext("gpt-4o-mini", controller.signal)
+        )
+      ).rejects.toThrow("Request was aborted.");
+    });
+
+    test("テストモードでは検索を実行せず空の検索結果を返すこと", async () => {
+      const result = await generateResponseWithWebSearch(
+        "質問",
+        "初期応答",
+        createRequestContext(TEST_MODEL_ID as ModelId)
+      );
+
+      expect(result.searchResults).toEqual([]);
+      expect(performWebSearch).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,91 @@
+import { processCitations } from "@/app/utils/openai/citations";
+import { SearchResult } from "@/types/message";
+
+/**
+ * citations ユーティリティのテスト
+ *
+ * 引用番号のリンク化、存在しない番号の除去、未引用の情報源の検出をテストします
+ */
+describe("citations ユーティリティ", () => {
+  const sources: SearchResult[] = [
+    {
+      title: "東京の天気",
+      url: "https://example.com/weather",
+      description: "今日の天気",
+    },
+    {
+      title: 'A&B "ニュース"',
+      url: "https://example.com/news",
+      description: "ニュース記事",
+    },
+  ];
+
+  describe("processCitations 関数", () => {
+    test("引用番号を対応する情報源へのリンクに変換すること", () => {
+      const result = processCitations("今日は晴れです[1]。", sources);
+
+      expect(result.text).toBe("今日は晴れです[1]。");
+      expect(result.linkedText).toBe(
+        '今日は晴れです<sup><a href="#source-1" class="citation" title="東京の天気">[1]</a></sup>。'
+      );
+    });
+
+    test("ツールチップに使うタイトルをエスケープすること", () => {
+      const result = processCitations("ニュース [2]", sources);
+
+      expect(result.linkedText).toContain(
+        'title="A&amp;B &quot;ニュース&quot;"'
+      );
+    });
+
+    test("カンマ区切りの引用を個別のリンクに分けること", () => {
+      const result = processCitations("両方の情報 [1, 2]", sources);
+
+      expect(result.text).toBe("両方の情報 [1][2]");
+      expect(result.linkedText).toContain('href="#source-1"');
+      expect(result.linkedText).toContain('href="#source-2"');
+    });
+
+    test("存在しない番号の引用を前の空白ごと除去すること", () => {
+      const result = processCitations("晴れです [3]。曇りです[0]。", sources);
+
+      expect(result.text).toBe("晴れです。曇りです。");
+      expect(result.linkedText).toBe("晴れです。曇りです。");
+    });
+
+    test("一部の番号のみ存在しない場合は有効な番号のみ残すこと", () => {
+      const result = processCitations("情報 [1, 5]", sources);
+
+      expect(result.text).toBe("情報 [1]");
+    });
+
+    test("コードブロックやインラインコード内の番号は変換しないこと", () => {
+      const markdown =
+        "配列は`items[1]`で参照します[1]。\n\n```js\nconst x = list[2];\nconsole.log([3]);\n```";
+
+      const result = processCitations(markdown, sources);
+
+      expect(result.linkedText).toContain("`items[1]`");
+      expect(result.linkedText).toContain("console.log([3]);");
+      expect(result.linkedText.match(/class="citation"/g)).toHaveLength(1);
+    });
+
+    test("配列の添字やMarkdownのリンクは引用として扱わないこと", () => {
+      const markdown = "arr[9]の値と[1](https://example.com)のリンク";
+
+      const result = processCitations(markdown, sources);
+
+      expect(result.text).toBe(markdown);
+      expect(result.linkedText).toBe(markdown);
+    });
+
+    test("本文で引用されなかった情報源の番号を返すこと", () => {
+      expect(processCitations("晴れです[1]。", sources).unusedSources).toEqual(
+        [2]
+      );
+      expect(processCitations("引用なし", sources).unusedSources).toEqual([
+        1, 2,
+      ]);
+    });
+  });
+});
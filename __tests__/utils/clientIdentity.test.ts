@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import {
+  CLIENT_IDENTITY_ERROR_MESSAGES,
+  CLIENT_IP_HEADERS,
+  ClientIdentityOptions,
+  createConfiguredClientIdentityOptions,
+  parseForwardedHeader,
+  parseTrustedProxies,
+  resolveClientIdentity,
+} from "@/app/utils/clientIdentity";
+
+/**
+ * クライアントの識別のテスト
+ *
+ * プロキシのヘッダーからのクライアントのアドレスの解決、信頼するプロキシの読み飛ばし、
+ * IPv6アドレスの/64単位へのまとめ、認証済みの主体の優先をテストします
+ */
+describe("クライアントの識別", () => {
+  const originalEnv = process.env;
+
+  const options: ClientIdentityOptions = {
+    header: CLIENT_IP_HEADERS.X_FORWARDED_FOR,
+    trustedProxies: parseTrustedProxies("10.0.0.0/8, 2001:db8:ffff::/48"),
+  };
+
+  /**
+   * 指定したヘッダーのリクエストのクライアントの識別子を取得するヘルパー関数
+   */
+  const resolveKey = (
+    headers: Record<string, string>,
+    identityOptions: ClientIdentityOptions = options
+  ) => resolveClientIdentity(new Headers(headers), identityOptions).key;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("resolveClientIdentity 関数", () => {
+    test("信頼するプロキシを末尾から読み飛ばしてクライアントを求めること", () => {
+      expect(
+        resolveKey({ "x-forwarded-for": "203.0.113.7, 10.0.0.2, 10.0.0.1" })
+      ).toBe("ip:203.0.113.7");
+    });
+
+    test("クライアントが付与した偽のアドレスは使用しないこと", () => {
+      // 198.51.100.1 はクライアントが付与し、203.0.113.7 は最も近いプロキシが付与した
+      expect(
+        resolveKey({ "x-forwarded-for": "198.51.100.1, 203.0.113.7" })
+      ).toBe("ip:203.0.113.7");
+    });
+
+    test("すべて信頼するプロキシの場合は先頭のアドレスを使用すること", () => {
+      expect(resolveKey({ "x-forwarded-for": "10.1.1.1, 10.0.0.1" })).toBe(
+        "ip:10.1.1.1"
+      );
+    });
+
+    test("IPv6アドレスは/64単位にまとめること", () => {
+      expect(resolveKey({ "x-forwarded-for": "2001:db8:1:2:3:4:5:6" })).toBe(
+        "ip:2001:db8:1:2::/64"
+      );
+      expect(resolveKey({ "x-forwarded-for": "2001:db8:1:2:ffff::1" })).toBe(
+        "ip:2001:db8:1:2::/64"
+      );
+    });
+
+    test("設定したヘッダー以外は参照しないこと", () => {
+      expect(
+        resolveKey({
+          forwarded: "for=198.51.100.1",
+          "x-real-ip": "198.51.100.2",
+        })
+      ).toBe("anonymous");
+    });
+
+    test("Forwardedヘッダーからクライアントを求めること", () => {
+      const forwardedOptions = {
+        ...options,
+        header: CLIENT_IP_HEADERS.FORWARDED,
+      };
+
+      expect(
+        resolveKey(
+          {
+            forwarded:
+              'for="[2001:db8:cafe::17]:4711";proto=https, for=10.0.0.1',
+          },
+          forwardedOptions
+        )
+      ).toBe("ip:2001:db8:cafe::/64");
+    });
+
+    test("x-real-ipヘッダーからクライアントを求めること", () => {
+      expect(
+        resolveKey(
+          { "x-real-ip": "203.0.113.9" },
+          { ...options, header: CLIENT_IP_HEADERS.X_REAL_IP }
+        )
+      ).toBe("ip:203.0.113.9");
+    });
+
+    test("アドレスを解析できない場合は匿名として扱うこと", () => {
+      expect(resolveKey({})).toBe("anonymous");
+      expect(resolveKey({ "x-forwarded-for": "unknown, 10.0.0.1" })).toBe(
+        "anonymous"
+      );
+    });
+
+    test("認証済みの主体が指定された場合はIPアドレスより優先すること", () => {
+      const identity = resolveClientIdentity(
+        new Headers({ "x-forwarded-for": "203.0.113.7" }),
+        options,
+        { kind: "api-key", id: "key_123" }
+      );
+
+      expect(identity).toEqual({ kind: "api-key", key: "api-key:key_123" });
+    });
+  });
+
+  describe("parseForwardedHeader 関数", () => {
+    test("各要素のfor=パラメーターを取り出すこと", () => {
+      expect(
+        parseForwardedHeader(
+          'for=192.0.2.60;proto=http;by=203.0.113.43, FOR="[2001:db8::1]", proto=https'
+        )
+      ).toEqual(["192.0.2.60", "[2001:db8::1]", ""]);
+    });
+  });
+
+  describe("createConfiguredClientIdentityOptions 関数", () => {
+    test("環境変数からヘッダーと信頼するプロキシを読み込むこと", () => {
+      process.env = {
+        ...originalEnv,
+        CLIENT_IP_HEADER: "Forwarded",
+        TRUSTED_PROXIES: "10.0.0.0/8",
+      };
+
+      const configured = createConfiguredClientIdentityOptions();
+
+      expect(configured.header).toBe(CLIENT_IP_HEADERS.FORWARDED);
+      expect(configured.trustedProxies).toHaveLength(1);
+    });
+
+    test("未設定の場合はヘッダーを参照せず、信頼するプロキシはなしとすること", () => {
+      process.env = { ...originalEnv };
+      delete process.env.CLIENT_IP_HEADER;
+      delete process.env.TRUSTED_PROXIES;
+
+      const configured = createConfiguredClientIdentityOptions();
+      expect(configured).toEqual({ header: null, trustedProxies: [] });
+
+      // クライアントが付与したヘッダーでは識別子を変えられない
+      expect(
+        resolveKey({ "x-forwarded-for": "203.0.113.9" }, configured)
+      ).toBe("anonymous");
+    });
+
+    test("不正な設定の場合はエラーをスローすること", () => {
+      process.env = { ...originalEnv, CLIENT_IP_HEADER: "x-client-ip" };
+      expect(() => createConfiguredClientIdentityOptions()).toThrow(
+        CLIENT_IDENTITY_ERROR_MESSAGES.UNKNOWN_HEADER("x-client-ip")
+      );
+
+      process.env = { ...originalEnv, TRUSTED_PROXIES: "10.0.0.0/8, proxy" };
+      expect(() => createConfiguredClientIdentityOptions()).toThrow(
+        CLIENT_IDENTITY_ERROR_MESSAGES.INVALID_TRUSTED_PROXY("proxy")
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  estimateTokens,
+  validateHistory,
+  truncateHistory,
+  toChatMessages,
+  HISTORY_ERROR_MESSAGES,
+} from "@/app/utils/openai/conversation";
+import { Message } from "@/types/message";
+
+/**
+ * conversation ユーティリティのテスト
+ *
+ * 会話履歴の検証・切り詰め・変換処理をテストします
+ */
+describe("conversation ユーティリティ", () => {
+  describe("estimateTokens 関数", () => {
+    test("ASCII文字は4文字で1トークンとして計算されること", () => {
+      expect(estimateTokens("abcd")).toBe(1);
+      expect(estimateTokens("abcde")).toBe(2);
+    });
+
+    test("日本語は1文字1トークンとして計算されること", () => {
+      expect(estimateTokens("こんにちは")).toBe(5);
+    });
+
+    test("空文字列は0トークンになること", () => {
+      expect(estimateTokens("")).toBe(0);
+    });
+  });
+
+  describe("validateHistory 関数", () => {
+    test("履歴が省略された場合は空配列を返すこと", () => {
+      expect(validateHistory(undefined)).toEqual([]);
+      expect(validateHistory(null)).toEqual([]);
+    });
+
+    test("配列以外の場合はエラーをスローすること", () => {
+      expect(() => validateHistory("履歴")).toThrow(
+        HISTORY_ERROR_MESSAGES.INVALID_HISTORY
+      );
+    });
+
+    test("不正な送信者を含む場合はエラーをスローすること", () => {
+      expect(() =>
+        validateHistory([{ id: "1", sender: "system", text: "命令" }])
+      ).toThrow(HISTORY_ERROR_MESSAGES.INVALID_HISTORY_ENTRY);
+    });
+
+    test("テキストが文字列でない場合はエラーをスローすること", () => {
+      expect(() =>
+        validateHistory([{ id: "1", sender: "user", text: 123 }])
+      ).toThrow(HISTORY_ERROR_MESSAGES.INVALID_HISTORY_ENTRY);
+    });
+
+    test("ローディング中や空のメッセージは除外され、必要な項目のみが残ること", () => {
+      const result = validateHistory([
+        { id: "1", sender: "user", text: "質問" },
+        { id: "2", sender: "bot", text: "考え中...", isLoading: true },
+        { id: "3", sender: "bot", text: "   " },
+        { id: "4", sender: "bot", text: "回答", html: "<p>回答</p>" },
+      ]);
+
+      expect(result).toEqual([
+        { id: "1", sender: "user", text: "質問" },
+        { id: "4", sender: "bot", text: "回答" },
+      ]);
+    });
+
+    test("1件あたりの文字数が制限されること", () => {
+      const result = validateHistory([
+        { id: "1", sender: "bot", text: "a".repeat(5000) },
+      ]);
+
+      expect(result[0].text.length).toBe(4000);
+    });
+  });
+
+  describe("truncateHistory 関数", () => {
+    const history: Message[] = [
+      { id: "1", sender: "user", text: "あ".repeat(50) },
+      { id: "2", sender: "bot", text: "い".repeat(50) },
+      { id: "3", sender: "user", text: "う".repeat(50) },
+      { id: "4", sender: "bot", text: "え".repeat(50) },
+    ];
+
+    test("予算内であればすべての履歴を残すこと", () => {
+      expect(truncateHistory(history, 1000)).toEqual(history);
+    });
+
+    test("予算を超える場合は古いメッセージから除外されること", () => {
+      const result = truncateHistory(history, 110);
+
+      expect(result.map((message) => message.id)).toEqual(["3", "4"]);
+    });
+
+    test("切り詰め後の先頭がボットの応答にならないこと", () => {
+      const result = truncateHistory(history, 170);
+
+      // 3件分の予算だが、先頭のボット応答は除外される
+      expect(result.map((message) => message.id)).toEqual(["3", "4"]);
+    });
+
+    test("最新のメッセージ1件も入らない場合は空配列を返すこと", () => {
+      expect(truncateHistory(history, 10)).toEqual([]);
+    });
+  });
+
+  describe("toChatMessages 関数", () => {
+    test("送信者がOpenAI APIのロールに変換されること", () => {
+      const result = toChatMessages([
+        { id: "1", sender: "user", text: "質問" },
+        { id: "2", sender: "bot", text: "回答" },
+      ]);
+
+      expect(result).toEqual([
+        { role: "user", content: "質問" },
+        { role: "assistant", content: "回答" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import {
+  CONVERSATION_DEFAULTS,
+  createConversation,
+  deleteConversation,
+  deriveTitle,
+  loadConversationState,
+  renameConversation,
+  saveConversationState,
+  sortConversations,
+  updateConversationMessages,
+} from "@/utils/conversationStore";
+import { Conversation } from "@/types/conversation";
+
+/**
+ * テスト用の会話を生成するヘルパー関数
+ */
+function buildConversation(
+  id: string,
+  updatedAt: string,
+  overrides: Partial<Conversation> = {}
+): Conversation {
+  return {
+    id,
+    title: `会話${id}`,
+    messages: [],
+    createdAt: updatedAt,
+    updatedAt,
+    ...overrides,
+  };
+}
+
+/**
+ * conversationStore ユーティリティのテスト
+ *
+ * 会話スレッドの操作関数とlocalStorageへの保存・読み込みをテストします
+ */
+describe("conversationStore ユーティリティ", () => {
+  const originalConsoleError = console.error;
+  const originalConsoleWarn = console.warn;
+
+  beforeEach(() => {
+    localStorage.clear();
+    console.error = jest.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+  });
+
+  describe("createConversation 関数", () => {
+    test("ウェルカムメッセージのみを含む仮タイトルの会話を生成すること", () => {
+      const conversation = createConversation();
+
+      expect(conversation.title).toBe(CONVERSATION_DEFAULTS.TITLE);
+      expect(conversation.messages).toHaveLength(1);
+      expect(conversation.messages[0].id).toBe(
+        CONVERSATION_DEFAULTS.WELCOME_MESSAGE_ID
+      );
+      expect(conversation.createdAt).toBe(conversation.updatedAt);
+    });
+  });
+
+  describe("deriveTitle 関数", () => {
+    test("改行や連続する空白を1つの空白にまとめること", () => {
+      expect(deriveTitle("  東京の\n天気は？  ")).toBe("東京の 天気は？");
+    });
+
+    test("長い質問は省略記号付きで切り詰めること", () => {
+      const title = deriveTitle("あ".repeat(40));
+
+      expect(title).toBe(`${"あ".repeat(30)}…`);
+    });
+  });
+
+  describe("renameConversation 関数", () => {
+    test("指定した会話のタイトルを前後の空白を除いて変更すること", () => {
+      const conversations = [buildConversation("1", "2025-01-01T00:00:00Z")];
+
+      const result = renameConversation(conversations, "1", "  旅行の相談  ");
+
+      expect(result[0].title).toBe("旅行の相談");
+    });
+
+    test("空のタイトルでは変更しないこと", () => {
+      const conversations = [buildConversation("1", "2025-01-01T00:00:00Z")];
+
+      const result = renameConversation(conversations, "1", "   ");
+
+      expect(result[0].title).toBe("会話1");
+    });
+  });
+
+  describe("deleteConversation 関数", () => {
+    test("指定した会話のみを削除すること", () => {
+      const conversations = [
+        buildConversation("1", "2025-01-01T00:00:00Z"),
+        buildConversation("2", "2025-01-02T00:00:00Z"),
+      ];
+
+      const result = deleteConversation(conversations, "1");
+
+      expect(result.map((c) => c.id)).toEqual(["2"]);
+    });
+  });
+
+  describe("updateConversationMessages 関数", () => {
+    test("最初のユーザーメッセージから仮タイトルを置き換えること", () => {
+      const conversations = [
+        buildConversation("1", "2025-01-01T00:00:00Z", {
+          title: CONVERSATION_DEFAULTS.TITLE,
+        }),
+      ];
+
+      const result = updateConversationMessages(conversations, "1", (prev) => [
+        ...prev,
+        { id: "u1", sender: "user", text: "明日の天気を教えて" },
+      ]);
+
+      expect(result[0].title).toBe("明日の天気を教えて");
+      expect(result[0].messages).toHaveLength(1);
+      expect(result[0].updatedAt).not.toBe("2025-01-01T00:00:00Z");
+    });
+
+    test("名前変更済みのタイトルは上書きしないこと", () => {
+      const conversations = [buildConversation("1", "2025-01-01T00:00:00Z")];
+
+      const result = updateConversationMessages(conversations, "1", () => [
+        { id: "u1", sender: "user", text: "こんにちは" },
+      ]);
+
+      expect(result[0].title).toBe("会話1");
+    });
+
+    test("他の会話は変更しないこと", () => {
+      const other = buildConversation("2", "2025-01-01T00:00:00Z");
+
+      const result = updateConversationMessages(
+        [buildConversation("1", "2025-01-01T00:00:00Z"), other],
+        "1",
+        (prev) => prev
+      );
+
+      expect(result[1]).toBe(other);
+    });
+  });
+
+  describe("sortConversations 関数", () => {
+    test("最終更新日時の新しい順に並べ替えること", () => {
+      const result = sortConversations([
+        buildConversation("old", "2025-01-01T00:00:00Z"),
+        buildConversation("new", "2025-03-01T00:00:00Z"),
+        buildConversation("mid", "2025-02-01T00:00:00Z"),
+      ]);
+
+      expect(result.map((c) => c.id)).toEqual(["new", "mid", "old"]);
+    });
+  });
+
+  describe("保存と読み込み", () => {
+    test("保存した会話と選択中の会話IDを読み込めること", () => {
+      const conversations = [buildConversation("1", "2025-01-01T00:00:00Z")];
+
+      saveConversationState({ conversations, activeConversationId: "1" });
+
+      expect(loadConversationState()).toEqual({
+        conversations,
+        activeConversationId: "1",
+      });
+    });
+
+    test("応答待ちやストリーミング中のメッセージは保存しないこと", () => {
+      const conversations = [
+        buildConversation("1", "2025-01-01T00:00:00Z", {
+          messages: [
+            { id: "u1", sender: "user", text: "質問" },
+            { id: "b1", sender: "bot", text: "", isLoading: true },
+            { id: "b2", sender: "bot", text: "途中", isStreaming: true },
+          ],
+        }),
+      ];
+
+      saveConversationState({ conversations, activeConversationId: "1" });
+
+      const loaded = loadConversationState();
+      expect(loaded.conversations[0].messages.map((m) => m.id)).toEqual([
+        "u1",
+      ]);
+    });
+
+    test("再生成中のメッセージは再生成前の応答として保存すること", () => {
+      const conversations = [
+        buildConversation("1", "2025-01-01T00:00:00Z", {
+          messages: [
+            { id: "u1", sender: "user", text: "質問" },
+            {
+              id: "b1",
+              sender: "bot",
+              text: "",
+              isLoading: true,
+              versions: [{ text: "以前の応答" }],
+              versionIndex: 0,
+            },
+          ],
+        }),
+      ];
+
+      saveConversationState({ conversations, activeConversationId: "1" });
+
+      const [, saved] = loadConversationState().conversations[0].messages;
+      expect(saved).toMatchObject({
+        id: "b1",
+        text: "以前の応答",
+        isLoading: false,
+        versionIndex: 0,
+      });
+    });
+
+    test("容量が不足した場合は選択中の会話を残して古い会話から除外すること", () => {
+      const conversations = [
+        buildConversation("1", "2025-01-01T00:00:00Z"),
+        buildConversation("2", "2025-01-02T00:00:00Z"),
+        buildConversation("3", "2025-01-03T00:00:00Z"),
+      ];
+      const originalSetItem = Storage.prototype.setItem;
+      const setItem = jest
+        .spyOn(Storage.prototype, "setItem")
+        .mockImplementation(function (this: Storage, key, value) {
+          // 会話2件分を超える書き込みは容量不足とする
+          if (key === "chat-conversations" && JSON.parse(value).length > 2) {
+            throw new DOMException("quota exceeded", "QuotaExceededError");
+          }
+          originalSetItem.call(this, key, value);
+        });
+      console.warn = jest.fn();
+
+      try {
+        const result = saveConversationState({
+          conversations,
+          activeConversationId: "1",
+        });
+
+        expect(result).toEqual({
+          saved: true,
+          droppedConversationIds: ["2"],
+        });
+        expect(loadConversationState().conversations.map((c) => c.id)).toEqual([
+          "3",
+          "1",
+        ]);
+        expect(console.warn).toHaveBeenCalled();
+      } finally {
+        setItem.mockRestore();
+        console.warn = originalConsoleWarn;
+      }
+    });
+
+    test("容量不足以外で保存できない場合は保存失敗を返すこと", () => {
+      const setItem = jest
+        .spyOn(Storage.prototype, "setItem")
+        .mockImplementation(() => {
+          throw new Error("storage unavailable");
+        });
+
+      try {
+        expect(
+          saveConversationState({
+            conversations: [buildConversation("1", "2025-01-01T00:00:00Z")],
+            activeConversationId: "1",
+          })
+        ).toEqual({ saved: false, droppedConversationIds: [] });
+        expect(console.error).toHaveBeenCalled();
+      } finally {
+        setItem.mockRestore();
+      }
+    });
+
+    test("不正な形式の会話は読み込み時に除外すること", () => {
+      localStorage.setItem(
+        "chat-conversations",
+        JSON.stringify([
+          buildConversation("1", "2025-01-01T00:00:00Z"),
+          { id: "broken" },
+        ])
+      );
+
+      const loaded = loadConversationState();
+
+      expect(loaded.conversations.map((c) => c.id)).toEqual(["1"]);
+    });
+
+    test("保存データが壊れている場合は空の状態を返すこと", () => {
+      localStorage.setItem("chat-conversations", "{invalid json");
+
+      expect(loadConversationState()).toEqual({
+        conversations: [],
+        activeConversationId: null,
+      });
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+});
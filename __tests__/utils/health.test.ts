@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createConfiguredReadinessChecks,
+  createOpenAIApiKeyCheck,
+  createRateLimitStoreCheck,
+  createSearchProviderCheck,
+  HEALTH_ERROR_MESSAGES,
+  HEALTH_SETTINGS,
+  ReadinessCheck,
+  runReadinessChecks,
+} from "@/app/utils/health";
+import {
+  createMemoryRateLimitStore,
+  getConfiguredRateLimitStore,
+  RateLimitStore,
+} from "@/app/utils/rateLimit";
+import { createDummyProvider, SearchProvider } from "@/app/utils/search";
+
+/**
+ * ヘルスチェックのテスト
+ *
+ * 確認項目ごとの結果の集約、タイムアウト、各確認項目の判定をテストします
+ */
+describe("ヘルスチェック", () => {
+  describe("runReadinessChecks 関数", () => {
+    test("すべての項目が成功またはスキップなら準備完了とすること", async () => {
+      const report = await runReadinessChecks({
+        first: async () => {},
+        second: async () => ({ skipped: "確認不要" }),
+      });
+
+      expect(report.status).toBe("ready");
+      expect(report.checks.first.status).toBe("pass");
+      expect(report.checks.second).toMatchObject({
+        status: "skip",
+        message: "確認不要",
+      });
+    });
+
+    test("失敗した項目がある場合は原因とともに返すこと", async () => {
+      const report = await runReadinessChecks({
+        ok: async () => {},
+        broken: async () => {
+          throw new Error("接続できません");
+        },
+      });
+
+      expect(report.status).toBe("not_ready");
+      expect(report.checks.ok.status).toBe("pass");
+      expect(report.checks.broken).toMatchObject({
+        status: "fail",
+        message: "接続できません",
+      });
+    });
+
+    test("タイムアウトした項目は中断して失敗とすること", async () => {
+      let aborted = false;
+      const report = await runReadinessChecks(
+        {
+          slow: (signal) =>
+            new Promise<void>((resolve) => {
+              signal.addEventListener("abort", () => {
+                aborted = true;
+                resolve();
+              });
+            }),
+        },
+        10
+      );
+
+      expect(aborted).toBe(true);
+      expect(report.checks.slow).toMatchObject({
+        status: "fail",
+        message: HEALTH_ERROR_MESSAGES.TIMEOUT(10),
+      });
+    });
+  });
+
+  describe("確認項目", () => {
+    /**
+     * 確認項目を1つだけ実行するヘルパー関数
+     */
+    const runSingle = async (check: ReadinessCheck) =>
+      (await runReadinessChecks({ check })).checks.check;
+
+    test("OPENAI_API_KEYが未設定の場合は失敗とすること", async () => {
+      expect(
+        await runSingle(createOpenAIApiKeyCheck("sk-test"))
+      ).toMatchObject({ status: "pass" });
+      expect(
+        await runSingle(createOpenAIApiKeyCheck(undefined))
+      ).toMatchObject({
+        status: "fail",
+        message: HEALTH_ERROR_MESSAGES.OPENAI_API_KEY_MISSING,
+      });
+    });
+
+    test("確認の関数を持たない検索プロバイダーはスキップすること", async () => {
+      const result = await runSingle(
+        createSearchProviderCheck(createDummyProvider)
+      );
+
+      expect(result.status).toBe("skip");
+    });
+
+    test("検索プロバイダーの確認に失敗した場合は失敗とすること", async () => {
+      const provider: SearchProvider = {
+        name: "broken",
+        search: async () => [],
+        checkHealth: async () => {
+          throw new Error("到達できません");
+        },
+      };
+
+      const result = await runSingle(createSearchProviderCheck(() => provider));
+
+      expect(result).toMatchObject({
+        status: "fail",
+        message: "到達できません",
+      });
+    });
+
+    test("検索プロバイダーの設定が不正な場合は失敗とすること", async () => {
+      const result = await runSingle(
+        createSearchProviderCheck(() => {
+          throw new Error("不明な検索プロバイダー");
+        })
+      );
+
+      expect(result.status).toBe("fail");
+    });
+
+    test("レート制限の記録の保存先に確認用のキーを書き込むこと", async () => {
+      const store = createMemoryRateLimitStore({ maxKeys: 10 });
+
+      const result = await runSingle(createRateLimitStoreCheck(() => store));
+
+      expect(result.status).toBe("pass");
+      await expect(
+        store.update(HEALTH_SETTINGS.RATE_LIMIT_PROBE_KEY, (current) => ({
+          state: current,
+          ttlMs: 1000,
+          result: typeof current,
+        }))
+      ).resolves.toBe("number");
+    });
+
+    test("レート制限の記録の保存先に接続できない場合は失敗とすること", async () => {
+      const store: RateLimitStore = {
+        name: "broken",
+        update: async () => {
+          throw new Error("ECONNREFUSED");
+        },
+        get: async () => {
+          throw new Error("ECONNREFUSED");
+        },
+      };
+
+      const result = await runSingle(createRateLimitStoreCheck(() => store));
+
+      expect(result).toMatchObject({
+        status: "fail",
+        message: "ECONNREFUSED",
+      });
+    });
+
+    test("環境変数の設定による確認はチャットAPIのレート制限と同じストアに書き込むこと", async () => {
+      const { rateLimitStore } = createConfiguredReadinessChecks();
+
+      expect((await runSingle(rateLimitStore)).status).toBe("pass");
+      expect(
+        typeof (await getConfiguredRateLimitStore().get(
+          HEALTH_SETTINGS.RATE_LIMIT_PROBE_KEY
+        ))
+      ).toBe("number");
+    });
+  });
+});
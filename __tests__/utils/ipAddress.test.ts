@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import {
+  formatIpAddress,
+  isInCidrRange,
+  parseCidr,
+  parseIpAddress,
+  IpAddress,
+} from "@/app/utils/clientIdentity";
+
+/**
+ * テスト用にIPアドレスを解析するヘルパー関数（解析できない場合は失敗）
+ */
+function ip(value: string): IpAddress {
+  const address = parseIpAddress(value);
+  if (!address) throw new Error(`解析できません: ${value}`);
+  return address;
+}
+
+/**
+ * IPアドレスとCIDR表記の解析のテスト
+ */
+describe("IPアドレスの解析", () => {
+  describe("parseIpAddress 関数", () => {
+    test("IPv4アドレスを解析すること", () => {
+      expect(parseIpAddress("192.0.2.1")).toEqual({
+        version: 4,
+        bytes: [192, 0, 2, 1],
+      });
+    });
+
+    test("IPv6アドレスの省略表記を解析すること", () => {
+      expect(formatIpAddress(ip("2001:DB8:0:0:0:0:0:1"))).toBe("2001:db8::1");
+      expect(formatIpAddress(ip("::"))).toBe("::");
+      expect(formatIpAddress(ip("fe80::1%eth0"))).toBe("fe80::1");
+      expect(ip("2001:db8::").bytes).toHaveLength(16);
+    });
+
+    test("ポート番号付きの表記を解析すること", () => {
+      expect(formatIpAddress(ip("192.0.2.1:8080"))).toBe("192.0.2.1");
+      expect(formatIpAddress(ip("[2001:db8::1]:443"))).toBe("2001:db8::1");
+      expect(formatIpAddress(ip("[2001:db8::1]"))).toBe("2001:db8::1");
+    });
+
+    test("IPv4射影アドレスはIPv4アドレスとして扱うこと", () => {
+      expect(ip("::ffff:192.0.2.1")).toEqual({
+        version: 4,
+        bytes: [192, 0, 2, 1],
+      });
+    });
+
+    test("不正な値はnullを返すこと", () => {
+      [
+        "",
+        "unknown",
+        "_hidden",
+        "256.0.0.1",
+        "1.2.3",
+        "2001:db8::1::2",
+        "1:2:3:4:5:6:7:8:9",
+        "2001:db8::g",
+      ].forEach((value) => {
+        expect(parseIpAddress(value)).toBeNull();
+      });
+    });
+  });
+
+  describe("formatIpAddress 関数", () => {
+    test("最も長い0の連続を省略し、1グループだけの0は省略しないこと", () => {
+      expect(formatIpAddress(ip("2001:db8:0:1:0:0:0:1"))).toBe(
+        "2001:db8:0:1::1"
+      );
+      expect(formatIpAddress(ip("2001:0:0:1:0:0:0:1"))).toBe("2001:0:0:1::1");
+      expect(formatIpAddress(ip("2001:db8:1:1:1:1:0:1"))).toBe(
+        "2001:db8:1:1:1:1:0:1"
+      );
+    });
+  });
+
+  describe("parseCidr / isInCidrRange 関数", () => {
+    test("IPv4のCIDR範囲に含まれるかどうかを判定すること", () => {
+      const range = parseCidr("10.0.0.0/8");
+      expect(range).not.toBeNull();
+
+      expect(isInCidrRange(ip("10.255.1.2"), range!)).toBe(true);
+      expect(isInCidrRange(ip("11.0.0.1"), range!)).toBe(false);
+      expect(isInCidrRange(ip("::ffff:10.0.0.1"), range!)).toBe(true);
+    });
+
+    test("IPv6のCIDR範囲に含まれるかどうかを判定すること", () => {
+      const range = parseCidr("2001:db8::/32");
+
+      expect(isInCidrRange(ip("2001:db8:ffff::1"), range!)).toBe(true);
+      expect(isInCidrRange(ip("2001:db9::1"), range!)).toBe(false);
+      expect(isInCidrRange(ip("10.0.0.1"), range!)).toBe(false);
+    });
+
+    test("プレフィックス長を省略した場合は単一のアドレスとして扱うこと", () => {
+      const range = parseCidr("192.0.2.1");
+
+      expect(isInCidrRange(ip("192.0.2.1"), range!)).toBe(true);
+      expect(isInCidrRange(ip("192.0.2.2"), range!)).toBe(false);
+    });
+
+    test("範囲の先頭以外のアドレスで指定されても範囲として扱うこと", () => {
+      const range = parseCidr("192.0.2.77/24");
+
+      expect(isInCidrRange(ip("192.0.2.1"), range!)).toBe(true);
+    });
+
+    test("不正な値はnullを返すこと", () => {
+      ["10.0.0.0/33", "10.0.0.0/x", "10.0.0.0/8/8", "example.com/8"].forEach(
+        (value) => {
+          expect(parseCidr(value)).toBeNull();
+        }
+      );
+    });
+  });
+});
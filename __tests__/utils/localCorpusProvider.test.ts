@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createLocalCorpusProvider } from "@/app/utils/search/localCorpusProvider";
+
+/**
+ * localCorpusProvider のテスト
+ *
+ * JSONコーパスファイルの読み込みと検索をテストします
+ */
+describe("localCorpusProvider", () => {
+  let tempDir: string;
+
+  const corpus = [
+    {
+      title: "東京の天気",
+      url: "https://example.com/tokyo-weather",
+      description: "東京の今日の天気予報",
+    },
+    {
+      title: "大阪の観光",
+      url: "https://example.com/osaka",
+      description: "大阪の観光スポット",
+      content: "天気の良い日は大阪城公園がおすすめです",
+    },
+    {
+      title: "Next.js Guide",
+      url: "https://example.com/nextjs",
+      description: "App Router の使い方",
+    },
+  ];
+
+  /**
+   * コーパスファイルを作成するヘルパー関数
+   */
+  async function writeCorpus(data: unknown): Promise<string> {
+    const corpusPath = join(tempDir, "corpus.json");
+    await writeFile(corpusPath, JSON.stringify(data), "utf-8");
+    return corpusPath;
+  }
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "search-corpus-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("検索語に一致する文書をスコアの高い順に返すこと", async () => {
+    const provider = createLocalCorpusProvider(await writeCorpus(corpus));
+
+    const results = await provider.search("天気", { limit: 3 });
+
+    // タイトルに一致する文書が本文のみに一致する文書より先になる
+    expect(results.map((r) => r.url)).toEqual([
+      "https://example.com/tokyo-weather",
+      "https://example.com/osaka",
+    ]);
+    // 本文は検索結果に含めない
+    expect(results[1]).toEqual({
+      title: "大阪の観光",
+      url: "https://example.com/osaka",
+      description: "大阪の観光スポット",
+    });
+  });
+
+  test("カンマ区切りの検索語と大文字小文字の違いを扱えること", async () => {
+    const provider = createLocalCorpusProvider(await writeCorpus(corpus));
+
+    const results = await provider.search("NEXTJS, next.js", { limit: 3 });
+
+    expect(results.map((r) => r.title)).toEqual(["Next.js Guide"]);
+  });
+
+  test("上限数までに制限し、一致しない場合は空配列を返すこと", async () => {
+    const provider = createLocalCorpusProvider(await writeCorpus(corpus));
+
+    await expect(provider.search("天気", { limit: 1 })).resolves.toHaveLength(
+      1
+    );
+    await expect(provider.search("存在しない語", { limit: 3 })).resolves.toEqual(
+      []
+    );
+  });
+
+  test("コーパスの形式が不正な場合はエラーをスローすること", async () => {
+    const provider = createLocalCorpusProvider(
+      await writeCorpus([{ title: "URLなし" }])
+    );
+
+    await expect(provider.search("URL", { limit: 3 })).rejects.toThrow(
+      "ローカル検索コーパスの形式が不正です"
+    );
+  });
+
+  test("読み込みに失敗した場合は次回の検索で再読み込みすること", async () => {
+    const corpusPath = join(tempDir, "corpus.json");
+    const provider = createLocalCorpusProvider(corpusPath);
+
+    await expect(provider.search("天気", { limit: 3 })).rejects.toThrow();
+
+    await writeCorpus(corpus);
+    await expect(provider.search("天気", { limit: 3 })).resolves.toHaveLength(
+      2
+    );
+  });
+
+  test("コーパスを読み込めるかどうかで検索の可否を確認できること", async () => {
+    const provider = createLocalCorpusProvider(join(tempDir, "corpus.json"));
+    const signal = new AbortController().signal;
+
+    await expect(provider.checkHealth?.(signal)).rejects.toThrow();
+
+    await writeCorpus(corpus);
+    await expect(provider.checkHealth?.(signal)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createConfiguredLogger,
+  createLogger,
+  createRequestId,
+  LOG_LEVELS,
+  LOGGER_ERROR_MESSAGES,
+  LogLevel,
+  PROMPT_LOGGING_MODES,
+} from "@/app/utils/logger";
+
+/**
+ * 構造化ログのテスト
+ *
+ * JSON Linesでの出力、ログレベルによる絞り込み、子ロガーのフィールドの付与、
+ * ユーザーの入力の伏せ字、エラーの出力をテストします
+ */
+describe("構造化ログ", () => {
+  const originalEnv = process.env;
+
+  /**
+   * 出力されたログを記録するロガーを生成するヘルパー関数
+   */
+  const createRecordingLogger = (
+    level: string = LOG_LEVELS.DEBUG,
+    promptLogging: string = PROMPT_LOGGING_MODES.REDACT
+  ) => {
+    const lines: { level: LogLevel; entry: Record<string, unknown> }[] = [];
+    const logger = createLogger({
+      level,
+      promptLogging,
+      write: (logLevel, line) =>
+        lines.push({ level: logLevel, entry: JSON.parse(line) }),
+    });
+    return { logger, lines };
+  };
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe("createLogger 関数", () => {
+    test("メッセージとフィールドを1行のJSONで出力すること", () => {
+      const { logger, lines } = createRecordingLogger();
+
+      logger.info("応答を生成します", { model: "gpt-4o-mini" });
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].entry).toMatchObject({
+        level: "info",
+        msg: "応答を生成します",
+        model: "gpt-4o-mini",
+      });
+      expect(typeof lines[0].entry.time).toBe("string");
+    });
+
+    test("設定したレベル未満のログは出力しないこと", () => {
+      const { logger, lines } = createRecordingLogger(LOG_LEVELS.WARN);
+
+      logger.debug("詳細");
+      logger.info("進行状況");
+      logger.warn("警告");
+      logger.error("失敗");
+
+      expect(lines.map((line) => line.level)).toEqual(["warn", "error"]);
+    });
+
+    test("子ロガーはすべてのログにフィールドを付与すること", () => {
+      const { logger, lines } = createRecordingLogger();
+      const child = logger.child({ requestId: "req-1" });
+
+      child.info("1件目");
+      child.child({ purpose: "keywords" }).debug("2件目");
+      logger.info("親ロガー");
+
+      expect(lines[0].entry.requestId).toBe("req-1");
+      expect(lines[1].entry).toMatchObject({
+        requestId: "req-1",
+        purpose: "keywords",
+      });
+      expect(lines[2].entry.requestId).toBeUndefined();
+    });
+
+    test("エラーは名前とメッセージを出力すること", () => {
+      const { logger, lines } = createRecordingLogger();
+
+      logger.error("失敗", { error: new TypeError("不正な値") });
+
+      expect(lines[0].entry.error).toMatchObject({
+        name: "TypeError",
+        message: "不正な値",
+      });
+    });
+
+    test("ユーザーの入力は既定で文字数のみを出力すること", () => {
+      const { logger, lines } = createRecordingLogger();
+
+      logger.info("受信", { prompt: "東京の天気は？", query: "東京 天気" });
+
+      expect(lines[0].entry.prompt).toBe("[REDACTED 7 chars]");
+      expect(lines[0].entry.query).toBe("[REDACTED 5 chars]");
+    });
+
+    test("truncateの場合は先頭の数文字のみを出力すること", () => {
+      const { logger, lines } = createRecordingLogger(
+        LOG_LEVELS.DEBUG,
+        PROMPT_LOGGING_MODES.TRUNCATE
+      );
+
+      logger.info("受信", { prompt: "a".repeat(40), keywords: "短い" });
+
+      expect(lines[0].entry.prompt).toBe(`${"a".repeat(30)}…`);
+      expect(lines[0].entry.keywords).toBe("短い");
+    });
+
+    test("fullの場合はそのまま出力すること", () => {
+      const { logger, lines } = createRecordingLogger(
+        LOG_LEVELS.DEBUG,
+        PROMPT_LOGGING_MODES.FULL
+      );
+
+      logger.info("受信", { prompt: "東京の天気は？" });
+
+      expect(lines[0].entry.prompt).toBe("東京の天気は？");
+    });
+
+    test("不明な設定の場合はエラーをスローすること", () => {
+      expect(() =>
+        createLogger({ level: "verbose", promptLogging: "redact" })
+      ).toThrow(LOGGER_ERROR_MESSAGES.UNKNOWN_LEVEL("verbose"));
+      expect(() =>
+        createLogger({ level: "info", promptLogging: "hash" })
+      ).toThrow(LOGGER_ERROR_MESSAGES.UNKNOWN_PROMPT_MODE("hash"));
+    });
+  });
+
+  describe("createConfiguredLogger 関数", () => {
+    test("環境変数のログレベルに従って出力すること", () => {
+      process.env = { ...originalEnv, LOG_LEVEL: "ERROR" };
+      const consoleError = jest.spyOn(console, "error").mockImplementation();
+      const consoleLog = jest.spyOn(console, "log").mockImplementation();
+
+      const logger = createConfiguredLogger();
+      logger.info("進行状況");
+      logger.error("失敗");
+
+      expect(consoleLog).not.toHaveBeenCalled();
+      expect(consoleError).toHaveBeenCalledTimes(1);
+      consoleError.mockRestore();
+      consoleLog.mockRestore();
+    });
+  });
+
+  describe("createRequestId 関数", () => {
+    test("リクエストごとに異なるIDを生成すること", () => {
+      expect(createRequestId()).not.toBe(createRequestId());
+    });
+  });
+});
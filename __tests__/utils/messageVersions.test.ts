@@ -0,0 +1,171 @@
+import {
+  addMessageVersion,
+  findPromptIndex,
+  findRegenerableIndex,
+  getVersionCount,
+  preserveMessageVersion,
+  restoreMessageVersion,
+  selectMessageVersion,
+  toMessageVersion,
+} from "@/utils/messageVersions";
+import { Message } from "@/types/message";
+
+/**
+ * messageVersions ユーティリティのテスト
+ *
+ * 再生成した応答のバージョンの保持・追加・切り替えと、
+ * 再生成できる応答の判定をテストします
+ */
+describe("messageVersions ユーティリティ", () => {
+  const answer: Message = {
+    id: "b1",
+    sender: "bot",
+    text: "最初の応答",
+    html: "<p>最初の応答</p>",
+    isMarkdown: true,
+    searchKeywords: "キーワード",
+    model: "gpt-4o-mini",
+  };
+
+  describe("preserveMessageVersion 関数", () => {
+    test("現在の応答を最初のバージョンとして保持すること", () => {
+      const preserved = preserveMessageVersion(answer);
+
+      expect(preserved.versions).toEqual([toMessageVersion(answer)]);
+      expect(preserved.versionIndex).toBe(0);
+    });
+
+    test("すでにバージョンを持つメッセージはそのまま返すこと", () => {
+      const preserved = preserveMessageVersion(answer);
+
+      expect(preserveMessageVersion(preserved)).toBe(preserved);
+    });
+  });
+
+  describe("addMessageVersion 関数", () => {
+    test("バージョンを持たないメッセージには応答のみを反映すること", () => {
+      const loading: Message = {
+        id: "b1",
+        sender: "bot",
+        text: "",
+        isLoading: true,
+      };
+
+      const result = addMessageVersion(loading, { text: "応答" });
+
+      expect(result).toMatchObject({
+        text: "応答",
+        isLoading: false,
+        isStreaming: false,
+      });
+      expect(result.versions).toBeUndefined();
+    });
+
+    test("再生成した応答を新しいバージョンとして追加して表示すること", () => {
+      const regenerating = {
+        ...preserveMessageVersion(answer),
+        text: "読み込み中",
+        isLoading: true,
+      };
+
+      const result = addMessageVersion(regenerating, {
+        text: "2回目の応答",
+        model: "gpt-3.5-turbo",
+      });
+
+      expect(getVersionCount(result)).toBe(2);
+      expect(result.versionIndex).toBe(1);
+      expect(result).toMatchObject({
+        text: "2回目の応答",
+        model: "gpt-3.5-turbo",
+        isLoading: false,
+      });
+      // 以前の応答のフィールドは残さない
+      expect(result.html).toBeUndefined();
+      expect(result.searchKeywords).toBeUndefined();
+    });
+  });
+
+  describe("selectMessageVersion 関数", () => {
+    const versioned = addMessageVersion(preserveMessageVersion(answer), {
+      text: "2回目の応答",
+    });
+
+    test("指定したバージョンの内容を表示すること", () => {
+      const result = selectMessageVersion(versioned, 0);
+
+      expect(result).toMatchObject({
+        text: "最初の応答",
+        html: "<p>最初の応答</p>",
+        model: "gpt-4o-mini",
+        versionIndex: 0,
+      });
+      expect(getVersionCount(result)).toBe(2);
+    });
+
+    test("範囲外の番号は範囲内に丸めること", () => {
+      expect(selectMessageVersion(versioned, -1).versionIndex).toBe(0);
+      expect(selectMessageVersion(versioned, 5).versionIndex).toBe(1);
+    });
+
+    test("バージョンを持たないメッセージはそのまま返すこと", () => {
+      expect(selectMessageVersion(answer, 1)).toBe(answer);
+    });
+  });
+
+  describe("restoreMessageVersion 関数", () => {
+    test("再生成前に表示していたバージョンに戻すこと", () => {
+      const regenerating = {
+        ...preserveMessageVersion(answer),
+        text: "読み込み中",
+        isLoading: true,
+      };
+
+      expect(restoreMessageVersion(regenerating)).toMatchObject({
+        text: "最初の応答",
+        isLoading: false,
+        versionIndex: 0,
+      });
+    });
+  });
+
+  describe("getVersionCount 関数", () => {
+    test("再生成していないメッセージは1を返すこと", () => {
+      expect(getVersionCount(answer)).toBe(1);
+    });
+  });
+
+  describe("findPromptIndex / findRegenerableIndex 関数", () => {
+    const welcome: Message = { id: "w", sender: "bot", text: "ようこそ" };
+    const question: Message = { id: "u1", sender: "user", text: "質問" };
+    const error: Message = {
+      id: "e1",
+      sender: "bot",
+      text: "エラー",
+      isError: true,
+    };
+
+    test("直前のユーザーメッセージの位置を返すこと", () => {
+      expect(findPromptIndex([welcome, question, answer], 2)).toBe(1);
+    });
+
+    test("直前に質問がない応答やエラーメッセージは-1を返すこと", () => {
+      expect(findPromptIndex([welcome, question, answer], 0)).toBe(-1);
+      expect(findPromptIndex([welcome, question, error], 2)).toBe(-1);
+      expect(
+        findPromptIndex([question, { ...answer, isLoading: true }], 1)
+      ).toBe(-1);
+    });
+
+    test("エラーメッセージより前の最新の応答を再生成対象とすること", () => {
+      expect(findRegenerableIndex([welcome, question, answer, error])).toBe(2);
+    });
+
+    test("最新の応答の後に質問が続く場合は-1を返すこと", () => {
+      expect(findRegenerableIndex([welcome, question, answer, question])).toBe(
+        -1
+      );
+      expect(findRegenerableIndex([welcome])).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createChatMetrics,
+  createMetricsRegistry,
+  isMetricsRequestAuthorized,
+  METRICS_ERROR_MESSAGES,
+  toModelLabel,
+} from "@/app/utils/metrics";
+
+/**
+ * メトリクスのテスト
+ *
+ * カウンター・ヒストグラムのPrometheusのテキスト形式での出力、
+ * ラベルのエスケープ、GET /api/metrics の認証をテストします
+ */
+describe("メトリクス", () => {
+  describe("createMetricsRegistry 関数", () => {
+    test("カウンターをラベルの組ごとに集計して出力すること", () => {
+      const registry = createMetricsRegistry();
+      const counter = registry.counter({
+        name: "requests_total",
+        help: "Requests",
+        labelNames: ["model", "status"],
+      });
+
+      counter.inc({ model: "gpt-4o-mini", status: 200 });
+      counter.inc({ status: 200, model: "gpt-4o-mini" });
+      counter.inc({ model: "gpt-4o-mini", status: 429 }, 3);
+
+      expect(registry.render()).toBe(
+        [
+          "# HELP requests_total Requests",
+          "# TYPE requests_total counter",
+          'requests_total{model="gpt-4o-mini",status="200"} 2',
+          'requests_total{model="gpt-4o-mini",status="429"} 3',
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("ヒストグラムのバケットを累積で出力すること", () => {
+      const registry = createMetricsRegistry();
+      const histogram = registry.histogram({
+        name: "duration_seconds",
+        help: "Duration",
+        labelNames: ["purpose"],
+        buckets: [1, 0.5],
+      });
+
+      histogram.observe({ purpose: "initial" }, 0.3);
+      histogram.observe({ purpose: "initial" }, 0.7);
+      histogram.observe({ purpose: "initial" }, 4);
+
+      const lines = registry.render().split("\n");
+      expect(lines).toContain(
+        'duration_seconds_bucket{purpose="initial",le="0.5"} 1'
+      );
+      expect(lines).toContain(
+        'duration_seconds_bucket{purpose="initial",le="1"} 2'
+      );
+      expect(lines).toContain(
+        'duration_seconds_bucket{purpose="initial",le="+Inf"} 3'
+      );
+      expect(lines).toContain('duration_seconds_sum{purpose="initial"} 5');
+      expect(lines).toContain('duration_seconds_count{purpose="initial"} 3');
+    });
+
+    test("ラベルの値をエスケープすること", () => {
+      const registry = createMetricsRegistry();
+      const counter = registry.counter({
+        name: "errors_total",
+        help: "Errors",
+        labelNames: ["reason"],
+      });
+
+      counter.inc({ reason: 'a"b\\c\nd' });
+
+      expect(registry.render()).toContain(
+        'errors_total{reason="a\\"b\\\\c\\nd"} 1'
+      );
+    });
+
+    test("同じ名前のメトリクスを登録した場合はエラーをスローすること", () => {
+      const registry = createMetricsRegistry();
+      const definition = { name: "dup_total", help: "Dup", labelNames: [] };
+      registry.counter(definition);
+
+      expect(() => registry.counter(definition)).toThrow(
+        METRICS_ERROR_MESSAGES.DUPLICATE_METRIC("dup_total")
+      );
+    });
+  });
+
+  describe("createChatMetrics 関数", () => {
+    test("チャットAPIのメトリクスを出力すること", () => {
+      const metrics = createChatMetrics();
+
+      metrics.requests.inc({ model: toModelLabel(undefined), status: 400 });
+      metrics.rateLimitRejections.inc({ model: "gpt-4o-mini", bucket: "day" });
+
+      const output = metrics.render();
+      expect(output).toContain(
+        'chat_requests_total{model="unknown",status="400"} 1'
+      );
+      expect(output).toContain(
+        'rate_limit_rejections_total{model="gpt-4o-mini",bucket="day"} 1'
+      );
+      expect(output).toContain(
+        "# TYPE llm_completion_duration_seconds histogram"
+      );
+      expect(output).toContain("# TYPE web_search_requests_total counter");
+    });
+  });
+
+  describe("isMetricsRequestAuthorized 関数", () => {
+    const withAuthorization = (value?: string) =>
+      new Headers(value ? { Authorization: value } : {});
+
+    test("トークンが設定されていない場合は許可すること", () => {
+      expect(isMetricsRequestAuthorized(withAuthorization(), undefined)).toBe(
+        true
+      );
+    });
+
+    test("トークンが一致する場合のみ許可すること", () => {
+      expect(
+        isMetricsRequestAuthorized(withAuthorization("Bearer secret"), "secret")
+      ).toBe(true);
+      expect(
+        isMetricsRequestAuthorized(withAuthorization("Bearer wrong"), "secret")
+      ).toBe(false);
+      expect(isMetricsRequestAuthorized(withAuthorization(), "secret")).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import {
+  fetchModelCatalog,
+  isSelectableModel,
+  MODEL_CATALOG_ERROR_MESSAGES,
+} from "@/utils/modelCatalogApi";
+import { ModelCatalog } from "@/types/model";
+
+// fetchのモック
+global.fetch = jest.fn();
+
+describe("modelCatalogApi ユーティリティ", () => {
+  const catalog: ModelCatalog = {
+    models: [
+      {
+        id: "gpt-4o-mini",
+        displayName: "GPT-4o Mini",
+        contextWindow: 128000,
+        supportsSearch: true,
+        costTier: "low",
+        enabled: true,
+      },
+      {
+        id: "test-model",
+        displayName: "テスト用モデル（APIなし）",
+        contextWindow: 4096,
+        supportsSearch: true,
+        costTier: "free",
+        enabled: false,
+      },
+    ],
+    defaultModel: "gpt-4o-mini",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("fetchModelCatalog 関数", () => {
+    test("モデルカタログを取得し、不正な形式のモデルを除外すること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          ...catalog,
+          models: [...catalog.models, { id: "broken", enabled: "yes" }],
+        }),
+      });
+
+      const result = await fetchModelCatalog();
+
+      expect(global.fetch).toHaveBeenCalledWith("/api/models", {
+        signal: undefined,
+      });
+      expect(result).toEqual(catalog);
+    });
+
+    test("取得に失敗した場合はエラーをスローすること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+      });
+
+      await expect(fetchModelCatalog()).rejects.toThrow(
+        MODEL_CATALOG_ERROR_MESSAGES.FETCH_FAILED(500)
+      );
+    });
+
+    test("レスポンス形式が不正な場合はエラーをスローすること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ models: "gpt-4o-mini" }),
+      });
+
+      await expect(fetchModelCatalog()).rejects.toThrow(
+        MODEL_CATALOG_ERROR_MESSAGES.INVALID_RESPONSE
+      );
+    });
+  });
+
+  describe("isSelectableModel 関数", () => {
+    test("選択可能なモデルの場合のみtrueを返すこと", () => {
+      expect(isSelectableModel(catalog, "gpt-4o-mini")).toBe(true);
+      expect(isSelectableModel(catalog, "test-model")).toBe(false);
+      expect(isSelectableModel(catalog, "unknown-model")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+import { createLogger } from "@/app/utils/logger";
+import {
+  createMemoryRateLimitStore,
+  createModelQuotaLimiter,
+  parseModelQuotaOverrides,
+  QUOTA_BUCKET_NAMES,
+  resolveModelQuota,
+} from "@/app/utils/rateLimit";
+import { ModelDefinition } from "@/types/model";
+
+/**
+ * モデルごとのレート制限の割り当て（クォータ）のテスト
+ *
+ * 上書き設定の解析、モデルごとの重みによる消費、
+ * Web検索の追加の重み、1分あたり・1日あたりの上限をテストします
+ */
+describe("モデルごとのクォータ", () => {
+  const writeLog = jest.fn();
+  const logger = createLogger({
+    level: "info",
+    promptLogging: "redact",
+    write: writeLog,
+  });
+
+  const definition: ModelDefinition = {
+    id: "premium-model",
+    displayName: "Premium Model",
+    provider: "openai",
+    maxOutputTokens: 1000,
+    maxHistoryTokens: 2000,
+    contextWindow: 8192,
+    supportsSearch: true,
+    costTier: "high",
+    quota: { requestWeight: 3, webSearchWeight: 2, perMinute: 6, perDay: 9 },
+  };
+
+  /**
+   * メモリストアを使用するクォータを生成するヘルパー関数
+   */
+  const createLimiter = (overrides?: string) =>
+    createModelQuotaLimiter({
+      store: createMemoryRateLimitStore({ maxKeys: 100 }),
+      overrides: parseModelQuotaOverrides(overrides, logger),
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    writeLog.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("parseModelQuotaOverrides 関数", () => {
+    test("モデルIDごとの1分あたり・1日あたりの上限を解析すること", () => {
+      const overrides = parseModelQuotaOverrides(
+        " gpt-4o-mini=20/500 , org/model:8b=5/50 "
+      );
+
+      expect(overrides.get("gpt-4o-mini")).toEqual({
+        perMinute: 20,
+        perDay: 500,
+      });
+      expect(overrides.get("org/model:8b")).toEqual({
+        perMinute: 5,
+        perDay: 50,
+      });
+    });
+
+    test("形式が不正な項目は警告して無視すること", () => {
+      const overrides = parseModelQuotaOverrides(
+        "broken, a=1, b=x/10, =1/2, c=0/5, d=3/30",
+        logger
+      );
+
+      expect([...overrides.keys()]).toEqual(["d"]);
+      expect(writeLog).toHaveBeenCalledTimes(5);
+      expect(writeLog).toHaveBeenCalledWith(
+        "warn",
+        expect.stringContaining('"entry":"broken"')
+      );
+    });
+
+    test("未設定の場合は空の設定を返すこと", () => {
+      expect(parseModelQuotaOverrides(undefined).size).toBe(0);
+    });
+  });
+
+  describe("resolveModelQuota 関数", () => {
+    test("上書き設定がある場合は上限のみを置き換えること", () => {
+      const overrides = parseModelQuotaOverrides("premium-model=12/100");
+
+      expect(resolveModelQuota(definition, overrides)).toEqual({
+        requestWeight: 3,
+        webSearchWeight: 2,
+        perMinute: 12,
+        perDay: 100,
+      });
+      expect(resolveModelQuota(definition)).toEqual(definition.quota);
+    });
+
+    test("APIキーごとの上限は上書き設定より優先すること", () => {
+      const overrides = parseModelQuotaOverrides("premium-model=12/100");
+
+      expect(
+        resolveModelQuota(definition, overrides, { perMinute: 30, perDay: 60 })
+      ).toMatchObject({ requestWeight: 3, perMinute: 30, perDay: 60 });
+    });
+  });
+
+  describe("createModelQuotaLimiter", () => {
+    test("モデルの重みで1分あたりの上限を消費すること", async () => {
+      const limiter = createLimiter();
+
+      expect(
+        await limiter.consumeRequest("client", definition)
+      ).toMatchObject({ allowed: true, remaining: 3 });
+      await limiter.consumeRequest("client", definition);
+
+      const denied = await limiter.consumeRequest("client", definition);
+      expect(denied).toMatchObject({
+        allowed: false,
+        bucket: QUOTA_BUCKET_NAMES.MINUTE,
+        retryAfterMs: 30 * 1000,
+      });
+    });
+
+    test("1分あたりの上限が補充されても1日あたりの上限で拒否すること", async () => {
+      const limiter = createLimiter();
+      await limiter.consumeRequest("client", definition);
+      await limiter.consumeRequest("client", definition);
+      jest.advanceTimersByTime(60 * 1000);
+      await limiter.consumeRequest("client", definition);
+      jest.advanceTimersByTime(60 * 1000);
+
+      const denied = await limiter.consumeRequest("client", definition);
+      expect(denied).toMatchObject({
+        allowed: false,
+        bucket: QUOTA_BUCKET_NAMES.DAY,
+      });
+    });
+
+    test("Web検索を行った場合は追加の重みを差し引くこと", async () => {
+      const limiter = createLimiter();
+      await limiter.consumeRequest("client", definition);
+
+      const charged = await limiter.chargeWebSearch("client", definition);
+      expect(charged.remaining).toBe(1);
+
+      const denied = await limiter.consumeRequest("client", definition);
+      expect(denied.allowed).toBe(false);
+    });
+
+    test("クライアントとモデルの組み合わせごとに独立して数えること", async () => {
+      const limiter = createLimiter();
+      const other = { ...definition, id: "other-model" };
+      await limiter.consumeRequest("client", definition);
+      await limiter.consumeRequest("client", definition);
+
+      expect((await limiter.consumeRequest("client", other)).allowed).toBe(
+        true
+      );
+      expect(
+        (await limiter.consumeRequest("another", definition)).allowed
+      ).toBe(true);
+    });
+
+    test("上書き設定の上限を使用すること", async () => {
+      const limiter = createLimiter("premium-model=3/9");
+
+      expect(
+        (await limiter.consumeRequest("client", definition)).allowed
+      ).toBe(true);
+      expect(
+        (await limiter.consumeRequest("client", definition)).allowed
+      ).toBe(false);
+    });
+
+    test("APIキーごとの上限が指定された場合はその上限を使用すること", async () => {
+      const limiter = createLimiter();
+      const limits = { perMinute: 3, perDay: 100 };
+
+      expect(
+        (await limiter.consumeRequest("client", definition, limits)).allowed
+      ).toBe(true);
+      expect(
+        (await limiter.consumeRequest("client", definition, limits)).allowed
+      ).toBe(false);
+    });
+
+    test("重みを消費せずに現在の状態を取得できること", async () => {
+      const limiter = createLimiter();
+      await limiter.consumeRequest("client", definition);
+
+      expect(await limiter.peekRequest("client", definition)).toMatchObject({
+        limit: 6,
+        remaining: 3,
+      });
+      expect(
+        await limiter.consumeRequest("client", definition)
+      ).toMatchObject({ allowed: true, remaining: 0 });
+
+      // 残りの重みがリクエストの重みに満たない場合は拒否を報告する
+      expect(await limiter.peekRequest("client", definition)).toMatchObject({
+        allowed: false,
+        retryAfterMs: 30 * 1000,
+      });
+    });
+  });
+});
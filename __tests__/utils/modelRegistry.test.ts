@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+import OpenAI from "openai";
+import {
+  getModelCatalog,
+  getModelRegistry,
+  MODEL_REGISTRY_ERROR_MESSAGES,
+  parseCompatibleModels,
+  resolveModel,
+  TEST_PROVIDER_STREAM_SETTINGS,
+} from "@/app/utils/llm";
+import { MODEL_REGISTRY } from "@/types/model";
+
+/**
+ * OpenAIクライアントの応答生成のモック
+ */
+const mockCreate = jest.fn();
+
+// OpenAIモジュールをモック化
+jest.mock("openai", () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } },
+  })),
+}));
+
+/**
+ * モデルレジストリとLLMプロバイダーの解決のテスト
+ */
+describe("モデルレジストリ", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    delete process.env.OPENAI_COMPATIBLE_MODELS;
+    delete process.env.NEXT_PUBLIC_ENABLE_TEST_MODE;
+    process.env.OPENAI_API_KEY = "test-api-key";
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe("parseCompatibleModels 関数", () => {
+    test("カンマ区切りのモデルIDと表示名を解析すること", () => {
+      const models = parseCompatibleModels(
+        " llama3.1:8b=Llama 3.1 8B , qwen2.5,, "
+      );
+
+      expect(models.map(({ id, displayName }) => ({ id, displayName }))).toEqual(
+        [
+          { id: "llama3.1:8b", displayName: "Llama 3.1 8B" },
+          { id: "qwen2.5", displayName: "qwen2.5" },
+        ]
+      );
+      expect(
+        models.every((model) => model.provider === "openai-compatible")
+      ).toBe(true);
+    });
+
+    test("未設定の場合は空配列を返すこと", () => {
+      expect(parseCompatibleModels(undefined)).toEqual([]);
+    });
+  });
+
+  describe("getModelRegistry 関数", () => {
+    test("ベースURLが未設定の場合は組み込みのモデルのみを返すこと", () => {
+      process.env.OPENAI_COMPATIBLE_MODELS = "llama3";
+
+      expect(getModelRegistry()).toEqual(MODEL_REGISTRY);
+    });
+
+    test("OpenAI互換モデルを追加し、組み込みのモデルと重複するIDは無視すること", () => {
+      process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+      process.env.OPENAI_COMPATIBLE_MODELS = "llama3,gpt-4o-mini";
+
+      const ids = getModelRegistry().map((model) => model.id);
+
+      expect(ids).toContain("llama3");
+      expect(ids.filter((id) => id === "gpt-4o-mini")).toHaveLength(1);
+    });
+  });
+
+  describe("resolveModel 関数", () => {
+    test("未登録のモデルの場合はエラーをスローすること", () => {
+      expect(() => resolveModel("unknown-model")).toThrow(
+        MODEL_REGISTRY_ERROR_MESSAGES.UNKNOWN_MODEL("unknown-model")
+      );
+    });
+
+    test("テスト用モデルは外部APIを呼び出さずにテスト応答を返すこと", async () => {
+      const { provider } = resolveModel("test-model");
+      const onDelta = jest.fn();
+
+      const result = await provider.stream(
+        {
+          model: "test-model",
+          messages: [
+            { role: "system", content: "システムプロンプト" },
+            { role: "user", content: "テストの質問" },
+          ],
+          maxTokens: 10,
+          temperature: 0,
+        },
+        onDelta
+      );
+
+      // 質問を含む応答を、一定の文字数ずつ差分として送信すること
+      const deltas: string[] = onDelta.mock.calls.map(([delta]) => delta);
+      expect(result).toContain("テストの質問");
+      expect(deltas.join("")).toBe(result);
+      expect(
+        deltas.every(
+          (delta) => delta.length <= TEST_PROVIDER_STREAM_SETTINGS.CHUNK_SIZE
+        )
+      ).toBe(true);
+      expect(OpenAI).not.toHaveBeenCalled();
+    });
+
+    test("OpenAI互換モデルはベースURLを指定したクライアントで応答を生成すること", async () => {
+      process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+      process.env.OPENAI_COMPATIBLE_MODELS = "llama3=Llama 3";
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: " ローカルの応答 " } }],
+      });
+
+      const { definition, provider } = resolveModel("llama3");
+      const result = await provider.complete({
+        model: definition.id,
+        messages: [{ role: "user", content: "こんにちは" }],
+        maxTokens: definition.maxOutputTokens,
+        temperature: 0.7,
+      });
+
+      expect(provider.id).toBe("openai-compatible");
+      expect(result).toBe("ローカルの応答");
+      expect(OpenAI).toHaveBeenCalledWith({
+        baseURL: "http://localhost:11434/v1",
+        apiKey: "not-needed",
+      });
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ model: "llama3", max_tokens: 1000 }),
+        undefined
+      );
+    });
+  });
+
+  describe("getModelCatalog 関数", () => {
+    test("テストモードが無効の場合はテスト用モデルを選択不可とすること", () => {
+      const catalog = getModelCatalog();
+      const testModel = catalog.models.find(
+        (model) => model.id === "test-model"
+      );
+
+      expect(testModel?.enabled).toBe(false);
+      expect(catalog.defaultModel).toBe("gpt-4o-mini");
+    });
+
+    test("テストモードが有効の場合はテスト用モデルを選択可能とすること", () => {
+      process.env.NEXT_PUBLIC_ENABLE_TEST_MODE = "true";
+
+      const testModel = getModelCatalog().models.find(
+        (model) => model.id === "test-model"
+      );
+
+      expect(testModel).toEqual({
+        id: "test-model",
+        displayName: "テスト用モデル（APIなし）",
+        contextWindow: 4096,
+        supportsSearch: true,
+        costTier: "free",
+        enabled: true,
+      });
+    });
+
+    test("APIキーが未設定の場合はOpenAI互換モデルを初期選択とすること", () => {
+      delete process.env.OPENAI_API_KEY;
+      process.env.OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+      process.env.OPENAI_COMPATIBLE_MODELS = "llama3";
+
+      const catalog = getModelCatalog();
+
+      expect(
+        catalog.models
+          .filter((model) => model.enabled)
+          .map((model) => model.id)
+      ).toEqual(["llama3"]);
+      expect(catalog.defaultModel).toBe("llama3");
+    });
+  });
+});
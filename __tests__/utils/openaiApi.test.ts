@@ -1,9 +1,37 @@
-import { getChatbotResponse } from "@/utils/openaiApi";
+/**
+ * @jest-environment node
+ */
+import {
+  getChatbotResponse,
+  getChatbotResponseStream,
+  isRateLimitError,
+} from "@/utils/openaiApi";
 import { DEFAULT_MODEL } from "@/types/model";
+import { Message } from "@/types/message";
 
 // fetchのモック
 global.fetch = jest.fn();
 
+/**
+ * SSE形式のチャンク列を返すレスポンスボディのモックを生成する
+ *
+ * @param chunks 送信するテキストチャンクの配列
+ * @returns getReaderを持つボディのモック
+ */
+const createStreamBody = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const queue = chunks.map((chunk) => encoder.encode(chunk));
+  return {
+    getReader: () => ({
+      read: jest.fn(async () =>
+        queue.length > 0
+          ? { done: false, value: queue.shift() }
+          : { done: true, value: undefined }
+      ),
+    }),
+  };
+};
+
 describe("openaiApi ユーティリティ", () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -37,6 +65,7 @@ describe("openaiApi ユーティリティ", () => {
         body: JSON.stringify({
           prompt: "テスト質問",
           model: DEFAULT_MODEL,
+          history: [],
         }),
         signal: undefined,
       });
@@ -75,6 +104,7 @@ describe("openaiApi ユーティリティ", () => {
         body: JSON.stringify({
           prompt: "テスト質問",
           model: "gpt-3.5-turbo",
+          history: [],
         }),
         signal: undefined,
       });
@@ -87,6 +117,45 @@ describe("openaiApi ユーティリティ", () => {
       });
     });
 
+    test("会話履歴が必要な項目のみに絞って送信されること", async () => {
+      // fetchのモック実装
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "回答",
+          isMarkdown: false,
+        }),
+      });
+
+      const history: Message[] = [
+        { id: "user-1", sender: "user", text: "おすすめの本を3冊教えて" },
+        {
+          id: "bot-1",
+          sender: "bot",
+          text: "1. 本A\n2. 本B\n3. 本C",
+          html: "<ol><li>本A</li><li>本B</li><li>本C</li></ol>",
+          isMarkdown: true,
+        },
+      ];
+
+      await getChatbotResponse(
+        "2冊目について詳しく",
+        undefined,
+        DEFAULT_MODEL,
+        history
+      );
+
+      // fetchの呼び出し引数を取得
+      const fetchCall = (global.fetch as jest.Mock).mock.calls[0];
+      const requestBody = JSON.parse(fetchCall[1].body);
+
+      // HTMLなどの表示用データは送信されないことを確認
+      expect(requestBody.history).toEqual([
+        { id: "user-1", sender: "user", text: "おすすめの本を3冊教えて" },
+        { id: "bot-1", sender: "bot", text: "1. 本A\n2. 本B\n3. 本C" },
+      ]);
+    });
+
     test("入力が1000文字に制限されること", async () => {
       // 1200文字の入力を作成
       const longInput = "a".repeat(1200);
@@ -139,6 +208,19 @@ describe("openaiApi ユーティリティ", () => {
         "リクエストがタイムアウトしました"
       );
 
+      // fetchのモック実装 - 401エラー（APIキーが無効）
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: jest.fn().mockResolvedValueOnce({
+          error: "A valid API key is required",
+        }),
+      });
+
+      await expect(getChatbotResponse("テスト質問")).rejects.toThrow(
+        "APIキーが無効か、指定されていません"
+      );
+
       // fetchのモック実装 - その他のエラー
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
@@ -153,6 +235,40 @@ describe("openaiApi ユーティリティ", () => {
       );
     });
 
+    test("レート制限を超えた場合はRetry-Afterの時間をエラーに含めること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ "Retry-After": "12" }),
+        json: jest.fn().mockResolvedValueOnce({
+          error: "Rate limit exceeded",
+        }),
+      });
+
+      const error = await getChatbotResponse("テスト質問").catch((e) => e);
+
+      expect(isRateLimitError(error)).toBe(true);
+      expect(error.retryAfterMs).toBe(12000);
+      expect(error.message).toContain("リクエスト回数の制限を超えました");
+    });
+
+    test("Retry-AfterがHTTP日付の場合は現在時刻からの時間に変換すること", async () => {
+      jest.useFakeTimers().setSystemTime(new Date("2025-01-01T00:00:00Z"));
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({
+          "Retry-After": "Wed, 01 Jan 2025 00:00:30 GMT",
+        }),
+        json: jest.fn().mockResolvedValueOnce({}),
+      });
+
+      const error = await getChatbotResponse("テスト質問").catch((e) => e);
+      jest.useRealTimers();
+
+      expect(error.retryAfterMs).toBe(30000);
+    });
+
     test("ネットワークエラーを適切に処理すること", async () => {
       // fetchのモック実装 - ネットワークエラー
       (global.fetch as jest.Mock).mockRejectedValueOnce(
@@ -190,5 +306,247 @@ describe("openaiApi ユーティリティ", () => {
         "無効なレスポンス形式です"
       );
     });
+    test("検索結果とキーワードを検証して応答に含めること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "検索結果による回答",
+          searchKeywords: "東京 天気",
+          unusedSources: [1, 3],
+          searchResults: [
+            {
+              title: "天気予報",
+              url: "https://example.com/weather",
+              description: "東京の天気",
+              extra: "不要な項目",
+            },
+            // URLがhttp(s)でない項目は除外される
+            {
+              title: "不正なリンク",
+              url: "javascript:alert(1)",
+              description: "説明",
+            },
+            // 必須項目が欠けている項目は除外される
+            { title: "URLなし", description: "説明" },
+          ],
+        }),
+      });
+
+      const result = await getChatbotResponse("東京の天気は？");
+
+      expect(result.searchKeywords).toBe("東京 天気");
+      expect(result.searchResults).toEqual([
+        {
+          title: "天気予報",
+          url: "https://example.com/weather",
+          description: "東京の天気",
+        },
+      ]);
+      // 除外後の検索結果の範囲外の番号は含めない
+      expect(result.unusedSources).toEqual([1]);
+    });
+
+    test("有効な検索結果がない場合は検索結果を含めないこと", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "回答",
+          searchKeywords: "キーワード",
+          searchResults: "不正な形式",
+        }),
+      });
+
+      const result = await getChatbotResponse("質問");
+
+      expect(result.searchResults).toBeUndefined();
+      expect(result.searchKeywords).toBeUndefined();
+    });
+
+    test("トークン使用量を検証して合計と推定コストのみを含めること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "回答",
+          usage: {
+            promptTokens: 120,
+            completionTokens: 30,
+            totalTokens: 150,
+            estimatedCostUsd: 0.000036,
+            calls: [{ model: "gpt-4o-mini", purpose: "initial" }],
+          },
+        }),
+      });
+
+      const result = await getChatbotResponse("質問");
+
+      expect(result.usage).toEqual({
+        promptTokens: 120,
+        completionTokens: 30,
+        totalTokens: 150,
+        estimatedCostUsd: 0.000036,
+      });
+    });
+
+    test("不正な形式のトークン使用量は含めないこと", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "回答",
+          usage: { promptTokens: -1, completionTokens: 30, totalTokens: 29 },
+        }),
+      });
+
+      const result = await getChatbotResponse("質問");
+
+      expect(result.usage).toBeUndefined();
+    });
+
+    test("Web検索の要否の判断結果を検証して含めること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "回答",
+          searchDecision: {
+            needsSearch: true,
+            reason: "最新の情報がないと述べています",
+            decidedBy: "llm",
+            confidence: 0.9,
+          },
+        }),
+      });
+
+      const result = await getChatbotResponse("質問");
+
+      expect(result.searchDecision).toEqual({
+        needsSearch: true,
+        reason: "最新の情報がないと述べています",
+        decidedBy: "llm",
+        confidence: 0.9,
+      });
+    });
+
+    test("不正な形式のWeb検索の要否の判断結果は含めないこと", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          text: "回答",
+          searchDecision: { needsSearch: true, decidedBy: "oracle" },
+        }),
+      });
+
+      const result = await getChatbotResponse("質問");
+
+      expect(result.searchDecision).toBeUndefined();
+    });
+
+    test("応答を生成した経路を検証して含めること", async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValueOnce({
+            text: "回答",
+            searchRoute: "pre-answer",
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValueOnce({
+            text: "回答",
+            searchRoute: "shortcut",
+          }),
+        });
+
+      expect((await getChatbotResponse("質問")).searchRoute).toBe(
+        "pre-answer"
+      );
+      expect((await getChatbotResponse("質問")).searchRoute).toBeUndefined();
+    });
+  });
+
+  describe("getChatbotResponseStream 関数", () => {
+    test("差分を受信するたびにコールバックが呼ばれ、最終応答が返されること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: createStreamBody([
+          'event: delta\ndata: {"delta":"こんに"}\n\n',
+          'event: delta\ndata: {"delta":"ちは"}\n\nevent: do',
+          'ne\ndata: {"text":"こんにちは","html":"<p>こんにちは</p>","isMarkdown":true}\n\n',
+        ]),
+      });
+      const onDelta = jest.fn();
+
+      const result = await getChatbotResponseStream("テスト質問", { onDelta });
+
+      // ストリーミングが要求されていることを確認
+      const requestBody = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[0][1].body
+      );
+      expect(requestBody.stream).toBe(true);
+
+      expect(onDelta).toHaveBeenNthCalledWith(1, "こんに", "こんに");
+      expect(onDelta).toHaveBeenNthCalledWith(2, "ちは", "こんにちは");
+      expect(result).toEqual({
+        text: "こんにちは",
+        html: "<p>こんにちは</p>",
+        isMarkdown: true,
+      });
+    });
+
+    test("resetイベントで途中までの応答が破棄されること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: createStreamBody([
+          'event: delta\ndata: {"delta":"古い応答"}\n\n',
+          'event: reset\ndata: {"reason":"web-search"}\n\n',
+          'event: delta\ndata: {"delta":"新しい"}\n\n',
+          'event: done\ndata: {"text":"新しい応答"}\n\n',
+        ]),
+      });
+      const onDelta = jest.fn();
+      const onReset = jest.fn();
+
+      await getChatbotResponseStream("テスト質問", { onDelta, onReset });
+
+      expect(onReset).toHaveBeenCalledWith("web-search");
+      expect(onDelta).toHaveBeenLastCalledWith("新しい", "新しい");
+    });
+
+    test("errorイベントを受信した場合はエラーをスローすること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: createStreamBody([
+          'event: error\ndata: {"error":"Request timed out","status":504}\n\n',
+        ]),
+      });
+
+      await expect(
+        getChatbotResponseStream("テスト質問", { onDelta: jest.fn() })
+      ).rejects.toThrow("リクエストがタイムアウトしました");
+    });
+
+    test("doneイベントを受信せずに終了した場合はエラーをスローすること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        body: createStreamBody(['event: delta\ndata: {"delta":"途中"}\n\n']),
+      });
+
+      await expect(
+        getChatbotResponseStream("テスト質問", { onDelta: jest.fn() })
+      ).rejects.toThrow("応答のストリーミングが途中で終了しました");
+    });
+
+    test("ストリーム開始前のエラーレスポンスを適切に処理すること", async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        json: jest.fn().mockResolvedValueOnce({
+          error: "Too many requests",
+        }),
+      });
+
+      await expect(
+        getChatbotResponseStream("テスト質問", { onDelta: jest.fn() })
+      ).rejects.toThrow("リクエスト回数の制限を超えました");
+    });
   });
 });
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import {
+  RATE_LIMIT_HEADER_NAMES,
+  toRateLimitHeaders,
+  TokenBucketResult,
+} from "@/app/utils/rateLimit";
+
+/**
+ * レート制限の応答ヘッダーのテスト
+ */
+describe("toRateLimitHeaders 関数", () => {
+  const result: TokenBucketResult = {
+    allowed: true,
+    bucket: "minute",
+    limit: 10,
+    remaining: 4,
+    resetMs: 36200,
+    retryAfterMs: 0,
+  };
+
+  test("許可された場合は上限・残り・回復までの秒数を返すこと", () => {
+    expect(toRateLimitHeaders(result)).toEqual({
+      [RATE_LIMIT_HEADER_NAMES.LIMIT]: "10",
+      [RATE_LIMIT_HEADER_NAMES.REMAINING]: "4",
+      [RATE_LIMIT_HEADER_NAMES.RESET]: "37",
+    });
+  });
+
+  test("拒否された場合はRetry-Afterを切り上げた秒数で返すこと", () => {
+    const headers = toRateLimitHeaders({
+      ...result,
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 12001,
+    });
+
+    expect(headers[RATE_LIMIT_HEADER_NAMES.REMAINING]).toBe("0");
+    expect(headers[RATE_LIMIT_HEADER_NAMES.RETRY_AFTER]).toBe("13");
+  });
+
+  test("Retry-Afterは1秒以上とすること", () => {
+    const headers = toRateLimitHeaders({
+      ...result,
+      allowed: false,
+      retryAfterMs: 0,
+    });
+
+    expect(headers[RATE_LIMIT_HEADER_NAMES.RETRY_AFTER]).toBe("1");
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createLogger } from "@/app/utils/logger";
+import {
+  createFileRateLimitStore,
+  createMemoryRateLimitStore,
+  createRateLimitStore,
+  rateLimit,
+  RateLimitStore,
+  RATE_LIMIT_STORE_ERROR_MESSAGES,
+} from "@/app/utils/rateLimit";
+
+/**
+ * 呼び出し回数を数える更新関数でストアを更新するヘルパー関数
+ */
+function increment(store: RateLimitStore, key: string, ttlMs = 1000) {
+  return store.update<number, number>(key, (count = 0) => ({
+    state: count + 1,
+    ttlMs,
+    result: count + 1,
+  }));
+}
+
+/**
+ * レート制限ストアのテスト
+ *
+ * メモリストア・ファイルストアの状態の更新と、設定によるストアの選択をテストします
+ * （Redisストアは redisRateLimitStore.test.ts でテストします）
+ */
+describe("レート制限ストア", () => {
+  const originalConsoleError = console.error;
+
+  beforeEach(() => {
+    console.error = jest.fn();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+    jest.useRealTimers();
+  });
+
+  describe("createMemoryRateLimitStore", () => {
+    test("キーごとに状態を更新し、有効期間を過ぎた状態は破棄すること", async () => {
+      jest.useFakeTimers();
+      const store = createMemoryRateLimitStore({ maxKeys: 10 });
+
+      expect(await increment(store, "a", 100)).toBe(1);
+      expect(await increment(store, "a", 100)).toBe(2);
+      expect(await increment(store, "b", 100)).toBe(1);
+
+      jest.advanceTimersByTime(100);
+
+      expect(await increment(store, "a", 100)).toBe(1);
+    });
+
+    test("キー数が上限を超えた場合、最も長く更新されていないキーを削除すること", async () => {
+      const store = createMemoryRateLimitStore({ maxKeys: 2 });
+
+      await increment(store, "a");
+      await increment(store, "b");
+      await increment(store, "a");
+      await increment(store, "c");
+
+      // bが削除され、aの状態は残る
+      expect(await increment(store, "a")).toBe(3);
+      expect(await increment(store, "b")).toBe(1);
+    });
+
+    test("状態を書き込まずに読み込めること", async () => {
+      jest.useFakeTimers();
+      const store = createMemoryRateLimitStore({ maxKeys: 10 });
+      await increment(store, "a", 100);
+
+      expect(await store.get("a")).toBe(1);
+      expect(await store.get("b")).toBeUndefined();
+      expect(await increment(store, "a", 100)).toBe(2);
+
+      jest.advanceTimersByTime(100);
+
+      expect(await store.get("a")).toBeUndefined();
+    });
+  });
+
+  describe("createFileRateLimitStore", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), "rate-limit-"));
+      filePath = join(tempDir, "rate-limit.json");
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    test("状態をファイルに保存し、別のストアからも参照できること", async () => {
+      const store = createFileRateLimitStore({ path: filePath });
+
+      expect(await increment(store, "client")).toBe(1);
+      expect(await increment(store, "client")).toBe(2);
+
+      // 再起動後や別のインスタンスを想定して新しいストアを生成
+      const anotherStore = createFileRateLimitStore({ path: filePath });
+      expect(await increment(anotherStore, "client")).toBe(3);
+
+      const saved = JSON.parse(await readFile(filePath, "utf-8"));
+      expect(saved.client.state).toBe(3);
+    });
+
+    test("状態を書き込まずに読み込めること", async () => {
+      const store = createFileRateLimitStore({ path: filePath });
+
+      // ファイルがない場合は状態がないものとして扱い、ファイルを作成しない
+      expect(await store.get("client")).toBeUndefined();
+      await expect(readFile(filePath, "utf-8")).rejects.toThrow();
+
+      await increment(store, "client");
+      expect(await store.get("client")).toBe(1);
+    });
+
+    test("同時に実行された更新を取りこぼさないこと", async () => {
+      const store = createFileRateLimitStore({ path: filePath });
+      const anotherStore = createFileRateLimitStore({ path: filePath });
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          increment(i % 2 === 0 ? store : anotherStore, "client")
+        )
+      );
+
+      expect(await increment(store, "client")).toBe(11);
+    });
+
+    test("期限切れの状態は書き込み時に削除すること", async () => {
+      const store = createFileRateLimitStore({ path: filePath });
+      await writeFile(
+        filePath,
+        JSON.stringify({ old: { state: 5, expiresAt: Date.now() - 1 } }),
+        "utf-8"
+      );
+
+      await increment(store, "client");
+
+      const saved = JSON.parse(await readFile(filePath, "utf-8"));
+      expect(Object.keys(saved)).toEqual(["client"]);
+    });
+
+    test("ファイルの内容が壊れている場合は警告して空の状態から始めること", async () => {
+      const writeLog = jest.fn();
+      const logger = createLogger({
+        level: "info",
+        promptLogging: "redact",
+        write: writeLog,
+      });
+      const store = createFileRateLimitStore({ path: filePath, logger });
+      await writeFile(filePath, "{broken", "utf-8");
+
+      expect(await increment(store, "client")).toBe(1);
+      expect(writeLog).toHaveBeenCalledWith("warn", expect.any(String));
+    });
+
+    test("rateLimitの保存先として使用できること", async () => {
+      const limiter = rateLimit({
+        interval: 60000,
+        uniqueTokenPerInterval: 10,
+        store: createFileRateLimitStore({ path: filePath }),
+      });
+
+      await expect(limiter.check(1, "client")).resolves.not.toThrow();
+      await expect(limiter.check(1, "client")).rejects.toThrow(
+        "Rate limit exceeded"
+      );
+    });
+  });
+
+  describe("createRateLimitStore", () => {
+    test("未指定の場合はメモリストアを生成すること", () => {
+      expect(createRateLimitStore({ maxKeys: 10 }).name).toBe("memory");
+    });
+
+    test("設定に応じたストアを生成すること", () => {
+      expect(
+        createRateLimitStore({
+          store: "Redis",
+          redisUrl: "redis://localhost:6379",
+          maxKeys: 10,
+        }).name
+      ).toBe("redis");
+      expect(
+        createRateLimitStore({ store: "file", filePath: "/tmp/x", maxKeys: 10 })
+          .name
+      ).toBe("file");
+    });
+
+    test("必要な設定が不足している場合はエラーをスローすること", () => {
+      expect(() =>
+        createRateLimitStore({ store: "redis", maxKeys: 10 })
+      ).toThrow(RATE_LIMIT_STORE_ERROR_MESSAGES.REDIS_URL_REQUIRED);
+      expect(() =>
+        createRateLimitStore({ store: "file", maxKeys: 10 })
+      ).toThrow(RATE_LIMIT_STORE_ERROR_MESSAGES.FILE_PATH_REQUIRED);
+    });
+
+    test("不明なストア名の場合はエラーをスローすること", () => {
+      expect(() =>
+        createRateLimitStore({ store: "sqlite", maxKeys: 10 })
+      ).toThrow(RATE_LIMIT_STORE_ERROR_MESSAGES.UNKNOWN_STORE("sqlite"));
+    });
+  });
+});
@@ -1,9 +1,15 @@
-import { needsWebSearchInfo } from "@/app/utils/openai/searchAnalyzer";
+import {
+  analyzeSearchNeed,
+  isSearchDebugTraceEnabled,
+  needsWebSearchInfo,
+  SEARCH_ANALYZER_ERROR_MESSAGES,
+} from "@/app/utils/openai/searchAnalyzer";
 
 /**
  * searchAnalyzer ユーティリティのテスト
  *
- * needsWebSearchInfo関数の様々なパターンに対するテストを行います
+ * needsWebSearchInfo関数の様々なパターンに対するテストと、
+ * analyzeSearchNeed関数が返す判定の過程のテストを行います
  */
 describe("searchAnalyzer ユーティリティ", () => {
   /**
@@ -218,5 +224,143 @@ describe("searchAnalyzer ユーティリティ", () => {
         expect(needsWebSearchInfo(text)).toBe(true);
       });
     });
+
+    describe("英語の応答", () => {
+      test("知識の期限に言及している場合、trueを返す", () => {
+        expect(
+          needsWebSearchInfo(
+            "As of my last update in 2023, the latest stable release was 5.2."
+          )
+        ).toBe(true);
+        expect(
+          needsWebSearchInfo(
+            "My knowledge cutoff is October 2023, so I may not know about recent changes."
+          )
+        ).toBe(true);
+      });
+
+      test("リアルタイムの情報を持っていないと述べている場合、trueを返す", () => {
+        const text =
+          "I don't have real-time data, so I can't tell you today's exchange rate.";
+        expect(needsWebSearchInfo(text)).toBe(true);
+      });
+
+      test("古い年の知識の期限に言及している場合も、trueを返す", () => {
+        const text =
+          "My training data only goes up to 2021, so this may be outdated.";
+        expect(needsWebSearchInfo(text)).toBe(true);
+      });
+
+      test("英語の年月の表記で1年前の時点に言及している場合、trueを返す", () => {
+        expect(
+          needsWebSearchInfo(
+            "According to figures from January 2024, the trend was growing."
+          )
+        ).toBe(true);
+        expect(
+          needsWebSearchInfo(
+            "Figures published on 2024-01 show that the trend was growing."
+          )
+        ).toBe(true);
+      });
+
+      test("「as of X年」の表記で古い年に言及している場合、trueを返す", () => {
+        const text = "As of 2023, this framework was the most popular choice.";
+        expect(needsWebSearchInfo(text)).toBe(true);
+      });
+
+      test("歴史的事実の説明の場合、falseを返す", () => {
+        const text =
+          "The product was released in May 2020 and quickly became a best seller.";
+        expect(needsWebSearchInfo(text)).toBe(false);
+      });
+
+      test("一般的な説明の場合、falseを返す", () => {
+        const text =
+          "A binary search repeatedly halves the search interval. Let me explain in detail with an example.";
+        expect(needsWebSearchInfo(text)).toBe(false);
+      });
+
+      test("短い回答で情報不足を示す場合、trueを返す", () => {
+        expect(needsWebSearchInfo("I'm not sure.")).toBe(true);
+      });
+    });
+  });
+
+  describe("analyzeSearchNeed 関数", () => {
+    test("判定を決めた規則と一致したパターンを返すこと", () => {
+      const analysis = analyzeSearchNeed(
+        "私の知識は2023年9月までです。最新の状況は公式サイトで確認してください。"
+      );
+
+      expect(analysis).toMatchObject({
+        needsSearch: true,
+        rule: "strong-pattern",
+        language: "ja",
+        years: [2023],
+        monthYear: { year: 2023, month: 9 },
+      });
+      expect(analysis.matchedPatterns.strong.length).toBeGreaterThan(0);
+      expect(analysis.matchedPatterns.moderate.length).toBe(analysis.score);
+      expect(analysis.thresholds.MODERATE_MATCH_THRESHOLD).toBe(2);
+    });
+
+    test.each([
+      [
+        "2026年の市場予測については情報がありません。",
+        "future-year",
+        true,
+      ],
+      [
+        "2020年にこの技術が登場して以来、多くの企業が採用しています。",
+        "old-years",
+        false,
+      ],
+      [
+        "最新の研究では、この分野において重要な進展が見られています。",
+        "exclusion",
+        false,
+      ],
+      [
+        "わかりません。",
+        "short-answer",
+        true,
+      ],
+      [
+        "2023年時点では、このフレームワークが最も人気でした。",
+        "time-context",
+        true,
+      ],
+      [
+        "この質問の答えは42です。",
+        "none",
+        false,
+      ],
+    ])("規則ごとの判定を返すこと: %s", (text, rule, needsSearch) => {
+      expect(analyzeSearchNeed(text)).toMatchObject({ rule, needsSearch });
+    });
+
+    test("needsWebSearchInfo関数の判定と一致すること", () => {
+      const text =
+        "2025年における最新の市場状況については不明確です。最近の傾向を知るには、公式サイトで確認することをお勧めします。";
+
+      expect(analyzeSearchNeed(text)).toMatchObject({
+        needsSearch: needsWebSearchInfo(text),
+        rule: "moderate-patterns",
+      });
+    });
+  });
+
+  describe("isSearchDebugTraceEnabled 関数", () => {
+    test("未指定の場合は無効とすること", () => {
+      expect(isSearchDebugTraceEnabled()).toBe(false);
+      expect(isSearchDebugTraceEnabled(" ON ")).toBe(true);
+    });
+
+    test("不明な設定値の場合はエラーをスローすること", () => {
+      expect(() => isSearchDebugTraceEnabled("verbose")).toThrow(
+        SEARCH_ANALYZER_ERROR_MESSAGES.UNKNOWN_DEBUG_TRACE_MODE("verbose")
+      );
+    });
   });
 });
@@ -0,0 +1,265 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createSearchNeedStrategy,
+  SEARCH_DECISION_ERROR_MESSAGES,
+} from "@/app/utils/openai/searchDecision";
+import { createRequestContext } from "@/app/utils/openai/requestContext";
+import { analyzeSearchNeed } from "@/app/utils/openai/searchAnalyzer";
+import { createLogger } from "@/app/utils/logger";
+import { ModelId, TEST_MODEL_ID } from "@/types/model";
+
+/**
+ * OpenAIクライアントの応答生成のモック
+ * （クライアントは最初の呼び出し時に生成されるため、ファクトリ内から参照できる）
+ */
+const mockCreate = jest.fn();
+
+// OpenAIモジュールをモック化
+jest.mock("openai", () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } },
+  })),
+}));
+
+/**
+ * LLMが判定結果の報告用の関数を呼び出した応答を生成するヘルパー関数
+ */
+function classifierResponse(args: unknown) {
+  return {
+    choices: [
+      {
+        message: {
+          tool_calls: [
+            {
+              type: "function",
+              function: {
+                name: "report_search_need",
+                arguments: JSON.stringify(args),
+              },
+            },
+          ],
+        },
+      },
+    ],
+    usage: { prompt_tokens: 120, completion_tokens: 20 },
+  };
+}
+
+/**
+ * searchDecision のテスト
+ *
+ * 判定方式ごとのWeb検索の要否の判断、LLMによる判定に失敗した場合の代替、
+ * 判定方式の選択をテストします
+ */
+describe("searchDecision", () => {
+  const writeLog = jest.fn();
+  const logger = createLogger({
+    level: "debug",
+    promptLogging: "redact",
+    write: writeLog,
+  });
+  const context = (model: ModelId = "gpt-4o-mini", signal?: AbortSignal) =>
+    createRequestContext(model, signal, logger);
+
+  /** パターンマッチングで補完が必要と判定される初期応答 */
+  const outdatedResponse = "申し訳ありませんが、最新の情報がありません。";
+  /** パターンマッチングでは検出できない言い換えの初期応答 */
+  const paraphrasedResponse =
+    "The newest figures I have seen are from a while ago, so things may differ now.";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("regex", () => {
+    test("パターンマッチングで判定し、LLMを呼び出さないこと", async () => {
+      const strategy = createSearchNeedStrategy("regex");
+
+      const decision = await strategy.decide(
+        { prompt: "今日のニュースは？", response: outdatedResponse },
+        context()
+      );
+
+      expect(decision).toMatchObject({
+        needsSearch: true,
+        decidedBy: "regex",
+      });
+      expect(decision.reason).not.toBe("");
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    test("判定済みのパターンマッチングの結果が渡された場合はそれを使用すること", async () => {
+      const strategy = createSearchNeedStrategy("regex");
+
+      const decision = await strategy.decide(
+        {
+          prompt: "今日のニュースは？",
+          response: paraphrasedResponse,
+          analysis: analyzeSearchNeed(outdatedResponse),
+        },
+        context()
+      );
+
+      expect(decision.needsSearch).toBe(true);
+    });
+  });
+
+  describe("llm", () => {
+    test("関数呼び出しで返された判定結果を使用すること", async () => {
+      mockCreate.mockResolvedValueOnce(
+        classifierResponse({
+          needsSearch: true,
+          reason: "回答がリアルタイムの情報を持っていないと述べています",
+          confidence: 0.9,
+        })
+      );
+      const requestContext = context();
+
+      const decision = await createSearchNeedStrategy("llm").decide(
+        { prompt: "What's new?", response: paraphrasedResponse },
+        requestContext
+      );
+
+      expect(decision).toEqual({
+        needsSearch: true,
+        reason: "回答がリアルタイムの情報を持っていないと述べています",
+        decidedBy: "llm",
+        confidence: 0.9,
+      });
+      expect(mockCreate.mock.calls[0][0]).toMatchObject({
+        model: "gpt-4o-mini",
+        tool_choice: {
+          type: "function",
+          function: { name: "report_search_need" },
+        },
+      });
+      expect(requestContext.usage.summarize()?.calls).toEqual([
+        {
+          model: "gpt-4o-mini",
+          purpose: "search-decision",
+          promptTokens: 120,
+          completionTokens: 20,
+        },
+      ]);
+    });
+
+    test("判定結果の形式が不正な場合はパターンマッチングの結果を使用すること", async () => {
+      mockCreate.mockResolvedValueOnce(
+        classifierResponse({ needsSearch: "yes", reason: "" })
+      );
+
+      const decision = await createSearchNeedStrategy("llm").decide(
+        { prompt: "今日のニュースは？", response: outdatedResponse },
+        context()
+      );
+
+      expect(decision).toMatchObject({
+        needsSearch: true,
+        decidedBy: "regex",
+      });
+      expect(writeLog).toHaveBeenCalledWith("warn", expect.any(String));
+    });
+
+    test("API呼び出しに失敗した場合はパターンマッチングの結果を使用すること", async () => {
+      mockCreate.mockRejectedValueOnce(new Error("API error"));
+
+      const decision = await createSearchNeedStrategy("llm").decide(
+        { prompt: "東京はどこ？", response: "東京は日本の首都です。" },
+        context()
+      );
+
+      expect(decision).toMatchObject({
+        needsSearch: false,
+        decidedBy: "regex",
+      });
+    });
+
+    test("リクエストが中断された場合はエラーをスローすること", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      mockCreate.mockRejectedValueOnce(new Error("Request was aborted."));
+
+      await expect(
+        createSearchNeedStrategy("llm").decide(
+          { prompt: "今日のニュースは？", response: paraphrasedResponse },
+          context("gpt-4o-mini", controller.signal)
+        )
+      ).rejects.toThrow("Request was aborted.");
+    });
+
+    test("テストモードでは外部APIを呼び出さないこと", async () => {
+      const decision = await createSearchNeedStrategy("llm").decide(
+        { prompt: "今日のニュースは？", response: outdatedResponse },
+        context(TEST_MODEL_ID as ModelId)
+      );
+
+      expect(decision.decidedBy).toBe("regex");
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("hybrid", () => {
+    test("パターンマッチングで補完が必要な場合はLLMを呼び出さないこと", async () => {
+      const decision = await createSearchNeedStrategy("hybrid").decide(
+        { prompt: "今日のニュースは？", response: outdatedResponse },
+        context()
+      );
+
+      expect(decision.decidedBy).toBe("regex");
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    test("パターンマッチングで検出できない場合はLLMの判定を使用すること", async () => {
+      mockCreate.mockResolvedValueOnce(
+        classifierResponse({
+          needsSearch: true,
+          reason: "最新の情報がないと述べています",
+          confidence: 0.8,
+        })
+      );
+
+      const decision = await createSearchNeedStrategy("hybrid").decide(
+        { prompt: "What's new?", response: paraphrasedResponse },
+        context()
+      );
+
+      expect(decision).toMatchObject({ needsSearch: true, decidedBy: "llm" });
+    });
+
+    test("LLMの判定の確信度が低い場合は採用しないこと", async () => {
+      mockCreate.mockResolvedValueOnce(
+        classifierResponse({
+          needsSearch: true,
+          reason: "判断が難しい回答です",
+          confidence: 0.3,
+        })
+      );
+
+      const decision = await createSearchNeedStrategy("hybrid").decide(
+        { prompt: "What's new?", response: paraphrasedResponse },
+        context()
+      );
+
+      expect(decision).toMatchObject({
+        needsSearch: false,
+        decidedBy: "regex",
+      });
+    });
+  });
+
+  describe("createSearchNeedStrategy 関数", () => {
+    test("未指定の場合はパターンマッチングを使用すること", () => {
+      expect(createSearchNeedStrategy().name).toBe("regex");
+      expect(createSearchNeedStrategy(" HYBRID ").name).toBe("hybrid");
+    });
+
+    test("不明な判定方式の場合はエラーをスローすること", () => {
+      expect(() => createSearchNeedStrategy("bayes")).toThrow(
+        SEARCH_DECISION_ERROR_MESSAGES.UNKNOWN_STRATEGY("bayes")
+      );
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @jest-environment node
+ */
+import { createLogger } from "@/app/utils/logger";
+import { createRequestContext } from "@/app/utils/openai/requestContext";
+import {
+  createSearchNeedStrategy,
+  SearchNeedStrategy,
+} from "@/app/utils/openai/searchDecision";
+import {
+  createSearchEvalStrategies,
+  evaluateSearchNeedStrategy,
+  findThresholdViolations,
+  formatSearchEvalReport,
+  isSearchEvalLLMEnabled,
+  LabeledSearchNeedSample,
+  loadSearchNeedCorpus,
+  parseSearchNeedCorpus,
+  SEARCH_EVAL_ERROR_MESSAGES,
+  SEARCH_EVAL_SETTINGS,
+} from "@/app/utils/openai/searchEval";
+import { SearchDecision } from "@/types/message";
+import { TEST_MODEL_ID } from "@/types/model";
+
+/**
+ * searchEval のテスト
+ *
+ * コーパスの解釈、適合率・再現率・混同行列と規則ごとの件数の集計、
+ * 既定のコーパスに対する判定精度の回帰をテストします
+ */
+describe("searchEval", () => {
+  /**
+   * 正解のラベルを付けた応答を生成するヘルパー関数
+   */
+  const sample = (
+    id: string,
+    expected: boolean,
+    text = id
+  ): LabeledSearchNeedSample => ({ id, text, expected, asOf: "2025-05-01" });
+
+  /**
+   * 外部APIに接続しないリクエストコンテキストを生成するヘルパー関数
+   */
+  const context = () =>
+    createRequestContext(
+      TEST_MODEL_ID,
+      undefined,
+      createLogger({
+        level: "error",
+        promptLogging: "redact",
+        write: jest.fn(),
+      })
+    );
+
+  /**
+   * 固定の判定結果を返す判定方式を生成するヘルパー関数
+   */
+  const fixedStrategy = (
+    name: string,
+    decide: (response: string) => Omit<SearchDecision, "reason">
+  ): SearchNeedStrategy => ({
+    name,
+    decide: async ({ response }) => ({ reason: "", ...decide(response) }),
+  });
+
+  describe("parseSearchNeedCorpus 関数", () => {
+    test("空行とコメント行を無視して解釈すること", () => {
+      const samples = parseSearchNeedCorpus(
+        [
+          "// コメント",
+          '{"id": "a", "text": "回答", "expected": true, "asOf": "2025-05-01", "prompt": "質問", "note": "補足"}',
+          "",
+          '{"id": "b", "text": "回答", "expected": false, "asOf": "2025-05-01"}',
+        ].join("\n")
+      );
+
+      expect(samples).toEqual([
+        {
+          id: "a",
+          text: "回答",
+          expected: true,
+          asOf: "2025-05-01",
+          prompt: "質問",
+          note: "補足",
+        },
+        { id: "b", text: "回答", expected: false, asOf: "2025-05-01" },
+      ]);
+    });
+
+    test("形式が不正な行がある場合は行番号とともにエラーをスローすること", () => {
+      expect(() => parseSearchNeedCorpus("{")).toThrow(
+        SEARCH_EVAL_ERROR_MESSAGES.INVALID_JSON(1)
+      );
+      expect(() =>
+        parseSearchNeedCorpus(
+          '\n{"id": "a", "text": "回答", "expected": "yes", "asOf": "2025-05-01"}'
+        )
+      ).toThrow(SEARCH_EVAL_ERROR_MESSAGES.INVALID_SAMPLE(2));
+      expect(() =>
+        parseSearchNeedCorpus(
+          '{"id": "a", "text": "回答", "expected": true, "asOf": "May 1"}'
+        )
+      ).toThrow(SEARCH_EVAL_ERROR_MESSAGES.INVALID_SAMPLE(1));
+    });
+
+    test("IDが重複している場合はエラーをスローすること", () => {
+      const line =
+        '{"id": "a", "text": "回答", "expected": true, "asOf": "2025-05-01"}';
+
+      expect(() => parseSearchNeedCorpus(`${line}\n${line}`)).toThrow(
+        SEARCH_EVAL_ERROR_MESSAGES.DUPLICATE_ID("a")
+      );
+    });
+  });
+
+  describe("evaluateSearchNeedStrategy 関数", () => {
+    /** テキストに「検索」を含む場合はLLM、それ以外はパターンマッチングで判定したとする判定方式 */
+    const strategy = fixedStrategy("keyword", (response) =>
+      response.includes("検索")
+        ? { needsSearch: true, decidedBy: "llm" }
+        : { needsSearch: false, decidedBy: "regex" }
+    );
+
+    test("混同行列・適合率・再現率・規則ごとの件数を集計すること", async () => {
+      const report = await evaluateSearchNeedStrategy(
+        [
+          sample("tp", true, "検索"),
+          sample("fp", false, "検索"),
+          sample("fn", true, "回答"),
+          sample("tn1", false, "回答"),
+          sample("tn2", false, "回答"),
+        ],
+        strategy,
+        context()
+      );
+
+      expect(report).toMatchObject({
+        strategy: "keyword",
+        total: 5,
+        confusion: {
+          truePositive: 1,
+          falsePositive: 1,
+          trueNegative: 2,
+          falseNegative: 1,
+        },
+        precision: 0.5,
+        recall: 0.5,
+        f1: 0.5,
+        accuracy: 0.6,
+        // パターンマッチングで判定した場合は判定を決めた規則ごとに集計する
+        ruleHits: {
+          llm: { hits: 2, correct: 1 },
+          none: { hits: 3, correct: 2 },
+        },
+      });
+      expect(report.misclassified.map(({ id }) => id)).toEqual(["fp", "fn"]);
+    });
+
+    test("サンプルの収集日を基準日としてパターンマッチングで判定すること", async () => {
+      // 収集日（2025年）から見て将来の年に言及している応答
+      const report = await evaluateSearchNeedStrategy(
+        [sample("future", true, "この製品は2026年に発売される予定です。")],
+        createSearchNeedStrategy("regex"),
+        context()
+      );
+
+      expect(report.confusion.truePositive).toBe(1);
+      expect(report.ruleHits).toEqual({
+        "future-year": { hits: 1, correct: 1 },
+      });
+    });
+
+    test("質問とパターンマッチングの結果を判定方式に渡すこと", async () => {
+      const decide = jest.fn().mockResolvedValue({
+        needsSearch: false,
+        reason: "",
+        decidedBy: "llm",
+      });
+
+      await evaluateSearchNeedStrategy(
+        [{ ...sample("a", false, "回答"), prompt: "質問" }],
+        { name: "spy", decide },
+        context()
+      );
+
+      expect(decide).toHaveBeenCalledWith(
+        expect.objectContaining({
+          prompt: "質問",
+          response: "回答",
+          analysis: expect.objectContaining({ rule: "none" }),
+        }),
+        expect.anything()
+      );
+    });
+
+    test("検索が必要と判定したサンプルがない場合は適合率を0とすること", async () => {
+      const report = await evaluateSearchNeedStrategy(
+        [sample("fn", true, "回答")],
+        strategy,
+        context()
+      );
+
+      expect(report.precision).toBe(0);
+      expect(report.recall).toBe(0);
+      expect(report.f1).toBe(0);
+    });
+  });
+
+  describe("findThresholdViolations 関数", () => {
+    test("閾値を下回った項目のみを返すこと", async () => {
+      const report = await evaluateSearchNeedStrategy(
+        [sample("tp", true), sample("fn", true)],
+        fixedStrategy("half", (response) => ({
+          needsSearch: response === "tp",
+          decidedBy: "llm",
+        })),
+        context()
+      );
+
+      expect(
+        findThresholdViolations(report, { precision: 0.9, recall: 0.9 })
+      ).toEqual(["half: recall 0.500 < 0.9"]);
+      expect(
+        findThresholdViolations(report, { precision: 0.9, recall: 0.5 })
+      ).toEqual([]);
+    });
+  });
+
+  describe("formatSearchEvalReport 関数", () => {
+    test("混同行列と判定を誤ったサンプルを出力すること", async () => {
+      const report = await evaluateSearchNeedStrategy(
+        [{ ...sample("missed", true), note: "言い換え" }],
+        fixedStrategy("never", () => ({
+          needsSearch: false,
+          decidedBy: "regex",
+        })),
+        context()
+      );
+
+      const output = formatSearchEvalReport(report);
+
+      expect(output).toContain("判定方式: never（1件）");
+      expect(output).toContain("none");
+      expect(output).toContain("missed: 正解=検索 規則=none（言い換え）");
+    });
+  });
+
+  describe("評価する判定方式の選択", () => {
+    test("LLM APIを呼び出す判定方式は有効な場合のみ評価すること", () => {
+      expect(
+        createSearchEvalStrategies(false).map((strategy) => strategy.name)
+      ).toEqual(["regex"]);
+      expect(
+        createSearchEvalStrategies(true).map((strategy) => strategy.name)
+      ).toEqual(["regex", "llm", "hybrid"]);
+    });
+
+    test("未指定の場合は無効とし、不明な設定値の場合はエラーをスローすること", () => {
+      expect(isSearchEvalLLMEnabled()).toBe(false);
+      expect(isSearchEvalLLMEnabled(" ON ")).toBe(true);
+      expect(() => isSearchEvalLLMEnabled("yes")).toThrow(
+        SEARCH_EVAL_ERROR_MESSAGES.UNKNOWN_LLM_MODE("yes")
+      );
+    });
+  });
+
+  describe("既定のコーパスに対する回帰テスト", () => {
+    test("パターンマッチングの適合率・再現率が閾値を下回らないこと", async () => {
+      const samples = await loadSearchNeedCorpus(
+        SEARCH_EVAL_SETTINGS.DEFAULT_CORPUS_PATH
+      );
+      const report = await evaluateSearchNeedStrategy(
+        samples,
+        createSearchNeedStrategy("regex"),
+        context()
+      );
+
+      expect(samples.length).toBeGreaterThan(0);
+      expect(
+        findThresholdViolations(report, SEARCH_EVAL_SETTINGS.THRESHOLDS.regex)
+      ).toEqual([]);
+    });
+  });
+});
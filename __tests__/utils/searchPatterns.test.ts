@@ -0,0 +1,105 @@
+import {
+  detectLanguage,
+  EN_PATTERN_PACK,
+  getPatternPackForText,
+  JA_PATTERN_PACK,
+} from "@/app/utils/searchPatterns";
+
+/**
+ * searchPatterns のテスト
+ *
+ * 応答の言語の判定と、言語に応じたパターン集の選択、年月の表記の解釈をテストします
+ */
+describe("searchPatterns", () => {
+  describe("detectLanguage 関数", () => {
+    test("ひらがな・カタカナを含む場合は日本語と判定すること", () => {
+      expect(detectLanguage("最新のバージョンはv5です。")).toBe("ja");
+      expect(detectLanguage("Node.js 22 がリリースされました")).toBe("ja");
+    });
+
+    test("文字の大半がラテン文字の場合は英語と判定すること", () => {
+      expect(detectLanguage("As of my last update in 2023...")).toBe("en");
+    });
+
+    test("判定できない場合は日本語とすること", () => {
+      expect(detectLanguage("")).toBe("ja");
+      expect(detectLanguage("2023-09 / 42")).toBe("ja");
+      expect(detectLanguage("我的知识截止到2023年")).toBe("ja");
+    });
+  });
+
+  describe("getPatternPackForText 関数", () => {
+    test("テキストの言語のパターン集を返すこと", () => {
+      expect(getPatternPackForText("こんにちは")).toBe(JA_PATTERN_PACK);
+      expect(getPatternPackForText("Hello there")).toBe(EN_PATTERN_PACK);
+    });
+  });
+
+  describe("年月の表記", () => {
+    /**
+     * パターン集の年月の表記を順に試して年月に変換するヘルパー関数
+     */
+    const parseMonthYear = (text: string, pack = EN_PATTERN_PACK) => {
+      for (const { pattern, toMonthYear } of pack.monthYearPatterns) {
+        const match = text.match(pattern);
+        if (match) return toMonthYear(match);
+      }
+      return null;
+    };
+
+    test.each([
+      ["September 2023", { year: 2023, month: 9 }],
+      ["Sept. 2023", { year: 2023, month: 9 }],
+      ["as of Jan 2024", { year: 2024, month: 1 }],
+      ["2023-09", { year: 2023, month: 9 }],
+      ["09/2023", { year: 2023, month: 9 }],
+    ])("英語の表記を解釈すること: %s", (text, expected) => {
+      expect(parseMonthYear(text)).toEqual(expected);
+    });
+
+    test("日本語の表記と数字のみの表記を解釈すること", () => {
+      expect(parseMonthYear("2023年9月時点", JA_PATTERN_PACK)).toEqual({
+        year: 2023,
+        month: 9,
+      });
+      expect(parseMonthYear("2023/09時点", JA_PATTERN_PACK)).toEqual({
+        year: 2023,
+        month: 9,
+      });
+    });
+
+    test("月として解釈できない数字は無視すること", () => {
+      expect(parseMonthYear("2023-42")).toBeNull();
+    });
+  });
+
+  describe("英語の年の表記", () => {
+    /**
+     * 英語のパターン集で年を抽出するヘルパー関数
+     */
+    const extractYears = (text: string) =>
+      Array.from(text.matchAll(EN_PATTERN_PACK.yearPattern)).map(
+        (match) => match[1]
+      );
+
+    test.each([
+      ["In 2024, the project was renamed.", ["2024"]],
+      ["It has been stable since 1999.", ["1999"]],
+      ["The figures are from September 2023.", ["2023"]],
+      ["Support ended in mid-2023.", ["2023"]],
+      ["The 2023 March release added plugins.", ["2023"]],
+    ])("年を表す表現を伴う年を抽出すること: %s", (text, expected) => {
+      expect(extractYears(text)).toEqual(expected);
+    });
+
+    test.each([
+      "Allocate 2048 bytes for the buffer.",
+      "NFS listens on port 2049.",
+      "Use up to 2048 tokens per request.",
+      "Generate keys in 2048-bit RSA.",
+      "The table has around 2000 rows.",
+    ])("年ではない4桁の数字は抽出しないこと: %s", (text) => {
+      expect(extractYears(text)).toEqual([]);
+    });
+  });
+});
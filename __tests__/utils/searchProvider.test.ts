@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { search } from "duck-duck-scrape";
+import {
+  createSearchProvider,
+  SEARCH_PROVIDER_ERROR_MESSAGES,
+} from "@/app/utils/search";
+import { DUCKDUCKGO_ERROR_MESSAGES } from "@/app/utils/search/duckDuckGoProvider";
+
+// duck-duck-scrapeをモック化（実際のWeb検索は行わない）
+jest.mock("duck-duck-scrape", () => ({
+  search: jest.fn(),
+  SafeSearchType: { MODERATE: 0 },
+}));
+
+/**
+ * 検索プロバイダーの選択と各プロバイダーのテスト
+ */
+describe("検索プロバイダー", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("createSearchProvider 関数", () => {
+    test("プロバイダー未指定の場合はDuckDuckGoを使用すること", () => {
+      expect(createSearchProvider({}).name).toBe("duckduckgo");
+    });
+
+    test("プロバイダー名の大文字小文字や前後の空白を無視すること", () => {
+      expect(createSearchProvider({ provider: " Dummy " }).name).toBe("dummy");
+    });
+
+    test("localプロバイダーはコーパスのパスが必要なこと", () => {
+      expect(() => createSearchProvider({ provider: "local" })).toThrow(
+        SEARCH_PROVIDER_ERROR_MESSAGES.CORPUS_PATH_REQUIRED
+      );
+      expect(
+        createSearchProvider({ provider: "local", corpusPath: "corpus.json" })
+          .name
+      ).toBe("local");
+    });
+
+    test("不明なプロバイダー名の場合はエラーをスローすること", () => {
+      expect(() => createSearchProvider({ provider: "bing" })).toThrow(
+        "不明な検索プロバイダーが指定されました: bing"
+      );
+    });
+  });
+
+  describe("DuckDuckGoプロバイダー", () => {
+    test("検索結果を共通の形式に変換し、上限数までに制限すること", async () => {
+      (search as jest.Mock).mockResolvedValueOnce({
+        noResults: false,
+        results: [
+          {
+            title: "結果1",
+            url: "https://example.com/1",
+            description: "説明1",
+            hostname: "example.com",
+          },
+          { title: "結果2", url: "https://example.com/2", description: "" },
+        ],
+      });
+
+      const provider = createSearchProvider({ provider: "duckduckgo" });
+      const results = await provider.search("テスト", { limit: 1 });
+
+      expect(results).toEqual([
+        { title: "結果1", url: "https://example.com/1", description: "説明1" },
+      ]);
+    });
+
+    test("検索結果がない場合は空配列を返すこと", async () => {
+      (search as jest.Mock).mockResolvedValueOnce({
+        noResults: true,
+        results: [],
+      });
+
+      const provider = createSearchProvider({ provider: "duckduckgo" });
+
+      await expect(provider.search("テスト", { limit: 3 })).resolves.toEqual(
+        []
+      );
+    });
+  });
+
+  describe("DuckDuckGoプロバイダーの確認", () => {
+    const signal = new AbortController().signal;
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("トップページに到達できる場合は成功すること", async () => {
+      const fetchMock = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+      const provider = createSearchProvider({ provider: "duckduckgo" });
+
+      await expect(provider.checkHealth?.(signal)).resolves.toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://duckduckgo.com/",
+        expect.objectContaining({ method: "HEAD", signal })
+      );
+      expect(search).not.toHaveBeenCalled();
+    });
+
+    test("異常なステータスコードの場合はエラーをスローすること", async () => {
+      jest
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      const provider = createSearchProvider({ provider: "duckduckgo" });
+
+      await expect(provider.checkHealth?.(signal)).rejects.toThrow(
+        DUCKDUCKGO_ERROR_MESSAGES.UNREACHABLE(503)
+      );
+    });
+  });
+
+  describe("ダミープロバイダー", () => {
+    test("検索クエリを含むダミーの検索結果を上限数まで返すこと", async () => {
+      const provider = createSearchProvider({ provider: "dummy" });
+
+      const results = await provider.search("東京", { limit: 2 });
+
+      expect(results).toHaveLength(2);
+      expect(results[0].title).toContain("東京");
+      expect(search).not.toHaveBeenCalled();
+    });
+  });
+});
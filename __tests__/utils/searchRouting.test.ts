@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import {
+  isPromptRoutingEnabled,
+  routeSearchByPrompt,
+  SEARCH_ROUTING_ERROR_MESSAGES,
+} from "@/app/utils/openai/searchRouting";
+
+/**
+ * searchRouting のテスト
+ *
+ * ユーザーの質問に基づくWeb検索への振り分けと、経路選択の有効・無効の設定をテストします
+ */
+describe("searchRouting", () => {
+  /** 判断の基準とする現在日時（2025年5月1日） */
+  const now = new Date(2025, 4, 1);
+
+  describe("routeSearchByPrompt 関数", () => {
+    test.each([
+      ["今日の東京の天気は？"],
+      ["最新のNode.jsのバージョンはいくつ？"],
+      ["ビットコインの価格を教えて"],
+      ["現在の日本の首相は誰ですか"],
+      ["2025年のヒット曲は？"],
+      ["What is the latest version of TypeScript?"],
+      ["Any news about the election?"],
+    ])("最新の情報が必要な質問はWeb検索に振り分けること: %s", (prompt) => {
+      const decision = routeSearchByPrompt(prompt, now);
+
+      expect(decision).toMatchObject({
+        needsSearch: true,
+        decidedBy: "prompt",
+      });
+      expect(decision.reason).not.toBe("");
+    });
+
+    test.each([
+      ["東京はどこにありますか？"],
+      ["TypeScriptのジェネリクスについて説明して"],
+      ["2010年に起きた出来事を教えて"],
+      ["現在完了形の使い方を教えて"],
+      ["How do I reverse a list in Python?"],
+    ])("最新の情報を必要としない質問は振り分けないこと: %s", (prompt) => {
+      expect(routeSearchByPrompt(prompt, now)).toMatchObject({
+        needsSearch: false,
+        decidedBy: "prompt",
+      });
+    });
+
+    test("より具体的な規則の理由を返すこと", () => {
+      const versionDecision = routeSearchByPrompt(
+        "最新のバージョンを教えて",
+        now
+      );
+      const temporalDecision = routeSearchByPrompt("最新の話題は？", now);
+
+      expect(versionDecision.reason).not.toBe(temporalDecision.reason);
+    });
+  });
+
+  describe("isPromptRoutingEnabled 関数", () => {
+    test("未指定の場合は無効とすること", () => {
+      expect(isPromptRoutingEnabled()).toBe(false);
+      expect(isPromptRoutingEnabled(" ON ")).toBe(true);
+    });
+
+    test("不明な設定値の場合はエラーをスローすること", () => {
+      expect(() => isPromptRoutingEnabled("auto")).toThrow(
+        SEARCH_ROUTING_ERROR_MESSAGES.UNKNOWN_MODE("auto")
+      );
+    });
+  });
+});
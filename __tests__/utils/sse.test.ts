@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { createLogger } from "@/app/utils/logger";
+import {
+  createSSEResponse,
+  formatSSEEvent,
+  SSE_EVENTS,
+} from "@/app/utils/openai/sse";
+
+/**
+ * sse ユーティリティのテスト
+ *
+ * SSEイベントの整形とストリームレスポンスの生成をテストします
+ */
+describe("sse ユーティリティ", () => {
+  const writeLog = jest.fn();
+  const logger = createLogger({
+    level: "info",
+    promptLogging: "redact",
+    write: writeLog,
+  });
+
+  describe("formatSSEEvent 関数", () => {
+    test("イベント名とJSONデータを空行で終わる形式に整形すること", () => {
+      expect(formatSSEEvent(SSE_EVENTS.DELTA, { delta: "こんにちは" })).toBe(
+        'event: delta\ndata: {"delta":"こんにちは"}\n\n'
+      );
+    });
+
+    test("改行を含むデータも1行のdataとして整形されること", () => {
+      const formatted = formatSSEEvent(SSE_EVENTS.DONE, { text: "1行目\n2行目" });
+
+      expect(formatted).toBe('event: done\ndata: {"text":"1行目\\n2行目"}\n\n');
+    });
+  });
+
+  describe("createSSEResponse 関数", () => {
+    test("ハンドラーが送信したイベントを順にストリーミングすること", async () => {
+      const response = createSSEResponse(async (send) => {
+        send(SSE_EVENTS.DELTA, { delta: "a" });
+        send(SSE_EVENTS.DONE, { text: "a" });
+      });
+
+      expect(response.headers.get("Content-Type")).toContain(
+        "text/event-stream"
+      );
+      expect(await response.text()).toBe(
+        'event: delta\ndata: {"delta":"a"}\n\nevent: done\ndata: {"text":"a"}\n\n'
+      );
+    });
+
+    test("ハンドラーでエラーが発生した場合はerrorイベントを送信して終了すること", async () => {
+      const response = createSSEResponse(async (send) => {
+        send(SSE_EVENTS.DELTA, { delta: "a" });
+        throw new Error("生成失敗");
+      }, logger);
+
+      const body = await response.text();
+
+      expect(body).toContain("event: error");
+      expect(body).toContain("生成失敗");
+      // エラーは渡したロガーに構造化ログとして記録する
+      expect(writeLog).toHaveBeenCalledWith(
+        "error",
+        expect.stringContaining('"message":"生成失敗"')
+      );
+    });
+
+    test("クライアントの切断後に送信されたイベントは無視されること", async () => {
+      let resumeHandler: () => void = () => {};
+      const handlerFinished = new Promise<void>((resolve) => {
+        createSSEResponse(async (send) => {
+          await new Promise<void>((resume) => (resumeHandler = resume));
+          send(SSE_EVENTS.DONE, { text: "a" });
+          resolve();
+        })
+          .body?.cancel()
+          .then(() => resumeHandler());
+      });
+
+      // 取り消し済みのストリームへの送信でエラーにならず、ハンドラーが完了すること
+      await expect(handlerFinished).resolves.toBeUndefined();
+    });
+  });
+});
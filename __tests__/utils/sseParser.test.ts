@@ -0,0 +1,83 @@
+import { createSSEParser, SSEEvent } from "@/utils/sseParser";
+
+/**
+ * sseParser ユーティリティのテスト
+ *
+ * SSEストリームのテキストをイベント単位に解析できることをテストします
+ */
+describe("sseParser ユーティリティ", () => {
+  /**
+   * パーサーと受信イベントの配列を生成するヘルパー
+   */
+  const setup = () => {
+    const events: SSEEvent[] = [];
+    const parser = createSSEParser((event) => events.push(event));
+    return { events, parser };
+  };
+
+  test("1つのチャンクに含まれる複数のイベントを解析できること", () => {
+    const { events, parser } = setup();
+
+    parser.push(
+      'event: delta\ndata: {"delta":"こん"}\n\nevent: delta\ndata: {"delta":"にちは"}\n\n'
+    );
+
+    expect(events).toEqual([
+      { event: "delta", data: '{"delta":"こん"}' },
+      { event: "delta", data: '{"delta":"にちは"}' },
+    ]);
+  });
+
+  test("チャンクの境界がイベントの途中にあっても正しく解析できること", () => {
+    const { events, parser } = setup();
+
+    parser.push("event: do");
+    parser.push('ne\ndata: {"text":');
+    expect(events).toEqual([]);
+
+    parser.push('"完了"}\n\n');
+    expect(events).toEqual([{ event: "done", data: '{"text":"完了"}' }]);
+  });
+
+  test("イベント名が省略された場合はmessageとして扱うこと", () => {
+    const { events, parser } = setup();
+
+    parser.push("data: hello\n\n");
+
+    expect(events).toEqual([{ event: "message", data: "hello" }]);
+  });
+
+  test("複数行のデータは改行で連結されること", () => {
+    const { events, parser } = setup();
+
+    parser.push("data: 1行目\ndata: 2行目\n\n");
+
+    expect(events).toEqual([{ event: "message", data: "1行目\n2行目" }]);
+  });
+
+  test("コメント行やデータのないイベントは無視されること", () => {
+    const { events, parser } = setup();
+
+    parser.push(": keep-alive\n\nevent: ping\n\n");
+
+    expect(events).toEqual([]);
+  });
+
+  test("CRLFの改行コードでも解析できること", () => {
+    const { events, parser } = setup();
+
+    parser.push("event: reset\r\ndata: {}\r\n\r\n");
+
+    expect(events).toEqual([{ event: "reset", data: "{}" }]);
+  });
+
+  test("flushで末尾の空行がないイベントも通知されること", () => {
+    const { events, parser } = setup();
+
+    parser.push("event: done\ndata: {}");
+    expect(events).toEqual([]);
+
+    parser.flush();
+    expect(events).toEqual([{ event: "done", data: "{}" }]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createMemoryRateLimitStore,
+  createTokenBucketLimiter,
+  refillTokenBucket,
+  TokenBucketConfig,
+} from "@/app/utils/rateLimit";
+
+/**
+ * トークンバケット方式のレート制限のテスト
+ *
+ * 経過時間に応じた補充、コストに応じた消費と拒否、
+ * 上限を超えた追加のコストの差し引き、複数バケットの判定をテストします
+ */
+describe("トークンバケット", () => {
+  const minute: TokenBucketConfig = {
+    name: "minute",
+    capacity: 10,
+    refillIntervalMs: 60 * 1000,
+  };
+  const day: TokenBucketConfig = {
+    name: "day",
+    capacity: 100,
+    refillIntervalMs: 24 * 60 * 60 * 1000,
+  };
+
+  /**
+   * メモリストアを使用するレート制限を生成するヘルパー関数
+   */
+  const createLimiter = () =>
+    createTokenBucketLimiter({
+      store: createMemoryRateLimitStore({ maxKeys: 100 }),
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("refillTokenBucket 関数", () => {
+    test("状態がない場合は容量いっぱいのバケットを返すこと", () => {
+      expect(refillTokenBucket(undefined, minute, 1000)).toEqual({
+        tokens: 10,
+        updatedAt: 1000,
+      });
+    });
+
+    test("経過時間に比例して補充し、容量を超えないこと", () => {
+      const state = { tokens: 2, updatedAt: 0 };
+
+      expect(refillTokenBucket(state, minute, 30 * 1000).tokens).toBe(7);
+      expect(refillTokenBucket(state, minute, 5 * 60 * 1000).tokens).toBe(10);
+    });
+  });
+
+  describe("consume", () => {
+    test("コスト分のトークンを消費し、不足した場合は拒否すること", async () => {
+      const limiter = createLimiter();
+
+      const first = await limiter.consume("client", [minute], 4);
+      expect(first).toMatchObject({ allowed: true, remaining: 6, limit: 10 });
+
+      await limiter.consume("client", [minute], 4);
+      const denied = await limiter.consume("client", [minute], 4);
+
+      // 残り2トークンから4トークンまで補充されるのは12秒後
+      expect(denied).toMatchObject({
+        allowed: false,
+        bucket: "minute",
+        remaining: 2,
+        retryAfterMs: 12 * 1000,
+        resetMs: 48 * 1000,
+      });
+    });
+
+    test("補充を待てば再び許可されること", async () => {
+      const limiter = createLimiter();
+      await limiter.consume("client", [minute], 10);
+
+      expect((await limiter.consume("client", [minute], 1)).allowed).toBe(false);
+
+      jest.advanceTimersByTime(6 * 1000);
+
+      expect((await limiter.consume("client", [minute], 1)).allowed).toBe(true);
+    });
+
+    test("キーごとに独立して判定すること", async () => {
+      const limiter = createLimiter();
+      await limiter.consume("a", [minute], 10);
+
+      expect((await limiter.consume("b", [minute], 10)).allowed).toBe(true);
+    });
+
+    test("容量を超えるコストは、満杯のバケットであれば許可すること", async () => {
+      const limiter = createLimiter();
+
+      const result = await limiter.consume("client", [minute], 15);
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(0);
+    });
+
+    test("いずれかのバケットが不足する場合はどのバケットも消費しないこと", async () => {
+      const limiter = createLimiter();
+      const smallDay = { ...day, capacity: 12 };
+
+      await limiter.consume("client", [minute, smallDay], 10);
+      jest.advanceTimersByTime(60 * 1000);
+
+      // 1分のバケットは満杯だが、1日のバケットは残り2トークン
+      const denied = await limiter.consume("client", [minute, smallDay], 5);
+      expect(denied).toMatchObject({ allowed: false, bucket: "day" });
+
+      const allowed = await limiter.consume("client", [minute], 10);
+      expect(allowed.allowed).toBe(true);
+    });
+
+    test("許可された場合は残りの割合が最も少ないバケットを報告すること", async () => {
+      const limiter = createLimiter();
+
+      const result = await limiter.consume("client", [minute, day], 5);
+
+      expect(result).toMatchObject({
+        allowed: true,
+        bucket: "minute",
+        limit: 10,
+        remaining: 5,
+        retryAfterMs: 0,
+      });
+    });
+  });
+
+  describe("charge", () => {
+    test("上限を超えても差し引き、補充されるまで拒否すること", async () => {
+      const limiter = createLimiter();
+      await limiter.consume("client", [minute], 8);
+
+      const charged = await limiter.charge("client", [minute], 5);
+      expect(charged).toMatchObject({ allowed: true, remaining: 0 });
+
+      // 残り-3トークンから1トークンまで補充されるのは24秒後
+      const denied = await limiter.consume("client", [minute], 1);
+      expect(denied).toMatchObject({ allowed: false, retryAfterMs: 24 * 1000 });
+    });
+  });
+
+  describe("peek", () => {
+    test("トークンを消費せずに現在の状態を返すこと", async () => {
+      const limiter = createLimiter();
+      await limiter.consume("client", [minute], 4);
+
+      expect(await limiter.peek("client", [minute], 1)).toMatchObject({
+        allowed: true,
+        remaining: 6,
+      });
+      expect(await limiter.peek("client", [minute], 1)).toMatchObject({
+        remaining: 6,
+      });
+      expect(await limiter.consume("client", [minute], 6)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      });
+    });
+
+    test("トークンが不足している場合は再試行までの時間とともに拒否を報告すること", async () => {
+      const limiter = createLimiter();
+      await limiter.consume("client", [minute], 10);
+
+      // 1トークンまで補充されるのは6秒後
+      expect(await limiter.peek("client", [minute], 1)).toMatchObject({
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: 6 * 1000,
+      });
+    });
+
+    test("状態を書き込まないこと", async () => {
+      const store = createMemoryRateLimitStore({ maxKeys: 100 });
+      const update = jest.spyOn(store, "update");
+      const limiter = createTokenBucketLimiter({ store });
+
+      expect(await limiter.peek("unseen", [minute, day], 1)).toMatchObject({
+        allowed: true,
+        remaining: 10,
+      });
+      expect(update).not.toHaveBeenCalled();
+      await expect(store.get("unseen")).resolves.toBeUndefined();
+    });
+  });
+});
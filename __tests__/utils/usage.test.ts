@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createUsageRecorder,
+  estimateCost,
+  MODEL_PRICES,
+} from "@/app/utils/openai/usage";
+
+/**
+ * トークン使用量の集計のテスト
+ *
+ * API呼び出しごとの記録の合計と、料金表に基づく推定コストの計算をテストします
+ */
+describe("トークン使用量の集計", () => {
+  describe("createUsageRecorder 関数", () => {
+    test("記録がない場合はnullを返すこと", () => {
+      expect(createUsageRecorder().summarize()).toBeNull();
+    });
+
+    test("すべての呼び出しのトークン数を合計すること", () => {
+      const recorder = createUsageRecorder();
+      recorder.record("gpt-4o-mini", "initial", {
+        promptTokens: 1000,
+        completionTokens: 200,
+      });
+      recorder.record("gpt-4o-mini", "keywords", {
+        promptTokens: 100,
+        completionTokens: 10,
+      });
+      recorder.record("gpt-4o-mini", "web-search", {
+        promptTokens: 1500,
+        completionTokens: 300,
+      });
+
+      const summary = recorder.summarize();
+
+      expect(summary).toMatchObject({
+        promptTokens: 2600,
+        completionTokens: 510,
+        totalTokens: 3110,
+      });
+      expect(summary?.calls.map((call) => call.purpose)).toEqual([
+        "initial",
+        "keywords",
+        "web-search",
+      ]);
+      expect(summary?.estimatedCostUsd).toBeCloseTo(
+        (2600 * MODEL_PRICES["gpt-4o-mini"].input +
+          510 * MODEL_PRICES["gpt-4o-mini"].output) /
+          1000000
+      );
+    });
+  });
+
+  describe("estimateCost 関数", () => {
+    test("モデルごとの料金で計算すること", () => {
+      const prices = {
+        cheap: { input: 1, output: 2 },
+        expensive: { input: 10, output: 20 },
+      };
+
+      expect(
+        estimateCost(
+          [
+            {
+              model: "cheap",
+              purpose: "keywords",
+              promptTokens: 1000000,
+              completionTokens: 500000,
+            },
+            {
+              model: "expensive",
+              purpose: "initial",
+              promptTokens: 100000,
+              completionTokens: 100000,
+            },
+          ],
+          prices
+        )
+      ).toBeCloseTo(5);
+    });
+
+    test("料金表にないモデルを含む場合はnullを返すこと", () => {
+      expect(
+        estimateCost([
+          {
+            model: "llama3.1:8b",
+            purpose: "initial",
+            promptTokens: 100,
+            completionTokens: 50,
+          },
+        ])
+      ).toBeNull();
+    });
+  });
+});
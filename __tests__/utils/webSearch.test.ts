@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+import {
+  extractSearchKeywords,
+  performWebSearch,
+} from "@/app/utils/openai/webSearch";
+import { createRequestContext } from "@/app/utils/openai/requestContext";
+import { getConfiguredSearchProvider } from "@/app/utils/search";
+import { ModelId, TEST_MODEL_ID } from "@/types/model";
+
+/**
+ * OpenAIクライアントの応答生成のモック
+ * （クライアントは最初の呼び出し時に生成されるため、ファクトリ内から参照できる）
+ */
+const mockCreate = jest.fn();
+
+// OpenAIモジュールをモック化
+jest.mock("openai", () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } },
+  })),
+}));
+
+// 環境変数で設定される検索プロバイダーをモック化
+jest.mock("@/app/utils/search", () => ({
+  ...jest.requireActual("@/app/utils/search"),
+  getConfiguredSearchProvider: jest.fn(),
+}));
+
+/**
+ * 指定時間後に値を返すPromiseを生成するヘルパー関数
+ */
+function resolveAfter<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+/**
+ * webSearch ユーティリティのテスト
+ *
+ * リクエストごとのコンテキストに応じた検索とキーワード抽出、
+ * および異なるモデルの同時リクエストが互いに影響しないことをテストします
+ */
+describe("webSearch ユーティリティ", () => {
+  const testContext = () => createRequestContext(TEST_MODEL_ID as ModelId);
+  const realContext = () => createRequestContext("gpt-4o-mini");
+  const realResult = {
+    title: "実際の検索結果",
+    url: "https://example.com/real",
+    description: "検索プロバイダーの結果",
+  };
+
+  let originalConsoleLog: typeof console.log;
+
+  beforeAll(() => {
+    originalConsoleLog = console.log;
+    console.log = jest.fn();
+  });
+
+  afterAll(() => {
+    console.log = originalConsoleLog;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getConfiguredSearchProvider as jest.Mock).mockReturnValue({
+      name: "mock",
+      search: jest.fn(() => resolveAfter(20, [realResult])),
+    });
+  });
+
+  describe("performWebSearch 関数", () => {
+    test("テストモードではダミーの検索結果を返すこと", async () => {
+      const results = await performWebSearch("東京", testContext(), 2);
+
+      expect(results).toHaveLength(2);
+      expect(results[0].url).toContain("example.com/test-result");
+      expect(getConfiguredSearchProvider).not.toHaveBeenCalled();
+    });
+
+    test("通常モードでは設定された検索プロバイダーを使用すること", async () => {
+      const results = await performWebSearch("東京", realContext());
+
+      expect(results).toEqual([realResult]);
+    });
+
+    test("異なるモデルの同時リクエストがそれぞれのモードで検索すること", async () => {
+      // 通常モードの検索が完了する前にテストモードの検索を開始する
+      const realSearch = performWebSearch("東京", realContext());
+      const testSearch = performWebSearch("大阪", testContext());
+      const laterRealSearch = performWebSearch("京都", realContext());
+
+      const [realResults, testResults, laterRealResults] = await Promise.all([
+        realSearch,
+        testSearch,
+        laterRealSearch,
+      ]);
+
+      expect(realResults).toEqual([realResult]);
+      expect(laterRealResults).toEqual([realResult]);
+      expect(testResults[0].title).toContain("大阪");
+      expect(testResults[0].url).toContain("example.com/test-result");
+    });
+  });
+
+  describe("extractSearchKeywords 関数", () => {
+    test("異なるモデルの同時リクエストがそれぞれのモードでキーワードを抽出すること", async () => {
+      mockCreate.mockImplementation(() =>
+        resolveAfter(20, {
+          choices: [{ message: { content: "東京, 天気" } }],
+        })
+      );
+
+      const [realKeywords, testKeywords] = await Promise.all([
+        extractSearchKeywords("東京の天気は？", realContext()),
+        extractSearchKeywords("テスト用 プロンプト です", testContext()),
+      ]);
+
+      expect(realKeywords).toBe("東京, 天気");
+      expect(testKeywords).toBe("テスト用, プロンプト");
+      // OpenAI APIは通常モードのリクエストでのみ呼び出される
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+    });
+
+    test("キーワード抽出に使用したトークン数をコンテキストに記録すること", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: "東京, 天気" } }],
+        usage: { prompt_tokens: 80, completion_tokens: 6, total_tokens: 86 },
+      });
+      const context = realContext();
+
+      await extractSearchKeywords("東京の天気は？", context);
+
+      expect(context.usage.summarize()?.calls).toEqual([
+        {
+          model: "gpt-4o-mini",
+          purpose: "keywords",
+          promptTokens: 80,
+          completionTokens: 6,
+        },
+      ]);
+    });
+
+    test("リクエストが中断された場合はプロンプトで代替せずエラーをスローすること", async () => {
+      const controller = new AbortController();
+      controller.abort();
+      mockCreate.mockRejectedValueOnce(new Error("Request was aborted."));
+
+      await expect(
+        extractSearchKeywords(
+          "東京の天気は？",
+          createRequestContext("gpt-4o-mini", controller.signal)
+        )
+      ).rejects.toThrow("Request was aborted.");
+    });
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * 稼働確認のルート
+ *
+ * このファイルは、コンテナのオーケストレーターの稼働確認（liveness probe）に
+ * 応答するサーバーサイドの処理を実装しています。
+ * 外部のサービスには接続せず、プロセスが応答できることのみを返します
+ * （応答の生成に必要な設定や接続の確認は GET /api/ready で行います）。
+ *
+ * @module api/health
+ */
+
+import { NextResponse } from "next/server";
+
+/**
+ * プロセスが応答できることを確認するため、リクエストごとに応答を生成する
+ */
+export const dynamic = "force-dynamic";
+
+/**
+ * GETリクエストハンドラ
+ *
+ * @returns JSON形式の稼働状況（常に200）
+ */
+export async function GET() {
+  return NextResponse.json(
+    { status: "ok" },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
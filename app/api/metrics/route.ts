@@ -0,0 +1,62 @@
+/**
+ * メトリクスを返すルート
+ *
+ * このファイルは、チャットAPIのリクエスト数・LLM API呼び出しの所要時間・
+ * Web検索の実行状況・レート制限による拒否の回数を、
+ * Prometheusのテキスト形式で返すサーバーサイドの処理を実装しています。
+ * 値はプロセスごとに集計するため、複数のインスタンスで運用する場合はそれぞれから収集します。
+ *
+ * @module api/metrics
+ */
+
+import { NextResponse } from "next/server";
+import { getChatMetrics, isMetricsRequestAuthorized } from "@/app/utils/metrics";
+
+/**
+ * 集計中の値を返すため、リクエストごとに応答を生成する
+ */
+export const dynamic = "force-dynamic";
+
+/**
+ * Prometheusのテキスト形式のContent-Type
+ */
+const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * APIレスポンスのステータスコード
+ */
+const HTTP_STATUS = {
+  UNAUTHORIZED: 401,
+};
+
+/**
+ * エラーメッセージの定数
+ */
+const ERROR_MESSAGES = {
+  UNAUTHORIZED: "A valid metrics token is required",
+};
+
+/**
+ * GETリクエストハンドラ
+ *
+ * 環境変数 METRICS_AUTH_TOKEN が設定されている場合は、
+ * `Authorization: Bearer <トークン>`ヘッダーのないリクエストを401で拒否します。
+ *
+ * @param req クライアントからのリクエスト
+ * @returns Prometheusのテキスト形式のメトリクス
+ */
+export async function GET(req: Request) {
+  if (!isMetricsRequestAuthorized(req.headers, process.env.METRICS_AUTH_TOKEN)) {
+    return NextResponse.json(
+      { error: ERROR_MESSAGES.UNAUTHORIZED },
+      {
+        status: HTTP_STATUS.UNAUTHORIZED,
+        headers: { "WWW-Authenticate": "Bearer" },
+      }
+    );
+  }
+
+  return new Response(getChatMetrics().render(), {
+    headers: { "Content-Type": METRICS_CONTENT_TYPE },
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * モデルカタログを返すルート
+ *
+ * このファイルは、クライアントで選択可能なLLMモデルの一覧を返す
+ * サーバーサイドの処理を実装しています。
+ * モデルの一覧と選択可否はサーバーの設定（APIキー・OpenAI互換サーバー・テストモード）から決定するため、
+ * クライアントとサーバーで選択可能なモデルが食い違うことはありません。
+ *
+ * @module api/models
+ */
+
+import { NextResponse } from "next/server";
+import { getModelCatalog } from "@/app/utils/llm";
+
+/**
+ * 環境変数を参照するため、リクエストごとに応答を生成する
+ */
+export const dynamic = "force-dynamic";
+
+/**
+ * GETリクエストハンドラ
+ *
+ * モデルの一覧（ID・表示名・コンテキストウィンドウ・Web検索への対応・コストの目安・選択可否）と
+ * 初期選択されるモデルを返します。
+ *
+ * @returns JSON形式のモデルカタログ
+ */
+export async function GET() {
+  return NextResponse.json(getModelCatalog());
+}
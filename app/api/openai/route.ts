@@ -4,53 +4,122 @@
  * このファイルは、ユーザーのプロンプトを受け取り、OpenAI APIを使用して応答を生成する
  * サーバーサイドの処理を実装しています。主な機能は以下の通りです:
  *
- * 1. レート制限による過剰リクエストの防止
+ * 1. レート制限による過剰リクエストの防止（残りの利用可能量を応答ヘッダーで通知）
+ *    （クライアントは信頼するプロキシが付与したヘッダーから識別し、なりすましを防止）
  * 2. WebSearch機能による最新情報の補完
  * 3. エラーハンドリングとタイムアウト処理
  * 4. Markdownフォーマットによるリッチテキスト応答
  * 5. 複数のLLMモデル選択のサポート
- * 6. テストモードでの疑似応答生成（OpenAI API接続なし）
+ * 6. テスト用プロバイダーによる疑似応答生成（OpenAI API接続なし）
+ * 7. 会話履歴を踏まえたマルチターン応答
+ * 8. Server-Sent Eventsによるトークン単位のストリーミング応答
+ * 9. 応答の生成に使用したWeb検索結果（情報源）の返却と引用番号のリンク化
+ * 10. クライアントの切断（生成の停止）に応じた生成の中断
+ * 11. APIキーによる認証（設定されている場合）と、キーごとのモデルの制限・上限
+ * 12. 応答の生成に使用したトークン数と推定コストの返却
+ * 13. リクエストIDを付与した構造化ログ（X-Request-Idヘッダーでクライアントにも返却）
+ * 14. 最新の情報が必要な質問の、初期応答を生成しないWeb検索への振り分け
+ * 15. Web検索の要否の判定の過程のログ出力と、デバッグ用の応答への付与（SEARCH_DEBUG_TRACE）
  *
  * @module api/openai
  */
 
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
 import { marked } from "marked";
-import { rateLimit } from "@/app/utils/rateLimit";
-import { needsWebSearchInfo } from "@/app/utils/openai/searchAnalyzer";
+import {
+  getConfiguredModelQuotaLimiter,
+  QuotaLimits,
+  RATE_LIMIT_HEADER_NAMES,
+  TokenBucketResult,
+  toRateLimitHeaders,
+} from "@/app/utils/rateLimit";
+import {
+  createConfiguredApiKeyAuthenticator,
+  isModelAllowedForKey,
+  ApiKeyAuthenticator,
+} from "@/app/utils/apiKeys";
+import {
+  createConfiguredClientIdentityOptions,
+  resolveClientIdentity,
+  ClientIdentityOptions,
+} from "@/app/utils/clientIdentity";
+import { getConfiguredSearchNeedStrategy } from "@/app/utils/openai/searchDecision";
+import {
+  isConfiguredPromptRoutingEnabled,
+  routeSearchByPrompt,
+} from "@/app/utils/openai/searchRouting";
+import {
+  analyzeSearchNeed,
+  isConfiguredSearchDebugTraceEnabled,
+  SearchNeedAnalysis,
+} from "@/app/utils/openai/searchAnalyzer";
 import {
   sanitizeInput,
+  isTestMode,
   generateInitialResponse,
   generateResponseWithWebSearch,
+  DeltaHandler,
 } from "@/app/utils/openai/apiUtils";
-import { OpenAIModel, DEFAULT_MODEL, AVAILABLE_MODELS } from "@/types/model";
+import {
+  createSSEResponse,
+  SSE_EVENTS,
+  SSESend,
+} from "@/app/utils/openai/sse";
+import { processCitations } from "@/app/utils/openai/citations";
+import { createRequestContext } from "@/app/utils/openai/requestContext";
+import { UsageSummary } from "@/app/utils/openai/usage";
+import {
+  validateHistory,
+  truncateHistory,
+  HISTORY_ERROR_MESSAGES,
+} from "@/app/utils/openai/conversation";
+import { getModelRegistry, isModelEnabled } from "@/app/utils/llm";
+import {
+  getChatMetrics,
+  toModelLabel,
+  WEB_SEARCH_DECISIONS,
+} from "@/app/utils/metrics";
+import {
+  createRequestId,
+  getConfiguredLogger,
+  Logger,
+} from "@/app/utils/logger";
+import {
+  Message,
+  SearchDecision,
+  SearchResult,
+  SearchRoute,
+} from "@/types/message";
+import { ModelId, DEFAULT_MODEL, findModelDefinition } from "@/types/model";
 
-// OpenAIのクライアントを初期化
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+/**
+ * APIリクエストのタイムアウト時間（ミリ秒）
+ */
+const API_TIMEOUT_MS = 25000; // 25秒
 
 /**
- * レート制限の設定値
+ * Web検索による再生成時にクライアントへ通知する理由
  */
-const RATE_LIMIT_SETTINGS = {
-  INTERVAL_MS: 60 * 1000, // 1分間隔
-  MAX_UNIQUE_TOKENS: 50, // 1分間に許可する固有のIPアドレス数
-  MAX_REQUESTS_PER_INTERVAL: 5, // 1分間に許可するリクエスト数
+const RESET_REASONS = {
+  WEB_SEARCH: "web-search",
+  SEARCH_FALLBACK: "search-fallback", // 初期応答を生成せずに行ったWeb検索で補完できなかった場合
 };
 
 /**
- * APIリクエストのタイムアウト時間（ミリ秒）
+ * リクエストIDを返す応答ヘッダー名
  */
-const API_TIMEOUT_MS = 25000; // 25秒
+const REQUEST_ID_HEADER = "X-Request-Id";
 
 /**
  * APIレスポンスのステータスコード
  */
 const HTTP_STATUS = {
+  OK: 200,
   BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
   TOO_MANY_REQUESTS: 429,
+  CLIENT_CLOSED_REQUEST: 499, // クライアントが応答を待たずに切断した場合（nginxの慣例）
   INTERNAL_SERVER_ERROR: 500,
   GATEWAY_TIMEOUT: 504,
 };
@@ -60,88 +129,196 @@ const HTTP_STATUS = {
  */
 const ERROR_MESSAGES = {
   RATE_LIMIT: "Rate limit exceeded. Please try again later.",
+  UNAUTHORIZED: "A valid API key is required",
+  MODEL_NOT_ALLOWED: "This API key is not allowed to use the requested model",
   INVALID_PROMPT: "Prompt is required and must be a string",
   TIMEOUT: "Request timed out",
+  CLIENT_CLOSED: "Request was cancelled by the client",
   GENERAL: "Failed to fetch response from OpenAI",
 };
 
 /**
- * レート制限の設定
- * DoS攻撃やコスト制御のために、クライアントごとの最大リクエスト数を制限します
+ * ログメッセージの定数
+ * 値（モデル・プロンプトなど）はメッセージに埋め込まず、ログのフィールドとして出力します
  */
-const limiter = rateLimit({
-  interval: RATE_LIMIT_SETTINGS.INTERVAL_MS,
-  uniqueTokenPerInterval: RATE_LIMIT_SETTINGS.MAX_UNIQUE_TOKENS,
-});
+const LOG_MESSAGES = {
+  REQUEST_RECEIVED: "リクエストを受信しました",
+  REQUEST_COMPLETED: "応答を返却しました",
+  HISTORY_TRUNCATED: "会話履歴をトークン予算内に切り詰めました",
+  GENERATING: "応答を生成します",
+  INITIAL_RESPONSE_COMPLETED: "初期応答の生成が完了しました",
+  SEARCH_DECISION: "Web検索による情報の補完の要否を判断しました",
+  PRE_ANSWER_SEARCH_FALLBACK:
+    "初期応答を生成せずに行ったWeb検索で情報を補完できなかったため、通常の応答を生成します",
+  UNUSED_SOURCES: "本文で引用されなかった情報源があります",
+  CLIENT_CLOSED: "クライアントが切断したため応答の生成を中断しました",
+  RATE_LIMIT_CHECK_FAILED:
+    "レート制限の確認に失敗したため、リクエストを許可します",
+  WEB_SEARCH_CHARGE_FAILED: "Web検索の利用量の記録に失敗しました",
+  STREAM_FAILED: "ストリーミング応答の生成に失敗しました",
+  REQUEST_FAILED: "応答の生成に失敗しました",
+};
 
 /**
- * テストモードの応答パターンを定義
- * 複数のパターンからランダムに選択して多様な応答を生成します
+ * メトリクスに記録するリクエストの情報
+ * リクエストの処理中に判明した値を書き込み、応答の返却時に記録します
  */
-const TEST_RESPONSES = [
-  (prompt: string, date: string) =>
-    `## テストモードでの応答\n\nこれはAPIを使用せずに生成された応答です。\n\nあなたの質問: "${prompt}"\n\n現在の時刻: ${date}\n\n> これはテスト用の引用です\n\n\`\`\`javascript\n// これはテスト用のコードブロックです\nconsole.log("Hello, World!");\n\`\`\``,
+interface ChatRequestRecord {
+  /** 判定したモデル（判定前に終了した場合はundefined） */
+  model?: ModelId;
+  /** SSEで応答した場合はtrue（ストリームの終了時に記録するため） */
+  streamed: boolean;
+}
 
-  (prompt: string, date: string) =>
-    `# テスト応答\n\nこんにちは！これはテストモードでの応答です。\n\n**ご質問**: ${prompt}\n\n実際のAPIは呼び出されていません。テスト環境での動作確認に役立ちます。\n\n1. テストポイント1\n2. テストポイント2\n3. テストポイント3\n\n応答生成時刻: ${date}`,
+/**
+ * クライアントの識別の設定（初回使用時に環境変数から作成）
+ */
+let clientIdentityOptions: ClientIdentityOptions | null = null;
 
-  (prompt: string, date: string) =>
-    `### 自動生成されたテスト応答\n\n${prompt}についてのお問い合わせありがとうございます。\n\nこれはテストモードでの応答のため、実際のデータや情報は含まれていません。\n\n- 項目1\n- 項目2\n- 項目3\n\nテストモードは開発時の動作確認に最適です。\n\n生成時刻: ${date}`,
+/**
+ * クライアントの識別の設定を取得する関数
+ * プロキシのヘッダーと信頼するプロキシは環境変数（CLIENT_IP_HEADER / TRUSTED_PROXIES）で設定します
+ *
+ * @returns クライアントの識別の設定
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+function getClientIdentityOptions(): ClientIdentityOptions {
+  if (!clientIdentityOptions) {
+    clientIdentityOptions = createConfiguredClientIdentityOptions();
+  }
+  return clientIdentityOptions;
+}
 
-  (prompt: string, date: string) =>
-    `## テストモード有効\n\n**入力**: ${prompt}\n\n**応答**: これはテスト用の自動生成メッセージです。API呼び出しは行われていません。\n\n表形式のサンプル:\n\n| 項目 | 説明 |\n|------|------|\n| テスト1 | サンプル説明1 |\n| テスト2 | サンプル説明2 |\n\n処理時刻: ${date}`,
-];
+/**
+ * APIキー認証（初回使用時に環境変数から生成）
+ */
+let apiKeyAuthenticator: ApiKeyAuthenticator | null = null;
 
 /**
- * テストモードでの応答を生成する関数
- *
- * テスト用モデルが選択されている場合に
- * APIを呼び出さずに疑似的な応答を生成します
+ * APIキー認証を取得する関数
+ * 認証の要否とキーの保存先は環境変数（API_AUTH_MODE / API_KEYS_FILE）で設定します
  *
- * @param prompt ユーザーの入力
- * @returns 疑似的な応答オブジェクト
+ * @returns APIキー認証
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+function getApiKeyAuthenticator(): ApiKeyAuthenticator {
+  if (!apiKeyAuthenticator) {
+    apiKeyAuthenticator = createConfiguredApiKeyAuthenticator();
+  }
+  return apiKeyAuthenticator;
+}
+
+/**
+ * 応答オブジェクトの型定義
  */
-async function generateTestResponse(prompt: string): Promise<{
+interface ApiResponseData {
   text: string;
   html: string;
   isMarkdown: boolean;
-}> {
-  console.log("テストモード: OpenAI APIは呼び出されません");
-
-  // 現在日時を取得してテスト応答に含める
-  const currentDate = new Date().toLocaleString("ja-JP");
-
-  // ランダムに応答パターンを選択
-  const randomIndex = Math.floor(Math.random() * TEST_RESPONSES.length);
-  const responseText = TEST_RESPONSES[randomIndex](prompt, currentDate);
-
-  // マークダウンをHTMLに変換
-  const htmlContent = await marked(responseText);
+  /** 応答の生成に使用したWeb検索結果（Web検索を行った場合のみ） */
+  searchResults?: SearchResult[];
+  /** Web検索に使用したキーワード（Web検索を行った場合のみ） */
+  searchKeywords?: string;
+  /** 本文で引用されなかった情報源の番号（Web検索を行った場合のみ） */
+  unusedSources?: number[];
+  /** 応答の生成に使用したトークン数と推定コスト（LLM APIが通知した場合のみ） */
+  usage?: UsageSummary;
+  /** Web検索による情報の補完の要否の判断結果（Web検索に対応したモデルの場合のみ） */
+  searchDecision?: SearchDecision;
+  /** 応答を生成した経路 */
+  searchRoute: SearchRoute;
+  /**
+   * 初期応答に対するWeb検索の要否の判定の過程
+   * （SEARCH_DEBUG_TRACEが有効で、初期応答を基に判断した場合のみ）
+   */
+  searchAnalysis?: SearchNeedAnalysis;
+}
 
-  return {
-    text: responseText,
-    html: htmlContent,
-    isMarkdown: true,
-  };
+/**
+ * ストリーミング時に生成の進行状況を受け取るハンドラーの型定義
+ */
+interface StreamHandlers {
+  /** 応答テキストの差分を受け取る */
+  onDelta: DeltaHandler;
+  /** それまでに送信した差分を破棄して再生成することを通知する */
+  onReset: (reason: string) => void;
 }
 
 /**
  * レート制限をチェックする関数
+ * モデルごとの重みでリクエストを数え、1分あたり・1日あたりの上限を超えていないか確認します
+ * レート制限ストアに接続できない場合などは、サービスを止めないようリクエストを許可します
+ * 入力の誤りなどで応答を生成せずに拒否する場合は、重みを消費せずに現在の状態のみを取得します
  *
- * @param ipAddress クライアントのIPアドレス
- * @throws レート制限超過時にエラーをスロー
+ * @param clientId クライアントの識別子
+ * @param model 使用するモデル
+ * @param logger リクエストのロガー
+ * @param limits APIキーごとの上限（指定された場合はモデルごとの上限より優先）
+ * @param consume 重みを消費するかどうか（falseの場合は現在の状態のみを取得）
+ * @returns 判定結果（判定できなかった場合はnull）
  */
-async function checkRateLimit(ipAddress: string): Promise<void> {
+async function checkRateLimit(
+  clientId: string,
+  model: ModelId,
+  logger: Logger,
+  limits?: QuotaLimits,
+  consume = true
+): Promise<TokenBucketResult | null> {
+  const definition = findModelDefinition(model, getModelRegistry());
+  if (!definition) return null;
+
   try {
-    await limiter.check(
-      RATE_LIMIT_SETTINGS.MAX_REQUESTS_PER_INTERVAL,
-      ipAddress
-    );
+    const limiter = getConfiguredModelQuotaLimiter();
+    return await (consume
+      ? limiter.consumeRequest(clientId, definition, limits)
+      : limiter.peekRequest(clientId, definition, limits));
   } catch (error) {
-    throw new Error(ERROR_MESSAGES.RATE_LIMIT);
+    logger.error(LOG_MESSAGES.RATE_LIMIT_CHECK_FAILED, { error });
+    return null;
   }
 }
 
+/**
+ * レート制限の判定結果を応答ヘッダーに書き込む関数
+ *
+ * @param responseHeaders 応答ヘッダーの書き込み先
+ * @param rateLimit レート制限の判定結果（判定できなかった場合はnull）
+ */
+function setRateLimitHeaders(
+  responseHeaders: Headers,
+  rateLimit: TokenBucketResult | null
+): void {
+  if (!rateLimit) return;
+  Object.entries(toRateLimitHeaders(rateLimit)).forEach(([name, value]) =>
+    responseHeaders.set(name, value)
+  );
+}
+
+/**
+ * Web検索による情報の補完を行った場合の追加の重みを記録する関数
+ * 応答の生成を待たせないよう、記録の完了を待たずに戻ります
+ *
+ * @param clientId クライアントの識別子
+ * @param model 使用したモデル
+ * @param logger リクエストのロガー
+ * @param limits APIキーごとの上限
+ */
+function chargeWebSearch(
+  clientId: string,
+  model: ModelId,
+  logger: Logger,
+  limits?: QuotaLimits
+): void {
+  const definition = findModelDefinition(model, getModelRegistry());
+  if (!definition) return;
+
+  getConfiguredModelQuotaLimiter()
+    .chargeWebSearch(clientId, definition, limits)
+    .catch((error) => {
+      logger.error(LOG_MESSAGES.WEB_SEARCH_CHARGE_FAILED, { error });
+    });
+}
+
 /**
  * 入力パラメータを検証する関数
  *
@@ -150,72 +327,310 @@ async function checkRateLimit(ipAddress: string): Promise<void> {
  * @returns 検証されたモデル
  * @throws 入力が無効な場合エラーをスロー
  */
-function validateInput(prompt: unknown, model: unknown): OpenAIModel {
+function validateInput(prompt: unknown, model: unknown): ModelId {
   // 入力の検証
   if (!prompt || typeof prompt !== "string") {
     throw new Error(ERROR_MESSAGES.INVALID_PROMPT);
   }
 
-  // モデルの検証（有効なモデルが指定されていない場合はデフォルトを使用）
-  return model && AVAILABLE_MODELS.includes(model as OpenAIModel)
-    ? (model as OpenAIModel)
+  return selectModel(model);
+}
+
+/**
+ * 使用するモデルを選択する関数
+ * サーバーのモデルカタログで選択可能なモデルでない場合はデフォルトを使用します
+ *
+ * @param model 要求されたモデル
+ * @returns 使用するモデル
+ */
+function selectModel(model: unknown): ModelId {
+  const definition =
+    typeof model === "string"
+      ? findModelDefinition(model, getModelRegistry())
+      : undefined;
+
+  return definition && isModelEnabled(definition)
+    ? definition.id
     : DEFAULT_MODEL;
 }
 
 /**
  * 応答を生成する関数
  *
+ * タイムアウトした場合に加え、クライアントが切断した場合（生成の停止）も
+ * 初期応答・キーワード抽出・Web検索結果による再生成を中断します。
+ * これらのLLM API呼び出しで使用したトークン数は、推定コストとあわせて応答に含めます。
+ * 質問から最新の情報が必要と判断できる場合（SEARCH_PROMPT_ROUTINGが有効な場合）は、
+ * 初期応答を生成せずにWeb検索による応答を生成し、Web検索で補完できなかった場合のみ通常の応答を生成します。
+ * それ以外の場合は、初期応答を基に環境変数（SEARCH_DECISION_STRATEGY）で設定された方式で
+ * Web検索による情報の補完の要否を判断します。判断の理由と応答を生成した経路は応答に含めます。
+ * 初期応答を基に判断した場合は、パターンマッチングによる判定の過程をログに出力し、
+ * SEARCH_DEBUG_TRACEが有効な場合は応答にも含めます。
+ *
  * @param sanitizedPrompt サニタイズされた入力
  * @param selectedModel 選択されたモデル
+ * @param history トークン予算内に切り詰め済みの会話履歴
+ * @param clientSignal クライアントの切断を検知するシグナル（リクエストのシグナル）
+ * @param logger リクエストのロガー（リクエストIDを付与済み）
+ * @param onWebSearch Web検索による情報の補完を開始する際に呼ばれる関数（利用量の記録用）
+ * @param streamHandlers ストリーミング時のハンドラー（省略時は一括生成）
  * @returns 生成された応答
  */
 async function generateApiResponse(
   sanitizedPrompt: string,
-  selectedModel: OpenAIModel
-): Promise<{ text: string; html: string; isMarkdown: boolean }> {
+  selectedModel: ModelId,
+  history: Message[],
+  clientSignal: AbortSignal,
+  logger: Logger,
+  onWebSearch: () => void,
+  streamHandlers?: StreamHandlers
+): Promise<ApiResponseData> {
+  // 設定の誤りがLLM APIの呼び出し後のエラーにならないよう、Web検索の設定は最初に解決する
+  const searchNeedStrategy = getConfiguredSearchNeedStrategy();
+  const promptRoutingEnabled = isConfiguredPromptRoutingEnabled();
+  const searchDebugTraceEnabled = isConfiguredSearchDebugTraceEnabled();
+
   // タイムアウト設定
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
 
+  // クライアントが切断した場合も生成を中断する
+  const abortOnDisconnect = () => controller.abort();
+  clientSignal.addEventListener("abort", abortOnDisconnect);
+  if (clientSignal.aborted) controller.abort();
+
   try {
-    // Web検索ユーティリティに現在のモデルを設定
-    const { setCurrentModel } = await import("@/app/utils/openai/webSearch");
-    setCurrentModel(selectedModel);
-
-    // 初期応答を生成
-    console.log(`[DEBUG] 初期応答生成開始: モデル=${selectedModel}`);
-    const initialResponse = await generateInitialResponse(
-      sanitizedPrompt,
+    // このリクエスト専用のコンテキストを生成（同時リクエスト間で状態を共有しない）
+    const context = createRequestContext(
+      selectedModel,
       controller.signal,
-      selectedModel
+      logger
     );
-    console.log("[DEBUG] 初期応答生成完了");
 
-    // パターンマッチングに基づいてWeb検索の必要性を判断
-    let finalContent = initialResponse;
+    let finalContent = "";
+    let searchResults: SearchResult[] = [];
+    let searchKeywords = "";
+    let searchRoute: SearchRoute = "none";
+
+    let searchAnalysis: SearchNeedAnalysis | undefined;
+
+    /**
+     * Web検索の要否の判断結果をログとメトリクスに記録する関数
+     * 初期応答を基に判断した場合は、パターンマッチングによる判定の過程もログに含めます
+     */
+    const recordSearchDecision = (
+      decision: SearchDecision,
+      analysis?: SearchNeedAnalysis
+    ) => {
+      logger.info(LOG_MESSAGES.SEARCH_DECISION, {
+        ...decision,
+        ...(analysis ? { analysis } : {}),
+      });
+      getChatMetrics().webSearchDecisions.inc({
+        model: selectedModel,
+        decision: decision.needsSearch
+          ? WEB_SEARCH_DECISIONS.SEARCH
+          : WEB_SEARCH_DECISIONS.SKIP,
+        method: decision.decidedBy,
+      });
+    };
 
-    // パターンマッチングによる検索判断
-    if (needsWebSearchInfo(initialResponse)) {
-      console.log(
-        "[INFO] パターンマッチングにより、Web検索による情報の補完が必要と判断されました"
+    // Web検索の必要性を判断（Web検索に対応していないモデルでは行わない）
+    const supportsSearch =
+      findModelDefinition(selectedModel, getModelRegistry())?.supportsSearch ??
+      false;
+
+    // 質問から最新の情報が必要と判断できる場合は、初期応答を生成せずにWeb検索を行う
+    const promptDecision =
+      supportsSearch && promptRoutingEnabled
+        ? routeSearchByPrompt(sanitizedPrompt)
+        : undefined;
+    let searchDecision = promptDecision?.needsSearch
+      ? promptDecision
+      : undefined;
+
+    if (searchDecision) {
+      recordSearchDecision(searchDecision);
+      onWebSearch();
+      // ストリーミング中の場合はWeb検索中であることを表示させる
+      streamHandlers?.onReset(RESET_REASONS.WEB_SEARCH);
+      const searchResponse = await generateResponseWithWebSearch(
+        sanitizedPrompt,
+        "",
+        context,
+        history,
+        streamHandlers?.onDelta
       );
-      finalContent = await generateResponseWithWebSearch(
+      finalContent = searchResponse.text;
+      searchResults = searchResponse.searchResults;
+      searchKeywords = searchResponse.searchKeywords;
+
+      if (finalContent) {
+        searchRoute = "pre-answer";
+      } else {
+        // Web検索で補完できなかった場合は、送信済みの差分を破棄させて通常の応答を生成する
+        // （同じ質問で再度Web検索を行っても補完できる見込みは低いため、初期応答に基づく判断は行わない）
+        logger.info(LOG_MESSAGES.PRE_ANSWER_SEARCH_FALLBACK);
+        streamHandlers?.onReset(RESET_REASONS.SEARCH_FALLBACK);
+      }
+    }
+
+    if (searchRoute === "none") {
+      // 初期応答を生成
+      const initialResponse = await generateInitialResponse(
         sanitizedPrompt,
-        initialResponse,
-        selectedModel
+        context,
+        history,
+        streamHandlers?.onDelta
       );
+      logger.debug(LOG_MESSAGES.INITIAL_RESPONSE_COMPLETED);
+      finalContent = initialResponse;
+
+      // 質問から判断できなかった場合は初期応答を基に判断する
+      if (supportsSearch && !searchDecision) {
+        // 判定の誤りを調査できるよう、判定方式によらずパターンマッチングの過程を残す
+        // （パターンマッチングで判定する方式はこの結果を使用する）
+        searchAnalysis = analyzeSearchNeed(initialResponse);
+        searchDecision = await searchNeedStrategy.decide(
+          {
+            prompt: sanitizedPrompt,
+            response: initialResponse,
+            analysis: searchAnalysis,
+          },
+          context
+        );
+        recordSearchDecision(searchDecision, searchAnalysis);
+
+        if (searchDecision.needsSearch) {
+          onWebSearch();
+          // ストリーミング中の場合は初期応答を破棄させる
+          streamHandlers?.onReset(RESET_REASONS.WEB_SEARCH);
+          const searchResponse = await generateResponseWithWebSearch(
+            sanitizedPrompt,
+            initialResponse,
+            context,
+            history,
+            streamHandlers?.onDelta
+          );
+          finalContent = searchResponse.text;
+          searchResults = searchResponse.searchResults;
+          searchKeywords = searchResponse.searchKeywords;
+          // 補完できなかった場合は初期応答がそのまま返る
+          if (finalContent !== initialResponse) searchRoute = "post-hoc";
+        }
+      }
     }
+    const searchDecisionData = {
+      ...(searchDecision ? { searchDecision } : {}),
+      ...(searchAnalysis && searchDebugTraceEnabled
+        ? { searchAnalysis }
+        : {}),
+    };
 
-    // Markdownをリッチテキスト(HTML)に変換
-    const htmlContent = await marked(finalContent);
+    // すべてのLLM API呼び出しのトークン数を集計
+    const usage = context.usage.summarize();
+    const usageData = usage ? { usage } : {};
+
+    // 検索結果を使用しなかった場合はそのままリッチテキスト(HTML)に変換
+    if (searchResults.length === 0) {
+      return {
+        text: finalContent,
+        html: await marked(finalContent),
+        isMarkdown: true,
+        ...usageData,
+        ...searchDecisionData,
+        searchRoute,
+      };
+    }
+
+    // 引用番号を情報源へのリンクに変換してからHTMLに変換
+    const { text, linkedText, unusedSources } = processCitations(
+      finalContent,
+      searchResults
+    );
+    if (unusedSources.length > 0) {
+      logger.info(LOG_MESSAGES.UNUSED_SOURCES, { unusedSources });
+    }
 
     return {
-      text: finalContent,
-      html: htmlContent,
+      text,
+      html: await marked(linkedText),
       isMarkdown: true,
+      searchResults,
+      searchKeywords,
+      unusedSources,
+      ...usageData,
+      ...searchDecisionData,
+      searchRoute,
     };
   } finally {
     clearTimeout(timeoutId);
+    clientSignal.removeEventListener("abort", abortOnDisconnect);
+  }
+}
+
+/**
+ * 応答をSSEでストリーミングする関数
+ *
+ * 差分をdeltaイベント、再生成の通知をresetイベントとして送信し、
+ * 最後にHTML変換済みの応答全体をdoneイベントとして送信します。
+ * クライアントが切断した場合は、送信先がないためエラーを通知せずに終了します。
+ * SSEの応答は常に200で返るため、リクエスト数のメトリクスには
+ * 一括生成の場合と同じステータスコードに読み替えて記録します。
+ *
+ * @param send SSEイベントを送信する関数
+ * @param generate ストリーミングハンドラーを受け取って応答を生成する処理
+ * @param clientSignal クライアントの切断を検知するシグナル
+ * @param logger リクエストのロガー
+ * @param model 使用するモデル（メトリクスのラベル）
+ */
+async function streamApiResponse(
+  send: SSESend,
+  generate: (handlers: StreamHandlers) => Promise<ApiResponseData>,
+  clientSignal: AbortSignal,
+  logger: Logger,
+  model: ModelId
+): Promise<void> {
+  const recordStatus = (status: number) =>
+    getChatMetrics().requests.inc({ model, status });
+
+  try {
+    const responseData = await generate({
+      onDelta: (delta) => send(SSE_EVENTS.DELTA, { delta }),
+      onReset: (reason) => send(SSE_EVENTS.RESET, { reason }),
+    });
+    send(SSE_EVENTS.DONE, responseData);
+    recordStatus(HTTP_STATUS.OK);
+  } catch (error) {
+    if (clientSignal.aborted) {
+      logger.info(LOG_MESSAGES.CLIENT_CLOSED);
+      recordStatus(HTTP_STATUS.CLIENT_CLOSED_REQUEST);
+      return;
+    }
+
+    logger.error(LOG_MESSAGES.STREAM_FAILED, { error });
+    const { name, message, status } = error as {
+      name?: string;
+      message?: string;
+      status?: number;
+    };
+
+    if (name === "AbortError") {
+      send(SSE_EVENTS.ERROR, {
+        error: ERROR_MESSAGES.TIMEOUT,
+        status: HTTP_STATUS.GATEWAY_TIMEOUT,
+      });
+      recordStatus(HTTP_STATUS.GATEWAY_TIMEOUT);
+      return;
+    }
+
+    const errorStatus = status || HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    send(SSE_EVENTS.ERROR, {
+      error: ERROR_MESSAGES.GENERAL,
+      details: message,
+      status: errorStatus,
+    });
+    recordStatus(errorStatus);
   }
 }
 
@@ -224,81 +639,244 @@ async function generateApiResponse(
  *
  * クライアントからのリクエストを処理し、AI応答を返します。
  * 主な処理フロー：
- * 1. レート制限の確認
- * 2. 入力の検証とサニタイズ
- * 3. テストモードの場合は疑似応答を生成（OpenAI API接続なし）
- * 4. 通常モードの場合はOpenAI APIで応答を生成
- * 5. 応答のマークダウン変換とレスポンス返却
+ * 1. APIキーの認証（設定されている場合、無効なキーは401で拒否）
+ *    入力の検証と、モデルごとの割り当てに基づくレート制限の確認
+ *    （判定結果はRateLimit-*ヘッダーとしてすべての応答に付与し、制限超過時はRetry-Afterも付与。
+ *    認証の失敗・入力の誤り・モデルの不許可で拒否する場合は、重みを消費せずに現在の状態を付与し、
+ *    認証に失敗した場合は接続元のアドレスの状態を付与）
+ * 2. 会話履歴の検証とサニタイズ
+ * 3. 選択されたモデルのプロバイダーで応答を生成
+ *    （テスト用モデルは外部APIに接続しないテスト用プロバイダーで疑似応答を生成）
+ * 4. 応答のマークダウン変換とレスポンス返却
  *
+ * リクエストボディで`stream: true`が指定された場合は、
+ * 応答をServer-Sent Eventsでトークン単位にストリーミングします。
  * エラーハンドリングとタイムアウト処理も実装しています。
  *
+ * リクエストごとにリクエストIDを生成してすべてのログに付与し、
+ * X-Request-Idヘッダーで応答にも含めます（問い合わせ時にログと突き合わせるため）。
+ * モデル・ステータスコードごとのリクエスト数は GET /api/metrics で参照できます。
+ *
  * @param req クライアントからのリクエスト
- * @returns JSON形式のレスポンス
+ * @returns JSON形式のレスポンス、またはSSEストリーム
  */
 export async function POST(req: Request) {
-  try {
-    // クライアントのIPアドレスを取得
-    const ip = req.headers.get("x-forwarded-for") || "anonymous";
+  const startedAt = Date.now();
+  const requestId = createRequestId();
+  const logger = getConfiguredLogger().child({ requestId });
+  const responseHeaders = new Headers({ [REQUEST_ID_HEADER]: requestId });
+  const record: ChatRequestRecord = { streamed: false };
+  const response = await handleChatRequest(
+    req,
+    responseHeaders,
+    logger,
+    record
+  );
+
+  responseHeaders.forEach((value, name) => response.headers.set(name, value));
+  // SSEの場合はストリームの終了時に記録する
+  if (!record.streamed) {
+    getChatMetrics().requests.inc({
+      model: toModelLabel(record.model),
+      status: response.status,
+    });
+  }
+  logger.info(LOG_MESSAGES.REQUEST_COMPLETED, {
+    model: record.model,
+    status: response.status,
+    durationMs: Date.now() - startedAt,
+  });
+  return response;
+}
 
-    // レート制限を適用
-    try {
-      await checkRateLimit(ip);
-    } catch (error) {
+/**
+ * チャットボットの応答を生成するリクエストを処理する関数
+ *
+ * @param req クライアントからのリクエスト
+ * @param responseHeaders 応答ヘッダー（レート制限の判定結果など）を書き込む先
+ * @param logger リクエストのロガー（リクエストIDを付与済み）
+ * @param record メトリクスに記録するリクエストの情報の書き込み先
+ * @returns JSON形式のレスポンス、またはSSEストリーム
+ */
+async function handleChatRequest(
+  req: Request,
+  responseHeaders: Headers,
+  logger: Logger,
+  record: ChatRequestRecord
+): Promise<Response> {
+  try {
+    // 認証前に、接続元のアドレスによるクライアントの識別子を取得
+    const clientIdentityOptions = getClientIdentityOptions();
+    const addressClientId = resolveClientIdentity(
+      req.headers,
+      clientIdentityOptions
+    ).key;
+
+    // APIキーによる認証（API_AUTH_MODEがoffの場合はキーを参照しない）
+    const auth = await getApiKeyAuthenticator().authenticate(req.headers);
+    if (auth.status === "unauthorized") {
+      // 認証に失敗した場合も、接続元のアドレスの現在の状態を通知する
+      const requestedModel: unknown = await req.json().then(
+        (body) => body?.model,
+        () => undefined
+      );
+      setRateLimitHeaders(
+        responseHeaders,
+        await checkRateLimit(
+          addressClientId,
+          selectModel(requestedModel),
+          logger,
+          undefined,
+          false
+        )
+      );
       return NextResponse.json(
-        { error: ERROR_MESSAGES.RATE_LIMIT },
-        { status: HTTP_STATUS.TOO_MANY_REQUESTS }
+        { error: ERROR_MESSAGES.UNAUTHORIZED },
+        {
+          status: HTTP_STATUS.UNAUTHORIZED,
+          headers: { "WWW-Authenticate": "Bearer" },
+        }
       );
     }
+    const apiKey = auth.status === "authenticated" ? auth.key : null;
+
+    // レート制限に使用するクライアントの識別子を取得（APIキーがあればキーごと）
+    const clientId = apiKey
+      ? resolveClientIdentity(req.headers, clientIdentityOptions, {
+          kind: "api-key",
+          id: apiKey.id,
+        }).key
+      : addressClientId;
 
     // リクエストボディをパース
     const body = await req.json();
-    const { prompt, model } = body;
-
-    // デバッグ情報: 受信したリクエストの情報をログ出力
-    console.log(
-      `[DEBUG] 受信したリクエスト: prompt=${prompt?.substring(
-        0,
-        30
-      )}... model=${model}`
-    );
+    const { prompt, model, history, stream } = body;
+
+    // 受信したリクエストの情報をログ出力（プロンプトはロガーの設定に応じて伏せ字）
+    logger.debug(LOG_MESSAGES.REQUEST_RECEIVED, {
+      prompt,
+      model,
+      stream: stream === true,
+    });
 
     try {
       // 入力の検証
       const selectedModel = validateInput(prompt, model);
+      record.model = selectedModel;
+
+      // APIキーで許可されていないモデルは使用させない
+      if (apiKey && !isModelAllowedForKey(apiKey, selectedModel)) {
+        setRateLimitHeaders(
+          responseHeaders,
+          await checkRateLimit(
+            clientId,
+            selectedModel,
+            logger,
+            apiKey.quota,
+            false
+          )
+        );
+        return NextResponse.json(
+          { error: ERROR_MESSAGES.MODEL_NOT_ALLOWED },
+          { status: HTTP_STATUS.FORBIDDEN }
+        );
+      }
 
-      // デバッグ情報: 選択されたモデルをログ出力
-      console.log(
-        `[DEBUG] 選択されたモデル: ${selectedModel}, テストモード=${
-          selectedModel === "test-model"
-        }`
+      // モデルごとの重みと上限（APIキーごとの上限があれば優先）に従ってレート制限を適用
+      const quotaLimits = apiKey?.quota;
+      const rateLimit = await checkRateLimit(
+        clientId,
+        selectedModel,
+        logger,
+        quotaLimits
       );
-      console.log(`[DEBUG] 有効なモデル一覧: ${AVAILABLE_MODELS.join(", ")}`);
-
-      // テストモデルの場合はサーバー側でテスト応答を生成（OpenAI API接続なし）
-      if (selectedModel === "test-model") {
-        console.log(
-          "[INFO] テストモデルが選択されました: OpenAI APIは使用されません"
+      setRateLimitHeaders(responseHeaders, rateLimit);
+      if (rateLimit && !rateLimit.allowed) {
+        getChatMetrics().rateLimitRejections.inc({
+          model: selectedModel,
+          bucket: rateLimit.bucket,
+        });
+        return NextResponse.json(
+          { error: ERROR_MESSAGES.RATE_LIMIT },
+          { status: HTTP_STATUS.TOO_MANY_REQUESTS }
         );
-        const testResponse = await generateTestResponse(prompt);
-        return NextResponse.json(testResponse);
       }
 
-      // 通常モードの処理（以下はOpenAI APIを使用）
-      console.log(`[INFO] 通常モードで処理: モデル=${selectedModel}`);
+      // 会話履歴の検証とモデルのトークン予算内への切り詰め
+      const conversationHistory = truncateHistory(
+        validateHistory(history),
+        findModelDefinition(selectedModel, getModelRegistry())?.maxHistoryTokens
+      );
+      logger.debug(LOG_MESSAGES.HISTORY_TRUNCATED, {
+        received: Array.isArray(history) ? history.length : 0,
+        used: conversationHistory.length,
+      });
+
+      // 選択されたモデルをログ出力
+      logger.info(LOG_MESSAGES.GENERATING, {
+        model: selectedModel,
+        testMode: isTestMode(selectedModel),
+        stream: stream === true,
+      });
 
       // 入力のサニタイズ
       const sanitizedPrompt = sanitizeInput(prompt);
 
+      // ストリーミングが要求された場合はSSEで応答を返す
+      if (stream === true) {
+        record.streamed = true;
+        return createSSEResponse((send) =>
+          streamApiResponse(
+            send,
+            (handlers) =>
+              generateApiResponse(
+                sanitizedPrompt,
+                selectedModel,
+                conversationHistory,
+                req.signal,
+                logger,
+                () =>
+                  chargeWebSearch(clientId, selectedModel, logger, quotaLimits),
+                handlers
+              ),
+            req.signal,
+            logger,
+            selectedModel
+          ),
+          logger
+        );
+      }
+
       // 応答生成
       const responseData = await generateApiResponse(
         sanitizedPrompt,
-        selectedModel
+        selectedModel,
+        conversationHistory,
+        req.signal,
+        logger,
+        () => chargeWebSearch(clientId, selectedModel, logger, quotaLimits)
       );
 
       return NextResponse.json(responseData);
     } catch (error: any) {
       // 入力検証エラーの場合
-      if (error.message === ERROR_MESSAGES.INVALID_PROMPT) {
+      if (
+        error.message === ERROR_MESSAGES.INVALID_PROMPT ||
+        Object.values(HISTORY_ERROR_MESSAGES).includes(error.message)
+      ) {
+        // レート制限の確認前に拒否した場合も、現在の状態を通知する
+        if (!responseHeaders.has(RATE_LIMIT_HEADER_NAMES.LIMIT)) {
+          setRateLimitHeaders(
+            responseHeaders,
+            await checkRateLimit(
+              clientId,
+              selectModel(model),
+              logger,
+              apiKey?.quota,
+              false
+            )
+          );
+        }
         return NextResponse.json(
           { error: error.message },
           { status: HTTP_STATUS.BAD_REQUEST }
@@ -309,7 +887,16 @@ export async function POST(req: Request) {
       throw error;
     }
   } catch (error: any) {
-    console.error("Error calling OpenAI API:", error);
+    // クライアントが切断した場合（生成の停止）
+    if (req.signal.aborted) {
+      logger.info(LOG_MESSAGES.CLIENT_CLOSED);
+      return NextResponse.json(
+        { error: ERROR_MESSAGES.CLIENT_CLOSED },
+        { status: HTTP_STATUS.CLIENT_CLOSED_REQUEST }
+      );
+    }
+
+    logger.error(LOG_MESSAGES.REQUEST_FAILED, { error });
 
     if (error.name === "AbortError") {
       return NextResponse.json(
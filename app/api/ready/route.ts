@@ -0,0 +1,63 @@
+/**
+ * 準備完了の確認のルート
+ *
+ * このファイルは、コンテナのオーケストレーターの準備完了の確認（readiness probe）に
+ * 応答するサーバーサイドの処理を実装しています。
+ * OpenAI APIのAPIキー・検索プロバイダー・レート制限の記録の保存先を確認し、
+ * 確認項目ごとの結果を返します。
+ *
+ * @module api/ready
+ */
+
+import { NextResponse } from "next/server";
+import {
+  createConfiguredReadinessChecks,
+  runReadinessChecks,
+} from "@/app/utils/health";
+import { getConfiguredLogger } from "@/app/utils/logger";
+
+/**
+ * 環境変数と接続先の状態を参照するため、リクエストごとに応答を生成する
+ */
+export const dynamic = "force-dynamic";
+
+/**
+ * APIレスポンスのステータスコード
+ */
+const HTTP_STATUS = {
+  OK: 200,
+  SERVICE_UNAVAILABLE: 503,
+};
+
+/**
+ * ログメッセージの定数
+ */
+const LOG_MESSAGES = {
+  NOT_READY: "準備完了の確認に失敗した項目があります",
+};
+
+/**
+ * GETリクエストハンドラ
+ *
+ * すべての確認項目が成功またはスキップの場合は200、
+ * 失敗した項目がある場合は503を返します（オーケストレーターが振り分けを止めるため）。
+ *
+ * @returns JSON形式の確認結果（status と確認項目ごとの checks）
+ */
+export async function GET() {
+  const report = await runReadinessChecks(createConfiguredReadinessChecks());
+
+  if (report.status !== "ready") {
+    getConfiguredLogger().warn(LOG_MESSAGES.NOT_READY, {
+      checks: report.checks,
+    });
+  }
+
+  return NextResponse.json(report, {
+    status:
+      report.status === "ready"
+        ? HTTP_STATUS.OK
+        : HTTP_STATUS.SERVICE_UNAVAILABLE,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
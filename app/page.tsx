@@ -4,9 +4,14 @@
  * このコンポーネントは、チャットインターフェースの主要な機能を実装しています：
  * - メッセージリストの表示と管理
  * - ユーザー入力の処理
- * - OpenAI APIとの通信によるチャットボット応答の取得
+ * - OpenAI APIとの通信によるチャットボット応答の取得（ストリーミング表示）
  * - ローディング状態やエラーハンドリングの管理
+ * - 応答生成の停止（停止時は途中までの応答を「停止済み」として残す）
+ * - 応答の再生成と、送信済みの質問の編集・再送信（以前の応答はバージョンとして保持）
+ * - レート制限を超えた場合の、再試行できるようになるまでの送信の無効化
  * - LLMモデルの選択機能
+ * - 会話履歴を踏まえたマルチターン会話
+ * - 会話スレッドの永続化と切り替え（ドロワーの会話一覧と状態を共有）
  *
  * @module Home
  */
@@ -16,9 +21,21 @@ import { useState, useRef, useEffect } from "react";
 import { v4 as uuidv4 } from "uuid";
 import MessageList from "@/components/MessageList";
 import InputBar from "@/components/InputBar";
-import { getChatbotResponse } from "@/utils/openaiApi";
+import { getChatbotResponseStream, isRateLimitError } from "@/utils/openaiApi";
+import { useConversations } from "@/hooks/useConversations";
+import { useModelCatalog } from "@/hooks/useModelCatalog";
+import { useCooldown } from "@/hooks/useCooldown";
+import { isSelectableModel } from "@/utils/modelCatalogApi";
+import { CONVERSATION_DEFAULTS } from "@/utils/conversationStore";
+import {
+  addMessageVersion,
+  findPromptIndex,
+  preserveMessageVersion,
+  restoreMessageVersion,
+  selectMessageVersion,
+} from "@/utils/messageVersions";
 import { Message } from "@/types/message";
-import { OpenAIModel, DEFAULT_MODEL, AVAILABLE_MODELS } from "@/types/model";
+import { ModelId, DEFAULT_MODEL, ModelCatalog } from "@/types/model";
 
 /**
  * アプリケーション設定の定数
@@ -30,24 +47,25 @@ const APP_CONFIG = {
   MODEL_STORAGE_KEY: "preferred-ai-model",
 
   /**
-   * 初期ウェルカムメッセージID（固定値）
+   * APIリクエストのタイムアウト時間（ミリ秒）
    */
-  INITIAL_MESSAGE_ID: "welcome-message-id",
+  REQUEST_TIMEOUT_MS: 30000,
 
   /**
-   * APIリクエストのタイムアウト時間（ミリ秒）
+   * ローディング中のメッセージ
    */
-  REQUEST_TIMEOUT_MS: 30000,
+  LOADING_MESSAGE: "お返事を考えています...",
 
   /**
-   * 初期ウェルカムメッセージ
+   * Web検索による再生成中のメッセージ
    */
-  WELCOME_MESSAGE: "こんにちは！何をお手伝いしましょうか？",
+  WEB_SEARCH_MESSAGE: "Web検索で最新の情報を確認しています...",
 
   /**
-   * ローディング中のメッセージ
+   * ユーザーが応答の生成を停止した場合の中断理由
+   * タイムアウトによる中断と区別するために使用
    */
-  LOADING_MESSAGE: "お返事を考えています...",
+  STOP_ABORT_REASON: "user-stop",
 
   /**
    * アプリケーションのタイトル
@@ -154,32 +172,33 @@ const STYLES = {
 /**
  * ローカルストレージからモデル設定を読み込む関数
  *
- * @returns 保存されたモデル設定、または無効な場合はデフォルトモデル
+ * @param catalog サーバーから取得したモデルカタログ
+ * @returns 保存されたモデル設定、または選択できない場合はモデルカタログの初期選択モデル
  */
-function loadModelFromStorage(): OpenAIModel {
+function loadModelFromStorage(catalog: ModelCatalog): ModelId {
   try {
     // クライアントサイドでのみlocalStorageを使用
     if (typeof window === "undefined") {
-      return DEFAULT_MODEL;
+      return catalog.defaultModel;
     }
 
     const savedModel = localStorage.getItem(APP_CONFIG.MODEL_STORAGE_KEY);
     console.log(`保存されたモデルを読み込み: ${savedModel}`);
 
-    // 保存されたモデルが有効なモデルタイプであるかチェック
-    if (savedModel && AVAILABLE_MODELS.includes(savedModel as OpenAIModel)) {
+    // 保存されたモデルがサーバーで選択可能なモデルであるかチェック
+    if (savedModel && isSelectableModel(catalog, savedModel)) {
       console.log(`有効なモデルを設定: ${savedModel}`);
-      return savedModel as OpenAIModel;
+      return savedModel;
     } else {
       console.log(
-        `無効または存在しないモデル。デフォルトを使用: ${DEFAULT_MODEL}`
+        `無効または存在しないモデル。デフォルトを使用: ${catalog.defaultModel}`
       );
-      return DEFAULT_MODEL;
+      return catalog.defaultModel;
     }
   } catch (error) {
     console.error("モデル設定の読み込み中にエラーが発生しました:", error);
-    // エラーが発生した場合はデフォルトモデルを使用
-    return DEFAULT_MODEL;
+    // エラーが発生した場合はモデルカタログの初期選択モデルを使用
+    return catalog.defaultModel;
   }
 }
 
@@ -188,7 +207,7 @@ function loadModelFromStorage(): OpenAIModel {
  *
  * @param model 保存するモデル設定
  */
-function saveModelToStorage(model: OpenAIModel): void {
+function saveModelToStorage(model: ModelId): void {
   try {
     localStorage.setItem(APP_CONFIG.MODEL_STORAGE_KEY, model);
     console.log(`モデル設定を保存: ${model}`);
@@ -197,6 +216,22 @@ function saveModelToStorage(model: OpenAIModel): void {
   }
 }
 
+/**
+ * APIに送信する会話履歴を抽出する関数
+ * ウェルカムメッセージ、ローディング中のメッセージ、エラーメッセージは除外します
+ *
+ * @param messages 現在のメッセージ一覧
+ * @returns 会話履歴として送信するメッセージ
+ */
+function buildConversationHistory(messages: Message[]): Message[] {
+  return messages.filter(
+    (msg) =>
+      msg.id !== CONVERSATION_DEFAULTS.WELCOME_MESSAGE_ID &&
+      !msg.isLoading &&
+      !msg.isError
+  );
+}
+
 /**
  * ローディング中のUIを表示するコンポーネント
  * クライアントサイドレンダリングの前に表示されるスケルトンUI
@@ -212,7 +247,7 @@ function LoadingUI() {
           <div className={STYLES.LOADING_MESSAGE_BUBBLE}>
             <div className={STYLES.BOT_MESSAGE}>
               <p className={STYLES.MESSAGE_TEXT}>
-                {APP_CONFIG.WELCOME_MESSAGE}
+                {CONVERSATION_DEFAULTS.WELCOME_MESSAGE}
               </p>
             </div>
           </div>
@@ -246,25 +281,41 @@ function LoadingUI() {
  * チャットボットアプリケーションのメインコンポーネント
  */
 const Home = () => {
-  // メッセージの状態管理（初期メッセージを含む）
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      sender: "bot",
-      text: APP_CONFIG.WELCOME_MESSAGE,
-      id: APP_CONFIG.INITIAL_MESSAGE_ID,
-    },
-  ]);
+  // 選択中の会話スレッドとメッセージ更新関数（ドロワーの会話一覧と共有）
+  const {
+    activeConversation,
+    activeConversationId,
+    isLoaded: isConversationLoaded,
+    updateMessages,
+  } = useConversations();
+
+  // 選択中の会話のメッセージ
+  const messages = activeConversation?.messages ?? [];
 
   // ユーザー入力の状態管理
   const [input, setInput] = useState<string>("");
 
   // 選択されたモデルの状態管理
   const [selectedModel, setSelectedModel] =
-    useState<OpenAIModel>(DEFAULT_MODEL);
+    useState<ModelId>(DEFAULT_MODEL);
+
+  // サーバーのモデルカタログ（選択可能なモデルの一覧）
+  const { catalog: modelCatalog, isLoaded: isModelCatalogLoaded } =
+    useModelCatalog();
 
   // リクエスト処理中かどうかを追跡するref
   const processingRef = useRef<boolean>(false);
 
+  // 応答生成中のリクエストを中断するためのコントローラー
+  const requestControllerRef = useRef<AbortController | null>(null);
+
+  // 応答生成中かどうか（停止ボタンの表示用）
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+
+  // レート制限により送信できるようになるまでの残り秒数
+  const { remainingSeconds: cooldownSeconds, startCooldown } = useCooldown();
+  const isCoolingDown = cooldownSeconds > 0;
+
   // クライアントサイドでの処理を示すフラグ
   const [isClient, setIsClient] = useState(false);
 
@@ -274,20 +325,20 @@ const Home = () => {
   }, []);
 
   // ローカルストレージから保存されたモデル設定を読み込む
-  // クライアントサイドでのみ実行
+  // クライアントサイドでモデルカタログの取得後にのみ実行
   useEffect(() => {
-    if (!isClient) return;
+    if (!isClient || !isModelCatalogLoaded) return;
 
-    const savedModel = loadModelFromStorage();
+    const savedModel = loadModelFromStorage(modelCatalog);
     setSelectedModel(savedModel);
-  }, [isClient]);
+  }, [isClient, isModelCatalogLoaded, modelCatalog]);
 
   /**
    * モデル選択が変更されたときの処理
    *
    * @param model 選択されたモデル
    */
-  function handleModelChange(model: OpenAIModel) {
+  function handleModelChange(model: ModelId) {
     console.log(`モデルを変更: ${model}`);
     setSelectedModel(model);
 
@@ -316,109 +367,210 @@ const Home = () => {
     return inputText.trim();
   }
 
+  /**
+   * 指定した会話のメッセージを部分的に更新する関数
+   *
+   * @param conversationId 対象の会話ID
+   * @param messageId 更新するメッセージのID
+   * @param updates 更新内容
+   */
+  function updateMessage(
+    conversationId: string,
+    messageId: string,
+    updates: Partial<Message>
+  ) {
+    updateMessages(conversationId, (prev) =>
+      prev.map((msg) => (msg.id === messageId ? { ...msg, ...updates } : msg))
+    );
+  }
+
+  /**
+   * 指定した会話のメッセージを関数で更新する関数
+   *
+   * @param conversationId 対象の会話ID
+   * @param messageId 更新するメッセージのID
+   * @param updater 更新前のメッセージを受け取り更新後のメッセージを返す関数
+   */
+  function transformMessage(
+    conversationId: string,
+    messageId: string,
+    updater: (message: Message) => Message
+  ) {
+    updateMessages(conversationId, (prev) =>
+      prev.map((msg) => (msg.id === messageId ? updater(msg) : msg))
+    );
+  }
+
   /**
    * APIからの応答取得とメッセージ更新を行う関数
    *
+   * 応答はストリーミングで受信し、差分を受け取るたびにローディングメッセージを
+   * 途中までの応答で更新します。Web検索による再生成が始まった場合は、
+   * 途中までの応答を破棄して再びローディング表示に戻します。
+   * 応答待ちの間に会話が切り替えられても、送信元の会話に応答を追加します。
+   * ユーザーが生成を停止した場合は、途中までの応答を停止済みのメッセージとして残します。
+   * 再生成の場合は、生成した応答を新しいバージョンとして追加し、
+   * エラー時は再生成前に表示していたバージョンに戻します。
+   *
+   * @param conversationId 送信元の会話ID
    * @param sanitizedInput サニタイズされたユーザー入力
-   * @param loadingMessageId ローディングメッセージのID
+   * @param loadingMessageId ローディングメッセージ（再生成の場合は再生成する応答）のID
+   * @param history 今回の質問より前の会話履歴
    */
   async function fetchBotResponse(
+    conversationId: string,
     sanitizedInput: string,
-    loadingMessageId: string
+    loadingMessageId: string,
+    history: Message[]
   ) {
     // OpenAI APIを呼び出して応答を取得
     const controller = new AbortController();
+    requestControllerRef.current = controller;
     const timeoutId = setTimeout(
       () => controller.abort(),
       APP_CONFIG.REQUEST_TIMEOUT_MS
     );
 
+    // 停止された場合に残すための途中までの応答
+    let partialText = "";
+    // 応答を生成するモデル（応答待ちの間にモデルが変更されても記録がずれないよう保持）
+    const model = selectedModel;
+
     try {
-      console.log(`APIリクエスト送信 - 選択モデル: ${selectedModel}`);
-      const response = await getChatbotResponse(
+      console.log(`APIリクエスト送信 - 選択モデル: ${model}`);
+      const response = await getChatbotResponseStream(
         sanitizedInput,
+        {
+          onDelta: (_delta, text) => {
+            partialText = text;
+            updateMessage(conversationId, loadingMessageId, {
+              text,
+              isLoading: false,
+              isStreaming: true,
+            });
+          },
+          onReset: () => {
+            partialText = "";
+            updateMessage(conversationId, loadingMessageId, {
+              text: APP_CONFIG.WEB_SEARCH_MESSAGE,
+              isLoading: true,
+              isStreaming: false,
+            });
+          },
+        },
         controller.signal,
-        selectedModel
+        model,
+        history
       );
       clearTimeout(timeoutId);
 
-      // ローディングメッセージを削除し、実際の応答メッセージを追加
-      setMessages((prev) => {
-        const filteredMessages = prev.filter(
-          (msg) => msg.id !== loadingMessageId
-        );
-
-        return [
-          ...filteredMessages,
-          {
-            sender: "bot",
-            text: response.text,
-            html: response.html,
-            isMarkdown: response.isMarkdown,
-            id: generateMessageId(),
-          },
-        ];
-      });
+      // ストリーミング中のメッセージを最終的な応答で置き換え
+      transformMessage(conversationId, loadingMessageId, (msg) =>
+        addMessageVersion(msg, {
+          text: response.text,
+          html: response.html,
+          isMarkdown: response.isMarkdown,
+          searchResults: response.searchResults,
+          searchKeywords: response.searchKeywords,
+          unusedSources: response.unusedSources,
+          usage: response.usage,
+          searchDecision: response.searchDecision,
+          model,
+        })
+      );
     } catch (error: any) {
       clearTimeout(timeoutId);
-      console.error("Error fetching response:", error);
 
-      // ローディングメッセージを削除し、エラーメッセージを追加
-      setMessages((prev) => {
-        const filteredMessages = prev.filter(
-          (msg) => msg.id !== loadingMessageId
+      // ユーザーが停止した場合は途中までの応答を停止済みとして残す
+      if (controller.signal.reason === APP_CONFIG.STOP_ABORT_REASON) {
+        console.log("応答の生成を停止しました");
+        transformMessage(conversationId, loadingMessageId, (msg) =>
+          addMessageVersion(msg, { text: partialText, isStopped: true, model })
         );
+        return;
+      }
+
+      console.error("Error fetching response:", error);
+
+      // レート制限を超えた場合は、再試行できるようになるまで送信を無効化
+      if (isRateLimitError(error) && error.retryAfterMs !== undefined) {
+        startCooldown(error.retryAfterMs);
+      }
+
+      // ローディングメッセージを削除（再生成の場合は再生成前の応答に戻す）し、エラーメッセージを追加
+      updateMessages(conversationId, (prev) => {
+        const restoredMessages = prev.flatMap((msg) => {
+          if (msg.id !== loadingMessageId) return [msg];
+          return msg.versions ? [restoreMessageVersion(msg)] : [];
+        });
 
         return [
-          ...filteredMessages,
+          ...restoredMessages,
           {
             sender: "bot",
             text: `${ERROR_MESSAGES.PREFIX}${
               error.message || ERROR_MESSAGES.UNKNOWN
             }`,
             id: generateMessageId(),
+            isError: true,
           },
         ];
       });
+    } finally {
+      if (requestControllerRef.current === controller) {
+        requestControllerRef.current = null;
+      }
     }
   }
 
   /**
-   * メッセージ送信処理を行う関数
+   * 応答の生成を停止する関数
+   * 送信中のリクエストを中断し、サーバー側の生成も中断させます
+   */
+  function handleStop() {
+    requestControllerRef.current?.abort(APP_CONFIG.STOP_ABORT_REASON);
+  }
+
+  /**
+   * 質問を送信して応答を取得する関数
    *
    * 処理フロー:
-   * 1. 入力の検証と処理中チェック
-   * 2. ユーザーメッセージの追加
-   * 3. ローディングメッセージの表示
-   * 4. OpenAI APIからの応答取得
-   * 5. 応答メッセージの表示とローディングの削除
+   * 1. 処理中チェック
+   * 2. 指定された位置以降のメッセージの削除（編集して再送信する場合）
+   * 3. ユーザーメッセージとローディングメッセージの追加
+   * 4. OpenAI APIからの応答をストリーミングで取得
+   * 5. 途中経過の表示と最終的な応答メッセージへの置き換え
    *
-   * エラーハンドリングとタイムアウト処理も実装
+   * @param conversationId 送信先の会話ID
+   * @param sanitizedInput サニタイズされたユーザー入力
+   * @param history 今回の質問より前の会話履歴
+   * @param truncateFromIndex このインデックス以降のメッセージを削除してから送信する（省略時は末尾に追加）
    */
-  async function handleSend() {
-    // 空のメッセージ送信や多重送信の防止
-    if (input.trim() === "" || processingRef.current) return;
+  async function submitPrompt(
+    conversationId: string,
+    sanitizedInput: string,
+    history: Message[],
+    truncateFromIndex?: number
+  ) {
+    // 多重送信の防止
+    if (processingRef.current) return;
 
     processingRef.current = true;
-    const sanitizedInput = sanitizeInput(input);
-    setInput("");
+    setIsGenerating(true);
 
     try {
-      // ユーザーメッセージ追加
+      // ユーザーメッセージとローディングメッセージを追加
       const userMessageId = generateMessageId();
-      setMessages((prev) => [
-        ...prev,
+      const loadingMessageId = generateMessageId();
+      updateMessages(conversationId, (prev) => [
+        ...(truncateFromIndex === undefined
+          ? prev
+          : prev.slice(0, truncateFromIndex)),
         {
           sender: "user",
           text: sanitizedInput,
           id: userMessageId,
         },
-      ]);
-
-      // ローディングメッセージ追加
-      const loadingMessageId = generateMessageId();
-      setMessages((prev) => [
-        ...prev,
         {
           sender: "bot",
           text: APP_CONFIG.LOADING_MESSAGE,
@@ -428,26 +580,161 @@ const Home = () => {
       ]);
 
       // APIからの応答を取得
-      await fetchBotResponse(sanitizedInput, loadingMessageId);
+      await fetchBotResponse(
+        conversationId,
+        sanitizedInput,
+        loadingMessageId,
+        history
+      );
     } finally {
       processingRef.current = false;
+      setIsGenerating(false);
     }
   }
 
-  // クライアントサイドレンダリングが完了するまで最小限のUIを表示
-  if (!isClient) {
+  /**
+   * メッセージ送信処理を行う関数
+   *
+   * 入力を検証し、会話の末尾に質問を追加して応答を取得します
+   * エラーハンドリングとタイムアウト処理も実装
+   */
+  async function handleSend() {
+    // 空のメッセージ送信や多重送信、レート制限による待機中の送信の防止
+    if (
+      input.trim() === "" ||
+      processingRef.current ||
+      isCoolingDown ||
+      !activeConversationId
+    )
+      return;
+
+    // 応答待ちの間に会話が切り替えられても送信元の会話を更新できるよう保持
+    const conversationId = activeConversationId;
+    const sanitizedInput = sanitizeInput(input);
+    setInput("");
+
+    // 今回の質問を追加する前の会話履歴を取得
+    const history = buildConversationHistory(messages);
+
+    await submitPrompt(conversationId, sanitizedInput, history);
+  }
+
+  /**
+   * ユーザーのメッセージを編集して再送信する関数
+   * 編集したメッセージ以降の会話を削除し、編集後の内容で質問し直します
+   *
+   * @param messageId 編集するユーザーメッセージのID
+   * @param text 編集後のテキスト
+   */
+  async function handleEdit(messageId: string, text: string) {
+    const sanitizedInput = sanitizeInput(text);
+    const messageIndex = messages.findIndex((msg) => msg.id === messageId);
+    if (
+      sanitizedInput === "" ||
+      messageIndex < 0 ||
+      processingRef.current ||
+      isCoolingDown ||
+      !activeConversationId
+    )
+      return;
+
+    await submitPrompt(
+      activeConversationId,
+      sanitizedInput,
+      buildConversationHistory(messages.slice(0, messageIndex)),
+      messageIndex
+    );
+  }
+
+  /**
+   * ボットの応答を再生成する関数
+   * 直前のユーザーの質問を、現在選択されているモデルで送信し直します
+   * 以前の応答はバージョンとして保持し、切り替えて表示できます
+   *
+   * @param messageId 再生成するボットの応答のID
+   */
+  async function handleRegenerate(messageId: string) {
+    const messageIndex = messages.findIndex((msg) => msg.id === messageId);
+    const promptIndex = findPromptIndex(messages, messageIndex);
+    if (
+      promptIndex < 0 ||
+      processingRef.current ||
+      isCoolingDown ||
+      !activeConversationId
+    )
+      return;
+
+    processingRef.current = true;
+    setIsGenerating(true);
+    const conversationId = activeConversationId;
+
+    try {
+      // 現在の応答をバージョンとして保持してからローディング表示に切り替え、
+      // 応答の後に表示されていたエラーメッセージは削除する
+      updateMessages(conversationId, (prev) =>
+        prev
+          .slice(0, prev.findIndex((msg) => msg.id === messageId) + 1)
+          .map((msg) =>
+            msg.id === messageId
+              ? {
+                  ...preserveMessageVersion(msg),
+                  text: APP_CONFIG.LOADING_MESSAGE,
+                  isLoading: true,
+                }
+              : msg
+          )
+      );
+
+      await fetchBotResponse(
+        conversationId,
+        messages[promptIndex].text,
+        messageId,
+        buildConversationHistory(messages.slice(0, promptIndex))
+      );
+    } finally {
+      processingRef.current = false;
+      setIsGenerating(false);
+    }
+  }
+
+  /**
+   * 表示する応答のバージョンを切り替える関数
+   *
+   * @param messageId 対象のボットの応答のID
+   * @param versionIndex 表示するバージョンの番号（0始まり）
+   */
+  function handleSelectVersion(messageId: string, versionIndex: number) {
+    if (!activeConversationId) return;
+
+    transformMessage(activeConversationId, messageId, (msg) =>
+      selectMessageVersion(msg, versionIndex)
+    );
+  }
+
+  // クライアントサイドレンダリングと会話の読み込みが完了するまで最小限のUIを表示
+  if (!isClient || !isConversationLoaded) {
     return <LoadingUI />;
   }
 
   return (
     <div className={STYLES.CONTAINER}>
-      <MessageList messages={messages} />
+      <MessageList
+        messages={messages}
+        isGenerating={isGenerating}
+        onRegenerate={handleRegenerate}
+        onEdit={handleEdit}
+        onSelectVersion={handleSelectVersion}
+      />
       <InputBar
         input={input}
         setInput={setInput}
         handleSend={handleSend}
         selectedModel={selectedModel}
+        models={modelCatalog.models}
         onModelChange={handleModelChange}
+        isGenerating={isGenerating}
+        onStop={handleStop}
+        cooldownSeconds={cooldownSeconds}
       />
     </div>
   );
@@ -0,0 +1,206 @@
+/**
+ * APIキー認証
+ *
+ * このファイルは、チャットAPIを利用するクライアントをサーバーが発行したAPIキーで
+ * 認証する機能を提供します。キーは`Authorization: Bearer <キー>`ヘッダーで受け取ります。
+ *
+ * キーの形式は`ck_<ID>_<秘密>`（IDは12桁、秘密は64桁の16進数）で、
+ * 保存先には秘密の部分のSHA-256ハッシュ値のみを保存します。
+ * キーの発行・一覧・失効は`npm run api-keys`（scripts/api-keys.mjs）で行います。
+ *
+ * 環境変数:
+ * - API_AUTH_MODE: 認証の要否（off / optional / required、既定値: off）
+ *   - off: キーを参照しない
+ *   - optional: キーなしのリクエストも受け付け、キーが指定された場合は検証する
+ *   - required: 有効なキーのないリクエストを拒否する
+ * - API_KEYS_FILE: APIキーを保存するファイルのパス（既定値: ./data/api-keys.json）
+ *
+ * @module apiKeys
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { ModelId } from "@/types/model";
+import { createFileApiKeyStore, ApiKeyStore } from "./store";
+import { ApiKeyAuthResult, ApiKeyRecord } from "./types";
+
+export type { ApiKeyAuthResult, ApiKeyRecord } from "./types";
+export type { ApiKeyStore } from "./store";
+export { createFileApiKeyStore, API_KEY_STORE_ERROR_MESSAGES } from "./store";
+
+/**
+ * 認証の要否の設定値
+ */
+export const API_AUTH_MODES = {
+  OFF: "off",
+  OPTIONAL: "optional",
+  REQUIRED: "required",
+};
+
+/**
+ * APIキーの設定値
+ */
+const API_KEY_SETTINGS = {
+  /**
+   * APIキーの形式（scripts/api-keys.mjsの定義と一致させる）
+   */
+  TOKEN_PATTERN: /^ck_([0-9a-f]{12})_([0-9a-f]{64})$/,
+
+  /**
+   * Authorizationヘッダーの認証方式
+   */
+  BEARER_PATTERN: /^Bearer\s+(\S+)$/i,
+
+  /**
+   * APIキーを保存するファイルの既定のパス
+   */
+  DEFAULT_FILE_PATH: "./data/api-keys.json",
+};
+
+/**
+ * エラーメッセージ
+ */
+export const API_KEY_ERROR_MESSAGES = {
+  UNKNOWN_MODE: (mode: string) =>
+    `不明なAPI_AUTH_MODEが指定されました: ${mode}（${Object.values(
+      API_AUTH_MODES
+    ).join(" / ")}のいずれかを指定してください）`,
+};
+
+/**
+ * APIキー認証のインターフェース
+ */
+export interface ApiKeyAuthenticator {
+  /**
+   * リクエストのヘッダーからクライアントを認証する関数
+   *
+   * @param headers リクエストのヘッダー
+   * @returns 認証の結果
+   * @throws キーの保存先を読み込めない場合エラーをスロー
+   */
+  authenticate: (headers: Headers) => Promise<ApiKeyAuthResult>;
+}
+
+/**
+ * APIキーをIDと秘密の部分に分解する関数
+ *
+ * @param token APIキー
+ * @returns IDと秘密の部分（形式が不正な場合はnull）
+ */
+export function parseApiKey(
+  token: string
+): { id: string; secret: string } | null {
+  const match = API_KEY_SETTINGS.TOKEN_PATTERN.exec(token);
+  return match ? { id: match[1], secret: match[2] } : null;
+}
+
+/**
+ * APIキーの秘密の部分のハッシュ値を計算する関数
+ *
+ * @param secret APIキーの秘密の部分
+ * @returns SHA-256ハッシュ値（16進数）
+ */
+export function hashApiKeySecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * APIキーを検証する関数
+ * ハッシュ値の比較は、比較にかかる時間から値を推測されないよう一定時間で行います
+ *
+ * @param records APIキーの記録の一覧
+ * @param token 検証するAPIキー
+ * @returns 有効なキーの記録（無効な場合や失効している場合はnull）
+ */
+export function verifyApiKey(
+  records: ApiKeyRecord[],
+  token: string
+): ApiKeyRecord | null {
+  const parsed = parseApiKey(token);
+  if (!parsed) return null;
+
+  const record = records.find((candidate) => candidate.id === parsed.id);
+  if (!record || record.revokedAt) return null;
+
+  const expected = Buffer.from(record.hash, "hex");
+  const actual = Buffer.from(hashApiKeySecret(parsed.secret), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+    ? record
+    : null;
+}
+
+/**
+ * APIキーで使用が許可されたモデルかどうかを判定する関数
+ *
+ * @param record APIキーの記録
+ * @param model 使用するモデル
+ * @returns 許可されている場合はtrue
+ */
+export function isModelAllowedForKey(
+  record: ApiKeyRecord,
+  model: ModelId
+): boolean {
+  return !record.models || record.models.includes(model);
+}
+
+/**
+ * AuthorizationヘッダーからBearerトークンを取り出す関数
+ *
+ * @param headers リクエストのヘッダー
+ * @returns トークン（ヘッダーがない場合はnull、Bearer以外の形式の場合は空文字）
+ */
+function getBearerToken(headers: Headers): string | null {
+  const authorization = headers.get("authorization");
+  if (!authorization) return null;
+
+  return API_KEY_SETTINGS.BEARER_PATTERN.exec(authorization.trim())?.[1] ?? "";
+}
+
+/**
+ * APIキー認証を生成する関数
+ *
+ * @param options.mode 認証の要否（API_AUTH_MODESのいずれか）
+ * @param options.store APIキーの記録の保存先
+ * @returns APIキー認証
+ * @throws 不明な認証の要否が指定された場合エラーをスロー
+ */
+export function createApiKeyAuthenticator(options: {
+  mode: string;
+  store: ApiKeyStore;
+}): ApiKeyAuthenticator {
+  const mode = options.mode.trim().toLowerCase();
+  if (!Object.values(API_AUTH_MODES).includes(mode)) {
+    throw new Error(API_KEY_ERROR_MESSAGES.UNKNOWN_MODE(mode));
+  }
+
+  return {
+    authenticate: async (headers) => {
+      if (mode === API_AUTH_MODES.OFF) return { status: "anonymous" };
+
+      const token = getBearerToken(headers);
+      if (token === null) {
+        return mode === API_AUTH_MODES.REQUIRED
+          ? { status: "unauthorized" }
+          : { status: "anonymous" };
+      }
+
+      // 指定されたキーが無効な場合は、キーなしのリクエストとして扱わず拒否する
+      const key = verifyApiKey(await options.store.list(), token);
+      return key ? { status: "authenticated", key } : { status: "unauthorized" };
+    },
+  };
+}
+
+/**
+ * 環境変数の設定に応じてAPIキー認証を生成する関数
+ *
+ * @returns APIキー認証
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function createConfiguredApiKeyAuthenticator(): ApiKeyAuthenticator {
+  return createApiKeyAuthenticator({
+    mode: process.env.API_AUTH_MODE || API_AUTH_MODES.OFF,
+    store: createFileApiKeyStore({
+      path: process.env.API_KEYS_FILE || API_KEY_SETTINGS.DEFAULT_FILE_PATH,
+    }),
+  });
+}
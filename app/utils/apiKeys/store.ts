@@ -0,0 +1,137 @@
+/**
+ * APIキーの保存先（ローカルのJSONファイル）
+ *
+ * このモジュールは、APIキーの記録をJSONファイルから読み込む機能を提供します。
+ * ファイルにはキーそのものではなくハッシュ値のみを保存します。
+ * キーの発行・失効はCLI（scripts/api-keys.mjs）で行い、
+ * サーバーはファイルの更新を検知して読み込み直すため、再起動せずに反映されます。
+ *
+ * ファイルの形式:
+ * { "keys": [{ "id": "...", "name": "...", "hash": "...", "createdAt": "...",
+ *   "revokedAt": "...", "models": ["..."], "quota": { "perMinute": 10, "perDay": 300 } }] }
+ * （revokedAt・models・quotaは省略可）
+ *
+ * @module apiKeys/store
+ */
+
+import { readFile, stat } from "fs/promises";
+import { ApiKeyRecord } from "./types";
+
+/**
+ * エラーメッセージ
+ */
+export const API_KEY_STORE_ERROR_MESSAGES = {
+  INVALID_STORE: (path: string) =>
+    `APIキーのファイルの形式が不正です: ${path}`,
+};
+
+/**
+ * APIキーの記録の保存先のインターフェース
+ */
+export interface ApiKeyStore {
+  /**
+   * APIキーの記録の一覧を取得する関数
+   *
+   * @returns APIキーの記録の一覧（ファイルが存在しない場合は空）
+   * @throws ファイルの形式が不正な場合エラーをスロー
+   */
+  list: () => Promise<ApiKeyRecord[]>;
+}
+
+/**
+ * 値が正の整数かどうかを判定する関数
+ */
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * 値がAPIキーの記録として有効かどうかを判定する関数
+ *
+ * @param value 検証する値
+ * @returns 有効な記録であればtrue
+ */
+function isApiKeyRecord(value: unknown): value is ApiKeyRecord {
+  if (!value || typeof value !== "object") return false;
+
+  const record = value as Partial<ApiKeyRecord>;
+  return (
+    typeof record.id === "string" &&
+    typeof record.name === "string" &&
+    typeof record.hash === "string" &&
+    typeof record.createdAt === "string" &&
+    (record.revokedAt === undefined || typeof record.revokedAt === "string") &&
+    (record.models === undefined ||
+      (Array.isArray(record.models) &&
+        record.models.every((model) => typeof model === "string"))) &&
+    (record.quota === undefined ||
+      (isPositiveInteger(record.quota?.perMinute) &&
+        isPositiveInteger(record.quota?.perDay)))
+  );
+}
+
+/**
+ * APIキーのファイルの内容を解析する関数
+ *
+ * @param content ファイルの内容
+ * @param path ファイルのパス（エラーメッセージ用）
+ * @returns APIキーの記録の一覧
+ * @throws 形式が不正な場合エラーをスロー
+ */
+function parseApiKeyFile(content: string, path: string): ApiKeyRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(API_KEY_STORE_ERROR_MESSAGES.INVALID_STORE(path));
+  }
+
+  const keys = (parsed as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys) || !keys.every(isApiKeyRecord)) {
+    throw new Error(API_KEY_STORE_ERROR_MESSAGES.INVALID_STORE(path));
+  }
+  return keys;
+}
+
+/**
+ * ファイルの更新時刻を取得する関数
+ *
+ * @param path ファイルのパス
+ * @returns 更新時刻（ファイルが存在しない場合はnull）
+ */
+async function getModifiedTime(path: string): Promise<number | null> {
+  try {
+    return (await stat(path)).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * JSONファイルにAPIキーを保存する保存先を生成する関数
+ * 読み込んだ内容はファイルが更新されるまで再利用します
+ *
+ * @param options.path APIキーのファイルのパス
+ * @returns APIキーの記録の保存先
+ */
+export function createFileApiKeyStore(options: {
+  path: string;
+}): ApiKeyStore {
+  const { path } = options;
+  let cached: { modifiedTime: number | null; keys: ApiKeyRecord[] } | null =
+    null;
+
+  return {
+    list: async () => {
+      const modifiedTime = await getModifiedTime(path);
+      if (cached && cached.modifiedTime === modifiedTime) return cached.keys;
+
+      const keys =
+        modifiedTime === null
+          ? []
+          : parseApiKeyFile(await readFile(path, "utf-8"), path);
+      cached = { modifiedTime, keys };
+      return keys;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * APIキー認証の型定義
+ *
+ * @module apiKeys/types
+ */
+
+import { ModelId } from "@/types/model";
+import { QuotaLimits } from "@/app/utils/rateLimit";
+
+/**
+ * 保存されるAPIキーの記録
+ * キーそのものは保存せず、秘密の部分のハッシュ値のみを保持します
+ */
+export interface ApiKeyRecord {
+  /** キーのID（キーに含まれ、記録の検索やレート制限の識別子に使用） */
+  id: string;
+  /** キーの用途などを示す名前 */
+  name: string;
+  /** キーの秘密の部分のハッシュ値（SHA-256、16進数） */
+  hash: string;
+  /** 発行日時（ISO 8601） */
+  createdAt: string;
+  /** 失効日時（ISO 8601、失効していない場合は省略） */
+  revokedAt?: string;
+  /** 使用を許可するモデル（省略時はすべてのモデル） */
+  models?: ModelId[];
+  /** キーごとの1分あたり・1日あたりの上限（省略時はモデルごとの上限） */
+  quota?: QuotaLimits;
+}
+
+/**
+ * APIキー認証の結果
+ * - anonymous: キーが指定されず、キーなしのリクエストとして扱う
+ * - authenticated: 有効なキーで認証された
+ * - unauthorized: キーが無効、またはキーが必要なのに指定されなかった
+ */
+export type ApiKeyAuthResult =
+  | { status: "anonymous" }
+  | { status: "authenticated"; key: ApiKeyRecord }
+  | { status: "unauthorized" };
@@ -0,0 +1,277 @@
+/**
+ * クライアントの識別
+ *
+ * このファイルは、レート制限などでクライアントを区別するための識別子を、
+ * リクエストのヘッダーから解決する機能を提供します。
+ *
+ * 識別の優先順位:
+ * 1. 認証済みの主体（APIキーやセッション）が指定された場合はその識別子
+ * 2. プロキシが付与したヘッダーから求めたクライアントのIPアドレス
+ *    （IPv6アドレスは、1契約に割り当てられることが多い/64単位にまとめる）
+ * 3. いずれも得られない場合は匿名（すべての匿名クライアントで共有）
+ *
+ * プロキシのヘッダーはクライアントが自由に付与できるため、
+ * 設定したヘッダーのみを参照し、末尾（最も近いプロキシが付与した値）から
+ * 信頼するプロキシのアドレスを除いた最初のアドレスをクライアントとみなします。
+ * ヘッダーが設定されていない場合は、プロキシを経由しない構成でクライアントがヘッダーを偽り
+ * 識別子を変え続けられないよう、どのヘッダーも参照せずに匿名として扱います。
+ *
+ * 環境変数:
+ * - CLIENT_IP_HEADER: プロキシがクライアントのアドレスを付与するヘッダー
+ *   （x-forwarded-for / forwarded / x-real-ip、未設定の場合はヘッダーを参照しない）
+ * - TRUSTED_PROXIES: 信頼するプロキシのアドレス（カンマ区切り、CIDR表記可。例: 10.0.0.0/8,::1）
+ *
+ * @module clientIdentity
+ */
+
+import {
+  CidrRange,
+  formatIpAddress,
+  IpAddress,
+  isInCidrRange,
+  maskIpAddress,
+  parseCidr,
+  parseIpAddress,
+} from "./ipAddress";
+
+export type { CidrRange, IpAddress } from "./ipAddress";
+export {
+  formatIpAddress,
+  isInCidrRange,
+  maskIpAddress,
+  parseCidr,
+  parseIpAddress,
+} from "./ipAddress";
+
+/**
+ * クライアントのアドレスを取得するヘッダー名
+ */
+export const CLIENT_IP_HEADERS = {
+  X_FORWARDED_FOR: "x-forwarded-for",
+  FORWARDED: "forwarded",
+  X_REAL_IP: "x-real-ip",
+};
+
+/**
+ * クライアントの識別に関する設定値
+ */
+const CLIENT_IDENTITY_SETTINGS = {
+  /**
+   * IPv6アドレスをまとめる単位（プレフィックス長）
+   */
+  IPV6_PREFIX_LENGTH: 64,
+
+  /**
+   * 匿名クライアントの識別子
+   */
+  ANONYMOUS_KEY: "anonymous",
+};
+
+/**
+ * エラーメッセージ
+ */
+export const CLIENT_IDENTITY_ERROR_MESSAGES = {
+  INVALID_TRUSTED_PROXY: (entry: string) =>
+    `TRUSTED_PROXIESの値が不正です（IPアドレスまたはCIDR表記で指定してください）: ${entry}`,
+  UNKNOWN_HEADER: (name: string) =>
+    `不明なCLIENT_IP_HEADERが指定されました: ${name}（${Object.values(
+      CLIENT_IP_HEADERS
+    ).join(" / ")}のいずれかを指定してください）`,
+};
+
+/**
+ * クライアントの識別方法
+ * - api-key: 認証済みのAPIキー
+ * - session: 認証済みのセッション
+ * - ip: IPアドレス（IPv6は/64単位）
+ * - anonymous: 識別できないクライアント
+ */
+export type ClientIdentityKind = "api-key" | "session" | "ip" | "anonymous";
+
+/**
+ * 認証済みの主体
+ * 認証の仕組みで検証済みの識別子のみを指定します
+ */
+export interface ClientPrincipal {
+  /** 主体の種類 */
+  kind: "api-key" | "session";
+  /** 主体の識別子（APIキーのIDなど、秘密の値そのものは指定しない） */
+  id: string;
+}
+
+/**
+ * クライアントの識別結果
+ */
+export interface ClientIdentity {
+  /** 識別方法 */
+  kind: ClientIdentityKind;
+  /** レート制限などで使用する識別子（識別方法を接頭辞に含む） */
+  key: string;
+}
+
+/**
+ * クライアントの識別の設定
+ */
+export interface ClientIdentityOptions {
+  /** プロキシがクライアントのアドレスを付与するヘッダー（nullの場合はヘッダーを参照しない） */
+  header: string | null;
+  /** 信頼するプロキシのアドレスの範囲 */
+  trustedProxies: CidrRange[];
+}
+
+/**
+ * 信頼するプロキシの設定を解析する関数
+ *
+ * @param value TRUSTED_PROXIESの値（例: "10.0.0.0/8, 2001:db8::/32"）
+ * @returns 信頼するプロキシのアドレスの範囲
+ * @throws 形式が不正な項目がある場合エラーをスロー
+ */
+export function parseTrustedProxies(value?: string): CidrRange[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const range = parseCidr(entry);
+      if (!range) {
+        throw new Error(
+          CLIENT_IDENTITY_ERROR_MESSAGES.INVALID_TRUSTED_PROXY(entry)
+        );
+      }
+      return range;
+    });
+}
+
+/**
+ * Forwardedヘッダー（RFC 7239）から各プロキシが記録したアドレスを取り出す関数
+ *
+ * @param value Forwardedヘッダーの値（例: `for=192.0.2.60;proto=http, for="[2001:db8::1]"`）
+ * @returns for=パラメーターの値の一覧（記録された順）
+ */
+export function parseForwardedHeader(value: string): string[] {
+  return value.split(",").map((element) => {
+    const pair = element
+      .split(";")
+      .map((parameter) => parameter.trim())
+      .find((parameter) => /^for=/i.test(parameter));
+
+    // for=がない要素も、経由したプロキシの数を保つため空の値として残す
+    return pair ? pair.slice("for=".length).replace(/^"(.*)"$/, "$1") : "";
+  });
+}
+
+/**
+ * 設定したヘッダーから、経由したアドレスの一覧を取得する関数
+ *
+ * @param headers リクエストのヘッダー
+ * @param header 参照するヘッダー名
+ * @returns アドレスの一覧（クライアントに近い順）
+ */
+function getForwardedChain(headers: Headers, header: string): string[] {
+  const value = headers.get(header);
+  if (!value) return [];
+
+  switch (header) {
+    case CLIENT_IP_HEADERS.FORWARDED:
+      return parseForwardedHeader(value);
+    case CLIENT_IP_HEADERS.X_REAL_IP:
+      return [value.trim()];
+    default:
+      return value.split(",").map((entry) => entry.trim());
+  }
+}
+
+/**
+ * リクエストのヘッダーからクライアントのIPアドレスを求める関数
+ *
+ * 末尾から信頼するプロキシのアドレスを読み飛ばし、最初に現れた信頼しないアドレスを
+ * クライアントとみなします。すべて信頼するプロキシの場合は先頭のアドレスを使用します。
+ *
+ * @param headers リクエストのヘッダー
+ * @param options クライアントの識別の設定
+ * @returns クライアントのIPアドレス（求められない場合はnull）
+ */
+export function resolveClientAddress(
+  headers: Headers,
+  options: ClientIdentityOptions
+): IpAddress | null {
+  if (!options.header) return null;
+
+  const chain = getForwardedChain(headers, options.header);
+
+  for (let index = chain.length - 1; index >= 0; index--) {
+    const address = parseIpAddress(chain[index]);
+
+    // 信頼するプロキシが解析できない値（unknownや難読化された識別子）を記録した場合は識別しない
+    if (!address) return null;
+
+    const isTrusted = options.trustedProxies.some((range) =>
+      isInCidrRange(address, range)
+    );
+    if (!isTrusted || index === 0) return address;
+  }
+
+  return null;
+}
+
+/**
+ * IPアドレスをクライアントの識別子に変換する関数
+ * IPv6アドレスは/64単位にまとめ、アドレスを変えながらの回避を防ぎます
+ *
+ * @param address IPアドレス
+ * @returns 識別子に使用するアドレスの文字列
+ */
+export function normalizeClientAddress(address: IpAddress): string {
+  if (address.version === 4) return formatIpAddress(address);
+
+  const prefixLength = CLIENT_IDENTITY_SETTINGS.IPV6_PREFIX_LENGTH;
+  return `${formatIpAddress(
+    maskIpAddress(address, prefixLength)
+  )}/${prefixLength}`;
+}
+
+/**
+ * リクエストのクライアントを識別する関数
+ *
+ * @param headers リクエストのヘッダー
+ * @param options クライアントの識別の設定
+ * @param principal 認証済みの主体（指定された場合はIPアドレスより優先）
+ * @returns クライアントの識別結果
+ */
+export function resolveClientIdentity(
+  headers: Headers,
+  options: ClientIdentityOptions,
+  principal?: ClientPrincipal
+): ClientIdentity {
+  if (principal) {
+    return { kind: principal.kind, key: `${principal.kind}:${principal.id}` };
+  }
+
+  const address = resolveClientAddress(headers, options);
+  if (address) {
+    return { kind: "ip", key: `ip:${normalizeClientAddress(address)}` };
+  }
+
+  return { kind: "anonymous", key: CLIENT_IDENTITY_SETTINGS.ANONYMOUS_KEY };
+}
+
+/**
+ * 環境変数の設定からクライアントの識別の設定を作成する関数
+ *
+ * @returns クライアントの識別の設定
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function createConfiguredClientIdentityOptions(): ClientIdentityOptions {
+  const header = process.env.CLIENT_IP_HEADER?.trim().toLowerCase() || null;
+
+  if (header && !Object.values(CLIENT_IP_HEADERS).includes(header)) {
+    throw new Error(CLIENT_IDENTITY_ERROR_MESSAGES.UNKNOWN_HEADER(header));
+  }
+
+  return {
+    header,
+    trustedProxies: parseTrustedProxies(process.env.TRUSTED_PROXIES),
+  };
+}
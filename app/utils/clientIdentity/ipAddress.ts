@@ -0,0 +1,246 @@
+/**
+ * IPアドレスとCIDR表記の解析
+ *
+ * このモジュールは、プロキシのヘッダーに含まれるIPアドレスの解析と、
+ * 信頼するプロキシの範囲（CIDR表記）との照合に使用する関数を提供します。
+ *
+ * 特徴:
+ * - IPv4・IPv6の両方に対応（IPv6の省略表記やIPv4埋め込み表記、ゾーンIDも解析）
+ * - ポート番号付きの表記（`192.0.2.1:8080`、`[2001:db8::1]:443`）も解析
+ * - IPv4射影アドレス（`::ffff:192.0.2.1`）はIPv4アドレスとして扱う
+ *
+ * @module clientIdentity/ipAddress
+ */
+
+/**
+ * 解析済みのIPアドレス
+ */
+export interface IpAddress {
+  /** IPのバージョン */
+  version: 4 | 6;
+  /** アドレスのバイト列（IPv4は4バイト、IPv6は16バイト） */
+  bytes: number[];
+}
+
+/**
+ * 解析済みのCIDR範囲
+ */
+export interface CidrRange {
+  /** 範囲の先頭のアドレス */
+  address: IpAddress;
+  /** プレフィックス長（ビット数） */
+  prefixLength: number;
+}
+
+/**
+ * IPv4アドレスを検出する正規表現
+ */
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+/**
+ * IPv6アドレスの各グループを検出する正規表現
+ */
+const IPV6_GROUP_PATTERN = /^[0-9a-f]{1,4}$/i;
+
+/**
+ * IPv4射影アドレスの先頭12バイト（::ffff:0:0/96）
+ */
+const IPV4_MAPPED_PREFIX = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff];
+
+/**
+ * IPv4アドレスを解析する関数
+ *
+ * @param value IPv4アドレスの文字列
+ * @returns 4バイトのバイト列（解析できない場合はnull）
+ */
+function parseIpv4(value: string): number[] | null {
+  const match = IPV4_PATTERN.exec(value);
+  if (!match) return null;
+
+  const octets = match.slice(1).map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+/**
+ * IPv6アドレスを解析する関数
+ *
+ * @param value IPv6アドレスの文字列（ゾーンIDを除く）
+ * @returns 16バイトのバイト列（解析できない場合はnull）
+ */
+function parseIpv6(value: string): number[] | null {
+  let text = value;
+
+  // 末尾のIPv4埋め込み表記（::ffff:192.0.2.1など）を2つのグループに置き換える
+  const lastColon = text.lastIndexOf(":");
+  const lastGroup = text.slice(lastColon + 1);
+  if (lastGroup.includes(".")) {
+    const octets = parseIpv4(lastGroup);
+    if (!octets) return null;
+    const high = ((octets[0] << 8) | octets[1]).toString(16);
+    const low = ((octets[2] << 8) | octets[3]).toString(16);
+    text = `${text.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => (part === "" ? [] : part.split(":"));
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const omitted = 8 - head.length - tail.length;
+
+  // 「::」がある場合は1グループ以上の省略、ない場合は8グループちょうどが必要
+  if (halves.length === 2 ? omitted < 1 : omitted !== 0) return null;
+
+  const groups = [...head, ...Array(omitted).fill("0"), ...tail];
+  if (!groups.every((group) => IPV6_GROUP_PATTERN.test(group))) return null;
+
+  return groups.flatMap((group) => {
+    const hextet = parseInt(group, 16);
+    return [hextet >> 8, hextet & 0xff];
+  });
+}
+
+/**
+ * 値からポート番号・角括弧・ゾーンIDを取り除いてアドレス部分を取り出す関数
+ *
+ * @param value ポート番号付きの場合もあるアドレスの文字列
+ * @returns アドレス部分
+ */
+function stripAddressDecorations(value: string): string {
+  let text = value.trim();
+
+  // [2001:db8::1]:443 形式
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(text);
+  if (bracketed) {
+    text = bracketed[1];
+  } else if (/^[^:]+:\d+$/.test(text)) {
+    // 192.0.2.1:8080 形式（コロンが1つだけの場合はIPv4とポート番号）
+    text = text.slice(0, text.indexOf(":"));
+  }
+
+  // fe80::1%eth0 形式のゾーンID
+  const zoneIndex = text.indexOf("%");
+  return zoneIndex >= 0 ? text.slice(0, zoneIndex) : text;
+}
+
+/**
+ * IPアドレスを解析する関数
+ * ポート番号付きの表記にも対応し、IPv4射影アドレスはIPv4アドレスに変換します
+ *
+ * @param value IPアドレスの文字列
+ * @returns 解析済みのIPアドレス（解析できない場合はnull）
+ */
+export function parseIpAddress(value: string): IpAddress | null {
+  const text = stripAddressDecorations(value);
+
+  const ipv4 = parseIpv4(text);
+  if (ipv4) return { version: 4, bytes: ipv4 };
+
+  const ipv6 = text.includes(":") ? parseIpv6(text) : null;
+  if (!ipv6) return null;
+
+  if (IPV4_MAPPED_PREFIX.every((byte, index) => ipv6[index] === byte)) {
+    return { version: 4, bytes: ipv6.slice(IPV4_MAPPED_PREFIX.length) };
+  }
+  return { version: 6, bytes: ipv6 };
+}
+
+/**
+ * IPアドレスの下位ビットを0にする関数
+ *
+ * @param address IPアドレス
+ * @param prefixLength 残す上位ビット数
+ * @returns 下位ビットを0にしたIPアドレス
+ */
+export function maskIpAddress(
+  address: IpAddress,
+  prefixLength: number
+): IpAddress {
+  return {
+    version: address.version,
+    bytes: address.bytes.map((byte, index) => {
+      const bits = Math.min(Math.max(prefixLength - index * 8, 0), 8);
+      return byte & ((0xff << (8 - bits)) & 0xff);
+    }),
+  };
+}
+
+/**
+ * IPアドレスを文字列に変換する関数
+ * IPv6アドレスは、最も長い0の連続を「::」に省略した小文字の表記（RFC 5952）にします
+ *
+ * @param address IPアドレス
+ * @returns IPアドレスの文字列
+ */
+export function formatIpAddress(address: IpAddress): string {
+  if (address.version === 4) return address.bytes.join(".");
+
+  const hextets = Array.from(
+    { length: 8 },
+    (_, index) => (address.bytes[index * 2] << 8) | address.bytes[index * 2 + 1]
+  );
+
+  // 2グループ以上続く0のうち、最も長い（同じ長さなら最初の）連続を探す
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && hextets[start + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const toText = (groups: number[]) =>
+    groups.map((hextet) => hextet.toString(16)).join(":");
+  if (bestStart < 0) return toText(hextets);
+
+  return `${toText(hextets.slice(0, bestStart))}::${toText(
+    hextets.slice(bestStart + bestLength)
+  )}`;
+}
+
+/**
+ * CIDR表記（または単一のIPアドレス）を解析する関数
+ *
+ * @param value CIDR表記の文字列（例: 10.0.0.0/8、2001:db8::/32、192.0.2.1）
+ * @returns 解析済みのCIDR範囲（解析できない場合はnull）
+ */
+export function parseCidr(value: string): CidrRange | null {
+  const [addressText, prefixText, ...rest] = value.trim().split("/");
+  if (rest.length > 0) return null;
+
+  const address = parseIpAddress(addressText);
+  if (!address) return null;
+
+  const maxLength = address.bytes.length * 8;
+  if (prefixText === undefined) {
+    return { address, prefixLength: maxLength };
+  }
+  if (!/^\d+$/.test(prefixText)) return null;
+
+  // IPv4射影アドレスで指定された範囲は、IPv4の範囲に換算する
+  const isMapped = address.version === 4 && addressText.includes(":");
+  const prefixLength = Number(prefixText) - (isMapped ? 96 : 0);
+  if (prefixLength < 0 || prefixLength > maxLength) return null;
+
+  return { address: maskIpAddress(address, prefixLength), prefixLength };
+}
+
+/**
+ * IPアドレスがCIDR範囲に含まれるかどうかを判定する関数
+ *
+ * @param address 判定するIPアドレス
+ * @param range CIDR範囲
+ * @returns 範囲に含まれる場合はtrue
+ */
+export function isInCidrRange(address: IpAddress, range: CidrRange): boolean {
+  if (address.version !== range.address.version) return false;
+
+  const masked = maskIpAddress(address, range.prefixLength);
+  return masked.bytes.every(
+    (byte, index) => byte === range.address.bytes[index]
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * ヘルスチェック
+ *
+ * このファイルは、コンテナのオーケストレーター（Kubernetesなど）のプローブから
+ * 使用する稼働確認（GET /api/health）と準備完了の確認（GET /api/ready）の処理を提供します。
+ *
+ * 準備完了の確認では、応答の生成に必要な以下の項目を並行して確認し、
+ * 項目ごとの結果を返します（すべて成功またはスキップの場合に準備完了）。
+ * - openaiApiKey: OPENAI_API_KEYが設定されていること
+ * - searchProvider: 設定された検索プロバイダーで検索を実行できること（dummyはスキップ）
+ * - rateLimitStore: レート制限の記録の保存先に読み書きできること
+ *
+ * @module health
+ */
+
+import {
+  getConfiguredSearchProvider,
+  SearchProvider,
+} from "@/app/utils/search";
+import {
+  getConfiguredRateLimitStore,
+  RateLimitStore,
+} from "@/app/utils/rateLimit";
+
+/**
+ * 確認項目の結果
+ */
+export type HealthCheckStatus = "pass" | "fail" | "skip";
+
+/**
+ * 確認項目の結果の設定値
+ */
+export const HEALTH_CHECK_STATUSES: Record<string, HealthCheckStatus> = {
+  PASS: "pass",
+  FAIL: "fail",
+  SKIP: "skip",
+};
+
+/**
+ * ヘルスチェックの設定値
+ */
+export const HEALTH_SETTINGS = {
+  /**
+   * 確認項目ごとのタイムアウト時間（ミリ秒）
+   * プローブのタイムアウト（Kubernetesの既定値は1秒）より長くならないよう短めに設定
+   */
+  CHECK_TIMEOUT_MS: 800,
+
+  /**
+   * レート制限の記録の保存先の確認に使用するキー
+   * （クライアントの識別子と重複しないよう接頭辞を付与）
+   */
+  RATE_LIMIT_PROBE_KEY: "health:probe",
+
+  /**
+   * レート制限の記録の保存先の確認に書き込む値の有効期間（ミリ秒）
+   */
+  RATE_LIMIT_PROBE_TTL_MS: 60 * 1000,
+};
+
+/**
+ * エラーメッセージ
+ */
+export const HEALTH_ERROR_MESSAGES = {
+  OPENAI_API_KEY_MISSING: "OPENAI_API_KEYが設定されていません",
+  TIMEOUT: (timeoutMs: number) =>
+    `${timeoutMs}ミリ秒以内に確認が完了しませんでした`,
+};
+
+/**
+ * 確認項目の結果の詳細
+ */
+export interface HealthCheckResult {
+  /** 確認項目の結果 */
+  status: HealthCheckStatus;
+  /** 確認にかかった時間（ミリ秒） */
+  durationMs: number;
+  /** 補足情報（スキップの理由や失敗の原因） */
+  message?: string;
+}
+
+/**
+ * 確認項目を実行する関数の型定義
+ * 失敗した場合はエラーをスローし、確認が不要な場合はスキップの理由を返します
+ *
+ * @param signal 確認を中断するシグナル（タイムアウト時に中断）
+ * @returns スキップした場合はその理由（成功した場合はundefined）
+ */
+export type ReadinessCheck = (
+  signal: AbortSignal
+) => Promise<{ skipped: string } | void>;
+
+/**
+ * 準備完了の確認結果
+ */
+export interface ReadinessReport {
+  /** すべての確認項目が成功またはスキップの場合はready */
+  status: "ready" | "not_ready";
+  /** 確認項目ごとの結果 */
+  checks: Record<string, HealthCheckResult>;
+}
+
+/**
+ * 確認項目を1つ実行する関数
+ * タイムアウトした場合は、確認を中断して失敗として扱います
+ *
+ * @param check 確認項目
+ * @param timeoutMs タイムアウト時間（ミリ秒）
+ * @returns 確認項目の結果
+ */
+async function runCheck(
+  check: ReadinessCheck,
+  timeoutMs: number
+): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      // 中断により確認が先に完了しないよう、失敗を確定してから中断する
+      reject(new Error(HEALTH_ERROR_MESSAGES.TIMEOUT(timeoutMs)));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  try {
+    const outcome = await Promise.race([check(controller.signal), timeout]);
+    const durationMs = Date.now() - startedAt;
+    return outcome
+      ? {
+          status: HEALTH_CHECK_STATUSES.SKIP,
+          durationMs,
+          message: outcome.skipped,
+        }
+      : { status: HEALTH_CHECK_STATUSES.PASS, durationMs };
+  } catch (error) {
+    return {
+      status: HEALTH_CHECK_STATUSES.FAIL,
+      durationMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 準備完了の確認を行う関数
+ * 確認項目は並行して実行します
+ *
+ * @param checks 確認項目（項目名と確認する関数の対応）
+ * @param timeoutMs 確認項目ごとのタイムアウト時間（ミリ秒）
+ * @returns 準備完了の確認結果
+ */
+export async function runReadinessChecks(
+  checks: Record<string, ReadinessCheck>,
+  timeoutMs: number = HEALTH_SETTINGS.CHECK_TIMEOUT_MS
+): Promise<ReadinessReport> {
+  const results = await Promise.all(
+    Object.entries(checks).map(
+      async ([name, check]) =>
+        [name, await runCheck(check, timeoutMs)] as const
+    )
+  );
+
+  const failed = results.some(
+    ([, result]) => result.status === HEALTH_CHECK_STATUSES.FAIL
+  );
+  return {
+    status: failed ? "not_ready" : "ready",
+    checks: Object.fromEntries(results),
+  };
+}
+
+/**
+ * OpenAI APIのAPIキーが設定されていることを確認する項目を生成する関数
+ *
+ * @param apiKey OpenAI APIのAPIキー
+ * @returns 確認項目
+ */
+export function createOpenAIApiKeyCheck(apiKey?: string): ReadinessCheck {
+  return async () => {
+    if (!apiKey) {
+      throw new Error(HEALTH_ERROR_MESSAGES.OPENAI_API_KEY_MISSING);
+    }
+  };
+}
+
+/**
+ * 検索プロバイダーで検索を実行できることを確認する項目を生成する関数
+ * 外部のサービスに依存しないプロバイダー（dummy）はスキップします
+ *
+ * @param getProvider 検索プロバイダーを取得する関数（設定が不正な場合はエラーをスロー）
+ * @returns 確認項目
+ */
+export function createSearchProviderCheck(
+  getProvider: () => SearchProvider
+): ReadinessCheck {
+  return async (signal) => {
+    const provider = getProvider();
+    if (!provider.checkHealth) {
+      return { skipped: `${provider.name}プロバイダーは確認が不要です` };
+    }
+    await provider.checkHealth(signal);
+  };
+}
+
+/**
+ * レート制限の記録の保存先に読み書きできることを確認する項目を生成する関数
+ * 確認用のキーに現在時刻を書き込みます
+ *
+ * @param getStore レート制限の記録の保存先を取得する関数（設定が不正な場合はエラーをスロー）
+ * @returns 確認項目
+ */
+export function createRateLimitStoreCheck(
+  getStore: () => RateLimitStore
+): ReadinessCheck {
+  return async () => {
+    await getStore().update(HEALTH_SETTINGS.RATE_LIMIT_PROBE_KEY, () => ({
+      state: Date.now(),
+      ttlMs: HEALTH_SETTINGS.RATE_LIMIT_PROBE_TTL_MS,
+      result: undefined,
+    }));
+  };
+}
+
+/**
+ * 環境変数の設定に応じた確認項目を生成する関数
+ *
+ * @returns 確認項目（項目名と確認する関数の対応）
+ */
+export function createConfiguredReadinessChecks(): Record<
+  string,
+  ReadinessCheck
+> {
+  return {
+    openaiApiKey: createOpenAIApiKeyCheck(process.env.OPENAI_API_KEY),
+    searchProvider: createSearchProviderCheck(getConfiguredSearchProvider),
+    // チャットAPIのレート制限と同じストア（Redisの場合は同じ接続）を確認する
+    rateLimitStore: createRateLimitStoreCheck(getConfiguredRateLimitStore),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * LLMバックエンド層
+ *
+ * モデルIDから応答を生成するプロバイダー（OpenAI / OpenAI互換 / テスト）を解決する機能を提供します。
+ *
+ * @module llm
+ */
+
+export type {
+  LLMCompletionRequest,
+  LLMFunctionDefinition,
+  LLMProvider,
+} from "./types";
+export {
+  createOpenAIProvider,
+  createOpenAICompatibleProvider,
+} from "./openAIProvider";
+export {
+  createTestProvider,
+  TEST_PROVIDER_RESPONSES,
+  TEST_PROVIDER_STREAM_SETTINGS,
+} from "./testProvider";
+export {
+  getLLMProvider,
+  getModelCatalog,
+  getModelRegistry,
+  isModelEnabled,
+  parseCompatibleModels,
+  resolveModel,
+  MODEL_REGISTRY_ERROR_MESSAGES,
+} from "./modelRegistry";
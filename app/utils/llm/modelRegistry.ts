@@ -0,0 +1,247 @@
+/**
+ * サーバー側のモデルレジストリ
+ *
+ * 組み込みのモデルレジストリに環境変数で設定されたOpenAI互換サーバーのモデルを加え、
+ * モデルIDから応答を生成するLLMプロバイダーを解決します。
+ *
+ * 環境変数:
+ * - OPENAI_API_KEY: OpenAI APIのAPIキー
+ * - OPENAI_COMPATIBLE_BASE_URL: OpenAI互換サーバーのベースURL（例: http://localhost:11434/v1）
+ * - OPENAI_COMPATIBLE_API_KEY: OpenAI互換サーバーのAPIキー（不要な場合は省略）
+ * - OPENAI_COMPATIBLE_MODELS: OpenAI互換サーバーで使用するモデル（カンマ区切り、`モデルID=表示名`で表示名を指定可）
+ * - NEXT_PUBLIC_ENABLE_TEST_MODE: テスト用モデルを選択可能にする場合はtrue
+ *
+ * @module llm/modelRegistry
+ */
+
+import {
+  DEFAULT_MODEL,
+  findModelDefinition,
+  isTestModeEnabled,
+  LLMProviderId,
+  MODEL_REGISTRY,
+  ModelCatalog,
+  ModelDefinition,
+  ModelId,
+} from "@/types/model";
+import {
+  createOpenAICompatibleProvider,
+  createOpenAIProvider,
+} from "./openAIProvider";
+import { createTestProvider } from "./testProvider";
+import { LLMProvider } from "./types";
+
+/**
+ * OpenAI互換サーバーのモデルの既定値
+ */
+const COMPATIBLE_MODEL_DEFAULTS = {
+  /**
+   * 応答の最大トークン数
+   */
+  MAX_OUTPUT_TOKENS: 1000,
+
+  /**
+   * 会話履歴に割り当てるトークン予算
+   */
+  MAX_HISTORY_TOKENS: 2000,
+
+  /**
+   * コンテキストウィンドウ
+   */
+  CONTEXT_WINDOW: 8192,
+
+  /**
+   * 利用コストの目安（自前のサーバーのため課金なし）
+   */
+  COST_TIER: "free" as const,
+
+  /**
+   * レート制限の割り当て（自前のサーバーのため組み込みのモデルより緩く設定）
+   */
+  QUOTA: {
+    requestWeight: 1,
+    webSearchWeight: 1,
+    perMinute: 30,
+    perDay: 2000,
+  },
+};
+
+/**
+ * エラーメッセージ
+ */
+export const MODEL_REGISTRY_ERROR_MESSAGES = {
+  UNKNOWN_MODEL: (modelId: string) => `未登録のモデルです: ${modelId}`,
+  COMPATIBLE_BASE_URL_REQUIRED:
+    "OpenAI互換モデルを使用するにはOPENAI_COMPATIBLE_BASE_URLを設定してください",
+};
+
+/**
+ * 生成済みのプロバイダー（プロバイダーごとに1つのクライアントを再利用）
+ */
+const providers = new Map<LLMProviderId, LLMProvider>();
+
+/**
+ * 環境変数の設定値からOpenAI互換サーバーのモデル定義を生成する関数
+ *
+ * @param value OPENAI_COMPATIBLE_MODELSの値（例: "llama3:8b=Llama 3 8B, qwen2.5"）
+ * @returns モデル定義の一覧
+ */
+export function parseCompatibleModels(value?: string): ModelDefinition[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      // モデルIDに「:」を含むことがあるため、表示名の区切りには「=」を使用
+      const separatorIndex = entry.indexOf("=");
+      const id =
+        separatorIndex >= 0 ? entry.slice(0, separatorIndex).trim() : entry;
+      const displayName =
+        separatorIndex >= 0 ? entry.slice(separatorIndex + 1).trim() : "";
+
+      return {
+        id,
+        displayName: displayName || id,
+        provider: "openai-compatible" as const,
+        maxOutputTokens: COMPATIBLE_MODEL_DEFAULTS.MAX_OUTPUT_TOKENS,
+        maxHistoryTokens: COMPATIBLE_MODEL_DEFAULTS.MAX_HISTORY_TOKENS,
+        contextWindow: COMPATIBLE_MODEL_DEFAULTS.CONTEXT_WINDOW,
+        supportsSearch: true,
+        costTier: COMPATIBLE_MODEL_DEFAULTS.COST_TIER,
+        quota: { ...COMPATIBLE_MODEL_DEFAULTS.QUOTA },
+      };
+    })
+    .filter((model) => model.id.length > 0);
+}
+
+/**
+ * サーバーで使用可能なモデルレジストリを取得する関数
+ * 組み込みのモデルと同じIDのOpenAI互換モデルは追加しません
+ *
+ * @returns モデル定義の一覧
+ */
+export function getModelRegistry(): ModelDefinition[] {
+  const compatibleModels = process.env.OPENAI_COMPATIBLE_BASE_URL
+    ? parseCompatibleModels(process.env.OPENAI_COMPATIBLE_MODELS)
+    : [];
+
+  return [
+    ...MODEL_REGISTRY,
+    ...compatibleModels.filter(
+      (model) => !findModelDefinition(model.id, MODEL_REGISTRY)
+    ),
+  ];
+}
+
+/**
+ * モデルが現在のサーバー設定で選択可能かどうかを判定する関数
+ * - OpenAIのモデル: OPENAI_API_KEYが設定されている場合
+ * - OpenAI互換サーバーのモデル: 常に選択可能（ベースURLが設定されている場合のみ登録されるため）
+ * - テスト用モデル: テストモードが有効な場合
+ *
+ * @param definition モデル定義
+ * @returns 選択可能な場合はtrue
+ */
+export function isModelEnabled(definition: ModelDefinition): boolean {
+  if (definition.testOnly && !isTestModeEnabled()) return false;
+
+  switch (definition.provider) {
+    case "openai":
+      return Boolean(process.env.OPENAI_API_KEY);
+    case "openai-compatible":
+      return true;
+    case "test":
+      return isTestModeEnabled();
+  }
+}
+
+/**
+ * クライアントに公開するモデルカタログを取得する関数
+ * 初期選択されるモデルは、デフォルトモデルが選択可能であればデフォルトモデル、
+ * そうでなければ最初の選択可能なモデルとします
+ *
+ * @returns モデルカタログ
+ */
+export function getModelCatalog(): ModelCatalog {
+  const models = getModelRegistry().map((definition) => ({
+    id: definition.id,
+    displayName: definition.displayName,
+    contextWindow: definition.contextWindow,
+    supportsSearch: definition.supportsSearch,
+    costTier: definition.costTier,
+    enabled: isModelEnabled(definition),
+  }));
+  const enabledModels = models.filter((model) => model.enabled);
+
+  return {
+    models,
+    defaultModel:
+      enabledModels.find((model) => model.id === DEFAULT_MODEL)?.id ??
+      enabledModels[0]?.id ??
+      DEFAULT_MODEL,
+  };
+}
+
+/**
+ * プロバイダーを生成する関数
+ *
+ * @param providerId プロバイダーの識別子
+ * @returns LLMプロバイダー
+ * @throws 必要な設定が不足している場合エラーをスロー
+ */
+function createProvider(providerId: LLMProviderId): LLMProvider {
+  switch (providerId) {
+    case "openai":
+      return createOpenAIProvider(process.env.OPENAI_API_KEY);
+    case "openai-compatible": {
+      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          MODEL_REGISTRY_ERROR_MESSAGES.COMPATIBLE_BASE_URL_REQUIRED
+        );
+      }
+      return createOpenAICompatibleProvider({
+        baseURL,
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      });
+    }
+    case "test":
+      return createTestProvider();
+  }
+}
+
+/**
+ * プロバイダーを取得する関数（初回のみ生成）
+ *
+ * @param providerId プロバイダーの識別子
+ * @returns LLMプロバイダー
+ */
+export function getLLMProvider(providerId: LLMProviderId): LLMProvider {
+  let provider = providers.get(providerId);
+  if (!provider) {
+    provider = createProvider(providerId);
+    providers.set(providerId, provider);
+  }
+  return provider;
+}
+
+/**
+ * モデルIDからモデル定義とプロバイダーを解決する関数
+ *
+ * @param modelId モデルID
+ * @returns モデル定義とプロバイダー
+ * @throws 未登録のモデルの場合エラーをスロー
+ */
+export function resolveModel(modelId: ModelId): {
+  definition: ModelDefinition;
+  provider: LLMProvider;
+} {
+  const definition = findModelDefinition(modelId, getModelRegistry());
+  if (!definition) {
+    throw new Error(MODEL_REGISTRY_ERROR_MESSAGES.UNKNOWN_MODEL(modelId));
+  }
+
+  return { definition, provider: getLLMProvider(definition.provider) };
+}
@@ -0,0 +1,177 @@
+/**
+ * OpenAI APIおよびOpenAI互換APIを使用するLLMプロバイダー
+ *
+ * OpenAI SDKを使用して応答を生成します。
+ * ベースURLを指定することで、OpenAI互換APIを提供するローカルサーバー
+ * （llama.cpp / Ollama / vLLMなど）にも接続できます。
+ *
+ * @module llm/openAIProvider
+ */
+
+import OpenAI from "openai";
+import { CompletionUsage } from "openai/resources/completions";
+import { LLMProviderId } from "@/types/model";
+import {
+  LLMCompletionRequest,
+  LLMFunctionDefinition,
+  LLMProvider,
+} from "./types";
+
+/**
+ * OpenAI互換プロバイダーの設定
+ */
+export interface OpenAICompatibleProviderConfig {
+  /** APIのベースURL（例: http://localhost:11434/v1） */
+  baseURL: string;
+  /** APIキー（認証が不要なサーバーでは省略可） */
+  apiKey?: string;
+}
+
+/**
+ * APIキーを必要としないサーバー向けにSDKへ渡すダミーのAPIキー
+ * （OpenAI SDKはAPIキーが空の場合にエラーとするため）
+ */
+const PLACEHOLDER_API_KEY = "not-needed";
+
+/**
+ * 関数呼び出しの引数（JSON文字列）をオブジェクトに変換する関数
+ *
+ * @param args 関数呼び出しの引数
+ * @returns 引数のオブジェクト（JSONのオブジェクトでない場合はnull）
+ */
+function parseFunctionArguments(
+  args: string | undefined
+): Record<string, unknown> | null {
+  if (!args) return null;
+  try {
+    const parsed: unknown = JSON.parse(args);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * OpenAI SDKのクライアントからプロバイダーを生成する関数
+ *
+ * @param id プロバイダーの識別子
+ * @param client OpenAI SDKのクライアント
+ * @returns LLMプロバイダー
+ */
+function createProviderFromClient(
+  id: LLMProviderId,
+  client: OpenAI
+): LLMProvider {
+  /**
+   * リクエストをOpenAI APIのパラメータに変換する関数
+   */
+  const toParams = ({
+    model,
+    messages,
+    maxTokens,
+    temperature,
+  }: LLMCompletionRequest) => ({
+    model,
+    messages,
+    max_tokens: maxTokens,
+    temperature,
+  });
+
+  /**
+   * APIが返したトークン数をリクエストの通知先に渡す関数
+   */
+  const reportUsage = (
+    request: LLMCompletionRequest,
+    usage: CompletionUsage | null | undefined
+  ) => {
+    if (!usage) return;
+    request.onUsage?.({
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+    });
+  };
+
+  return {
+    id,
+    complete: async (request) => {
+      const response = await client.chat.completions.create(
+        toParams(request),
+        request.signal ? { signal: request.signal } : undefined
+      );
+      reportUsage(request, response.usage);
+      return response.choices[0]?.message?.content?.trim() || "";
+    },
+    stream: async (request, onDelta) => {
+      // トークン数はストリームの最後のチャンク（choicesが空）で通知される
+      const stream = await client.chat.completions.create(
+        {
+          ...toParams(request),
+          stream: true,
+          ...(request.onUsage
+            ? { stream_options: { include_usage: true } }
+            : {}),
+        },
+        request.signal ? { signal: request.signal } : undefined
+      );
+
+      let content = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        reportUsage(request, chunk.usage);
+      }
+      return content.trim();
+    },
+    callFunction: async (request, fn: LLMFunctionDefinition) => {
+      const response = await client.chat.completions.create(
+        {
+          ...toParams(request),
+          tools: [{ type: "function", function: fn }],
+          tool_choice: { type: "function", function: { name: fn.name } },
+        },
+        request.signal ? { signal: request.signal } : undefined
+      );
+      reportUsage(request, response.usage);
+
+      const toolCall = response.choices[0]?.message?.tool_calls?.find(
+        (call) => call.type === "function" && call.function.name === fn.name
+      );
+      return parseFunctionArguments(
+        toolCall?.type === "function" ? toolCall.function.arguments : undefined
+      );
+    },
+  };
+}
+
+/**
+ * OpenAI APIを使用するプロバイダーを生成する関数
+ *
+ * @param apiKey OpenAIのAPIキー
+ * @returns OpenAIプロバイダー
+ */
+export function createOpenAIProvider(apiKey?: string): LLMProvider {
+  return createProviderFromClient("openai", new OpenAI({ apiKey }));
+}
+
+/**
+ * OpenAI互換APIを使用するプロバイダーを生成する関数
+ *
+ * @param config 接続先の設定
+ * @returns OpenAI互換プロバイダー
+ */
+export function createOpenAICompatibleProvider(
+  config: OpenAICompatibleProviderConfig
+): LLMProvider {
+  return createProviderFromClient(
+    "openai-compatible",
+    new OpenAI({
+      baseURL: config.baseURL,
+      apiKey: config.apiKey || PLACEHOLDER_API_KEY,
+    })
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * テスト用のLLMプロバイダー
+ *
+ * 外部APIに接続せず、質問と現在時刻を含む疑似的なテスト応答を返します。
+ * ストリーミングでは、実際のAPIのような逐次表示を再現するため、
+ * 一定の文字数ずつ遅延を入れて差分を送信します。
+ * 関数呼び出しには応答しません（呼び出されなかったものとしてnullを返します）。
+ *
+ * @module llm/testProvider
+ */
+
+import { ChatMessage } from "@/app/utils/openai/conversation";
+import { LLMProvider } from "./types";
+
+/**
+ * テスト用プロバイダーのストリーミング設定
+ */
+export const TEST_PROVIDER_STREAM_SETTINGS = {
+  CHUNK_SIZE: 8, // 1回に送信する文字数
+  CHUNK_DELAY_MS: 30, // 送信間隔（ミリ秒）
+};
+
+/**
+ * テスト用の応答パターン
+ * 複数のパターンからランダムに選択して多様な応答を生成します
+ */
+export const TEST_PROVIDER_RESPONSES = [
+  (prompt: string, date: string) =>
+    `## テストモードでの応答\n\nこれはAPIを使用せずに生成された応答です。\n\nあなたの質問: "${prompt}"\n\n現在の時刻: ${date}\n\n> これはテスト用の引用です\n\n\`\`\`javascript\n// これはテスト用のコードブロックです\nconsole.log("Hello, World!");\n\`\`\``,
+
+  (prompt: string, date: string) =>
+    `# テスト応答\n\nこんにちは！これはテストモードでの応答です。\n\n**ご質問**: ${prompt}\n\n実際のAPIは呼び出されていません。テスト環境での動作確認に役立ちます。\n\n1. テストポイント1\n2. テストポイント2\n3. テストポイント3\n\n応答生成時刻: ${date}`,
+
+  (prompt: string, date: string) =>
+    `### 自動生成されたテスト応答\n\n${prompt}についてのお問い合わせありがとうございます。\n\nこれはテストモードでの応答のため、実際のデータや情報は含まれていません。\n\n- 項目1\n- 項目2\n- 項目3\n\nテストモードは開発時の動作確認に最適です。\n\n生成時刻: ${date}`,
+
+  (prompt: string, date: string) =>
+    `## テストモード有効\n\n**入力**: ${prompt}\n\n**応答**: これはテスト用の自動生成メッセージです。API呼び出しは行われていません。\n\n表形式のサンプル:\n\n| 項目 | 説明 |\n|------|------|\n| テスト1 | サンプル説明1 |\n| テスト2 | サンプル説明2 |\n\n処理時刻: ${date}`,
+];
+
+/**
+ * 指定時間待機する関数
+ *
+ * @param ms 待機時間（ミリ秒）
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * メッセージ配列からテスト応答を生成する関数
+ * 最後のユーザーのメッセージを質問として応答に含めます
+ *
+ * @param messages システムプロンプト・会話履歴・質問を含むメッセージ配列
+ * @returns テスト応答
+ */
+function createTestResponse(messages: ChatMessage[]): string {
+  const prompt =
+    [...messages].reverse().find((message) => message.role === "user")
+      ?.content ?? "";
+  const currentDate = new Date().toLocaleString("ja-JP");
+  const randomIndex = Math.floor(
+    Math.random() * TEST_PROVIDER_RESPONSES.length
+  );
+
+  return TEST_PROVIDER_RESPONSES[randomIndex](prompt, currentDate);
+}
+
+/**
+ * テスト用プロバイダーを生成する関数
+ *
+ * @returns テスト用プロバイダー
+ */
+export function createTestProvider(): LLMProvider {
+  return {
+    id: "test",
+    complete: async (request) => createTestResponse(request.messages),
+    stream: async (request, onDelta) => {
+      const text = createTestResponse(request.messages);
+      const { CHUNK_SIZE, CHUNK_DELAY_MS } = TEST_PROVIDER_STREAM_SETTINGS;
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        onDelta(text.slice(i, i + CHUNK_SIZE));
+        await sleep(CHUNK_DELAY_MS);
+      }
+      return text;
+    },
+    callFunction: async () => null,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * LLMプロバイダー関連の型定義
+ *
+ * このファイルは、OpenAI以外のバックエンドにも応答生成を差し替えられるようにするための
+ * LLMプロバイダーの共通インターフェースを定義します。
+ *
+ * @module llm/types
+ */
+
+import { ChatMessage } from "@/app/utils/openai/conversation";
+import { TokenUsage } from "@/app/utils/openai/usage";
+import { LLMProviderId, ModelId } from "@/types/model";
+
+/**
+ * 応答生成リクエストの型定義
+ */
+export interface LLMCompletionRequest {
+  /** 使用するモデルID */
+  model: ModelId;
+  /** システムプロンプト・会話履歴・質問を含むメッセージ配列 */
+  messages: ChatMessage[];
+  /** 応答の最大トークン数 */
+  maxTokens: number;
+  /** 温度パラメータ */
+  temperature: number;
+  /** 中断・タイムアウト用のシグナル */
+  signal?: AbortSignal;
+  /** 応答の生成に使用したトークン数を受け取る関数（プロバイダーが通知した場合のみ呼ばれる） */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * 関数呼び出し（function calling）で応答させる関数の定義
+ */
+export interface LLMFunctionDefinition {
+  /** 関数名 */
+  name: string;
+  /** 関数の説明（モデルが呼び出し方を判断するために使用） */
+  description: string;
+  /** 引数のJSON Schema */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * LLMプロバイダーのインターフェース
+ */
+export interface LLMProvider {
+  /** プロバイダーの識別子 */
+  id: LLMProviderId;
+  /**
+   * 応答を一括で生成する関数
+   *
+   * @param request 応答生成リクエスト
+   * @returns 応答テキスト全体
+   */
+  complete: (request: LLMCompletionRequest) => Promise<string>;
+  /**
+   * 応答をストリーミングで生成する関数
+   *
+   * @param request 応答生成リクエスト
+   * @param onDelta 差分を受け取るハンドラー
+   * @returns 応答テキスト全体
+   */
+  stream: (
+    request: LLMCompletionRequest,
+    onDelta: (delta: string) => void
+  ) => Promise<string>;
+  /**
+   * 指定した関数を必ず呼び出させ、その引数を受け取る関数
+   * 応答をテキストではなく構造化されたデータで受け取る場合に使用します
+   *
+   * @param request 応答生成リクエスト
+   * @param fn 呼び出させる関数の定義
+   * @returns 関数の引数（関数が呼び出されなかった場合や引数がJSONでない場合はnull）
+   */
+  callFunction: (
+    request: LLMCompletionRequest,
+    fn: LLMFunctionDefinition
+  ) => Promise<Record<string, unknown> | null>;
+}
@@ -0,0 +1,300 @@
+/**
+ * 構造化ログ
+ *
+ * このファイルは、サーバー側のログを1行1件のJSON（JSON Lines）で出力するロガーを提供します。
+ * リクエストごとに相関ID（リクエストID）を付与した子ロガーを生成することで、
+ * 同時に処理されるリクエストのログを区別できるようにします。
+ *
+ * ユーザーの入力を含むフィールド（prompt・queryなど）は、設定に応じて伏せ字にします。
+ *
+ * 環境変数:
+ * - LOG_LEVEL: 出力する最低のログレベル（debug / info / warn / error、既定値: info）
+ * - LOG_PROMPTS: ユーザーの入力の出力方法（redact / truncate / full、既定値: redact）
+ *   - redact: 文字数のみを出力する
+ *   - truncate: 先頭の数文字のみを出力する
+ *   - full: そのまま出力する（開発時のみの使用を推奨）
+ *
+ * @module logger
+ */
+
+import { randomUUID } from "crypto";
+
+/**
+ * ログレベル
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * ログに付与するフィールド
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * ログレベルの設定値
+ */
+export const LOG_LEVELS: Record<string, LogLevel> = {
+  DEBUG: "debug",
+  INFO: "info",
+  WARN: "warn",
+  ERROR: "error",
+};
+
+/**
+ * ユーザーの入力の出力方法の設定値
+ */
+export const PROMPT_LOGGING_MODES = {
+  REDACT: "redact",
+  TRUNCATE: "truncate",
+  FULL: "full",
+};
+
+/**
+ * ロガーの設定値
+ */
+const LOGGER_SETTINGS = {
+  /**
+   * ログレベルの優先度（値が大きいほど重要）
+   */
+  LEVEL_PRIORITIES: {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+  } as Record<LogLevel, number>,
+
+  /**
+   * ユーザーの入力を含むフィールド名
+   */
+  PROMPT_FIELDS: ["prompt", "query", "keywords"],
+
+  /**
+   * truncateの場合に出力する先頭の文字数
+   */
+  TRUNCATE_LENGTH: 30,
+};
+
+/**
+ * エラーメッセージ
+ */
+export const LOGGER_ERROR_MESSAGES = {
+  UNKNOWN_LEVEL: (level: string) =>
+    `不明なLOG_LEVELが指定されました: ${level}（${Object.values(
+      LOG_LEVELS
+    ).join(" / ")}のいずれかを指定してください）`,
+  UNKNOWN_PROMPT_MODE: (mode: string) =>
+    `不明なLOG_PROMPTSが指定されました: ${mode}（${Object.values(
+      PROMPT_LOGGING_MODES
+    ).join(" / ")}のいずれかを指定してください）`,
+};
+
+/**
+ * ロガーのインターフェース
+ */
+export interface Logger {
+  /** 開発時の調査用の詳細なログを出力する */
+  debug: (message: string, fields?: LogFields) => void;
+  /** 処理の進行状況のログを出力する */
+  info: (message: string, fields?: LogFields) => void;
+  /** 処理は継続できる異常のログを出力する */
+  warn: (message: string, fields?: LogFields) => void;
+  /** 処理に失敗したことのログを出力する */
+  error: (message: string, fields?: LogFields) => void;
+  /**
+   * すべてのログに指定したフィールドを付与する子ロガーを生成する
+   *
+   * @param bindings 付与するフィールド（リクエストIDなど）
+   * @returns 子ロガー
+   */
+  child: (bindings: LogFields) => Logger;
+}
+
+/**
+ * ログの1行を出力する関数の型定義
+ */
+export type LogWriter = (level: LogLevel, line: string) => void;
+
+/**
+ * ロガーの設定
+ */
+export interface LoggerOptions {
+  /** 出力する最低のログレベル */
+  level: string;
+  /** ユーザーの入力の出力方法（PROMPT_LOGGING_MODESのいずれか） */
+  promptLogging: string;
+  /** ログの出力先（省略時は標準出力、warn以上は標準エラー出力） */
+  write?: LogWriter;
+}
+
+/**
+ * 既定のログの出力先
+ */
+const writeToConsole: LogWriter = (level, line) => {
+  if (level === "warn" || level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+};
+
+/**
+ * 設定値を正規化して検証する関数
+ *
+ * @param value 設定値
+ * @param allowed 許可する値
+ * @param toMessage 不正な場合のエラーメッセージを生成する関数
+ * @returns 正規化した設定値
+ * @throws 許可されていない値の場合エラーをスロー
+ */
+function normalizeOption(
+  value: string,
+  allowed: string[],
+  toMessage: (value: string) => string
+): string {
+  const normalized = value.trim().toLowerCase();
+  if (!allowed.includes(normalized)) {
+    throw new Error(toMessage(normalized));
+  }
+  return normalized;
+}
+
+/**
+ * ユーザーの入力を設定に応じて伏せ字にする関数
+ *
+ * @param value フィールドの値
+ * @param mode ユーザーの入力の出力方法
+ * @returns 出力する値
+ */
+function redactPrompt(value: unknown, mode: string): unknown {
+  if (typeof value !== "string" || mode === PROMPT_LOGGING_MODES.FULL) {
+    return value;
+  }
+  if (mode === PROMPT_LOGGING_MODES.TRUNCATE) {
+    return value.length > LOGGER_SETTINGS.TRUNCATE_LENGTH
+      ? `${value.slice(0, LOGGER_SETTINGS.TRUNCATE_LENGTH)}…`
+      : value;
+  }
+  return `[REDACTED ${value.length} chars]`;
+}
+
+/**
+ * フィールドの値をJSONで出力できる形式に変換する関数
+ * エラーはJSONに変換すると空になるため、名前・メッセージ・スタックを取り出します
+ *
+ * @param fields ログに付与するフィールド
+ * @param promptLogging ユーザーの入力の出力方法
+ * @returns 変換したフィールド
+ */
+function serializeFields(fields: LogFields, promptLogging: string): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields).map(([name, value]) => {
+      if (value instanceof Error) {
+        return [
+          name,
+          { name: value.name, message: value.message, stack: value.stack },
+        ];
+      }
+      if (LOGGER_SETTINGS.PROMPT_FIELDS.includes(name)) {
+        return [name, redactPrompt(value, promptLogging)];
+      }
+      return [name, value];
+    })
+  );
+}
+
+/**
+ * ロガーを生成する関数
+ *
+ * @param options ロガーの設定
+ * @param bindings すべてのログに付与するフィールド
+ * @returns ロガー
+ * @throws 不明なログレベルや出力方法が指定された場合エラーをスロー
+ */
+export function createLogger(
+  options: LoggerOptions,
+  bindings: LogFields = {}
+): Logger {
+  const level = normalizeOption(
+    options.level,
+    Object.values(LOG_LEVELS),
+    LOGGER_ERROR_MESSAGES.UNKNOWN_LEVEL
+  ) as LogLevel;
+  const promptLogging = normalizeOption(
+    options.promptLogging,
+    Object.values(PROMPT_LOGGING_MODES),
+    LOGGER_ERROR_MESSAGES.UNKNOWN_PROMPT_MODE
+  );
+  const write = options.write ?? writeToConsole;
+  const minPriority = LOGGER_SETTINGS.LEVEL_PRIORITIES[level];
+
+  /**
+   * 指定したレベルのログを出力する関数を生成する
+   */
+  const log =
+    (logLevel: LogLevel) =>
+    (message: string, fields: LogFields = {}) => {
+      if (LOGGER_SETTINGS.LEVEL_PRIORITIES[logLevel] < minPriority) return;
+
+      write(
+        logLevel,
+        JSON.stringify({
+          time: new Date().toISOString(),
+          level: logLevel,
+          msg: message,
+          ...serializeFields({ ...bindings, ...fields }, promptLogging),
+        })
+      );
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (childBindings) =>
+      createLogger(
+        { level, promptLogging, write },
+        { ...bindings, ...childBindings }
+      ),
+  };
+}
+
+/**
+ * 環境変数の設定に応じてロガーを生成する関数
+ *
+ * @returns ロガー
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function createConfiguredLogger(): Logger {
+  return createLogger({
+    level: process.env.LOG_LEVEL || LOG_LEVELS.INFO,
+    promptLogging: process.env.LOG_PROMPTS || PROMPT_LOGGING_MODES.REDACT,
+  });
+}
+
+/**
+ * 環境変数の設定から生成したロガー（初回使用時に生成）
+ */
+let configuredLogger: Logger | null = null;
+
+/**
+ * 環境変数で設定されたロガーを取得する関数
+ *
+ * @returns ロガー
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function getConfiguredLogger(): Logger {
+  if (!configuredLogger) {
+    configuredLogger = createConfiguredLogger();
+  }
+  return configuredLogger;
+}
+
+/**
+ * リクエストIDを生成する関数
+ * リクエストのログの相関IDとして使用し、X-Request-Idヘッダーでクライアントにも返します
+ *
+ * @returns リクエストID（UUID v4）
+ */
+export function createRequestId(): string {
+  return randomUUID();
+}
@@ -0,0 +1,182 @@
+/**
+ * チャットAPIのメトリクス
+ *
+ * このファイルは、チャットAPIの稼働状況を把握するためのメトリクスを定義し、
+ * GET /api/metrics でPrometheusのテキスト形式で出力する機能を提供します。
+ *
+ * - chat_requests_total: モデル・ステータスコードごとのリクエスト数
+ * - llm_completion_duration_seconds: LLM API呼び出しの所要時間（用途ごと）
+ * - chat_web_search_decisions_total: Web検索による情報の補完の要否の判断結果（判断した方式ごと）
+ * - web_search_requests_total: Web検索の成功・失敗の回数
+ * - rate_limit_rejections_total: レート制限で拒否したリクエスト数
+ *
+ * 環境変数:
+ * - METRICS_AUTH_TOKEN: 設定した場合、GET /api/metrics に`Authorization: Bearer <トークン>`を要求する
+ *
+ * @module metrics
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { createMetricsRegistry, Counter, Histogram } from "./registry";
+
+export type {
+  Counter,
+  Histogram,
+  HistogramDefinition,
+  MetricDefinition,
+  MetricLabels,
+  MetricsRegistry,
+} from "./registry";
+export { createMetricsRegistry, METRICS_ERROR_MESSAGES } from "./registry";
+
+/**
+ * メトリクスの設定値
+ */
+const METRICS_SETTINGS = {
+  /**
+   * LLM API呼び出しの所要時間のバケット（秒）
+   */
+  COMPLETION_DURATION_BUCKETS: [0.25, 0.5, 1, 2, 5, 10, 20, 30],
+
+  /**
+   * モデルを判定する前に終了したリクエストのモデルのラベル
+   */
+  UNKNOWN_MODEL: "unknown",
+
+  /**
+   * Authorizationヘッダーの認証方式
+   */
+  BEARER_PATTERN: /^Bearer\s+(\S+)$/i,
+};
+
+/**
+ * Web検索による情報の補完の判断結果のラベル
+ */
+export const WEB_SEARCH_DECISIONS = {
+  SEARCH: "search",
+  SKIP: "skip",
+};
+
+/**
+ * Web検索の結果のラベル
+ */
+export const WEB_SEARCH_RESULTS = {
+  SUCCESS: "success",
+  FAILURE: "failure",
+};
+
+/**
+ * チャットAPIのメトリクスの型定義
+ */
+export interface ChatMetrics {
+  /** モデル・ステータスコードごとのリクエスト数 */
+  requests: Counter;
+  /** LLM API呼び出しの所要時間（モデル・用途ごと） */
+  completionDuration: Histogram;
+  /** Web検索による情報の補完の判断結果（モデル・判断結果・判断した方式ごと） */
+  webSearchDecisions: Counter;
+  /** Web検索の成功・失敗の回数（検索プロバイダー・結果ごと） */
+  webSearchRequests: Counter;
+  /** レート制限で拒否したリクエスト数（モデル・上限の種類ごと） */
+  rateLimitRejections: Counter;
+  /**
+   * すべてのメトリクスをPrometheusのテキスト形式で出力する関数
+   *
+   * @returns Prometheusのテキスト形式の文字列
+   */
+  render: () => string;
+}
+
+/**
+ * チャットAPIのメトリクスを生成する関数
+ *
+ * @returns チャットAPIのメトリクス
+ */
+export function createChatMetrics(): ChatMetrics {
+  const registry = createMetricsRegistry();
+
+  return {
+    requests: registry.counter({
+      name: "chat_requests_total",
+      help: "Chat API requests by model and HTTP status",
+      labelNames: ["model", "status"],
+    }),
+    completionDuration: registry.histogram({
+      name: "llm_completion_duration_seconds",
+      help: "Duration of successful LLM completions by model and purpose",
+      labelNames: ["model", "purpose"],
+      buckets: METRICS_SETTINGS.COMPLETION_DURATION_BUCKETS,
+    }),
+    webSearchDecisions: registry.counter({
+      name: "chat_web_search_decisions_total",
+      help: "Whether the prompt or initial response needed web search augmentation",
+      labelNames: ["model", "decision", "method"],
+    }),
+    webSearchRequests: registry.counter({
+      name: "web_search_requests_total",
+      help: "Web search requests by provider and result",
+      labelNames: ["provider", "result"],
+    }),
+    rateLimitRejections: registry.counter({
+      name: "rate_limit_rejections_total",
+      help: "Requests rejected by the rate limiter by model and bucket",
+      labelNames: ["model", "bucket"],
+    }),
+    render: registry.render,
+  };
+}
+
+/**
+ * プロセス全体で共有するチャットAPIのメトリクスの保存先
+ * ルートごとにモジュールが別に読み込まれた場合（開発サーバーの再読み込みなど）も
+ * 同じメトリクスを参照するよう、グローバルオブジェクトに保持します
+ */
+const globalForMetrics = globalThis as typeof globalThis & {
+  chatMetrics?: ChatMetrics;
+};
+
+/**
+ * プロセス全体で共有するチャットAPIのメトリクスを取得する関数
+ *
+ * @returns チャットAPIのメトリクス（初回使用時に生成）
+ */
+export function getChatMetrics(): ChatMetrics {
+  if (!globalForMetrics.chatMetrics) {
+    globalForMetrics.chatMetrics = createChatMetrics();
+  }
+  return globalForMetrics.chatMetrics;
+}
+
+/**
+ * リクエストのモデルのラベルを返す関数
+ *
+ * @param model 判定したモデル（判定前に終了した場合はundefined）
+ * @returns モデルのラベル
+ */
+export function toModelLabel(model?: string): string {
+  return model ?? METRICS_SETTINGS.UNKNOWN_MODEL;
+}
+
+/**
+ * メトリクスの取得が許可されたリクエストかどうかを判定する関数
+ * トークンの比較は、比較にかかる時間から値を推測されないよう一定時間で行います
+ *
+ * @param headers リクエストのヘッダー
+ * @param token 要求するトークン（未設定の場合は誰でも取得できる）
+ * @returns 許可する場合はtrue
+ */
+export function isMetricsRequestAuthorized(
+  headers: Headers,
+  token: string | undefined
+): boolean {
+  if (!token) return true;
+
+  const provided = METRICS_SETTINGS.BEARER_PATTERN.exec(
+    headers.get("authorization")?.trim() ?? ""
+  )?.[1];
+  if (!provided) return false;
+
+  // 長さの違いで早期に終了しないよう、ハッシュ値どうしを比較する
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(token));
+}
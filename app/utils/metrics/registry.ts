@@ -0,0 +1,260 @@
+/**
+ * メトリクスのレジストリ
+ *
+ * このモジュールは、プロセス内でカウンターとヒストグラムを集計し、
+ * Prometheusのテキスト形式（text/plain; version=0.0.4）で出力する機能を提供します。
+ * 値はプロセスのメモリに保持するため、再起動で失われ、インスタンス間では共有されません
+ * （Prometheusが各インスタンスから個別に収集することを前提としています）。
+ *
+ * @module metrics/registry
+ */
+
+/**
+ * メトリクスのラベル（ラベル名と値の対応）
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * メトリクスの定義
+ */
+export interface MetricDefinition {
+  /** メトリクス名（Prometheusの命名規則に従う） */
+  name: string;
+  /** メトリクスの説明（HELP行に出力） */
+  help: string;
+  /** ラベル名（出力時はこの順序で並べる） */
+  labelNames: string[];
+}
+
+/**
+ * ヒストグラムの定義
+ */
+export interface HistogramDefinition extends MetricDefinition {
+  /** バケットの上限値（昇順、+Infは自動で追加） */
+  buckets: number[];
+}
+
+/**
+ * カウンターのインターフェース
+ */
+export interface Counter {
+  /**
+   * 値を加算する関数
+   *
+   * @param labels ラベル
+   * @param value 加算する値（省略時は1）
+   */
+  inc: (labels?: MetricLabels, value?: number) => void;
+}
+
+/**
+ * ヒストグラムのインターフェース
+ */
+export interface Histogram {
+  /**
+   * 観測値を記録する関数
+   *
+   * @param labels ラベル
+   * @param value 観測値
+   */
+  observe: (labels: MetricLabels, value: number) => void;
+}
+
+/**
+ * メトリクスのレジストリのインターフェース
+ */
+export interface MetricsRegistry {
+  /**
+   * カウンターを登録する関数
+   *
+   * @param definition カウンターの定義
+   * @returns カウンター
+   * @throws 同じ名前のメトリクスが登録済みの場合エラーをスロー
+   */
+  counter: (definition: MetricDefinition) => Counter;
+  /**
+   * ヒストグラムを登録する関数
+   *
+   * @param definition ヒストグラムの定義
+   * @returns ヒストグラム
+   * @throws 同じ名前のメトリクスが登録済みの場合エラーをスロー
+   */
+  histogram: (definition: HistogramDefinition) => Histogram;
+  /**
+   * 登録したすべてのメトリクスをPrometheusのテキスト形式で出力する関数
+   *
+   * @returns Prometheusのテキスト形式の文字列
+   */
+  render: () => string;
+}
+
+/**
+ * エラーメッセージ
+ */
+export const METRICS_ERROR_MESSAGES = {
+  DUPLICATE_METRIC: (name: string) =>
+    `同じ名前のメトリクスが登録済みです: ${name}`,
+};
+
+/**
+ * ラベルの値をエスケープする関数
+ * （バックスラッシュ・ダブルクォート・改行をエスケープする）
+ *
+ * @param value ラベルの値
+ * @returns エスケープした値
+ */
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * ラベルを出力形式（{name="value",...}）に変換する関数
+ *
+ * @param entries ラベル名と値の組
+ * @returns 出力形式のラベル（ラベルがない場合は空文字）
+ */
+function formatLabels(entries: [string, string][]): string {
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+/**
+ * ラベルを定義の順序でラベル名と値の組に変換する関数
+ *
+ * @param labelNames ラベル名
+ * @param labels ラベル
+ * @returns ラベル名と値の組（指定されなかったラベルの値は空文字）
+ */
+function toLabelEntries(
+  labelNames: string[],
+  labels: MetricLabels
+): [string, string][] {
+  return labelNames.map((name) => [name, String(labels[name] ?? "")]);
+}
+
+/**
+ * ラベルの値の組ごとに系列を保持するマップを生成する関数
+ *
+ * @param labelNames ラベル名
+ * @param createSeries 系列の初期値を生成する関数
+ * @returns 系列を取得する関数と、すべての系列を列挙する関数
+ */
+function createSeriesMap<T>(labelNames: string[], createSeries: () => T) {
+  const series = new Map<string, { labels: [string, string][]; value: T }>();
+
+  return {
+    get: (labels: MetricLabels): T => {
+      const labelEntries = toLabelEntries(labelNames, labels);
+      const key = JSON.stringify(labelEntries);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels: labelEntries, value: createSeries() };
+        series.set(key, entry);
+      }
+      return entry.value;
+    },
+    entries: () => Array.from(series.values()),
+  };
+}
+
+/**
+ * メトリクスのレジストリを生成する関数
+ *
+ * @returns メトリクスのレジストリ
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  // 登録順に出力するため、メトリクスごとの出力関数を保持する
+  const renderers = new Map<string, () => string[]>();
+
+  /**
+   * メトリクスを登録する関数
+   */
+  const register = (definition: MetricDefinition, render: () => string[]) => {
+    if (renderers.has(definition.name)) {
+      throw new Error(METRICS_ERROR_MESSAGES.DUPLICATE_METRIC(definition.name));
+    }
+    renderers.set(definition.name, render);
+  };
+
+  /**
+   * HELP行とTYPE行を生成する関数
+   */
+  const header = (definition: MetricDefinition, type: string) => [
+    `# HELP ${definition.name} ${definition.help}`,
+    `# TYPE ${definition.name} ${type}`,
+  ];
+
+  return {
+    counter: (definition) => {
+      const series = createSeriesMap(definition.labelNames, () => ({
+        value: 0,
+      }));
+
+      register(definition, () => [
+        ...header(definition, "counter"),
+        ...series
+          .entries()
+          .map(
+            ({ labels, value }) =>
+              `${definition.name}${formatLabels(labels)} ${value.value}`
+          ),
+      ]);
+
+      return {
+        inc: (labels = {}, value = 1) => {
+          series.get(labels).value += value;
+        },
+      };
+    },
+
+    histogram: (definition) => {
+      const buckets = [...definition.buckets].sort((a, b) => a - b);
+      const series = createSeriesMap(definition.labelNames, () => ({
+        bucketCounts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      }));
+
+      register(definition, () => [
+        ...header(definition, "histogram"),
+        ...series.entries().flatMap(({ labels, value }) => [
+          ...buckets.map(
+            (bucket, i) =>
+              `${definition.name}_bucket${formatLabels([
+                ...labels,
+                ["le", String(bucket)],
+              ])} ${value.bucketCounts[i]}`
+          ),
+          `${definition.name}_bucket${formatLabels([
+            ...labels,
+            ["le", "+Inf"],
+          ])} ${value.count}`,
+          `${definition.name}_sum${formatLabels(labels)} ${value.sum}`,
+          `${definition.name}_count${formatLabels(labels)} ${value.count}`,
+        ]),
+      ]);
+
+      return {
+        observe: (labels, observed) => {
+          const entry = series.get(labels);
+          // バケットは累積で数える（観測値以上の上限を持つすべてのバケットに加算）
+          buckets.forEach((bucket, i) => {
+            if (observed <= bucket) entry.bucketCounts[i] += 1;
+          });
+          entry.sum += observed;
+          entry.count += 1;
+        },
+      };
+    },
+
+    render: () =>
+      `${Array.from(renderers.values())
+        .flatMap((render) => render())
+        .join("\n")}\n`,
+  };
+}
@@ -1,21 +1,21 @@
 /**
- * OpenAI API通信に関するユーティリティ関数
+ * LLM API通信に関するユーティリティ関数
  *
- * このファイルは、OpenAI APIを使用して応答を生成するための
- * 機能を提供します。初期応答生成とWeb検索補完機能を含みます。
- * テストモード対応（OpenAI API接続なし）も実装しています。
+ * このファイルは、選択されたモデルのLLMプロバイダー（OpenAI / OpenAI互換 / テスト）を
+ * 使用して応答を生成するための機能を提供します。初期応答生成とWeb検索補完機能を含みます。
+ * テストモード対応（外部API接続なし）とストリーミング生成も実装しています。
  *
  * @module apiUtils
  */
 
-import OpenAI from "openai";
 import { extractSearchKeywords, performWebSearch } from "./webSearch";
-import { OpenAIModel, DEFAULT_MODEL } from "@/types/model";
-
-// OpenAIのクライアントを初期化
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { ChatMessage, toChatMessages } from "./conversation";
+import type { RequestContext } from "./requestContext";
+import { TokenUsage, USAGE_PURPOSES, UsagePurpose } from "./usage";
+import { getModelRegistry, resolveModel } from "@/app/utils/llm";
+import { getChatMetrics } from "@/app/utils/metrics";
+import { findModelDefinition, ModelId } from "@/types/model";
+import { Message, SearchResult } from "@/types/message";
 
 /**
  * API設定関連の定数
@@ -26,11 +26,6 @@ const API_SETTINGS = {
    */
   MAX_INPUT_LENGTH: 1000,
 
-  /**
-   * 応答の最大トークン数
-   */
-  MAX_TOKENS: 1000,
-
   /**
    * モデルの温度パラメータ
    */
@@ -44,27 +39,18 @@ const API_SETTINGS = {
 
 /**
  * ログメッセージの定数
+ * 値（モデル・キーワードなど）はメッセージに埋め込まず、ログのフィールドとして出力します
  */
 const LOG_MESSAGES = {
-  TEST_MODE_DETECTED:
-    "[WARN] apiUtils: テストモードが検出されました。OpenAI APIは呼び出されません。",
-  INITIAL_RESPONSE_CALLED: (model: string) =>
-    `[DEBUG] generateInitialResponse called with model=${model}`,
-  CALLING_API: (model: string) =>
-    `[INFO] OpenAI APIを呼び出します: モデル=${model}`,
-  API_CALL_SUCCESS: "[DEBUG] OpenAI API呼び出し成功",
-  API_CALL_FAILED: "[ERROR] OpenAI API呼び出し失敗:",
-  SEARCH_RESPONSE_CALLED: (model: string) =>
-    `[DEBUG] generateResponseWithWebSearch called with model=${model}`,
-  SEARCH_KEYWORDS: (keywords: string) => `[DEBUG] 検索キーワード: ${keywords}`,
-  NO_SEARCH_RESULTS: "[INFO] 検索結果が見つかりませんでした",
-  CALLING_API_WITH_SEARCH: (model: string) =>
-    `[INFO] 検索結果を含めてOpenAI APIを呼び出します: モデル=${model}`,
-  API_SEARCH_CALL_SUCCESS: "[DEBUG] OpenAI API（Web検索あり）呼び出し成功",
-  API_SEARCH_CALL_FAILED: "[ERROR] OpenAI API（Web検索あり）呼び出し失敗:",
-  AUGMENTATION_ERROR: "[ERROR] 情報補完中にエラーが発生しました:",
-  TEST_MODE_CHECK: (model: string, result: boolean) =>
-    `[DEBUG] isTestMode: model=${model}, result=${result}`,
+  TEST_MODE_DETECTED: "テストモードのため外部APIは呼び出されません",
+  INITIAL_RESPONSE_STARTED: "初期応答の生成を開始します",
+  CALLING_API: "LLM APIを呼び出します",
+  API_CALL_SUCCESS: "LLM API呼び出し成功",
+  API_CALL_FAILED: "LLM API呼び出し失敗",
+  SEARCH_RESPONSE_STARTED: "Web検索による情報の補完を開始します",
+  SEARCH_KEYWORDS: "検索キーワードを抽出しました",
+  NO_SEARCH_RESULTS: "検索結果が見つかりませんでした",
+  AUGMENTATION_ERROR: "情報補完中にエラーが発生したため初期応答を使用します",
 };
 
 /**
@@ -81,14 +67,13 @@ const SYSTEM_PROMPTS = {
    * Web検索用のシステムプロンプト
    */
   WEB_SEARCH:
-    "あなたは親切なアシスタントです。提供された最新のWeb検索結果を参考にして、ユーザーの質問に回答してください。検索結果を適切に引用し、ソースを明示してください。",
+    "あなたは親切なアシスタントです。提供された最新のWeb検索結果を参考にして、ユーザーの質問に回答してください。検索結果を適切に引用し、ソースを明示してください。引用する際は、該当する文の末尾に検索結果の番号を[1]のような形式で記載してください。",
 };
 
 /**
  * テスト関連の定数
  */
 const TEST_RESPONSES = {
-  INITIAL: "これはテストモードでの応答です。実際のAPIは呼び出されていません。",
   WEB_SEARCH: (prompt: string, initialResponse: string) =>
     `これはテストモードでの応答です。Web検索機能も実際には実行されていません。
 初期クエリ: ${prompt}
@@ -96,10 +81,21 @@ const TEST_RESPONSES = {
 };
 
 /**
- * テストモード用のモデル識別子
- * 定数として定義することで一貫性を保証し、タイプミスを防ぐ
+ * ストリーミング生成時に応答テキストの差分を受け取る関数の型定義
  */
-export const TEST_MODEL_ID = "test-model";
+export type DeltaHandler = (delta: string) => void;
+
+/**
+ * Web検索で補完した応答の型定義
+ */
+export interface WebSearchResponse {
+  /** 応答テキスト */
+  text: string;
+  /** 応答の生成に使用した検索結果（検索結果を使用しなかった場合は空配列） */
+  searchResults: SearchResult[];
+  /** 検索に使用したキーワード（検索を実行しなかった場合は空文字列） */
+  searchKeywords: string;
+}
 
 /**
  * 入力のサニタイズ
@@ -114,44 +110,69 @@ export function sanitizeInput(input: string): string {
 
 /**
  * テストモードかどうかを判定する関数
+ * モデル定義のプロバイダーがテスト用プロバイダーの場合にテストモードとします
  *
  * @param model 使用するLLMモデル
  * @returns テストモードの場合はtrue、そうでない場合はfalse
  */
-export function isTestMode(model: OpenAIModel): boolean {
-  const isTest = model === TEST_MODEL_ID;
-  // デバッグ情報: テストモード判定結果をログ出力
-  console.log(LOG_MESSAGES.TEST_MODE_CHECK(model, isTest));
-  return isTest;
+export function isTestMode(model: ModelId): boolean {
+  return findModelDefinition(model, getModelRegistry())?.provider === "test";
 }
 
 /**
- * OpenAI APIを呼び出す関数
+ * 選択されたモデルのプロバイダーで応答を生成する関数
  *
- * @param model 使用するモデル
+ * 差分ハンドラーが指定された場合はストリーミングで生成し、
+ * 差分を受け取るたびにハンドラーを呼び出して最終的に応答全体を返します。
+ * 使用したトークン数は用途とあわせてリクエストコンテキストに記録し、
+ * 成功した呼び出しの所要時間はメトリクスに記録します。
+ *
+ * @param context リクエストコンテキスト（使用モデル、タイムアウト用のシグナル、使用量の記録先、ロガー）
+ * @param purpose 呼び出しの用途
  * @param messages メッセージ配列
- * @param signal アボートシグナル
- * @returns APIレスポンス
+ * @param onDelta 差分を受け取るハンドラー（省略時は通常呼び出し）
+ * @returns 応答テキスト全体
+ * @throws 未登録のモデルの場合やAPI呼び出しに失敗した場合エラーをスロー
  */
-async function callOpenAI(
-  model: OpenAIModel,
-  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>,
-  signal?: AbortSignal
-) {
+async function generateCompletion(
+  context: RequestContext,
+  purpose: UsagePurpose,
+  messages: ChatMessage[],
+  onDelta?: DeltaHandler
+): Promise<string> {
+  const { logger } = context;
   try {
-    const response = await openai.chat.completions.create(
-      {
-        model: model,
-        messages: messages,
-        max_tokens: API_SETTINGS.MAX_TOKENS,
-        temperature: API_SETTINGS.TEMPERATURE,
-      },
-      signal ? { signal } : undefined
+    const { definition, provider } = resolveModel(context.model);
+    logger.info(LOG_MESSAGES.CALLING_API, {
+      model: definition.id,
+      provider: provider.id,
+      purpose,
+      stream: Boolean(onDelta),
+    });
+
+    const request = {
+      model: definition.id,
+      messages,
+      maxTokens: definition.maxOutputTokens,
+      temperature: API_SETTINGS.TEMPERATURE,
+      signal: context.signal,
+      onUsage: (usage: TokenUsage) =>
+        context.usage.record(definition.id, purpose, usage),
+    };
+
+    const startedAt = Date.now();
+    const content = onDelta
+      ? await provider.stream(request, onDelta)
+      : await provider.complete(request);
+    const durationMs = Date.now() - startedAt;
+    getChatMetrics().completionDuration.observe(
+      { model: definition.id, purpose },
+      durationMs / 1000
     );
-    console.log(LOG_MESSAGES.API_CALL_SUCCESS);
-    return response.choices[0]?.message?.content?.trim() || "";
+    logger.debug(LOG_MESSAGES.API_CALL_SUCCESS, { purpose, durationMs });
+    return content;
   } catch (error) {
-    console.error(LOG_MESSAGES.API_CALL_FAILED, error);
+    logger.error(LOG_MESSAGES.API_CALL_FAILED, { purpose, error });
     throw error;
   }
 }
@@ -161,36 +182,40 @@ async function callOpenAI(
  *
  * ユーザーの質問に対する最初のAI応答を生成します。
  * システムプロンプトでは、AIに最新情報がない場合は正直に伝えるよう指示しています。
- * テストモードの場合はOpenAI APIを呼び出さず、テスト用のメッセージを返します。
+ * テスト用モデルの場合はテスト用プロバイダーが外部APIを呼び出さずにテスト用のメッセージを返します。
  *
  * @param prompt ユーザーの質問
- * @param signal アボートシグナル（タイムアウト用）
- * @param model 使用するLLMモデル
+ * @param context リクエストコンテキスト（使用モデル、テストモード、タイムアウト用のシグナル）
+ * @param history これまでの会話履歴（トークン予算内に切り詰め済み）
+ * @param onDelta ストリーミング時に差分を受け取るハンドラー
  * @returns AIの初期応答テキスト
  */
 export async function generateInitialResponse(
   prompt: string,
-  signal: AbortSignal,
-  model: OpenAIModel = DEFAULT_MODEL
+  context: RequestContext,
+  history: Message[] = [],
+  onDelta?: DeltaHandler
 ): Promise<string> {
-  console.log(LOG_MESSAGES.INITIAL_RESPONSE_CALLED(model));
-
-  // テストモードの場合はOpenAI APIを呼び出さない
-  if (isTestMode(model)) {
-    console.warn(LOG_MESSAGES.TEST_MODE_DETECTED);
-    return TEST_RESPONSES.INITIAL;
-  }
+  context.logger.debug(LOG_MESSAGES.INITIAL_RESPONSE_STARTED, {
+    model: context.model,
+    historyLength: history.length,
+  });
 
-  console.log(LOG_MESSAGES.CALLING_API(model));
-  const messages = [
+  const messages: ChatMessage[] = [
     {
-      role: "system" as const,
+      role: "system",
       content: SYSTEM_PROMPTS.INITIAL_RESPONSE,
     },
-    { role: "user" as const, content: prompt },
+    ...toChatMessages(history),
+    { role: "user", content: prompt },
   ];
 
-  return await callOpenAI(model, messages, signal);
+  return await generateCompletion(
+    context,
+    USAGE_PURPOSES.INITIAL,
+    messages,
+    onDelta
+  );
 }
 
 /**
@@ -199,9 +224,7 @@ export async function generateInitialResponse(
  * @param searchResults 検索結果配列
  * @returns フォーマットされた検索結果テキスト
  */
-function formatSearchResults(
-  searchResults: Array<{ title: string; url: string; description: string }>
-) {
+function formatSearchResults(searchResults: SearchResult[]) {
   let searchContext = "以下は最新のWeb検索結果です:\n\n";
 
   searchResults.forEach((result, index) => {
@@ -218,58 +241,89 @@ function formatSearchResults(
  *
  * AIの初期応答に最新情報が不足している場合、Web検索結果を用いて
  * 情報を補完した新たな回答を生成します。
- * テストモードの場合はOpenAI APIを呼び出さず、テスト用のメッセージを返します。
+ * 応答とあわせて、実際に使用した検索結果と検索キーワードを返します。
+ * 検索結果が得られなかった場合や補完に失敗した場合は、初期応答と空の検索結果を返します。
+ * ただし、リクエストが中断された場合はエラーをスローします。
+ * テストモードの場合は外部APIを呼び出さず、テスト用のメッセージを返します。
  *
  * @param prompt ユーザーの質問
- * @param initialResponse AIの初期応答
- * @param model 使用するLLMモデル
- * @returns Web検索結果で補完された応答
+ * @param initialResponse AIの初期応答（初期応答を生成せずにWeb検索を行う場合は空文字列）
+ * @param context リクエストコンテキスト（使用モデル、テストモード、タイムアウト用のシグナル）
+ * @param history これまでの会話履歴（トークン予算内に切り詰め済み）
+ * @param onDelta ストリーミング時に差分を受け取るハンドラー
+ * @returns Web検索結果で補完された応答と使用した検索結果
  */
 export async function generateResponseWithWebSearch(
   prompt: string,
   initialResponse: string,
-  model: OpenAIModel = DEFAULT_MODEL
-): Promise<string> {
-  console.log(LOG_MESSAGES.SEARCH_RESPONSE_CALLED(model));
+  context: RequestContext,
+  history: Message[] = [],
+  onDelta?: DeltaHandler
+): Promise<WebSearchResponse> {
+  const { logger } = context;
+  logger.debug(LOG_MESSAGES.SEARCH_RESPONSE_STARTED, { model: context.model });
 
-  // テストモードの場合はOpenAI APIを呼び出さない
-  if (isTestMode(model)) {
-    console.warn(LOG_MESSAGES.TEST_MODE_DETECTED);
-    return TEST_RESPONSES.WEB_SEARCH(prompt, initialResponse);
+  // テストモードの場合は外部APIを呼び出さない
+  if (context.isTestMode) {
+    logger.debug(LOG_MESSAGES.TEST_MODE_DETECTED);
+    const testResponse = TEST_RESPONSES.WEB_SEARCH(prompt, initialResponse);
+    onDelta?.(testResponse);
+    return { text: testResponse, searchResults: [], searchKeywords: "" };
   }
 
+  // 補完できなかった場合の応答（元の回答を検索結果なしで返す）
+  const fallback: WebSearchResponse = {
+    text: initialResponse,
+    searchResults: [],
+    searchKeywords: "",
+  };
+
   try {
     // 検索キーワード抽出
-    const searchKeywords = await extractSearchKeywords(prompt);
-    console.log(LOG_MESSAGES.SEARCH_KEYWORDS(searchKeywords));
+    const searchKeywords = await extractSearchKeywords(
+      prompt,
+      context,
+      history
+    );
+    logger.debug(LOG_MESSAGES.SEARCH_KEYWORDS, { keywords: searchKeywords });
 
     // Web検索実行
     const searchResults = await performWebSearch(
       searchKeywords,
+      context,
       API_SETTINGS.MAX_SEARCH_RESULTS
     );
 
     // 検索結果が空の場合は元の回答を返す
     if (!searchResults || searchResults.length === 0) {
-      console.log(LOG_MESSAGES.NO_SEARCH_RESULTS);
-      return initialResponse;
+      logger.info(LOG_MESSAGES.NO_SEARCH_RESULTS);
+      return { ...fallback, searchKeywords };
     }
 
     // 検索結果をフォーマット
     const searchContext = formatSearchResults(searchResults);
 
-    // 検索結果を含めて再度OpenAI APIを呼び出し
-    console.log(LOG_MESSAGES.CALLING_API_WITH_SEARCH(model));
-
-    return await generateFinalResponseWithSearchResults(
+    // 検索結果を含めて再度LLM APIを呼び出し
+    const finalResponse = await generateFinalResponseWithSearchResults(
       prompt,
-      initialResponse,
       searchContext,
-      model
+      context,
+      history,
+      onDelta
     );
+
+    // 応答が空の場合は検索結果を使用しなかったものとして元の回答を返す
+    if (!finalResponse) {
+      return { ...fallback, searchKeywords };
+    }
+
+    return { text: finalResponse, searchResults, searchKeywords };
   } catch (error) {
-    console.error(LOG_MESSAGES.AUGMENTATION_ERROR, error);
-    return initialResponse; // エラーが発生した場合は元の応答を返す
+    // 中断された場合（クライアントの切断・タイムアウト）は元の応答を返さず中断を伝える
+    if (context.signal?.aborted) throw error;
+
+    logger.warn(LOG_MESSAGES.AUGMENTATION_ERROR, { error });
+    return fallback; // エラーが発生した場合は元の応答を返す
   }
 }
 
@@ -277,30 +331,34 @@ export async function generateResponseWithWebSearch(
  * 検索結果を含めた最終応答を生成する関数
  *
  * @param prompt ユーザーの質問
- * @param initialResponse 初期応答
  * @param searchContext フォーマット済み検索結果
- * @param model 使用するモデル
+ * @param context リクエストコンテキスト
+ * @param history これまでの会話履歴
+ * @param onDelta ストリーミング時に差分を受け取るハンドラー
  * @returns 最終応答
+ * @throws API呼び出しに失敗した場合エラーをスロー
  */
 async function generateFinalResponseWithSearchResults(
   prompt: string,
-  initialResponse: string,
   searchContext: string,
-  model: OpenAIModel
+  context: RequestContext,
+  history: Message[],
+  onDelta?: DeltaHandler
 ): Promise<string> {
-  const finalMessages = [
+  const finalMessages: ChatMessage[] = [
     {
-      role: "system" as const,
+      role: "system",
       content: SYSTEM_PROMPTS.WEB_SEARCH,
     },
-    { role: "user" as const, content: prompt },
+    ...toChatMessages(history),
+    { role: "user", content: prompt },
     {
-      role: "assistant" as const,
+      role: "assistant",
       content:
         "申し訳ありませんが、その質問に答えるための最新情報を持っていません。Web検索で確認してみます。",
     },
     {
-      role: "user" as const,
+      role: "user",
       content:
         searchContext +
         "\n\n上記の情報を参考に、私の質問に回答してください: " +
@@ -308,12 +366,10 @@ async function generateFinalResponseWithSearchResults(
     },
   ];
 
-  try {
-    const finalResponse = await callOpenAI(model, finalMessages);
-    console.log(LOG_MESSAGES.API_SEARCH_CALL_SUCCESS);
-    return finalResponse || initialResponse;
-  } catch (error) {
-    console.error(LOG_MESSAGES.API_SEARCH_CALL_FAILED, error);
-    return initialResponse; // エラーが発生した場合は元の応答を返す
-  }
+  return await generateCompletion(
+    context,
+    USAGE_PURPOSES.WEB_SEARCH,
+    finalMessages,
+    onDelta
+  );
 }
@@ -0,0 +1,156 @@
+/**
+ * 応答内の引用番号に関するユーティリティ関数
+ *
+ * このファイルは、Web検索結果を参照した応答に含まれる`[1]`形式の引用番号を
+ * 検索結果へのリンクに変換する機能を提供します。
+ * 存在しない番号の引用は除去し、本文で引用されなかった情報源を報告します。
+ * コードブロックやインラインコード内の`[n]`は引用として扱いません。
+ *
+ * @module citations
+ */
+
+import { SearchResult } from "@/types/message";
+
+/**
+ * 引用関連の定数
+ */
+export const CITATION_SETTINGS = {
+  /**
+   * 情報源へのアンカーIDの接頭辞（クライアント側の定義と一致させる）
+   * クライアント側でメッセージIDを付与して一意なIDに変換されます
+   */
+  ANCHOR_PREFIX: "source-",
+
+  /**
+   * 引用リンクに付与するクラス名
+   */
+  LINK_CLASS: "citation",
+};
+
+/**
+ * コードブロック・インラインコードを検出する正規表現
+ * 分割時にコード部分も結果に含めるため、全体をキャプチャしています
+ */
+const CODE_SEGMENT_PATTERN =
+  /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]*`)/;
+
+/**
+ * 引用番号を検出する正規表現
+ * `[1]`や`[1, 2]`の形式に一致します（`[1][2]`のような連続も可）。配列の添字（`arr[1]`）、
+ * Markdownのリンク（`[1](url)`）や参照定義（`[1]: url`）は除外します
+ */
+const CITATION_PATTERN =
+  /([ \t]*)(?<!\w)\[(\d+(?:\s*,\s*\d+)*)\](?![(:])/g;
+
+/**
+ * 引用処理の結果の型定義
+ */
+export interface CitationResult {
+  /** 存在しない番号の引用を除去した応答テキスト（Markdown） */
+  text: string;
+  /** 引用番号を情報源へのリンクに変換した応答テキスト（HTML変換用） */
+  linkedText: string;
+  /** 本文で引用されなかった情報源の番号（1始まり） */
+  unusedSources: number[];
+}
+
+/**
+ * HTML属性値として安全に埋め込めるよう文字をエスケープする関数
+ *
+ * @param value エスケープする文字列
+ * @returns エスケープ済みの文字列
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * 引用番号を情報源へのリンクに変換する関数
+ *
+ * @param sourceNumber 引用番号（1始まり）
+ * @param source 引用先の検索結果
+ * @returns リンクのHTML
+ */
+function formatCitationLink(
+  sourceNumber: number,
+  source: SearchResult
+): string {
+  const href = `#${CITATION_SETTINGS.ANCHOR_PREFIX}${sourceNumber}`;
+  const title = escapeAttribute(source.title);
+  return `<sup><a href="${href}" class="${CITATION_SETTINGS.LINK_CLASS}" title="${title}">[${sourceNumber}]</a></sup>`;
+}
+
+/**
+ * 応答に含まれる引用番号を処理する関数
+ *
+ * 引用番号のうち検索結果に対応するものはリンクに変換し、
+ * 対応する検索結果が存在しないものは除去します。
+ *
+ * @param markdown 応答テキスト（Markdown）
+ * @param sources 応答の生成に使用した検索結果
+ * @returns 引用処理の結果
+ */
+export function processCitations(
+  markdown: string,
+  sources: SearchResult[]
+): CitationResult {
+  const citedSources = new Set<number>();
+  const textSegments: string[] = [];
+  const linkedSegments: string[] = [];
+
+  // 奇数番目の要素がコード部分になる
+  markdown.split(CODE_SEGMENT_PATTERN).forEach((segment, index) => {
+    if (index % 2 === 1) {
+      textSegments.push(segment);
+      linkedSegments.push(segment);
+      return;
+    }
+
+    let text = "";
+    let linked = "";
+    let lastIndex = 0;
+
+    for (const match of segment.matchAll(CITATION_PATTERN)) {
+      const [whole, leadingSpace, numbers] = match;
+      const validNumbers = numbers
+        .split(",")
+        .map((value) => Number(value.trim()))
+        .filter((value) => value >= 1 && value <= sources.length);
+
+      const before = segment.slice(lastIndex, match.index);
+      lastIndex = (match.index ?? 0) + whole.length;
+
+      // 有効な番号がない引用は前の空白ごと除去
+      if (validNumbers.length === 0) {
+        text += before;
+        linked += before;
+        continue;
+      }
+
+      validNumbers.forEach((value) => citedSources.add(value));
+      text += `${before}${leadingSpace}${validNumbers
+        .map((value) => `[${value}]`)
+        .join("")}`;
+      linked += `${before}${leadingSpace}${validNumbers
+        .map((value) => formatCitationLink(value, sources[value - 1]))
+        .join("")}`;
+    }
+
+    textSegments.push(text + segment.slice(lastIndex));
+    linkedSegments.push(linked + segment.slice(lastIndex));
+  });
+
+  const unusedSources = sources
+    .map((_, index) => index + 1)
+    .filter((sourceNumber) => !citedSources.has(sourceNumber));
+
+  return {
+    text: textSegments.join(""),
+    linkedText: linkedSegments.join(""),
+    unusedSources,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * 会話履歴に関するユーティリティ関数
+ *
+ * このファイルは、クライアントから送信された会話履歴（Message[]）を
+ * 検証・整形し、トークン予算内に収めてOpenAI APIのメッセージ形式に
+ * 変換する機能を提供します。
+ *
+ * @module conversation
+ */
+
+import { Message } from "@/types/message";
+
+/**
+ * 会話履歴関連の定数
+ */
+const HISTORY_SETTINGS = {
+  /**
+   * 受け付ける履歴メッセージの最大件数
+   */
+  MAX_MESSAGES: 50,
+
+  /**
+   * 履歴1件あたりの最大文字数
+   * ボットの応答はユーザー入力より長くなるため、入力上限より大きめに設定
+   */
+  MAX_MESSAGE_LENGTH: 4000,
+
+  /**
+   * 履歴全体に割り当てるトークン予算
+   */
+  MAX_HISTORY_TOKENS: 2000,
+
+  /**
+   * ASCII文字を1トークンとみなす文字数
+   */
+  ASCII_CHARS_PER_TOKEN: 4,
+
+  /**
+   * メッセージごとのフォーマット用オーバーヘッドトークン数
+   */
+  TOKENS_PER_MESSAGE: 4,
+};
+
+/**
+ * エラーメッセージの定数
+ */
+export const HISTORY_ERROR_MESSAGES = {
+  INVALID_HISTORY: "History must be an array of messages",
+  INVALID_HISTORY_ENTRY:
+    "Each history entry must have a sender of 'user' or 'bot' and a string text",
+};
+
+/**
+ * OpenAI APIに渡すチャットメッセージの型定義
+ */
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+/**
+ * テキストのトークン数を概算する関数
+ *
+ * トークナイザーを使わずに概算するため、ASCII文字は4文字で1トークン、
+ * それ以外（日本語など）は1文字1トークンとして計算します。
+ *
+ * @param text 対象テキスト
+ * @returns 概算トークン数
+ */
+export function estimateTokens(text: string): number {
+  let asciiCount = 0;
+  let nonAsciiCount = 0;
+
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      asciiCount++;
+    } else {
+      nonAsciiCount++;
+    }
+  }
+
+  return (
+    Math.ceil(asciiCount / HISTORY_SETTINGS.ASCII_CHARS_PER_TOKEN) +
+    nonAsciiCount
+  );
+}
+
+/**
+ * 履歴エントリが有効なメッセージかどうかを判定する関数
+ *
+ * @param entry 検証するエントリ
+ * @returns 有効なメッセージであればtrue
+ */
+function isValidHistoryEntry(entry: unknown): entry is Message {
+  if (!entry || typeof entry !== "object") return false;
+
+  const { sender, text } = entry as Partial<Message>;
+  return (sender === "user" || sender === "bot") && typeof text === "string";
+}
+
+/**
+ * クライアントから送信された会話履歴を検証する関数
+ *
+ * 履歴が省略された場合は空配列として扱います。
+ * ローディング中のメッセージや空のメッセージは除外し、
+ * 件数と1件あたりの文字数を制限します。
+ *
+ * @param history 検証する履歴
+ * @returns 検証済みの履歴
+ * @throws 履歴の形式が不正な場合エラーをスロー
+ */
+export function validateHistory(history: unknown): Message[] {
+  if (history === undefined || history === null) {
+    return [];
+  }
+
+  if (!Array.isArray(history)) {
+    throw new Error(HISTORY_ERROR_MESSAGES.INVALID_HISTORY);
+  }
+
+  if (!history.every(isValidHistoryEntry)) {
+    throw new Error(HISTORY_ERROR_MESSAGES.INVALID_HISTORY_ENTRY);
+  }
+
+  return history
+    .filter((message) => !message.isLoading && message.text.trim() !== "")
+    .slice(-HISTORY_SETTINGS.MAX_MESSAGES)
+    .map((message) => ({
+      id: typeof message.id === "string" ? message.id : "",
+      sender: message.sender,
+      text: message.text.slice(0, HISTORY_SETTINGS.MAX_MESSAGE_LENGTH),
+    }));
+}
+
+/**
+ * 会話履歴をトークン予算内に切り詰める関数
+ *
+ * 新しいメッセージを優先して残し、予算を超えた古いメッセージから除外します。
+ * 先頭がボットの応答にならないよう、切り詰め後の先頭のボットメッセージは除外します。
+ *
+ * @param history 検証済みの履歴
+ * @param maxTokens トークン予算
+ * @returns 予算内に収まった履歴
+ */
+export function truncateHistory(
+  history: Message[],
+  maxTokens: number = HISTORY_SETTINGS.MAX_HISTORY_TOKENS
+): Message[] {
+  const truncated: Message[] = [];
+  let usedTokens = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const messageTokens =
+      estimateTokens(history[i].text) + HISTORY_SETTINGS.TOKENS_PER_MESSAGE;
+    if (usedTokens + messageTokens > maxTokens) break;
+
+    usedTokens += messageTokens;
+    truncated.unshift(history[i]);
+  }
+
+  while (truncated.length > 0 && truncated[0].sender === "bot") {
+    truncated.shift();
+  }
+
+  return truncated;
+}
+
+/**
+ * 会話履歴をOpenAI APIのメッセージ形式に変換する関数
+ *
+ * @param history 会話履歴
+ * @returns OpenAI APIのメッセージ配列
+ */
+export function toChatMessages(history: Message[]): ChatMessage[] {
+  return history.map((message) => ({
+    role: message.sender === "user" ? "user" : "assistant",
+    content: message.text,
+  }));
+}
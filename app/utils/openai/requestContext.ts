@@ -0,0 +1,55 @@
+/**
+ * リクエストコンテキスト
+ *
+ * このファイルは、1回のチャットリクエストの処理中に共有する情報
+ * （使用モデル、テストモードかどうか、中断用のシグナル、トークン使用量の記録先、
+ * リクエストIDを付与したロガー）をまとめた
+ * リクエストコンテキストを提供します。
+ * モジュール内の状態を使わずに各関数へ引数として渡すことで、
+ * 異なるモデルの同時リクエストが互いに影響しないようにします。
+ *
+ * @module requestContext
+ */
+
+import { ModelId } from "@/types/model";
+import { isTestMode } from "./apiUtils";
+import { createUsageRecorder, UsageRecorder } from "./usage";
+import { getConfiguredLogger, Logger } from "@/app/utils/logger";
+
+/**
+ * リクエストコンテキストの型定義
+ */
+export interface RequestContext {
+  /** このリクエストで使用するLLMモデル */
+  model: ModelId;
+  /** テストモード（外部APIに接続しない）かどうか */
+  isTestMode: boolean;
+  /** リクエストの中断・タイムアウト用のシグナル */
+  signal?: AbortSignal;
+  /** このリクエストで行ったLLM API呼び出しのトークン使用量の記録先 */
+  usage: UsageRecorder;
+  /** このリクエストのログを出力するロガー（リクエストIDを付与済み） */
+  logger: Logger;
+}
+
+/**
+ * リクエストコンテキストを生成する関数
+ *
+ * @param model このリクエストで使用するLLMモデル
+ * @param signal リクエストの中断・タイムアウト用のシグナル
+ * @param logger このリクエストのログを出力するロガー（省略時は環境変数で設定されたロガー）
+ * @returns リクエストコンテキスト
+ */
+export function createRequestContext(
+  model: ModelId,
+  signal?: AbortSignal,
+  logger: Logger = getConfiguredLogger()
+): RequestContext {
+  return {
+    model,
+    isTestMode: isTestMode(model),
+    signal,
+    usage: createUsageRecorder(),
+    logger,
+  };
+}
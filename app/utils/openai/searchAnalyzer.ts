@@ -3,10 +3,22 @@
  *
  * このファイルは、AIの初期応答に基づいて、Web検索による情報補完が
  * 必要かどうかを判断する機能を提供します。
+ * 判定に使用するパターンは、応答の言語（日本語・英語）に応じたパターン集から選択します。
+ * 判定の過程（一致したパターン、抽出した年、判定を決めた規則など）も返せます。
+ *
+ * 環境変数:
+ * - SEARCH_DEBUG_TRACE: 判定の過程を応答に含めるかどうか（on / off、既定値: off）
  *
  * @module searchAnalyzer
  */
 
+import {
+  getPatternPackForText,
+  MonthYear,
+  PatternLanguage,
+  SearchPatternPack,
+} from "@/app/utils/searchPatterns";
+
 /**
  * 検索判定用の時間閾値
  */
@@ -28,89 +40,71 @@ const TIME_THRESHOLDS = {
 };
 
 /**
- * 現在の日付情報を取得する関数
- * テスト容易性のためにカプセル化
- *
- * @returns 現在の年と月
+ * 判定の過程を応答に含めるかどうかの設定値
  */
-function getCurrentDate(): { year: number; month: number } {
-  const currentDate = new Date();
-  return {
-    year: currentDate.getFullYear(),
-    month: currentDate.getMonth() + 1,
-  };
-}
+export const SEARCH_DEBUG_TRACE_MODES = {
+  ON: "on",
+  OFF: "off",
+};
 
 /**
- * 検索が必要な強いパターンを生成する関数
- *
- * @param currentYear 現在の年
- * @returns 正規表現パターンの配列
+ * エラーメッセージ
  */
-function getStrongPatterns(currentYear: number): RegExp[] {
-  return [
-    /私の(知識|情報|データ)(は|が|では)(.{0,10})(まで|更新|制限)/i,
-    /私が(持っている|アクセスできる)(情報|データ|知識)(は|が)(.{0,10})(まで|古い|限られて)/i,
-    /(\d{4})年(.*?)までの(情報|データ)/i,
-    /最新の(情報|データ|アップデート)(が|は)(ない|あり(ません|ません|ません|ません))/i,
-    /現時点での正確な(情報|データ)(は|が)(わから|把握|確認でき)/i,
-    /私の(トレーニング|学習)(データ|期間)(は|が)(.{0,15})(まで|終了|制限)/i,
-    new RegExp(`${currentYear - 1}年(以前|まで)の(情報|データ)`, "i"),
-    new RegExp(`${currentYear - 2}年(以前|まで)の(情報|データ)`, "i"),
-  ];
-}
+export const SEARCH_ANALYZER_ERROR_MESSAGES = {
+  UNKNOWN_DEBUG_TRACE_MODE: (mode: string) =>
+    `不明なSEARCH_DEBUG_TRACEが指定されました: ${mode}（${Object.values(
+      SEARCH_DEBUG_TRACE_MODES
+    ).join(" / ")}のいずれかを指定してください）`,
+};
 
 /**
- * 中程度の検索必要性パターンを取得する関数
+ * 現在の日付情報を取得する関数
+ * テスト容易性のためにカプセル化
  *
- * @param currentYear 現在の年
- * @returns 正規表現パターンの配列
+ * @param now 基準とする日時（省略時は現在時刻）
+ * @returns 現在の年と月
  */
-function getModeratePatterns(currentYear: number): RegExp[] {
-  return [
-    /最新の(状況|バージョン|リリース|製品|技術)/i,
-    new RegExp(`${currentYear}年(の|における)`, "i"),
-    new RegExp(`${currentYear - 1}年以降`, "i"),
-    /最近の(傾向|動向|発展|変化)/i,
-    /(現在|今)の(市場|状況|標準|規格)/i,
-    /正確な(情報|データ)を(得る|確認する)には/i,
-    /公式(サイト|ウェブサイト|情報源)で(確認|参照)/i,
-    /最新(情報|アップデート)は(.{0,20})(確認|参照)/i,
-    /より詳細な(情報|データ)は(.{0,20})(検索|確認)/i,
-  ];
+function getCurrentDate(now: Date = new Date(Date.now())): MonthYear {
+  return {
+    year: now.getFullYear(),
+    month: now.getMonth() + 1,
+  };
 }
 
 /**
- * 検索不要を示す除外パターンを取得する関数
+ * テキスト内の年数を抽出する関数
  *
- * @returns 正規表現パターンの配列
+ * @param text 分析するテキスト
+ * @param pack 応答の言語のパターン集
+ * @returns 抽出された年数の配列、または空配列
  */
-function getExclusionPatterns(): RegExp[] {
-  return [
-    /詳細な情報をお持ちしています/i,
-    /最新のデータによると/i,
-    /現在の情報では/i,
-    /最新の研究では/i,
-    /最近の調査によれば/i,
-    /私の知識によれば/i,
-    /詳しく説明します/i,
-    /具体的な例を挙げると/i,
-  ];
+function extractYearsFromText(
+  text: string,
+  pack: SearchPatternPack
+): number[] {
+  return Array.from(text.matchAll(pack.yearPattern))
+    .map((match) => parseInt(match[1], 10))
+    .filter((year) => !isNaN(year));
 }
 
 /**
- * テキスト内の年数を抽出する関数
+ * テキスト内で最初に見つかった年月を抽出する関数
+ * （2023年9月 / September 2023 / 2023-09 などの表記に対応）
  *
  * @param text 分析するテキスト
- * @returns 抽出された年数の配列、または空配列
+ * @param pack 応答の言語のパターン集
+ * @returns 年月（見つからない場合はnull）
  */
-function extractYearsFromText(text: string): number[] {
-  const yearMatch = text.match(/(\d{4})年/g);
-  if (!yearMatch) return [];
-
-  return yearMatch
-    .map((y) => parseInt(y.replace("年", ""), 10))
-    .filter((year) => !isNaN(year));
+function extractMonthYearFromText(
+  text: string,
+  pack: SearchPatternPack
+): MonthYear | null {
+  for (const { pattern, toMonthYear } of pack.monthYearPatterns) {
+    const match = text.match(pattern);
+    const monthYear = match ? toMonthYear(match) : null;
+    if (monthYear) return monthYear;
+  }
+  return null;
 }
 
 /**
@@ -119,12 +113,14 @@ function extractYearsFromText(text: string): number[] {
  * @param years 抽出された年数の配列
  * @param text 元のテキスト
  * @param currentYear 現在の年
+ * @param pack 応答の言語のパターン集
  * @returns 検索が必要かどうか、nullは判断できない場合
  */
 function analyzeYearBasedSearchNeed(
   years: number[],
   text: string,
-  currentYear: number
+  currentYear: number,
+  pack: SearchPatternPack
 ): boolean | null {
   if (years.length === 0) return null;
 
@@ -134,7 +130,7 @@ function analyzeYearBasedSearchNeed(
   const hasFutureYears = years.some((y) => y > currentYear);
 
   if (allYearsOld && !hasFutureYears) {
-    const hasRecentTerms = /最新|最近|現在|今の/.test(text);
+    const hasRecentTerms = pack.recentTermsPattern.test(text);
     if (!hasRecentTerms) {
       return false;
     }
@@ -152,14 +148,16 @@ function analyzeYearBasedSearchNeed(
  *
  * @param text 分析するテキスト
  * @param currentDate 現在の日付情報
+ * @param pack 応答の言語のパターン集
  * @returns 検索が必要かどうか、nullは判断できない場合
  */
 function analyzeTimeContext(
   text: string,
-  currentDate: { year: number; month: number }
+  currentDate: MonthYear,
+  pack: SearchPatternPack
 ): boolean | null {
   // 年の時点における判定
-  const timeContextMatch = text.match(/(\d{4})年(現在|時点)/);
+  const timeContextMatch = text.match(pack.timeContextPattern);
   if (timeContextMatch) {
     const mentionedYear = parseInt(timeContextMatch[1], 10);
     if (mentionedYear < currentDate.year - 1) {
@@ -168,21 +166,16 @@ function analyzeTimeContext(
   }
 
   // 年月の判定
-  const monthYearMatch = text.match(/(\d{4})年(\d{1,2})月/);
-  if (monthYearMatch) {
-    const mentionedYear = parseInt(monthYearMatch[1], 10);
-    const mentionedMonth = parseInt(monthYearMatch[2], 10);
-
+  const monthYear = extractMonthYearFromText(text, pack);
+  if (monthYear) {
     const isOldDate =
-      mentionedYear < currentDate.year - 1 ||
-      (mentionedYear === currentDate.year - 1 &&
-        mentionedMonth < currentDate.month);
+      monthYear.year < currentDate.year - 1 ||
+      (monthYear.year === currentDate.year - 1 &&
+        monthYear.month < currentDate.month);
 
     if (isOldDate) {
       // 歴史的事実に関する記述の場合は検索不要
-      const historicalFactPattern =
-        /(発売|設立|創業|創立|開始|発表|公開)(された|した|れた)/;
-      if (!historicalFactPattern.test(text)) {
+      if (!pack.historicalFactPattern.test(text)) {
         return true;
       }
     }
@@ -192,66 +185,211 @@ function analyzeTimeContext(
 }
 
 /**
- * テキスト内に「情報がない」や「最新の情報がない」などの表現がないかチェックする高精度な判定
+ * 判定を決めた規則
+ */
+export type SearchNeedRule =
+  | "strong-pattern"
+  | "future-year"
+  | "old-years"
+  | "exclusion"
+  | "moderate-patterns"
+  | "short-answer"
+  | "time-context"
+  | "none";
+
+/**
+ * 判定を決めた規則の設定値
+ */
+export const SEARCH_NEED_RULES: Record<string, SearchNeedRule> = {
+  STRONG_PATTERN: "strong-pattern", // 強いパターンに一致した
+  FUTURE_YEAR: "future-year", // 将来の年に言及している
+  OLD_YEARS: "old-years", // 古い年にのみ言及している
+  EXCLUSION: "exclusion", // 除外パターンに一致した
+  MODERATE_PATTERNS: "moderate-patterns", // 中程度のパターンが閾値以上一致した
+  SHORT_ANSWER: "short-answer", // 短い回答で情報不足を示している
+  TIME_CONTEXT: "time-context", // 古い時点や年月に言及している
+  NONE: "none", // いずれの規則にも該当しなかった
+};
+
+/**
+ * Web検索の必要性の判定の過程
+ * 判定の誤りを調査し、TIME_THRESHOLDSなどを調整するために使用します
+ */
+export interface SearchNeedAnalysis {
+  /** Web検索が必要かどうか */
+  needsSearch: boolean;
+  /** 判定を決めた規則 */
+  rule: SearchNeedRule;
+  /** 判定に使用したパターン集の言語 */
+  language: PatternLanguage;
+  /** 一致したパターン（正規表現のソース、判定を決めた規則より後の種類も含む） */
+  matchedPatterns: {
+    strong: string[];
+    exclusion: string[];
+    moderate: string[];
+  };
+  /** テキストから抽出した年 */
+  years: number[];
+  /** テキストから抽出した年月（見つからない場合はnull） */
+  monthYear: MonthYear | null;
+  /** 中程度のパターンの一致数（MODERATE_MATCH_THRESHOLD以上で検索必要） */
+  score: number;
+  /** 判定に使用した閾値 */
+  thresholds: typeof TIME_THRESHOLDS;
+}
+
+/**
+ * テキストに一致したパターンのソースを取得する関数
+ *
+ * @param patterns 正規表現パターンの配列
+ * @param text 分析するテキスト
+ * @returns 一致したパターンのソースの配列
+ */
+function findMatchedPatterns(patterns: RegExp[], text: string): string[] {
+  return patterns
+    .filter((pattern) => pattern.test(text))
+    .map((pattern) => pattern.source);
+}
+
+/**
+ * テキスト内に「情報がない」や「最新の情報がない」などの表現がないかを分析し、
+ * 判定の過程とあわせて返す関数
  *
  * AIモデルの回答を解析し、Web検索による情報補完が必要かどうかを判断します。
  * AIモデルは訓練データの制限があるため、現在や最新の情報が必要な質問に対しては
  * 補完情報が必要となります。
+ * 知識の期限を述べる表現（強いパターン）は、古い年にのみ言及している場合よりも優先します。
+ * 規則は以下の順に適用し、最初に判断できた規則で判定します。
+ * 強いパターン → 年数 → 除外パターン → 中程度のパターン → 短い回答 → 時間的コンテキスト
  *
  * @param text AIの初期応答
- * @returns Web検索が必要かどうか
+ * @param now 判定の基準とする日時（省略時は現在時刻、評価用のコーパスでは応答を収集した日時）
+ * @returns 判定結果と判定の過程
  */
-export function needsWebSearchInfo(text: string): boolean {
+export function analyzeSearchNeed(
+  text: string,
+  now?: Date
+): SearchNeedAnalysis {
   // 現在の日付情報を取得
-  const currentDate = getCurrentDate();
+  const currentDate = getCurrentDate(now);
+
+  // 応答の言語に応じたパターンを取得し、判定の過程を残すためすべての種類の一致を調べる
+  const pack = getPatternPackForText(text);
+  const matchedPatterns = {
+    strong: findMatchedPatterns(pack.getStrongPatterns(currentDate.year), text),
+    exclusion: findMatchedPatterns(pack.exclusionPatterns, text),
+    moderate: findMatchedPatterns(
+      pack.getModeratePatterns(currentDate.year),
+      text
+    ),
+  };
+  const years = extractYearsFromText(text, pack);
+  const score = matchedPatterns.moderate.length;
 
-  // 各種パターンを取得
-  const strongPatterns = getStrongPatterns(currentDate.year);
-  const moderatePatterns = getModeratePatterns(currentDate.year);
-  const exclusionPatterns = getExclusionPatterns();
+  const decide = (
+    needsSearch: boolean,
+    rule: SearchNeedRule
+  ): SearchNeedAnalysis => ({
+    needsSearch,
+    rule,
+    language: pack.language,
+    matchedPatterns,
+    years,
+    monthYear: extractMonthYearFromText(text, pack),
+    score,
+    thresholds: { ...TIME_THRESHOLDS },
+  });
+
+  // 強いパターンが1つでもマッチすれば検索必要
+  // （「私の知識は2023年までです」のように古い年とともに知識の期限を述べる場合も含む）
+  if (matchedPatterns.strong.length > 0) {
+    return decide(true, SEARCH_NEED_RULES.STRONG_PATTERN);
+  }
 
   // 年数に基づく分析
-  const years = extractYearsFromText(text);
   const yearBasedDecision = analyzeYearBasedSearchNeed(
     years,
     text,
-    currentDate.year
+    currentDate.year,
+    pack
   );
   if (yearBasedDecision !== null) {
-    return yearBasedDecision;
-  }
-
-  // 強いパターンが1つでもマッチすれば検索必要
-  if (strongPatterns.some((pattern) => pattern.test(text))) {
-    return true;
+    return decide(
+      yearBasedDecision,
+      yearBasedDecision
+        ? SEARCH_NEED_RULES.FUTURE_YEAR
+        : SEARCH_NEED_RULES.OLD_YEARS
+    );
   }
 
   // 除外パターンにマッチし、強いパターンにマッチしない場合は検索不要
-  if (exclusionPatterns.some((pattern) => pattern.test(text))) {
-    return false;
+  if (matchedPatterns.exclusion.length > 0) {
+    return decide(false, SEARCH_NEED_RULES.EXCLUSION);
   }
 
   // 中程度のパターンが閾値以上マッチすれば検索必要
-  const moderateMatchCount = moderatePatterns.filter((pattern) =>
-    pattern.test(text)
-  ).length;
-  if (moderateMatchCount >= TIME_THRESHOLDS.MODERATE_MATCH_THRESHOLD) {
-    return true;
+  if (score >= TIME_THRESHOLDS.MODERATE_MATCH_THRESHOLD) {
+    return decide(true, SEARCH_NEED_RULES.MODERATE_PATTERNS);
   }
 
   // 短い回答は情報不足の可能性
   if (
     text.length < TIME_THRESHOLDS.SHORT_ANSWER_THRESHOLD &&
-    /わかりません|不明|確認できません|把握していません/.test(text)
+    pack.shortAnswerPattern.test(text)
   ) {
-    return true;
+    return decide(true, SEARCH_NEED_RULES.SHORT_ANSWER);
   }
 
   // 時間的コンテキスト判定
-  const timeContextDecision = analyzeTimeContext(text, currentDate);
+  const timeContextDecision = analyzeTimeContext(text, currentDate, pack);
   if (timeContextDecision !== null) {
-    return timeContextDecision;
+    return decide(timeContextDecision, SEARCH_NEED_RULES.TIME_CONTEXT);
+  }
+
+  return decide(false, SEARCH_NEED_RULES.NONE);
+}
+
+/**
+ * テキスト内に「情報がない」や「最新の情報がない」などの表現がないかチェックする高精度な判定
+ * 判定の過程が必要な場合はanalyzeSearchNeedを使用します
+ *
+ * @param text AIの初期応答
+ * @returns Web検索が必要かどうか
+ */
+export function needsWebSearchInfo(text: string): boolean {
+  return analyzeSearchNeed(text).needsSearch;
+}
+
+/**
+ * 判定の過程を応答に含めるかどうかを判定する関数
+ *
+ * @param mode 設定値（未指定の場合は含めない）
+ * @returns 含める場合はtrue
+ * @throws 不明な設定値の場合エラーをスロー
+ */
+export function isSearchDebugTraceEnabled(mode?: string): boolean {
+  const normalized = (mode || SEARCH_DEBUG_TRACE_MODES.OFF)
+    .trim()
+    .toLowerCase();
+
+  switch (normalized) {
+    case SEARCH_DEBUG_TRACE_MODES.ON:
+      return true;
+    case SEARCH_DEBUG_TRACE_MODES.OFF:
+      return false;
+    default:
+      throw new Error(
+        SEARCH_ANALYZER_ERROR_MESSAGES.UNKNOWN_DEBUG_TRACE_MODE(normalized)
+      );
   }
+}
 
-  return false;
+/**
+ * 環境変数の設定に応じて、判定の過程を応答に含めるかどうかを判定する関数
+ *
+ * @returns 含める場合はtrue
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function isConfiguredSearchDebugTraceEnabled(): boolean {
+  return isSearchDebugTraceEnabled(process.env.SEARCH_DEBUG_TRACE);
 }
@@ -0,0 +1,358 @@
+/**
+ * Web検索による情報の補完の要否の判定方式
+ *
+ * このファイルは、初期応答を基にWeb検索で情報を補完するかどうかを判断する方式を、
+ * 運用環境ごとに切り替えられるようにする機能を提供します。
+ *
+ * - regex: 初期応答に対するパターンマッチング（searchAnalyzer）で判定する（追加の呼び出しなし）
+ * - llm: 軽量なモデルに関数呼び出しで `{needsSearch, reason, confidence}` を返させて判定する
+ *   （言い換えや日本語・英語以外の応答にも対応できる代わりに、LLM APIの呼び出しが1回増える）
+ * - hybrid: パターンマッチングで補完が必要と判定された場合はそのまま採用し、
+ *   そうでない場合のみLLMで判定する（確信度が閾値未満の判定は採用しない）
+ *
+ * LLMによる判定に失敗した場合は、応答の生成を止めないようパターンマッチングの結果を使用します。
+ *
+ * 環境変数:
+ * - SEARCH_DECISION_STRATEGY: 判定方式（regex / llm / hybrid、既定値: regex）
+ *
+ * @module searchDecision
+ */
+
+import { RequestContext } from "./requestContext";
+import { analyzeSearchNeed, SearchNeedAnalysis } from "./searchAnalyzer";
+import { selectKeywordExtractionModel } from "./webSearch";
+import { USAGE_PURPOSES } from "./usage";
+import { LLMFunctionDefinition, resolveModel } from "@/app/utils/llm";
+import { getChatMetrics } from "@/app/utils/metrics";
+import { SearchDecision } from "@/types/message";
+
+/**
+ * 設定可能な判定方式名
+ */
+export const SEARCH_DECISION_STRATEGIES = {
+  REGEX: "regex",
+  LLM: "llm",
+  HYBRID: "hybrid",
+};
+
+/**
+ * 判定の設定値
+ */
+const SEARCH_DECISION_SETTINGS = {
+  /**
+   * LLMによる判定の設定
+   * 判定を安定させるため温度は0とする
+   */
+  CLASSIFIER_SETTINGS: {
+    MAX_TOKENS: 150,
+    TEMPERATURE: 0,
+  },
+
+  /**
+   * LLMによる判定に含める初期応答の最大文字数
+   */
+  CLASSIFIER_RESPONSE_MAX_LENGTH: 2000,
+
+  /**
+   * hybridでLLMの判定を採用する確信度の閾値
+   */
+  HYBRID_CONFIDENCE_THRESHOLD: 0.6,
+};
+
+/**
+ * 判定の理由（パターンマッチングの場合）
+ */
+const REASONS = {
+  REGEX_SEARCH:
+    "初期応答に、最新の情報を持っていないことを示す表現が含まれています",
+  REGEX_SKIP:
+    "初期応答に、最新の情報が必要であることを示す表現は見つかりませんでした",
+};
+
+/**
+ * エラーメッセージ
+ */
+export const SEARCH_DECISION_ERROR_MESSAGES = {
+  UNKNOWN_STRATEGY: (name: string) =>
+    `不明なSEARCH_DECISION_STRATEGYが指定されました: ${name}（${Object.values(
+      SEARCH_DECISION_STRATEGIES
+    ).join(" / ")}のいずれかを指定してください）`,
+  INVALID_CLASSIFICATION: "LLMによる判定結果の形式が不正です",
+};
+
+/**
+ * ログメッセージ
+ */
+const LOG_MESSAGES = {
+  CLASSIFIER_FAILED:
+    "LLMによるWeb検索の要否の判定に失敗したため、パターンマッチングの結果を使用します",
+};
+
+/**
+ * LLMに呼び出させる判定結果の報告用の関数
+ */
+const CLASSIFIER_FUNCTION: LLMFunctionDefinition = {
+  name: "report_search_need",
+  description:
+    "AIアシスタントの回答に、Web検索で最新の情報を補う必要があるかどうかを報告する",
+  parameters: {
+    type: "object",
+    properties: {
+      needsSearch: {
+        type: "boolean",
+        description:
+          "回答が最新の情報を持っていないことを示している、または古い情報に基づいている場合はtrue",
+      },
+      reason: {
+        type: "string",
+        description: "判定の理由（日本語で1文）",
+      },
+      confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "判定の確信度（0〜1）",
+      },
+    },
+    required: ["needsSearch", "reason", "confidence"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * 判定に使用する入力
+ */
+export interface SearchNeedInput {
+  /** ユーザーの質問 */
+  prompt: string;
+  /** AIの初期応答 */
+  response: string;
+  /** 初期応答のパターンマッチングの結果（省略時は初期応答から判定） */
+  analysis?: SearchNeedAnalysis;
+}
+
+/**
+ * Web検索による情報の補完の要否の判定方式のインターフェース
+ */
+export interface SearchNeedStrategy {
+  /** 判定方式名（SEARCH_DECISION_STRATEGIESのいずれか） */
+  name: string;
+  /**
+   * Web検索による情報の補完が必要かどうかを判定する関数
+   *
+   * @param input 判定に使用する入力
+   * @param context リクエストコンテキスト（中断用のシグナル、使用量の記録先、ロガー）
+   * @returns 判断結果と理由
+   * @throws リクエストが中断された場合エラーをスロー
+   */
+  decide: (
+    input: SearchNeedInput,
+    context: RequestContext
+  ) => Promise<SearchDecision>;
+}
+
+/**
+ * パターンマッチングで判定する関数
+ * 判定の過程を記録するために判定済みの場合は、その結果を使用します
+ *
+ * @param input 判定に使用する入力
+ * @returns 判断結果と理由
+ */
+function decideByPatterns({
+  response,
+  analysis,
+}: SearchNeedInput): SearchDecision {
+  const { needsSearch } = analysis ?? analyzeSearchNeed(response);
+  return {
+    needsSearch,
+    reason: needsSearch ? REASONS.REGEX_SEARCH : REASONS.REGEX_SKIP,
+    decidedBy: "regex",
+  };
+}
+
+/**
+ * LLMが返した判定結果を検証する関数
+ *
+ * @param args 関数呼び出しの引数
+ * @returns 判断結果と理由
+ * @throws 形式が不正な場合エラーをスロー
+ */
+function toClassification(
+  args: Record<string, unknown> | null
+): SearchDecision {
+  const { needsSearch, reason, confidence } = args ?? {};
+  if (
+    typeof needsSearch !== "boolean" ||
+    typeof reason !== "string" ||
+    reason.trim().length === 0 ||
+    typeof confidence !== "number" ||
+    confidence < 0 ||
+    confidence > 1
+  ) {
+    throw new Error(SEARCH_DECISION_ERROR_MESSAGES.INVALID_CLASSIFICATION);
+  }
+
+  return { needsSearch, reason: reason.trim(), decidedBy: "llm", confidence };
+}
+
+/**
+ * LLMで判定する関数
+ * 使用したトークン数はリクエストコンテキストに記録します
+ *
+ * @param input 判定に使用する入力
+ * @param context リクエストコンテキスト
+ * @returns 判断結果と理由
+ * @throws API呼び出しに失敗した場合や判定結果の形式が不正な場合エラーをスロー
+ */
+async function classifyWithLLM(
+  { prompt, response }: SearchNeedInput,
+  context: RequestContext
+): Promise<SearchDecision> {
+  const model = selectKeywordExtractionModel(context);
+  const { provider } = resolveModel(model);
+  const classifierPrompt = `次の質問に対するAIアシスタントの回答を読み、回答を改善するためにWeb検索で最新の情報を補う必要があるかどうかを判定してください。回答の言語にかかわらず判定し、結果は${
+    CLASSIFIER_FUNCTION.name
+  }で報告してください。\n\n質問: ${prompt}\n\n回答: ${response.slice(
+    0,
+    SEARCH_DECISION_SETTINGS.CLASSIFIER_RESPONSE_MAX_LENGTH
+  )}`;
+
+  const startedAt = Date.now();
+  const args = await provider.callFunction(
+    {
+      model,
+      messages: [{ role: "user", content: classifierPrompt }],
+      maxTokens: SEARCH_DECISION_SETTINGS.CLASSIFIER_SETTINGS.MAX_TOKENS,
+      temperature: SEARCH_DECISION_SETTINGS.CLASSIFIER_SETTINGS.TEMPERATURE,
+      signal: context.signal,
+      onUsage: (usage) =>
+        context.usage.record(model, USAGE_PURPOSES.SEARCH_DECISION, usage),
+    },
+    CLASSIFIER_FUNCTION
+  );
+  getChatMetrics().completionDuration.observe(
+    { model, purpose: USAGE_PURPOSES.SEARCH_DECISION },
+    (Date.now() - startedAt) / 1000
+  );
+
+  return toClassification(args);
+}
+
+/**
+ * LLMで判定し、失敗した場合はパターンマッチングの結果を返す関数
+ *
+ * @param input 判定に使用する入力
+ * @param context リクエストコンテキスト
+ * @returns 判断結果と理由
+ * @throws リクエストが中断された場合エラーをスロー
+ */
+async function classifyWithFallback(
+  input: SearchNeedInput,
+  context: RequestContext
+): Promise<SearchDecision> {
+  // テストモードでは外部APIを呼び出さない
+  if (context.isTestMode) return decideByPatterns(input);
+
+  try {
+    return await classifyWithLLM(input, context);
+  } catch (error) {
+    // 中断された場合（クライアントの切断・タイムアウト）は後続の処理を行わない
+    if (context.signal?.aborted) throw error;
+
+    context.logger.warn(LOG_MESSAGES.CLASSIFIER_FAILED, { error });
+    return decideByPatterns(input);
+  }
+}
+
+/**
+ * パターンマッチングで判定する方式を生成する関数
+ *
+ * @returns 判定方式
+ */
+export function createRegexSearchNeedStrategy(): SearchNeedStrategy {
+  return {
+    name: SEARCH_DECISION_STRATEGIES.REGEX,
+    decide: async (input) => decideByPatterns(input),
+  };
+}
+
+/**
+ * LLMで判定する方式を生成する関数
+ *
+ * @returns 判定方式
+ */
+export function createLLMSearchNeedStrategy(): SearchNeedStrategy {
+  return {
+    name: SEARCH_DECISION_STRATEGIES.LLM,
+    decide: classifyWithFallback,
+  };
+}
+
+/**
+ * パターンマッチングとLLMを組み合わせて判定する方式を生成する関数
+ *
+ * @returns 判定方式
+ */
+export function createHybridSearchNeedStrategy(): SearchNeedStrategy {
+  return {
+    name: SEARCH_DECISION_STRATEGIES.HYBRID,
+    decide: async (input, context) => {
+      // パターンマッチングで補完が必要と判定された場合はLLMを呼び出さない
+      const patternDecision = decideByPatterns(input);
+      if (patternDecision.needsSearch) return patternDecision;
+
+      const decision = await classifyWithFallback(input, context);
+      const isConfident =
+        decision.confidence === undefined ||
+        decision.confidence >=
+          SEARCH_DECISION_SETTINGS.HYBRID_CONFIDENCE_THRESHOLD;
+      return isConfident ? decision : patternDecision;
+    },
+  };
+}
+
+/**
+ * 判定方式名に応じて判定方式を生成する関数
+ *
+ * @param name 判定方式名（未指定の場合はregex）
+ * @returns 判定方式
+ * @throws 不明な判定方式名の場合エラーをスロー
+ */
+export function createSearchNeedStrategy(name?: string): SearchNeedStrategy {
+  const normalized = (name || SEARCH_DECISION_STRATEGIES.REGEX)
+    .trim()
+    .toLowerCase();
+
+  switch (normalized) {
+    case SEARCH_DECISION_STRATEGIES.REGEX:
+      return createRegexSearchNeedStrategy();
+    case SEARCH_DECISION_STRATEGIES.LLM:
+      return createLLMSearchNeedStrategy();
+    case SEARCH_DECISION_STRATEGIES.HYBRID:
+      return createHybridSearchNeedStrategy();
+    default:
+      throw new Error(
+        SEARCH_DECISION_ERROR_MESSAGES.UNKNOWN_STRATEGY(normalized)
+      );
+  }
+}
+
+/**
+ * 環境変数の設定から生成した判定方式（初回使用時に生成）
+ */
+let configuredStrategy: SearchNeedStrategy | null = null;
+
+/**
+ * 環境変数で設定された判定方式を取得する関数
+ *
+ * @returns 判定方式
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function getConfiguredSearchNeedStrategy(): SearchNeedStrategy {
+  if (!configuredStrategy) {
+    configuredStrategy = createSearchNeedStrategy(
+      process.env.SEARCH_DECISION_STRATEGY
+    );
+  }
+  return configuredStrategy;
+}
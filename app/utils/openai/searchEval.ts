@@ -0,0 +1,463 @@
+/**
+ * Web検索の必要性判定の評価
+ *
+ * このファイルは、正解のラベルを付けたAIの応答のコーパス（JSONL）に対して
+ * Web検索の必要性の判定方式（searchDecisionの各方式）を実行し、適合率・再現率・混同行列と、
+ * 判定を決めた規則ごとの件数を集計する機能を提供します。
+ * パターンや閾値（TIME_THRESHOLDS）を調整した際の効果の確認と、
+ * 判定精度の低下の検出（回帰テスト）に使用します。
+ *
+ * コーパスの各行は以下の形式のJSONです:
+ *   {"id": "ja-cutoff-1", "text": "応答", "expected": true, "asOf": "2025-05-01", "prompt": "質問（任意）", "note": "補足（任意）"}
+ * asOfは応答を収集した日付で、年数に基づく判定の基準日として使用します。
+ *
+ * 評価は`npm run eval:search`で実行できます。
+ *
+ * 環境変数:
+ * - SEARCH_EVAL_CORPUS_PATH: 評価するコーパスのパス（既定値: ./evals/search-need-corpus.jsonl）
+ * - SEARCH_EVAL_LLM: LLM APIを呼び出す判定方式（llm / hybrid）も評価するかどうか（on / off、既定値: off）
+ *
+ * @module searchEval
+ */
+
+import { readFile } from "fs/promises";
+import { RequestContext } from "./requestContext";
+import { analyzeSearchNeed } from "./searchAnalyzer";
+import {
+  createSearchNeedStrategy,
+  SEARCH_DECISION_STRATEGIES,
+  SearchNeedStrategy,
+} from "./searchDecision";
+
+/**
+ * LLM APIを呼び出す判定方式の評価の有効・無効の設定値
+ */
+export const SEARCH_EVAL_LLM_MODES = {
+  ON: "on",
+  OFF: "off",
+};
+
+/**
+ * 評価の設定値
+ */
+export const SEARCH_EVAL_SETTINGS = {
+  /**
+   * 既定のコーパスのパス
+   */
+  DEFAULT_CORPUS_PATH: "./evals/search-need-corpus.jsonl",
+
+  /**
+   * 判定方式ごとの回帰テストの閾値（既定のコーパスでの下限）
+   */
+  THRESHOLDS: {
+    regex: { precision: 0.95, recall: 0.85 },
+  } as Record<string, SearchEvalThresholds>,
+};
+
+/**
+ * エラーメッセージ
+ */
+export const SEARCH_EVAL_ERROR_MESSAGES = {
+  INVALID_JSON: (line: number) => `${line}行目がJSONとして解釈できません`,
+  INVALID_SAMPLE: (line: number) =>
+    `${line}行目の形式が不正です（id・text・expected・asOfが必要です）`,
+  DUPLICATE_ID: (id: string) => `IDが重複しています: ${id}`,
+  UNKNOWN_LLM_MODE: (mode: string) =>
+    `不明なSEARCH_EVAL_LLMが指定されました: ${mode}（${Object.values(
+      SEARCH_EVAL_LLM_MODES
+    ).join(" / ")}のいずれかを指定してください）`,
+};
+
+/**
+ * 正解のラベルを付けた応答
+ */
+export interface LabeledSearchNeedSample {
+  /** サンプルのID */
+  id: string;
+  /** AIの応答 */
+  text: string;
+  /** Web検索による情報の補完が必要かどうか（正解） */
+  expected: boolean;
+  /** 応答を収集した日付（YYYY-MM-DD、判定の基準日） */
+  asOf: string;
+  /** 応答に対応するユーザーの質問（LLMによる判定に使用） */
+  prompt?: string;
+  /** 補足 */
+  note?: string;
+}
+
+/**
+ * 混同行列（Web検索が必要な場合を陽性とする）
+ */
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+}
+
+/**
+ * 判定を決めた規則ごとの件数
+ */
+export interface RuleHitCount {
+  /** その規則で判定した件数 */
+  hits: number;
+  /** そのうち正解と一致した件数 */
+  correct: number;
+}
+
+/**
+ * 判定を誤ったサンプル
+ */
+export interface MisclassifiedSample {
+  id: string;
+  expected: boolean;
+  actual: boolean;
+  rule: string;
+  note?: string;
+}
+
+/**
+ * 評価結果
+ */
+export interface SearchEvalReport {
+  /** 判定方式名 */
+  strategy: string;
+  /** サンプル数 */
+  total: number;
+  /** 混同行列 */
+  confusion: ConfusionMatrix;
+  /** 適合率（検索が必要と判定したうち正解の割合、該当なしの場合は0） */
+  precision: number;
+  /** 再現率（検索が必要なうち検索が必要と判定した割合、該当なしの場合は0） */
+  recall: number;
+  /** F1値 */
+  f1: number;
+  /** 正解率 */
+  accuracy: number;
+  /** 判定を決めた規則ごとの件数（パターンマッチング以外で判定した場合は判定の方法ごと） */
+  ruleHits: Record<string, RuleHitCount>;
+  /** 判定を誤ったサンプル */
+  misclassified: MisclassifiedSample[];
+}
+
+/**
+ * 回帰テストの閾値
+ */
+export interface SearchEvalThresholds {
+  /** 適合率の下限 */
+  precision: number;
+  /** 再現率の下限 */
+  recall: number;
+}
+
+/**
+ * 応答を収集した日付を判定の基準日時に変換する関数
+ * （実行環境のタイムゾーンによって日付がずれないよう、その日の0時（ローカル時刻）とする）
+ *
+ * @param asOf 応答を収集した日付（YYYY-MM-DD）
+ * @returns 判定の基準日時
+ */
+function toReferenceDate(asOf: string): Date {
+  return new Date(`${asOf}T00:00:00`);
+}
+
+/**
+ * コーパスの1行を検証する関数
+ *
+ * @param value JSONとして解釈した値
+ * @param line 行番号（1始まり）
+ * @returns 正解のラベルを付けた応答
+ * @throws 形式が不正な場合エラーをスロー
+ */
+function toSample(value: unknown, line: number): LabeledSearchNeedSample {
+  const { id, text, expected, asOf, prompt, note } = (value ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof id !== "string" ||
+    id.length === 0 ||
+    typeof text !== "string" ||
+    typeof expected !== "boolean" ||
+    typeof asOf !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(asOf) ||
+    isNaN(toReferenceDate(asOf).getTime())
+  ) {
+    throw new Error(SEARCH_EVAL_ERROR_MESSAGES.INVALID_SAMPLE(line));
+  }
+
+  return {
+    id,
+    text,
+    expected,
+    asOf,
+    ...(typeof prompt === "string" ? { prompt } : {}),
+    ...(typeof note === "string" ? { note } : {}),
+  };
+}
+
+/**
+ * JSONL形式のコーパスを解釈する関数
+ * 空行と`//`で始まる行（コメント）は無視します
+ *
+ * @param jsonl コーパスの内容
+ * @returns 正解のラベルを付けた応答の配列
+ * @throws 形式が不正な行やIDの重複がある場合エラーをスロー
+ */
+export function parseSearchNeedCorpus(
+  jsonl: string
+): LabeledSearchNeedSample[] {
+  const samples: LabeledSearchNeedSample[] = [];
+  const ids = new Set<string>();
+
+  jsonl.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line.length === 0 || line.startsWith("//")) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(SEARCH_EVAL_ERROR_MESSAGES.INVALID_JSON(index + 1));
+    }
+
+    const sample = toSample(value, index + 1);
+    if (ids.has(sample.id)) {
+      throw new Error(SEARCH_EVAL_ERROR_MESSAGES.DUPLICATE_ID(sample.id));
+    }
+    ids.add(sample.id);
+    samples.push(sample);
+  });
+
+  return samples;
+}
+
+/**
+ * コーパスのファイルを読み込む関数
+ *
+ * @param path コーパスのパス（省略時は環境変数 SEARCH_EVAL_CORPUS_PATH、または既定のパス）
+ * @returns 正解のラベルを付けた応答の配列
+ * @throws ファイルを読み込めない場合や形式が不正な場合エラーをスロー
+ */
+export async function loadSearchNeedCorpus(
+  path: string = process.env.SEARCH_EVAL_CORPUS_PATH ||
+    SEARCH_EVAL_SETTINGS.DEFAULT_CORPUS_PATH
+): Promise<LabeledSearchNeedSample[]> {
+  return parseSearchNeedCorpus(await readFile(path, "utf-8"));
+}
+
+/**
+ * LLM APIを呼び出す判定方式も評価するかどうかを判定する関数
+ *
+ * @param mode 有効・無効の設定値（未指定の場合は無効）
+ * @returns 有効な場合はtrue
+ * @throws 不明な設定値の場合エラーをスロー
+ */
+export function isSearchEvalLLMEnabled(mode?: string): boolean {
+  const normalized = (mode || SEARCH_EVAL_LLM_MODES.OFF).trim().toLowerCase();
+
+  switch (normalized) {
+    case SEARCH_EVAL_LLM_MODES.ON:
+      return true;
+    case SEARCH_EVAL_LLM_MODES.OFF:
+      return false;
+    default:
+      throw new Error(SEARCH_EVAL_ERROR_MESSAGES.UNKNOWN_LLM_MODE(normalized));
+  }
+}
+
+/**
+ * 評価する判定方式を生成する関数
+ * LLM APIを呼び出す判定方式は、有効な場合のみ評価します
+ * （判定方式を追加した場合も、SEARCH_DECISION_STRATEGIESに加えれば評価の対象になる）
+ *
+ * @param includeLLM LLM APIを呼び出す判定方式も評価するかどうか
+ * @returns 評価する判定方式
+ */
+export function createSearchEvalStrategies(
+  includeLLM: boolean
+): SearchNeedStrategy[] {
+  const names = includeLLM
+    ? Object.values(SEARCH_DECISION_STRATEGIES)
+    : [SEARCH_DECISION_STRATEGIES.REGEX];
+  return names.map((name) => createSearchNeedStrategy(name));
+}
+
+/**
+ * 環境変数の設定に応じて、評価する判定方式を生成する関数
+ *
+ * @returns 評価する判定方式
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function createConfiguredSearchEvalStrategies(): SearchNeedStrategy[] {
+  return createSearchEvalStrategies(
+    isSearchEvalLLMEnabled(process.env.SEARCH_EVAL_LLM)
+  );
+}
+
+/**
+ * 割合を計算する関数
+ *
+ * @param numerator 分子
+ * @param denominator 分母
+ * @returns 割合（分母が0の場合は0）
+ */
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * コーパスに対して判定方式を評価する関数
+ *
+ * 応答ごとに収集日を基準日としてパターンマッチングを行い、その結果を判定方式に渡します。
+ * パターンマッチングで判定した場合は判定を決めた規則、
+ * それ以外の場合は判定の方法（llmなど）ごとに件数を集計します。
+ *
+ * @param samples 正解のラベルを付けた応答の配列
+ * @param strategy 評価する判定方式
+ * @param context リクエストコンテキスト（LLMの呼び出しに使用するモデル・使用量の記録先など）
+ * @returns 評価結果
+ * @throws 判定が中断された場合エラーをスロー
+ */
+export async function evaluateSearchNeedStrategy(
+  samples: LabeledSearchNeedSample[],
+  strategy: SearchNeedStrategy,
+  context: RequestContext
+): Promise<SearchEvalReport> {
+  const confusion: ConfusionMatrix = {
+    truePositive: 0,
+    falsePositive: 0,
+    trueNegative: 0,
+    falseNegative: 0,
+  };
+  const ruleHits: Record<string, RuleHitCount> = {};
+  const misclassified: MisclassifiedSample[] = [];
+
+  for (const sample of samples) {
+    const analysis = analyzeSearchNeed(
+      sample.text,
+      toReferenceDate(sample.asOf)
+    );
+    const { needsSearch, decidedBy } = await strategy.decide(
+      { prompt: sample.prompt ?? "", response: sample.text, analysis },
+      context
+    );
+    const rule = decidedBy === "regex" ? analysis.rule : decidedBy;
+    const isCorrect = needsSearch === sample.expected;
+
+    if (needsSearch) {
+      if (isCorrect) confusion.truePositive++;
+      else confusion.falsePositive++;
+    } else {
+      if (isCorrect) confusion.trueNegative++;
+      else confusion.falseNegative++;
+    }
+
+    const count = (ruleHits[rule] ??= { hits: 0, correct: 0 });
+    count.hits++;
+    if (isCorrect) count.correct++;
+
+    if (!isCorrect) {
+      misclassified.push({
+        id: sample.id,
+        expected: sample.expected,
+        actual: needsSearch,
+        rule,
+        ...(sample.note ? { note: sample.note } : {}),
+      });
+    }
+  }
+
+  const precision = ratio(
+    confusion.truePositive,
+    confusion.truePositive + confusion.falsePositive
+  );
+  const recall = ratio(
+    confusion.truePositive,
+    confusion.truePositive + confusion.falseNegative
+  );
+
+  return {
+    strategy: strategy.name,
+    total: samples.length,
+    confusion,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    accuracy: ratio(
+      confusion.truePositive + confusion.trueNegative,
+      samples.length
+    ),
+    ruleHits,
+    misclassified,
+  };
+}
+
+/**
+ * 評価結果が閾値を下回っている項目を取得する関数
+ *
+ * @param report 評価結果
+ * @param thresholds 回帰テストの閾値
+ * @returns 閾値を下回っている項目の説明（下回っていない場合は空配列）
+ */
+export function findThresholdViolations(
+  report: SearchEvalReport,
+  thresholds: SearchEvalThresholds
+): string[] {
+  return (["precision", "recall"] as const)
+    .filter((metric) => report[metric] < thresholds[metric])
+    .map(
+      (metric) =>
+        `${report.strategy}: ${metric} ${report[metric].toFixed(
+          3
+        )} < ${thresholds[metric]}`
+    );
+}
+
+/**
+ * 評価結果をテキストの表に整形する関数
+ *
+ * @param report 評価結果
+ * @returns 整形した評価結果
+ */
+export function formatSearchEvalReport(report: SearchEvalReport): string {
+  const { confusion } = report;
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const lines = [
+    `判定方式: ${report.strategy}（${report.total}件）`,
+    `適合率: ${percent(report.precision)}  再現率: ${percent(
+      report.recall
+    )}  F1: ${report.f1.toFixed(3)}  正解率: ${percent(report.accuracy)}`,
+    "",
+    "混同行列          判定: 検索  判定: 不要",
+    `  正解: 検索      ${String(confusion.truePositive).padStart(10)}  ${String(
+      confusion.falseNegative
+    ).padStart(10)}`,
+    `  正解: 不要      ${String(confusion.falsePositive).padStart(10)}  ${String(
+      confusion.trueNegative
+    ).padStart(10)}`,
+  ];
+
+  const rules = Object.entries(report.ruleHits).sort(
+    ([, a], [, b]) => b.hits - a.hits
+  );
+  lines.push("", "規則ごとの件数（正解数 / 件数）");
+  rules.forEach(([rule, { hits, correct }]) => {
+    lines.push(`  ${rule.padEnd(20)} ${correct} / ${hits}`);
+  });
+
+  if (report.misclassified.length > 0) {
+    lines.push("", "判定を誤ったサンプル");
+    report.misclassified.forEach(({ id, expected, rule, note }) => {
+      lines.push(
+        `  ${id}: 正解=${expected ? "検索" : "不要"} 規則=${rule}${
+          note ? `（${note}）` : ""
+        }`
+      );
+    });
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,171 @@
+/**
+ * ユーザーの質問に基づくWeb検索の経路選択
+ *
+ * このファイルは、初期応答を生成する前にユーザーの質問を解析し、
+ * 最新の情報が必要な質問（日時を表す語、価格、時事的な出来事、最新のバージョンなど）を
+ * 初期応答を生成せずにWeb検索による応答の生成へ振り分ける機能を提供します。
+ * 初期応答の生成と、それを破棄しての再生成にかかるLLM APIの呼び出しを省くためのものです。
+ *
+ * 質問から判断できない場合は、従来どおり初期応答を基に判断します（searchDecision）。
+ *
+ * 環境変数:
+ * - SEARCH_PROMPT_ROUTING: 質問に基づく経路選択の有効・無効（on / off、既定値: off）
+ *
+ * @module searchRouting
+ */
+
+import { SearchDecision } from "@/types/message";
+
+/**
+ * 質問に基づく経路選択の有効・無効の設定値
+ */
+export const SEARCH_PROMPT_ROUTING_MODES = {
+  ON: "on",
+  OFF: "off",
+};
+
+/**
+ * エラーメッセージ
+ */
+export const SEARCH_ROUTING_ERROR_MESSAGES = {
+  UNKNOWN_MODE: (mode: string) =>
+    `不明なSEARCH_PROMPT_ROUTINGが指定されました: ${mode}（${Object.values(
+      SEARCH_PROMPT_ROUTING_MODES
+    ).join(" / ")}のいずれかを指定してください）`,
+};
+
+/**
+ * 判断の理由（最新の情報が必要な質問と判断しなかった場合）
+ */
+const NO_MATCH_REASON = "質問から最新の情報が必要かどうかは判断できませんでした";
+
+/**
+ * 質問に最新の情報が必要かどうかを判断する規則
+ */
+interface PromptRoutingRule {
+  /** 規則名 */
+  name: string;
+  /** 質問に一致するかどうかを判定するパターン（いずれかに一致すれば該当） */
+  patterns: RegExp[];
+  /** 判断の理由 */
+  reason: string;
+}
+
+/**
+ * 最新の情報が必要な質問と判断する規則を取得する関数
+ * 理由がより具体的な規則から順に並べます
+ *
+ * @param currentYear 現在の年
+ * @returns 規則の配列
+ */
+function getRoutingRules(currentYear: number): PromptRoutingRule[] {
+  return [
+    {
+      name: "latest-version",
+      patterns: [
+        /最新(の)?(バージョン|版|リリース|モデル)/,
+        /(バージョン|version).{0,10}(いくつ|何|最新)/i,
+        /\blatest (version|release|model)s?\b/i,
+      ],
+      reason: "最新のバージョンやリリースについての質問です",
+    },
+    {
+      name: "price",
+      patterns: [
+        /(価格|値段|料金|相場|株価|為替|金利)/,
+        /\b(prices?|stock prices?|exchange rates?|interest rates?)\b/i,
+      ],
+      reason: "変動する価格や相場についての質問です",
+    },
+    {
+      name: "event",
+      patterns: [
+        /(ニュース|速報|選挙|オリンピック|ワールドカップ|W杯|決算|試合結果|天気|予報)/,
+        /\b(news|election|olympics|world cup|earnings|weather|forecast)\b/i,
+      ],
+      reason: "時事的な出来事についての質問です",
+    },
+    {
+      name: "temporal",
+      patterns: [
+        /(今日|本日|昨日|今週|先週|今月|先月|今年|最新|最近|直近|現在)/,
+        /\b(today|yesterday|latest|recent|recently|currently|right now|this (week|month|year))\b/i,
+        new RegExp(`(${currentYear}|${currentYear + 1})年`),
+      ],
+      reason: "現在や直近の時点についての質問です",
+    },
+  ];
+}
+
+/**
+ * 日時を表す語を含んでいても最新の情報を必要としない質問のパターンを取得する関数
+ * （文法用語や、語を含む表現そのものについての質問など）
+ *
+ * @returns 正規表現パターンの配列
+ */
+function getExclusionPatterns(): RegExp[] {
+  return [
+    /現在(完了|進行|分詞|形)/,
+    /\b(present|past) (perfect|tense|participle)\b/i,
+    /「[^」]*」(の|という)(意味|使い方|読み方|英語)/,
+  ];
+}
+
+/**
+ * ユーザーの質問から、初期応答を生成せずにWeb検索を行うべきかどうかを判断する関数
+ *
+ * @param prompt ユーザーの質問
+ * @param now 判断の基準とする現在日時（省略時は現在時刻）
+ * @returns 判断結果と理由（decidedByはprompt）
+ */
+export function routeSearchByPrompt(
+  prompt: string,
+  now: Date = new Date()
+): SearchDecision {
+  const isExcluded = getExclusionPatterns().some((pattern) =>
+    pattern.test(prompt)
+  );
+  const rule = isExcluded
+    ? undefined
+    : getRoutingRules(now.getFullYear()).find(({ patterns }) =>
+        patterns.some((pattern) => pattern.test(prompt))
+      );
+
+  return {
+    needsSearch: Boolean(rule),
+    reason: rule ? rule.reason : NO_MATCH_REASON,
+    decidedBy: "prompt",
+  };
+}
+
+/**
+ * 質問に基づく経路選択が有効かどうかを判定する関数
+ *
+ * @param mode 有効・無効の設定値（未指定の場合は無効）
+ * @returns 有効な場合はtrue
+ * @throws 不明な設定値の場合エラーをスロー
+ */
+export function isPromptRoutingEnabled(mode?: string): boolean {
+  const normalized = (mode || SEARCH_PROMPT_ROUTING_MODES.OFF)
+    .trim()
+    .toLowerCase();
+
+  switch (normalized) {
+    case SEARCH_PROMPT_ROUTING_MODES.ON:
+      return true;
+    case SEARCH_PROMPT_ROUTING_MODES.OFF:
+      return false;
+    default:
+      throw new Error(SEARCH_ROUTING_ERROR_MESSAGES.UNKNOWN_MODE(normalized));
+  }
+}
+
+/**
+ * 環境変数の設定に応じて、質問に基づく経路選択が有効かどうかを判定する関数
+ *
+ * @returns 有効な場合はtrue
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function isConfiguredPromptRoutingEnabled(): boolean {
+  return isPromptRoutingEnabled(process.env.SEARCH_PROMPT_ROUTING);
+}
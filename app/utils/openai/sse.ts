@@ -0,0 +1,116 @@
+/**
+ * Server-Sent Events（SSE）によるストリーミング応答のユーティリティ
+ *
+ * このファイルは、AI応答をトークン単位でクライアントに転送するための
+ * SSEイベントの整形とストリームレスポンスの生成機能を提供します。
+ *
+ * イベントの種類:
+ * - delta: 応答テキストの差分
+ * - reset: それまでの差分を破棄する指示（Web検索による再生成時など）
+ * - done: 最終的な応答（HTML変換済み）
+ * - error: 生成中に発生したエラー
+ *
+ * @module sse
+ */
+
+import { getConfiguredLogger, Logger } from "@/app/utils/logger";
+
+/**
+ * SSEイベント名の定数
+ */
+export const SSE_EVENTS = {
+  DELTA: "delta",
+  RESET: "reset",
+  DONE: "done",
+  ERROR: "error",
+} as const;
+
+/**
+ * SSEイベント名の型定義
+ */
+export type SSEEventName = (typeof SSE_EVENTS)[keyof typeof SSE_EVENTS];
+
+/**
+ * SSEイベントを送信する関数の型定義
+ */
+export type SSESend = (event: SSEEventName, data: unknown) => void;
+
+/**
+ * SSEレスポンスのヘッダー
+ */
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+/**
+ * エラーメッセージの定数
+ */
+const ERROR_MESSAGES = {
+  STREAM_FAILED: "Failed to stream response",
+};
+
+/**
+ * ログメッセージの定数
+ */
+const LOG_MESSAGES = {
+  STREAM_FAILED: "ストリーミング応答中にエラーが発生しました",
+};
+
+/**
+ * SSEイベントを文字列に整形する関数
+ *
+ * @param event イベント名
+ * @param data イベントデータ（JSONとしてシリアライズ）
+ * @returns SSE形式の文字列
+ */
+export function formatSSEEvent(event: SSEEventName, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * SSEでストリーミングするレスポンスを生成する関数
+ *
+ * ハンドラーが完了するとストリームを閉じます。
+ * ハンドラーで発生したエラーはerrorイベントとしてクライアントに通知します。
+ * クライアントが切断してストリームが取り消された後の送信は無視します。
+ *
+ * @param handler イベントを送信する処理
+ * @param logger エラーを記録するロガー（省略時は環境変数で設定されたロガー）
+ * @returns SSEレスポンス
+ */
+export function createSSEResponse(
+  handler: (send: SSESend) => Promise<void>,
+  logger: Logger = getConfiguredLogger()
+): Response {
+  const encoder = new TextEncoder();
+  // クライアントの切断によりストリームが取り消されたかどうか
+  let isCancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (isCancelled) return;
+        controller.enqueue(encoder.encode(formatSSEEvent(event, data)));
+      };
+
+      try {
+        await handler(send);
+      } catch (error) {
+        logger.error(LOG_MESSAGES.STREAM_FAILED, { error });
+        send(SSE_EVENTS.ERROR, {
+          error: ERROR_MESSAGES.STREAM_FAILED,
+          details: error instanceof Error ? error.message : undefined,
+        });
+      } finally {
+        if (!isCancelled) controller.close();
+      }
+    },
+    cancel() {
+      isCancelled = true;
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,166 @@
+/**
+ * トークン使用量と推定コストの集計
+ *
+ * このファイルは、1回のチャットリクエストで行ったLLM API呼び出し
+ * （初期応答・検索キーワードの抽出・Web検索結果による再生成）のトークン数を記録し、
+ * モデルごとの料金表から推定コストを計算する機能を提供します。
+ * 記録はリクエストコンテキストごとに行い、同時リクエスト間で共有しません。
+ *
+ * @module usage
+ */
+
+import { ModelId } from "@/types/model";
+import { MessageUsage } from "@/types/message";
+
+/**
+ * LLM API呼び出しの用途の定数
+ * 使用量の記録と所要時間のメトリクスのラベルに共通で使用します
+ */
+export const USAGE_PURPOSES = {
+  /** 初期応答の生成 */
+  INITIAL: "initial",
+  /** 検索キーワードの抽出 */
+  KEYWORDS: "keywords",
+  /** Web検索による情報の補完の要否の判定（LLMによる判定の場合のみ） */
+  SEARCH_DECISION: "search-decision",
+  /** Web検索結果による再生成 */
+  WEB_SEARCH: "web-search",
+} as const;
+
+/**
+ * LLM API呼び出しの用途
+ */
+export type UsagePurpose = (typeof USAGE_PURPOSES)[keyof typeof USAGE_PURPOSES];
+
+/**
+ * 1回のLLM API呼び出しで使用したトークン数
+ */
+export interface TokenUsage {
+  /** 入力（プロンプト）のトークン数 */
+  promptTokens: number;
+  /** 出力（応答）のトークン数 */
+  completionTokens: number;
+}
+
+/**
+ * LLM API呼び出しごとの使用量の記録
+ */
+export interface UsageRecord extends TokenUsage {
+  /** 呼び出しに使用したモデル */
+  model: ModelId;
+  /** 呼び出しの用途 */
+  purpose: UsagePurpose;
+}
+
+/**
+ * リクエスト全体の使用量（API呼び出しごとの内訳を含む）
+ */
+export interface UsageSummary extends MessageUsage {
+  /** API呼び出しごとの内訳 */
+  calls: UsageRecord[];
+}
+
+/**
+ * モデルの料金（米ドル、100万トークンあたり）
+ */
+export interface ModelPrice {
+  /** 入力トークンの料金 */
+  input: number;
+  /** 出力トークンの料金 */
+  output: number;
+}
+
+/**
+ * 料金の単位となるトークン数
+ */
+const PRICE_UNIT_TOKENS = 1000000;
+
+/**
+ * モデルごとの料金表（米ドル、100万トークンあたり）
+ * 表にないモデル（ローカルサーバーのモデルなど）の推定コストは計算しません
+ */
+export const MODEL_PRICES: Record<ModelId, ModelPrice> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "test-model": { input: 0, output: 0 },
+};
+
+/**
+ * 使用量の記録先のインターフェース
+ */
+export interface UsageRecorder {
+  /**
+   * LLM API呼び出しの使用量を記録する関数
+   *
+   * @param model 呼び出しに使用したモデル
+   * @param purpose 呼び出しの用途
+   * @param usage 使用したトークン数
+   */
+  record: (model: ModelId, purpose: UsagePurpose, usage: TokenUsage) => void;
+  /**
+   * 記録した使用量を集計する関数
+   *
+   * @returns リクエスト全体の使用量（記録がない場合はnull）
+   */
+  summarize: () => UsageSummary | null;
+}
+
+/**
+ * 記録した使用量から推定コストを計算する関数
+ *
+ * @param calls API呼び出しごとの使用量
+ * @param prices モデルごとの料金表
+ * @returns 推定コスト（米ドル、料金表にないモデルを含む場合はnull）
+ */
+export function estimateCost(
+  calls: UsageRecord[],
+  prices: Record<ModelId, ModelPrice> = MODEL_PRICES
+): number | null {
+  let cost = 0;
+  for (const call of calls) {
+    const price = prices[call.model];
+    if (!price) return null;
+    cost +=
+      (call.promptTokens * price.input +
+        call.completionTokens * price.output) /
+      PRICE_UNIT_TOKENS;
+  }
+  return cost;
+}
+
+/**
+ * 使用量の記録先を生成する関数
+ *
+ * @param prices モデルごとの料金表
+ * @returns 使用量の記録先
+ */
+export function createUsageRecorder(
+  prices: Record<ModelId, ModelPrice> = MODEL_PRICES
+): UsageRecorder {
+  const calls: UsageRecord[] = [];
+
+  return {
+    record: (model, purpose, { promptTokens, completionTokens }) => {
+      calls.push({ model, purpose, promptTokens, completionTokens });
+    },
+    summarize: () => {
+      if (calls.length === 0) return null;
+
+      const promptTokens = calls.reduce(
+        (sum, call) => sum + call.promptTokens,
+        0
+      );
+      const completionTokens = calls.reduce(
+        (sum, call) => sum + call.completionTokens,
+        0
+      );
+      return {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        estimatedCostUsd: estimateCost(calls, prices),
+        calls: [...calls],
+      };
+    },
+  };
+}
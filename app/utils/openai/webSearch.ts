@@ -1,22 +1,27 @@
 /**
  * Web検索関連のユーティリティ関数
  *
- * このファイルはDuckDuckGoを使用したWeb検索機能を提供します。
+ * このファイルはWeb検索機能を提供します。
  * 検索キーワードの抽出や検索結果の処理を行います。
+ * 検索は環境変数で選択された検索プロバイダー（DuckDuckGo、ローカルコーパスなど）で実行します。
  * テストモードにも対応し、実際のAPIコールを回避します。
+ * 使用モデルやテストモードの判定はリクエストごとのコンテキストで受け取り、
+ * モジュール内に状態を持ちません。
  *
  * @module webSearch
  */
 
-import OpenAI from "openai";
-import { search, SearchOptions, SafeSearchType } from "duck-duck-scrape";
-import { OpenAIModel } from "@/types/model";
-import { isTestMode } from "./apiUtils";
-
-// OpenAIのクライアントを初期化
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { Message, SearchResult } from "@/types/message";
+import { findModelDefinition, ModelId } from "@/types/model";
+import { RequestContext } from "./requestContext";
+import { USAGE_PURPOSES } from "./usage";
+import {
+  createDummyProvider,
+  getConfiguredSearchProvider,
+  SearchProvider,
+} from "@/app/utils/search";
+import { getModelRegistry, resolveModel } from "@/app/utils/llm";
+import { getChatMetrics, WEB_SEARCH_RESULTS } from "@/app/utils/metrics";
 
 /**
  * 検索関連の定数
@@ -29,7 +34,8 @@ const SEARCH_CONSTANTS = {
 
   /**
    * キーワード抽出に使用するモデル
-   * 軽量なモデルで十分なため、ユーザー選択モデルは使用しない
+   * 軽量なモデルで十分なため、OpenAIのモデルが選択されている場合はユーザー選択モデルを使用しない
+   * （OpenAI以外のプロバイダーのモデルが選択されている場合は、そのモデルを使用する）
    */
   KEYWORD_EXTRACTION_MODEL: "gpt-4o-mini",
 
@@ -42,204 +48,107 @@ const SEARCH_CONSTANTS = {
   },
 
   /**
-   * 検索設定
-   * SearchOptions型に適合させるため、小文字のキーを使用
+   * キーワード抽出時に文脈として含める直近の履歴件数
+   * 「2つ目は？」のような指示語を含む質問を解決するために使用
+   */
+  KEYWORD_CONTEXT_MESSAGES: 2,
+
+  /**
+   * 文脈として含める履歴1件あたりの最大文字数
    */
-  SEARCH_OPTIONS: {
-    safeSearch: SafeSearchType.MODERATE,
-    locale: "ja-jp",
-  } as SearchOptions,
+  KEYWORD_CONTEXT_MAX_LENGTH: 300,
+
+  /**
+   * 検索プロバイダーを選択できなかった場合のメトリクスのラベル
+   */
+  UNKNOWN_PROVIDER: "unknown",
 };
 
 /**
  * エラーメッセージ
  */
 const ERROR_MESSAGES = {
-  NO_RESULTS: "DuckDuckGoで検索結果が見つかりませんでした",
   SEARCH_ERROR: "検索中にエラーが発生しました",
-  MODEL_NOT_SET:
-    "モデルが設定されていません。テストモードと判定できないため、安全のためにダミー結果を返します。",
 };
 
 /**
  * ログメッセージ
+ * 検索クエリやプロンプトはメッセージに埋め込まず、ログのフィールドとして出力します
+ * （ロガーの設定に応じて伏せ字になります）
  */
 const LOG_MESSAGES = {
-  SET_MODEL: (model: OpenAIModel, isTest: boolean) =>
-    `[DEBUG] webSearch: 現在のモデルを設定: ${model}, テストモード=${isTest}`,
-  TEST_MODE_SEARCH: (query: string) =>
-    `[INFO] webSearch: テストモードのためダミー検索結果を返します。検索クエリ: "${query}"`,
-  DIRECT_SEARCH: (query: string) =>
-    `[INFO] サーバー側で直接Web検索を実行: "${query}"`,
-  TEST_MODE_KEYWORDS: (prompt: string) =>
-    `[INFO] webSearch: テストモードのためダミーキーワードを返します。プロンプト: "${prompt.substring(
-      0,
-      30
-    )}..."`,
-  KEYWORD_EXTRACTION: (prompt: string) =>
-    `[INFO] OpenAI APIを使用してキーワード抽出: "${prompt.substring(
-      0,
-      30
-    )}..." (使用モデル: ${SEARCH_CONSTANTS.KEYWORD_EXTRACTION_MODEL})`,
-  KEYWORD_SUCCESS: "[DEBUG] キーワード抽出成功",
-};
-
-/**
- * SearchResult型の定義
- * Web検索結果のデータ構造を定義します
- */
-export type SearchResult = {
-  title: string;
-  url: string;
-  description: string;
+  WEB_SEARCH: "Web検索を実行します",
+  WEB_SEARCH_FAILED: "Web検索エラー",
+  TEST_MODE_KEYWORDS: "テストモードのためダミーキーワードを返します",
+  KEYWORD_EXTRACTION: "LLM APIを使用してキーワードを抽出します",
+  KEYWORD_SUCCESS: "キーワード抽出成功",
+  KEYWORD_FAILED: "キーワード抽出中にエラーが発生したためプロンプトで代替します",
 };
 
 /**
- * 現在のAPIモデルを保持するグローバル変数
- * テストモード判定に使用します
- * 初期値はnullとし、必ず設定してから使用するようにします
- */
-let currentModel: OpenAIModel | null = null;
-
-/**
- * 現在使用中のモデルを設定する関数
- * 他のユーティリティ関数からテストモードを判定するために使用
- *
- * @param model 使用するLLMモデル
+ * テストモード時に使用するダミー検索プロバイダー
  */
-export function setCurrentModel(model: OpenAIModel) {
-  currentModel = model;
-  console.log(LOG_MESSAGES.SET_MODEL(model, isTestMode(model)));
-}
+const dummySearchProvider = createDummyProvider();
 
 /**
- * モデル設定状態をチェックする関数
- * モデルが設定されていない場合に警告ログを出力
+ * 使用する検索プロバイダーを選択する関数
+ * テストモードの場合は、外部に接続しないダミーのプロバイダーを使用します
  *
- * @returns モデルが設定されていなければfalse
+ * @param context リクエストコンテキスト
+ * @returns 検索プロバイダー
  */
-function checkModelSet(): boolean {
-  if (currentModel === null) {
-    console.warn(`[WARN] ${ERROR_MESSAGES.MODEL_NOT_SET}`);
-    return false;
-  }
-  return true;
+function selectSearchProvider(context: RequestContext): SearchProvider {
+  return context.isTestMode
+    ? dummySearchProvider
+    : getConfiguredSearchProvider();
 }
 
 /**
  * Web検索を実行する関数
- * 質問に対する最新情報を取得するためにDuckDuckGoでWeb検索を行います
+ * 質問に対する最新情報を取得するために、選択された検索プロバイダーで検索を行います
  * テストモードの場合はダミーの検索結果を返します
+ * 検索の成功・失敗の回数はメトリクスに記録します
  *
  * @param query 検索クエリ
+ * @param context リクエストコンテキスト
  * @param limit 返却する検索結果の最大数
- * @returns 検索結果のリスト
+ * @returns 検索結果のリスト（見つからない場合は空配列）
  */
 export async function performWebSearch(
   query: string,
+  context: RequestContext,
   limit: number = SEARCH_CONSTANTS.DEFAULT_RESULT_LIMIT
 ): Promise<SearchResult[]> {
-  // モデル設定チェック
-  if (!checkModelSet()) {
-    return generateDummySearchResults(query, limit);
-  }
-
-  // テストモードチェック
-  if (isTestMode(currentModel!)) {
-    console.log(LOG_MESSAGES.TEST_MODE_SEARCH(query));
-    return generateDummySearchResults(query, limit);
-  }
-
+  const { logger } = context;
+  const { webSearchRequests } = getChatMetrics();
+  let provider: SearchProvider | null = null;
   try {
-    console.log(LOG_MESSAGES.DIRECT_SEARCH(query));
-
-    const searchResults = await search(query, SEARCH_CONSTANTS.SEARCH_OPTIONS);
+    provider = selectSearchProvider(context);
+    logger.info(LOG_MESSAGES.WEB_SEARCH, {
+      provider: provider.name,
+      query,
+      limit,
+    });
 
-    return formatSearchResults(searchResults, limit);
+    const results = await provider.search(query, { limit });
+    webSearchRequests.inc({
+      provider: provider.name,
+      result: WEB_SEARCH_RESULTS.SUCCESS,
+    });
+    return results;
   } catch (error) {
-    console.error("[ERROR] Web検索エラー:", error);
+    webSearchRequests.inc({
+      provider: provider?.name ?? SEARCH_CONSTANTS.UNKNOWN_PROVIDER,
+      result: WEB_SEARCH_RESULTS.FAILURE,
+    });
+    logger.error(LOG_MESSAGES.WEB_SEARCH_FAILED, { error });
     throw new Error(ERROR_MESSAGES.SEARCH_ERROR);
   }
 }
 
-/**
- * 検索結果をフォーマットする関数
- *
- * @param searchResults 検索API結果
- * @param limit 結果の最大数
- * @returns フォーマットされた検索結果
- */
-function formatSearchResults(
-  searchResults: any,
-  limit: number
-): SearchResult[] {
-  const formattedResults: SearchResult[] = [];
-
-  if (searchResults && !searchResults.noResults && searchResults.results) {
-    for (const result of searchResults.results) {
-      if (formattedResults.length >= limit) break;
-
-      formattedResults.push({
-        title: result.title || "",
-        url: result.url || "",
-        description: result.description || "",
-      });
-    }
-  }
-
-  if (formattedResults.length > 0) {
-    return formattedResults;
-  }
-
-  throw new Error(ERROR_MESSAGES.NO_RESULTS);
-}
-
-/**
- * テストモード用のダミー検索結果を生成する関数
- *
- * @param query 検索クエリ
- * @param limit 返却する検索結果の最大数
- * @returns ダミーの検索結果
- */
-function generateDummySearchResults(
-  query: string,
-  limit: number
-): SearchResult[] {
-  const currentDate = new Date().toLocaleString("ja-JP");
-
-  const dummyResults: SearchResult[] = [
-    {
-      title: `テスト検索結果1 - ${query}の解説`,
-      url: "https://example.com/test-result-1",
-      description: `これはテストモードで生成されたダミーの検索結果です。実際のWeb検索は行われていません。検索クエリ: "${query}", 生成時刻: ${currentDate}`,
-    },
-    {
-      title: `${query}に関する最新情報（テスト）`,
-      url: "https://example.com/test-result-2",
-      description:
-        "これはテストモードのダミー検索結果です。実際のWebコンテンツは含まれていません。",
-    },
-    {
-      title: `${query}の使い方ガイド - テスト検索結果`,
-      url: "https://example.com/test-result-3",
-      description:
-        "テストモードで生成された3つ目のダミー検索結果です。このデータは固定で、実際のWeb検索結果ではありません。",
-    },
-    {
-      title: `テスト結果4: ${query}のよくある質問`,
-      url: "https://example.com/test-result-4",
-      description:
-        "これは4つ目のテスト用ダミー検索結果です。実際の検索エンジンは使用されていません。",
-    },
-  ];
-
-  // 指定された上限数まで結果を返す
-  return dummyResults.slice(0, Math.min(limit, dummyResults.length));
-}
-
 /**
  * プロンプトから簡易的にキーワードを抽出する関数
- * テストモードやモデル未設定時に使用
+ * テストモード時に使用
  *
  * @param prompt 元のプロンプト
  * @param fallbackValue 抽出失敗時のフォールバック値
@@ -264,48 +173,113 @@ function extractKeywordsFromText(
  * テストモードの場合はAPIを呼び出さずダミーのキーワードを返します
  *
  * @param prompt ユーザーの質問
+ * @param context リクエストコンテキスト
+ * @param history これまでの会話履歴（指示語の解決に使用）
  * @returns 抽出されたキーワード
  */
-export async function extractSearchKeywords(prompt: string): Promise<string> {
-  // モデル設定チェック
-  if (!checkModelSet()) {
-    // プロンプトから簡易的にキーワードを抽出（モデル未設定時の安全策）
-    return extractKeywordsFromText(prompt, "安全策, キーワード, 抽出");
-  }
-
+export async function extractSearchKeywords(
+  prompt: string,
+  context: RequestContext,
+  history: Message[] = []
+): Promise<string> {
   // テストモードチェック
-  if (isTestMode(currentModel!)) {
-    console.log(LOG_MESSAGES.TEST_MODE_KEYWORDS(prompt));
+  if (context.isTestMode) {
+    context.logger.debug(LOG_MESSAGES.TEST_MODE_KEYWORDS, { prompt });
     // プロンプトから簡易的にキーワードを抽出（テスト用）
     return extractKeywordsFromText(prompt, "テスト, キーワード, 抽出");
   }
 
-  console.log(LOG_MESSAGES.KEYWORD_EXTRACTION(prompt));
+  const model = selectKeywordExtractionModel(context);
+  context.logger.info(LOG_MESSAGES.KEYWORD_EXTRACTION, { prompt, model });
+
+  return await generateKeywordsWithAI(prompt, history, model, context);
+}
+
+/**
+ * キーワード抽出に使用するモデルを選択する関数
+ * OpenAI以外のプロバイダー（ローカルのOpenAI互換サーバーなど）のモデルが選択されている場合は、
+ * OpenAI APIに接続せずに済むよう選択されたモデルを使用します
+ * （Web検索の要否の判定など、軽量なモデルで十分な他の補助的な呼び出しでも使用します）
+ *
+ * @param context リクエストコンテキスト
+ * @returns キーワード抽出に使用するモデルID
+ */
+export function selectKeywordExtractionModel(context: RequestContext): ModelId {
+  const definition = findModelDefinition(context.model, getModelRegistry());
 
-  return await generateKeywordsWithAI(prompt);
+  return definition && definition.provider !== "openai"
+    ? context.model
+    : SEARCH_CONSTANTS.KEYWORD_EXTRACTION_MODEL;
 }
 
 /**
- * AI（OpenAI）を使用してキーワードを生成する関数
+ * キーワード抽出用に直近の会話履歴を文脈テキストに整形する関数
+ *
+ * @param history これまでの会話履歴
+ * @returns 文脈テキスト（履歴がない場合は空文字列）
+ */
+function formatKeywordContext(history: Message[]): string {
+  const recentMessages = history.slice(
+    -SEARCH_CONSTANTS.KEYWORD_CONTEXT_MESSAGES
+  );
+  if (recentMessages.length === 0) return "";
+
+  const lines = recentMessages.map(
+    (message) =>
+      `${message.sender === "user" ? "ユーザー" : "アシスタント"}: ${message.text.slice(
+        0,
+        SEARCH_CONSTANTS.KEYWORD_CONTEXT_MAX_LENGTH
+      )}`
+  );
+
+  return `これまでの会話:\n${lines.join("\n")}\n\n`;
+}
+
+/**
+ * AIを使用してキーワードを生成する関数
+ * 使用したトークン数はリクエストコンテキストに記録します
  *
  * @param prompt ユーザーの質問
+ * @param history これまでの会話履歴
+ * @param model キーワード抽出に使用するモデル
+ * @param context リクエストコンテキスト（中断用のシグナル、使用量の記録先）
  * @returns 生成されたキーワード
  */
-async function generateKeywordsWithAI(prompt: string): Promise<string> {
-  const keywordExtractionPrompt = `次の質問からWeb検索に使用する重要なキーワードを3〜5つ抽出してください。キーワードのみをカンマ区切りで出力してください。\n\n質問: ${prompt}`;
+async function generateKeywordsWithAI(
+  prompt: string,
+  history: Message[],
+  model: ModelId,
+  context: RequestContext
+): Promise<string> {
+  const { signal, logger } = context;
+  const keywordExtractionPrompt = `次の質問からWeb検索に使用する重要なキーワードを3〜5つ抽出してください。質問が会話の文脈に依存する場合は、文脈を補ったキーワードにしてください。キーワードのみをカンマ区切りで出力してください。\n\n${formatKeywordContext(
+    history
+  )}質問: ${prompt}`;
 
   try {
-    const keywordResponse = await openai.chat.completions.create({
-      model: SEARCH_CONSTANTS.KEYWORD_EXTRACTION_MODEL,
-      messages: [{ role: "user" as const, content: keywordExtractionPrompt }],
-      max_tokens: SEARCH_CONSTANTS.KEYWORD_EXTRACTION_SETTINGS.MAX_TOKENS,
+    const { provider } = resolveModel(model);
+    const startedAt = Date.now();
+    const keywords = await provider.complete({
+      model,
+      messages: [{ role: "user", content: keywordExtractionPrompt }],
+      maxTokens: SEARCH_CONSTANTS.KEYWORD_EXTRACTION_SETTINGS.MAX_TOKENS,
       temperature: SEARCH_CONSTANTS.KEYWORD_EXTRACTION_SETTINGS.TEMPERATURE,
+      signal,
+      onUsage: (usage) =>
+        context.usage.record(model, USAGE_PURPOSES.KEYWORDS, usage),
     });
 
-    console.log(LOG_MESSAGES.KEYWORD_SUCCESS);
-    return keywordResponse.choices[0]?.message?.content?.trim() || prompt;
+    getChatMetrics().completionDuration.observe(
+      { model, purpose: USAGE_PURPOSES.KEYWORDS },
+      (Date.now() - startedAt) / 1000
+    );
+    logger.debug(LOG_MESSAGES.KEYWORD_SUCCESS, { keywords });
+    return keywords || prompt;
   } catch (error) {
-    console.error("[ERROR] キーワード抽出中にエラーが発生:", error);
+    // 中断された場合（クライアントの切断・タイムアウト）は後続の検索を行わない
+    if (signal?.aborted) throw error;
+
+    logger.warn(LOG_MESSAGES.KEYWORD_FAILED, { error });
     // エラー時は元のプロンプトをそのまま返す
     return prompt;
   }
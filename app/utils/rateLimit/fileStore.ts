@@ -0,0 +1,249 @@
+/**
+ * JSONファイルに状態を保存するレート制限ストア
+ *
+ * 状態をファイルに保存するため、プロセスを再起動してもレート制限が維持されます。
+ * 同じファイルを参照する複数のプロセス（同一ホストや共有ボリューム上のインスタンス）の間では、
+ * ロックファイルで排他制御して状態を共有します。
+ * 追加の依存パッケージやサーバーを必要としないため、小規模な構成向けのストアです。
+ *
+ * ファイルの形式:
+ * { "<キー>": { "state": <状態>, "expiresAt": <有効期限（UNIX時刻、ミリ秒）> } }
+ *
+ * @module rateLimit/fileStore
+ */
+
+import { open, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { getConfiguredLogger, Logger } from "@/app/utils/logger";
+import { RateLimitStateUpdater, RateLimitStore } from "./types";
+
+/**
+ * ファイルストアの設定値
+ */
+const FILE_STORE_SETTINGS = {
+  /**
+   * ロックの取得を再試行する間隔（ミリ秒）
+   */
+  LOCK_RETRY_INTERVAL_MS: 10,
+
+  /**
+   * ロックの取得を諦めるまでの時間（ミリ秒）
+   */
+  LOCK_TIMEOUT_MS: 2000,
+
+  /**
+   * 異常終了したプロセスが残したロックとみなすまでの時間（ミリ秒）
+   */
+  STALE_LOCK_MS: 10000,
+};
+
+/**
+ * エラーメッセージ
+ */
+export const FILE_STORE_ERROR_MESSAGES = {
+  LOCK_TIMEOUT: (path: string) =>
+    `レート制限ファイルのロックを取得できませんでした: ${path}`,
+};
+
+/**
+ * ログメッセージ
+ */
+const LOG_MESSAGES = {
+  INVALID_FILE: "レート制限ファイルの内容が不正なため初期化します",
+};
+
+/**
+ * ファイルストアの設定オプション
+ */
+export interface FileRateLimitStoreOptions {
+  /** 状態を保存するファイルのパス */
+  path: string;
+  /** ロガー（省略時は環境変数で設定されたロガー） */
+  logger?: Logger;
+}
+
+/**
+ * 保存する状態のエントリー
+ */
+interface FileEntry {
+  /** 保存された状態 */
+  state: unknown;
+  /** 状態の有効期限（UNIX時刻、ミリ秒） */
+  expiresAt: number;
+}
+
+/**
+ * ファイルに保存する全エントリーの型
+ */
+type FileEntries = Record<string, FileEntry>;
+
+/**
+ * エラーが指定したエラーコードを持つかどうかを判定する関数
+ *
+ * @param error 判定するエラー
+ * @param code エラーコード（ENOENTなど）
+ * @returns 指定したエラーコードを持つ場合はtrue
+ */
+function hasErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+/**
+ * 指定した時間だけ待機する関数
+ *
+ * @param ms 待機時間（ミリ秒）
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * ロックファイルを作成してロックを取得する関数
+ * 他のプロセスがロックを保持している場合は解放されるまで再試行し、
+ * 一定時間更新されていないロックは異常終了したプロセスのものとみなして削除します
+ *
+ * @param lockPath ロックファイルのパス
+ * @throws 一定時間内にロックを取得できない場合エラーをスロー
+ */
+async function acquireLock(lockPath: string): Promise<void> {
+  const deadline = Date.now() + FILE_STORE_SETTINGS.LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.close();
+      return;
+    } catch (error) {
+      if (!hasErrorCode(error, "EEXIST")) throw error;
+    }
+
+    try {
+      const { mtimeMs } = await stat(lockPath);
+      if (Date.now() - mtimeMs > FILE_STORE_SETTINGS.STALE_LOCK_MS) {
+        await unlink(lockPath);
+        continue;
+      }
+    } catch (error) {
+      // 確認中に他のプロセスがロックを解放した場合はすぐに再試行する
+      if (hasErrorCode(error, "ENOENT")) continue;
+      throw error;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(FILE_STORE_ERROR_MESSAGES.LOCK_TIMEOUT(lockPath));
+    }
+    await sleep(FILE_STORE_SETTINGS.LOCK_RETRY_INTERVAL_MS);
+  }
+}
+
+/**
+ * 状態のファイルを読み込む関数
+ * ファイルが存在しない場合や内容が壊れている場合は空の状態として扱います
+ *
+ * @param path ファイルのパス
+ * @param logger 内容が壊れている場合に警告するロガー
+ * @returns 保存されている全エントリー
+ */
+async function readEntries(
+  path: string,
+  logger: Logger
+): Promise<FileEntries> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch (error) {
+    if (hasErrorCode(error, "ENOENT")) return {};
+    throw error;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as FileEntries)
+      : {};
+  } catch (error) {
+    logger.warn(LOG_MESSAGES.INVALID_FILE, { path, error });
+    return {};
+  }
+}
+
+/**
+ * 状態のファイルを書き込む関数
+ * 書き込み途中の内容を他のプロセスが読み込まないよう、一時ファイルに書き込んでから置き換えます
+ * 期限切れのエントリーは書き込み時に削除します
+ *
+ * @param path ファイルのパス
+ * @param entries 保存する全エントリー
+ * @param now 現在の時刻（ミリ秒）
+ */
+async function writeEntries(
+  path: string,
+  entries: FileEntries,
+  now: number
+): Promise<void> {
+  const validEntries = Object.fromEntries(
+    Object.entries(entries).filter(([, entry]) => entry.expiresAt > now)
+  );
+  const tempPath = `${path}.${process.pid}.tmp`;
+
+  await writeFile(tempPath, JSON.stringify(validEntries), "utf-8");
+  await rename(tempPath, path);
+}
+
+/**
+ * ファイルレート制限ストアを生成する関数
+ *
+ * @param options ファイルストアの設定
+ * @returns ファイルレート制限ストア
+ */
+export function createFileRateLimitStore(
+  options: FileRateLimitStoreOptions
+): RateLimitStore {
+  const { path } = options;
+  const logger = options.logger ?? getConfiguredLogger();
+  const lockPath = `${path}.lock`;
+  // 同じプロセス内の更新を順番に実行するための待ち行列
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function updateLocked<S, R>(
+    key: string,
+    updater: RateLimitStateUpdater<S, R>
+  ): Promise<R> {
+    await acquireLock(lockPath);
+    try {
+      const now = Date.now();
+      const entries = await readEntries(path, logger);
+      const entry = entries[key];
+      const current =
+        entry && entry.expiresAt > now ? (entry.state as S) : undefined;
+
+      const { state, ttlMs, result } = updater(current);
+
+      entries[key] = { state, expiresAt: now + ttlMs };
+      await writeEntries(path, entries, now);
+
+      return result;
+    } finally {
+      await unlink(lockPath).catch(() => undefined);
+    }
+  }
+
+  function update<S, R>(
+    key: string,
+    updater: RateLimitStateUpdater<S, R>
+  ): Promise<R> {
+    const result = queue.then(() => updateLocked(key, updater));
+    // 失敗した更新があっても後続の更新は実行する
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async function get<S>(key: string): Promise<S | undefined> {
+    // 書き込みは一時ファイルの置き換えで行うため、ロックを取得せずに読み込める
+    const entry = (await readEntries(path, logger))[key];
+    return entry && entry.expiresAt > Date.now()
+      ? (entry.state as S)
+      : undefined;
+  }
+
+  return { name: "file", update, get };
+}
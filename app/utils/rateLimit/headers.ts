@@ -0,0 +1,71 @@
+/**
+ * レート制限の応答ヘッダー
+ *
+ * このモジュールは、レート制限の判定結果をクライアントに伝えるHTTPヘッダーを生成します。
+ * IETFのRateLimitヘッダーの草案（RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset）と、
+ * 制限を超えた場合のRetry-Afterヘッダーに従います。
+ *
+ * @module rateLimit/headers
+ */
+
+import { TokenBucketResult } from "./tokenBucket";
+
+/**
+ * レート制限の応答ヘッダー名
+ */
+export const RATE_LIMIT_HEADER_NAMES = {
+  /**
+   * 上限（報告するバケットの容量）
+   */
+  LIMIT: "RateLimit-Limit",
+
+  /**
+   * 残りの利用可能量
+   */
+  REMAINING: "RateLimit-Remaining",
+
+  /**
+   * 上限まで回復するまでの秒数
+   */
+  RESET: "RateLimit-Reset",
+
+  /**
+   * 再試行できるようになるまでの秒数（制限を超えた場合のみ）
+   */
+  RETRY_AFTER: "Retry-After",
+};
+
+/**
+ * ミリ秒を秒に切り上げる関数
+ * 0秒と報告した直後の再試行が拒否されないよう、端数は切り上げます
+ *
+ * @param ms ミリ秒
+ * @returns 秒数
+ */
+function toSeconds(ms: number): number {
+  return Math.ceil(Math.max(ms, 0) / 1000);
+}
+
+/**
+ * レート制限の判定結果から応答ヘッダーを生成する関数
+ *
+ * @param result レート制限の判定結果
+ * @returns ヘッダー名と値の組
+ */
+export function toRateLimitHeaders(
+  result: TokenBucketResult
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    [RATE_LIMIT_HEADER_NAMES.LIMIT]: String(result.limit),
+    [RATE_LIMIT_HEADER_NAMES.REMAINING]: String(result.remaining),
+    [RATE_LIMIT_HEADER_NAMES.RESET]: String(toSeconds(result.resetMs)),
+  };
+
+  if (!result.allowed) {
+    headers[RATE_LIMIT_HEADER_NAMES.RETRY_AFTER] = String(
+      Math.max(toSeconds(result.retryAfterMs), 1)
+    );
+  }
+
+  return headers;
+}
@@ -0,0 +1,200 @@
+/**
+ * レート制限とレート制限ストアの選択
+ *
+ * このファイルは、レート制限機能（スライディングウィンドウ方式・トークンバケット方式・
+ * モデルごとのクォータ・応答ヘッダーの生成）と、環境変数の設定に応じて
+ * リクエストの記録の保存先（レート制限ストア）を生成する機能を提供します。
+ * 環境変数で設定されたストアとクォータはプロセス内で1つだけ生成し、
+ * チャットAPIと準備完了の確認で同じストア（Redisの場合は同じ接続）を共有します。
+ *
+ * 環境変数:
+ * - RATE_LIMIT_STORE: 使用するストア（memory / redis / file、既定値: memory）
+ * - RATE_LIMIT_REDIS_URL: redisストアで使用するサーバーのURL（例: redis://localhost:6379/0）
+ * - RATE_LIMIT_FILE_PATH: fileストアで状態を保存するファイルのパス
+ * - RATE_LIMIT_MODEL_QUOTAS: モデルごとの上限の上書き（例: gpt-4o-mini=20/500）
+ *
+ * @module rateLimit
+ */
+
+import { createFileRateLimitStore } from "./fileStore";
+import { createMemoryRateLimitStore } from "./memoryStore";
+import {
+  createModelQuotaLimiter,
+  ModelQuotaLimiter,
+  parseModelQuotaOverrides,
+} from "./modelQuota";
+import { createRedisRateLimitStore } from "./redisStore";
+import { RateLimitStore } from "./types";
+
+export type {
+  RateLimitStore,
+  RateLimitStateUpdate,
+  RateLimitStateUpdater,
+} from "./types";
+export type { RateLimiter, RateLimiterOptions } from "./limiter";
+export {
+  rateLimit,
+  isRateLimitExceededError,
+  RATE_LIMIT_ERROR_MESSAGES,
+} from "./limiter";
+export { createMemoryRateLimitStore } from "./memoryStore";
+export { createFileRateLimitStore } from "./fileStore";
+export { createRedisRateLimitStore } from "./redisStore";
+export { createRedisClient } from "./redisClient";
+export type {
+  TokenBucketConfig,
+  TokenBucketLimiter,
+  TokenBucketResult,
+  TokenBucketState,
+} from "./tokenBucket";
+export { createTokenBucketLimiter, refillTokenBucket } from "./tokenBucket";
+export type {
+  ModelQuotaLimiter,
+  ModelQuotaOverrides,
+  QuotaLimits,
+} from "./modelQuota";
+export {
+  createModelQuotaLimiter,
+  parseModelQuotaOverrides,
+  resolveModelQuota,
+  toQuotaBuckets,
+  QUOTA_BUCKET_NAMES,
+} from "./modelQuota";
+export { toRateLimitHeaders, RATE_LIMIT_HEADER_NAMES } from "./headers";
+
+/**
+ * 環境変数で設定されたレート制限の設定値
+ */
+const CONFIGURED_RATE_LIMIT_SETTINGS = {
+  MAX_TRACKED_KEYS: 10000, // メモリストアで記録するクライアントとモデルの組み合わせの最大数
+};
+
+/**
+ * 設定可能なレート制限ストア名
+ */
+export const RATE_LIMIT_STORE_NAMES = {
+  MEMORY: "memory",
+  REDIS: "redis",
+  FILE: "file",
+};
+
+/**
+ * エラーメッセージ
+ */
+export const RATE_LIMIT_STORE_ERROR_MESSAGES = {
+  UNKNOWN_STORE: (name: string) =>
+    `不明なレート制限ストアが指定されました: ${name}（${Object.values(
+      RATE_LIMIT_STORE_NAMES
+    ).join(" / ")}のいずれかを指定してください）`,
+  REDIS_URL_REQUIRED:
+    "redisストアを使用するにはRATE_LIMIT_REDIS_URLを設定してください",
+  FILE_PATH_REQUIRED:
+    "fileストアを使用するにはRATE_LIMIT_FILE_PATHを設定してください",
+};
+
+/**
+ * レート制限ストアの設定
+ */
+export interface RateLimitStoreConfig {
+  /** 使用するストア名（未指定の場合はメモリ） */
+  store?: string;
+  /** redisストアで使用するサーバーのURL */
+  redisUrl?: string;
+  /** fileストアで状態を保存するファイルのパス */
+  filePath?: string;
+  /** memoryストアで保持するキー（クライアント）の最大数 */
+  maxKeys: number;
+}
+
+/**
+ * 設定に応じてレート制限ストアを生成する関数
+ *
+ * @param config レート制限ストアの設定
+ * @returns レート制限ストア
+ * @throws 不明なストア名や必要な設定が不足している場合エラーをスロー
+ */
+export function createRateLimitStore(
+  config: RateLimitStoreConfig
+): RateLimitStore {
+  const name = (config.store || RATE_LIMIT_STORE_NAMES.MEMORY)
+    .trim()
+    .toLowerCase();
+
+  switch (name) {
+    case RATE_LIMIT_STORE_NAMES.MEMORY:
+      return createMemoryRateLimitStore({ maxKeys: config.maxKeys });
+    case RATE_LIMIT_STORE_NAMES.REDIS:
+      if (!config.redisUrl) {
+        throw new Error(RATE_LIMIT_STORE_ERROR_MESSAGES.REDIS_URL_REQUIRED);
+      }
+      return createRedisRateLimitStore({ url: config.redisUrl });
+    case RATE_LIMIT_STORE_NAMES.FILE:
+      if (!config.filePath) {
+        throw new Error(RATE_LIMIT_STORE_ERROR_MESSAGES.FILE_PATH_REQUIRED);
+      }
+      return createFileRateLimitStore({ path: config.filePath });
+    default:
+      throw new Error(RATE_LIMIT_STORE_ERROR_MESSAGES.UNKNOWN_STORE(name));
+  }
+}
+
+/**
+ * 環境変数で設定されたレート制限ストアを生成する関数
+ *
+ * @param maxKeys memoryストアで保持するキー（クライアント）の最大数
+ * @returns レート制限ストア
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function createConfiguredRateLimitStore(
+  maxKeys: number
+): RateLimitStore {
+  return createRateLimitStore({
+    store: process.env.RATE_LIMIT_STORE,
+    redisUrl: process.env.RATE_LIMIT_REDIS_URL,
+    filePath: process.env.RATE_LIMIT_FILE_PATH,
+    maxKeys,
+  });
+}
+
+/**
+ * 環境変数の設定から生成したレート制限ストア（初回使用時に生成）
+ */
+let configuredStore: RateLimitStore | null = null;
+
+/**
+ * 環境変数で設定されたレート制限ストアを取得する関数
+ * 記録と接続を共有するため、生成したストアを保持します
+ *
+ * @returns レート制限ストア
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function getConfiguredRateLimitStore(): RateLimitStore {
+  if (!configuredStore) {
+    configuredStore = createConfiguredRateLimitStore(
+      CONFIGURED_RATE_LIMIT_SETTINGS.MAX_TRACKED_KEYS
+    );
+  }
+  return configuredStore;
+}
+
+/**
+ * 環境変数の設定から生成したモデルごとのクォータ（初回使用時に生成）
+ */
+let configuredQuotaLimiter: ModelQuotaLimiter | null = null;
+
+/**
+ * 環境変数の設定に従ったモデルごとのクォータを取得する関数
+ * 記録の保存先には getConfiguredRateLimitStore のストアを使用します
+ *
+ * @returns モデルごとのクォータ
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function getConfiguredModelQuotaLimiter(): ModelQuotaLimiter {
+  if (!configuredQuotaLimiter) {
+    configuredQuotaLimiter = createModelQuotaLimiter({
+      store: getConfiguredRateLimitStore(),
+      overrides: parseModelQuotaOverrides(process.env.RATE_LIMIT_MODEL_QUOTAS),
+    });
+  }
+  return configuredQuotaLimiter;
+}
@@ -0,0 +1,157 @@
+/**
+ * レート制限を実装するためのユーティリティ
+ *
+ * このモジュールは、特定の時間間隔内のリクエスト数を制限する機能を提供します。
+ * 主にAPI呼び出しやバックエンドリクエストの過負荷を防止するために使用されます。
+ *
+ * 特徴:
+ * - 指定された時間間隔（ミリ秒）内のリクエスト数を制限（スライディングウィンドウ）
+ * - 各クライアント（IPアドレスなど）ごとに個別のカウンターを管理
+ * - リクエストの記録の保存先（レート制限ストア）を差し替え可能
+ *   （既定はプロセス内のメモリ。複数のインスタンスで共有する場合はRedisやファイル）
+ * - 同時アクセスクライアント数の制限（メモリストアの場合）
+ *
+ * @module rateLimit/limiter
+ */
+
+import { createMemoryRateLimitStore } from "./memoryStore";
+import { RateLimitStore } from "./types";
+
+/**
+ * レート制限の設定オプション
+ */
+export interface RateLimiterOptions {
+  /** 制限の間隔（ミリ秒） */
+  interval: number;
+  /**
+   * 間隔あたりの一意のトークン（IPアドレスなど）の最大数
+   * storeを省略した場合に生成するメモリストアの上限として使用します
+   */
+  uniqueTokenPerInterval: number;
+  /** リクエストの記録の保存先（省略時はプロセス内のメモリ） */
+  store?: RateLimitStore;
+}
+
+/**
+ * レート制限結果
+ */
+export interface RateLimiter {
+  /** リクエストがレート制限を超えていないか確認する関数 */
+  check: (maxRequests: number, token: string) => Promise<void>;
+}
+
+/**
+ * エラーメッセージ
+ */
+export const RATE_LIMIT_ERROR_MESSAGES = {
+  INVALID_PARAMETERS: "Invalid parameters for rate limit check",
+  EXCEEDED: (token: string) => `Rate limit exceeded for token: ${token}`,
+};
+
+/**
+ * レート制限を超えたことを示すエラーメッセージの接頭辞
+ */
+const EXCEEDED_MESSAGE_PREFIX = RATE_LIMIT_ERROR_MESSAGES.EXCEEDED("");
+
+/**
+ * エラーがレート制限の超過によるものかどうかを判定する関数
+ * ストアへの接続エラーなど、それ以外のエラーと区別するために使用します
+ *
+ * @param error 判定するエラー
+ * @returns レート制限の超過によるエラーであればtrue
+ */
+export function isRateLimitExceededError(error: unknown): boolean {
+  return (
+    error instanceof Error && error.message.startsWith(EXCEEDED_MESSAGE_PREFIX)
+  );
+}
+
+/**
+ * レート制限機能を生成する
+ *
+ * @param options レート制限の設定
+ * @returns レート制限チェック関数を含むオブジェクト
+ */
+export function rateLimit(options: RateLimiterOptions): RateLimiter {
+  const { interval, uniqueTokenPerInterval } = options;
+
+  // トークンごとのリクエストのタイムスタンプを保存するストア
+  const store =
+    options.store ??
+    createMemoryRateLimitStore({ maxKeys: uniqueTokenPerInterval });
+
+  // レート制限を確認する関数
+  async function check(maxRequests: number, token: string): Promise<void> {
+    // 無効なパラメーターのチェック
+    if (maxRequests <= 0 || !token) {
+      throw new Error(RATE_LIMIT_ERROR_MESSAGES.INVALID_PARAMETERS);
+    }
+
+    const now = Date.now();
+
+    // 現在の間隔内のリクエスト数を数え、制限内であれば新しいリクエストを記録
+    const allowed = await store.update<number[], boolean>(
+      token,
+      (timestamps = []) => {
+        const recentRequests = filterRecentRequests(timestamps, now, interval);
+
+        // 制限をチェック
+        if (recentRequests.length >= maxRequests) {
+          return {
+            state: recentRequests,
+            ttlMs: getRemainingTtl(recentRequests, now, interval),
+            result: false,
+          };
+        }
+
+        // 新しいリクエストを追加
+        const updatedRequests = [...recentRequests, now];
+        return {
+          state: updatedRequests,
+          ttlMs: getRemainingTtl(updatedRequests, now, interval),
+          result: true,
+        };
+      }
+    );
+
+    if (!allowed) {
+      throw new Error(RATE_LIMIT_ERROR_MESSAGES.EXCEEDED(token));
+    }
+  }
+
+  return { check };
+}
+
+/**
+ * 指定された期間内のリクエストのみをフィルタリングする
+ *
+ * @param timestamps タイムスタンプの配列
+ * @param now 現在の時刻（ミリ秒）
+ * @param interval 有効期間（ミリ秒）
+ * @returns 有効期間内のタイムスタンプ配列
+ */
+function filterRecentRequests(
+  timestamps: number[],
+  now: number,
+  interval: number
+): number[] {
+  return timestamps.filter((timestamp) => now - timestamp < interval);
+}
+
+/**
+ * リクエストの記録を保持する必要がある残り時間を計算する
+ * 最も新しいリクエストが期間外になった時点で記録は不要になります
+ *
+ * @param timestamps 有効期間内のタイムスタンプ配列
+ * @param now 現在の時刻（ミリ秒）
+ * @param interval 有効期間（ミリ秒）
+ * @returns 残り時間（ミリ秒）
+ */
+function getRemainingTtl(
+  timestamps: number[],
+  now: number,
+  interval: number
+): number {
+  const latest = timestamps.length > 0 ? Math.max(...timestamps) : now;
+  return Math.max(latest + interval - now, 1);
+}
@@ -0,0 +1,114 @@
+/**
+ * プロセス内のメモリに状態を保持するレート制限ストア
+ *
+ * 単一のインスタンスで動作させる場合の既定のストアです。
+ * 状態はプロセスの再起動（デプロイなど）で失われ、複数のインスタンス間では共有されません。
+ * 期限切れの状態は、キー数が上限を超えたときに削除します。
+ *
+ * @module rateLimit/memoryStore
+ */
+
+import { RateLimitStateUpdater, RateLimitStore } from "./types";
+
+/**
+ * メモリストアの設定オプション
+ */
+export interface MemoryRateLimitStoreOptions {
+  /**
+   * 保持するキー（クライアント）の最大数
+   * 超えた場合は期限切れのキーを削除し、それでも超える場合は最も長く更新されていないキーを削除します
+   */
+  maxKeys: number;
+}
+
+/**
+ * 保持する状態のエントリー
+ */
+interface MemoryEntry {
+  /** 保存された状態 */
+  state: unknown;
+  /** 状態の有効期限（UNIX時刻、ミリ秒） */
+  expiresAt: number;
+}
+
+/**
+ * 期限切れのエントリーを削除する関数
+ *
+ * @param entries エントリーのマップ
+ * @param now 現在の時刻（ミリ秒）
+ */
+function removeExpiredEntries(
+  entries: Map<string, MemoryEntry>,
+  now: number
+): void {
+  for (const [key, entry] of entries.entries()) {
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * キー数を上限以下に保つ関数
+ * Mapは挿入順を保持するため、先頭のキーが最も長く更新されていないキーになります
+ *
+ * @param entries エントリーのマップ
+ * @param maxKeys 最大キー数
+ * @param now 現在の時刻（ミリ秒）
+ */
+function enforceMaxKeys(
+  entries: Map<string, MemoryEntry>,
+  maxKeys: number,
+  now: number
+): void {
+  if (entries.size <= maxKeys) {
+    return; // キー数が上限以下なら何もしない
+  }
+
+  removeExpiredEntries(entries, now);
+
+  for (const key of entries.keys()) {
+    if (entries.size <= maxKeys) break;
+    entries.delete(key);
+  }
+}
+
+/**
+ * メモリレート制限ストアを生成する関数
+ *
+ * @param options メモリストアの設定
+ * @returns メモリレート制限ストア
+ */
+export function createMemoryRateLimitStore(
+  options: MemoryRateLimitStoreOptions
+): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  async function update<S, R>(
+    key: string,
+    updater: RateLimitStateUpdater<S, R>
+  ): Promise<R> {
+    const now = Date.now();
+    const entry = entries.get(key);
+    const current =
+      entry && entry.expiresAt > now ? (entry.state as S) : undefined;
+
+    const { state, ttlMs, result } = updater(current);
+
+    // 更新順に並ぶよう、削除してから追加する
+    entries.delete(key);
+    entries.set(key, { state, expiresAt: now + ttlMs });
+    enforceMaxKeys(entries, options.maxKeys, now);
+
+    return result;
+  }
+
+  async function get<S>(key: string): Promise<S | undefined> {
+    const entry = entries.get(key);
+    return entry && entry.expiresAt > Date.now()
+      ? (entry.state as S)
+      : undefined;
+  }
+
+  return { name: "memory", update, get };
+}
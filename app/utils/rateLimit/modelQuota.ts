@@ -0,0 +1,236 @@
+/**
+ * モデルごとのレート制限の割り当て（クォータ）
+ *
+ * このモジュールは、モデル定義のレート制限の割り当てに従って、
+ * クライアントごと・モデルごとに1分あたりと1日あたりの上限をトークンバケットで管理します。
+ * リクエストはモデルごとの重みで数え、Web検索による情報の補完を行った場合は追加の重みを差し引きます。
+ *
+ * 環境変数 RATE_LIMIT_MODEL_QUOTAS で、モデルごとの上限を上書きできます
+ * （カンマ区切り、`モデルID=1分あたりの上限/1日あたりの上限`。例: gpt-4o-mini=20/500）。
+ * APIキーごとの上限など、リクエストごとに指定された上限はさらに優先されます。
+ *
+ * @module rateLimit/modelQuota
+ */
+
+import { getConfiguredLogger, Logger } from "@/app/utils/logger";
+import { ModelDefinition, ModelId, ModelQuota } from "@/types/model";
+import {
+  createTokenBucketLimiter,
+  TokenBucketConfig,
+  TokenBucketResult,
+} from "./tokenBucket";
+import { RateLimitStore } from "./types";
+
+/**
+ * クォータのバケット名
+ */
+export const QUOTA_BUCKET_NAMES = {
+  MINUTE: "minute",
+  DAY: "day",
+};
+
+/**
+ * クォータのバケットの補充間隔
+ */
+const QUOTA_INTERVALS = {
+  /**
+   * 1分あたりの上限の補充間隔（ミリ秒）
+   */
+  MINUTE_MS: 60 * 1000,
+
+  /**
+   * 1日あたりの上限の補充間隔（ミリ秒）
+   */
+  DAY_MS: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 状態のキーの接頭辞（他のレート制限の状態と区別するため）
+ */
+const QUOTA_KEY_PREFIX = "quota:";
+
+/**
+ * ログメッセージ
+ */
+const LOG_MESSAGES = {
+  INVALID_OVERRIDE: "形式が不正なレート制限の上書き設定を無視しました",
+};
+
+/**
+ * 1分あたり・1日あたりの上限
+ */
+export type QuotaLimits = Pick<ModelQuota, "perMinute" | "perDay">;
+
+/**
+ * モデルごとの上限の上書き設定
+ */
+export type ModelQuotaOverrides = Map<ModelId, QuotaLimits>;
+
+/**
+ * モデルごとのクォータのインターフェース
+ */
+export interface ModelQuotaLimiter {
+  /**
+   * リクエストの重みを消費する関数
+   *
+   * @param clientId クライアントの識別子
+   * @param definition 使用するモデルの定義
+   * @param limits このリクエストに適用する上限（APIキーごとの上限など）
+   * @returns 判定結果
+   */
+  consumeRequest: (
+    clientId: string,
+    definition: ModelDefinition,
+    limits?: QuotaLimits
+  ) => Promise<TokenBucketResult>;
+  /**
+   * Web検索による情報の補完を行った場合の追加の重みを差し引く関数
+   * 上限を超えた分は、以降のリクエストが許可されるまでの時間に反映されます
+   *
+   * @param clientId クライアントの識別子
+   * @param definition 使用したモデルの定義
+   * @param limits このリクエストに適用する上限（APIキーごとの上限など）
+   * @returns 差し引いた後の状態
+   */
+  chargeWebSearch: (
+    clientId: string,
+    definition: ModelDefinition,
+    limits?: QuotaLimits
+  ) => Promise<TokenBucketResult>;
+  /**
+   * 重みを消費せずに、リクエストの重みを消費できるかどうかを判定する関数
+   *
+   * @param clientId クライアントの識別子
+   * @param definition モデルの定義
+   * @param limits このリクエストに適用する上限（APIキーごとの上限など）
+   * @returns 判定結果
+   */
+  peekRequest: (
+    clientId: string,
+    definition: ModelDefinition,
+    limits?: QuotaLimits
+  ) => Promise<TokenBucketResult>;
+}
+
+/**
+ * 環境変数の設定値からモデルごとの上限の上書き設定を取得する関数
+ * 形式が不正な項目は無視します
+ *
+ * @param value RATE_LIMIT_MODEL_QUOTASの値（例: "gpt-4o-mini=20/500, llama3=60/5000"）
+ * @param logger 不正な項目を警告するロガー（省略時は環境変数で設定されたロガー）
+ * @returns モデルIDごとの上限
+ */
+export function parseModelQuotaOverrides(
+  value?: string,
+  logger: Logger = getConfiguredLogger()
+): ModelQuotaOverrides {
+  const overrides: ModelQuotaOverrides = new Map();
+  if (!value) return overrides;
+
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .forEach((entry) => {
+      // モデルIDに「=」は含まれないが「/」は含まれることがあるため、最後の「=」で区切る
+      const separatorIndex = entry.lastIndexOf("=");
+      const id = entry.slice(0, separatorIndex).trim();
+      const [perMinute, perDay] = entry
+        .slice(separatorIndex + 1)
+        .split("/")
+        .map((limit) => Number(limit.trim()));
+
+      if (!id || !(perMinute > 0) || !(perDay > 0)) {
+        logger.warn(LOG_MESSAGES.INVALID_OVERRIDE, { entry });
+        return;
+      }
+      overrides.set(id, { perMinute, perDay });
+    });
+
+  return overrides;
+}
+
+/**
+ * モデルのクォータを取得する関数
+ * 上限は、リクエストごとの上限・モデルごとの上書き設定・モデル定義の順に優先します
+ *
+ * @param definition モデルの定義
+ * @param overrides モデルごとの上限の上書き設定
+ * @param limits リクエストごとの上限
+ * @returns クォータ
+ */
+export function resolveModelQuota(
+  definition: ModelDefinition,
+  overrides: ModelQuotaOverrides = new Map(),
+  limits?: QuotaLimits
+): ModelQuota {
+  return { ...definition.quota, ...overrides.get(definition.id), ...limits };
+}
+
+/**
+ * クォータをトークンバケットの設定に変換する関数
+ *
+ * @param quota クォータ
+ * @returns 1分あたり・1日あたりのバケットの設定
+ */
+export function toQuotaBuckets(quota: ModelQuota): TokenBucketConfig[] {
+  return [
+    {
+      name: QUOTA_BUCKET_NAMES.MINUTE,
+      capacity: quota.perMinute,
+      refillIntervalMs: QUOTA_INTERVALS.MINUTE_MS,
+    },
+    {
+      name: QUOTA_BUCKET_NAMES.DAY,
+      capacity: quota.perDay,
+      refillIntervalMs: QUOTA_INTERVALS.DAY_MS,
+    },
+  ];
+}
+
+/**
+ * モデルごとのクォータを生成する関数
+ *
+ * @param options.store 状態の保存先
+ * @param options.overrides モデルごとの上限の上書き設定
+ * @returns モデルごとのクォータ
+ */
+export function createModelQuotaLimiter(options: {
+  store: RateLimitStore;
+  overrides?: ModelQuotaOverrides;
+}): ModelQuotaLimiter {
+  const limiter = createTokenBucketLimiter({ store: options.store });
+
+  /**
+   * クライアントとモデルの組み合わせごとの状態のキーを生成する
+   */
+  const toKey = (clientId: string, definition: ModelDefinition) =>
+    `${QUOTA_KEY_PREFIX}${clientId}:${definition.id}`;
+
+  return {
+    consumeRequest: (clientId, definition, limits) => {
+      const quota = resolveModelQuota(definition, options.overrides, limits);
+      return limiter.consume(
+        toKey(clientId, definition),
+        toQuotaBuckets(quota),
+        quota.requestWeight
+      );
+    },
+    chargeWebSearch: (clientId, definition, limits) => {
+      const quota = resolveModelQuota(definition, options.overrides, limits);
+      return limiter.charge(
+        toKey(clientId, definition),
+        toQuotaBuckets(quota),
+        quota.webSearchWeight
+      );
+    },
+    peekRequest: (clientId, definition, limits) => {
+      const quota = resolveModelQuota(definition, options.overrides, limits);
+      return limiter.peek(
+        toKey(clientId, definition),
+        toQuotaBuckets(quota),
+        quota.requestWeight
+      );
+    },
+  };
+}
@@ -0,0 +1,388 @@
+/**
+ * Redisプロトコル（RESP）の最小限のクライアント
+ *
+ * レート制限ストアが使用するコマンドを送信するためだけの軽量なクライアントです。
+ * 追加の依存パッケージなしで、Redisおよび互換サーバー（Valkey / KeyDB / Dragonflyなど）に接続します。
+ *
+ * 特徴:
+ * - 接続は最初のコマンド送信時に確立し、切断された場合は次のコマンドで再接続
+ * - 応答がタイムアウトした場合は応答待ちのコマンドをすべて失敗させ、接続を破棄して次のコマンドで再接続
+ * - redis://（平文）とrediss://（TLS）のURLに対応し、URLのユーザー名・パスワード・DB番号を使用
+ * - 応答はRESP2形式（単純文字列・エラー・整数・バルク文字列・配列）を解析
+ *
+ * @module rateLimit/redisClient
+ */
+
+import { connect as connectTcp, Socket } from "net";
+import { connect as connectTls } from "tls";
+
+/**
+ * Redisクライアントの設定値
+ */
+const REDIS_CLIENT_SETTINGS = {
+  /**
+   * URLでポートが指定されていない場合のポート番号
+   */
+  DEFAULT_PORT: 6379,
+
+  /**
+   * 接続のタイムアウト時間（ミリ秒）
+   */
+  CONNECT_TIMEOUT_MS: 2000,
+
+  /**
+   * コマンドの応答のタイムアウト時間（ミリ秒）の既定値
+   */
+  COMMAND_TIMEOUT_MS: 2000,
+};
+
+/**
+ * RESPの区切り文字
+ */
+const CRLF = "\r\n";
+
+/**
+ * エラーメッセージ
+ */
+export const REDIS_CLIENT_ERROR_MESSAGES = {
+  INVALID_URL: (url: string) =>
+    `RedisのURLが不正です（redis://またはrediss://で指定してください）: ${url}`,
+  CONNECT_TIMEOUT: (host: string, port: number) =>
+    `Redisサーバーへの接続がタイムアウトしました: ${host}:${port}`,
+  CONNECTION_CLOSED: "Redisサーバーとの接続が切断されました",
+  COMMAND_TIMEOUT: (command: string, timeoutMs: number) =>
+    `Redisサーバーの応答がタイムアウトしました（${timeoutMs}ms）: ${command}`,
+  PROTOCOL_ERROR: (type: string) => `Redisの応答の形式が不正です: ${type}`,
+};
+
+/**
+ * Redisの応答の型定義
+ * nullはキーが存在しない場合や、トランザクションが中止された場合の応答です
+ */
+export type RedisReply = string | number | null | Error | RedisReply[];
+
+/**
+ * RedisのURLを解析した接続設定
+ */
+export interface RedisConnectionOptions {
+  /** ホスト名 */
+  host: string;
+  /** ポート番号 */
+  port: number;
+  /** TLSで接続するかどうか */
+  tls: boolean;
+  /** ACLのユーザー名 */
+  username?: string;
+  /** パスワード */
+  password?: string;
+  /** 使用するDB番号 */
+  db?: number;
+}
+
+/**
+ * Redisクライアントの設定オプション
+ */
+export interface RedisClientOptions {
+  /** コマンドの応答のタイムアウト時間（ミリ秒、既定値: 2000） */
+  commandTimeoutMs?: number;
+}
+
+/**
+ * Redisクライアントのインターフェース
+ */
+export interface RedisClient {
+  /**
+   * コマンドを送信して応答を取得する関数
+   *
+   * @param args コマンド名と引数
+   * @returns 応答（エラー応答の場合はエラーをスロー）
+   */
+  command: (args: string[]) => Promise<RedisReply>;
+  /** 接続を閉じる関数 */
+  close: () => void;
+}
+
+/**
+ * 応答の解析結果
+ */
+interface ParsedReply {
+  /** 解析した応答 */
+  reply: RedisReply;
+  /** 応答の直後の位置 */
+  offset: number;
+}
+
+/**
+ * RedisのURLを解析する関数
+ *
+ * @param url RedisのURL（例: redis://:password@localhost:6379/0）
+ * @returns 接続設定
+ * @throws URLの形式が不正な場合エラーをスロー
+ */
+export function parseRedisUrl(url: string): RedisConnectionOptions {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(REDIS_CLIENT_ERROR_MESSAGES.INVALID_URL(url));
+  }
+  if (parsed.protocol !== "redis:" && parsed.protocol !== "rediss:") {
+    throw new Error(REDIS_CLIENT_ERROR_MESSAGES.INVALID_URL(url));
+  }
+
+  const db = parsed.pathname.replace(/^\//, "");
+  return {
+    host: parsed.hostname || "localhost",
+    port: parsed.port
+      ? Number(parsed.port)
+      : REDIS_CLIENT_SETTINGS.DEFAULT_PORT,
+    tls: parsed.protocol === "rediss:",
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    db: db ? Number(db) : undefined,
+  };
+}
+
+/**
+ * コマンドをRESPの形式（バルク文字列の配列）に変換する関数
+ *
+ * @param args コマンド名と引数
+ * @returns 送信するデータ
+ */
+export function encodeCommand(args: string[]): string {
+  return (
+    `*${args.length}${CRLF}` +
+    args
+      .map((arg) => `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`)
+      .join("")
+  );
+}
+
+/**
+ * 受信したデータから応答を1つ解析する関数
+ *
+ * @param buffer 受信したデータ
+ * @param offset 解析を開始する位置
+ * @returns 解析結果（データが揃っていない場合はnull）
+ * @throws 応答の形式が不正な場合エラーをスロー
+ */
+export function parseReply(buffer: Buffer, offset = 0): ParsedReply | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd < 0) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf-8", offset + 1, lineEnd);
+  const next = lineEnd + CRLF.length;
+
+  switch (type) {
+    case "+":
+      return { reply: line, offset: next };
+    case "-":
+      return { reply: new Error(line), offset: next };
+    case ":":
+      return { reply: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { reply: null, offset: next };
+      if (buffer.length < next + length + CRLF.length) return null;
+      return {
+        reply: buffer.toString("utf-8", next, next + length),
+        offset: next + length + CRLF.length,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { reply: null, offset: next };
+
+      const items: RedisReply[] = [];
+      let itemOffset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, itemOffset);
+        if (!item) return null;
+        items.push(item.reply);
+        itemOffset = item.offset;
+      }
+      return { reply: items, offset: itemOffset };
+    }
+    default:
+      throw new Error(REDIS_CLIENT_ERROR_MESSAGES.PROTOCOL_ERROR(type));
+  }
+}
+
+/**
+ * Redisクライアントを生成する関数
+ *
+ * @param url RedisのURL
+ * @param clientOptions クライアントの設定
+ * @returns Redisクライアント
+ * @throws URLの形式が不正な場合エラーをスロー
+ */
+export function createRedisClient(
+  url: string,
+  clientOptions: RedisClientOptions = {}
+): RedisClient {
+  const options = parseRedisUrl(url);
+  const commandTimeoutMs =
+    clientOptions.commandTimeoutMs ?? REDIS_CLIENT_SETTINGS.COMMAND_TIMEOUT_MS;
+
+  // 認証などが完了して使用できるソケット
+  let socket: Socket | null = null;
+  // 接続中または接続済みのソケット（切断を検知する対象）
+  let activeSocket: Socket | null = null;
+  let connecting: Promise<Socket> | null = null;
+  let received = Buffer.alloc(0);
+  // 応答を待っているコマンド（送信順）
+  const pending: {
+    resolve: (reply: RedisReply) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  /**
+   * 接続が切断された場合に、応答待ちのコマンドをすべて失敗させる
+   *
+   * @param error 失敗の理由
+   */
+  function handleDisconnect(error: Error) {
+    socket = null;
+    activeSocket = null;
+    received = Buffer.alloc(0);
+    pending.splice(0).forEach(({ reject }) => reject(error));
+  }
+
+  /**
+   * 受信したデータから揃った応答を取り出し、対応するコマンドに返す
+   *
+   * @param chunk 受信したデータ
+   */
+  function handleData(chunk: Buffer) {
+    received = Buffer.concat([received, chunk]);
+
+    try {
+      let parsed = parseReply(received);
+      while (parsed) {
+        received = received.subarray(parsed.offset);
+        const command = pending.shift();
+        if (parsed.reply instanceof Error) {
+          command?.reject(parsed.reply);
+        } else {
+          command?.resolve(parsed.reply);
+        }
+        parsed = received.length > 0 ? parseReply(received) : null;
+      }
+    } catch (error) {
+      socket?.destroy();
+      handleDisconnect(error as Error);
+    }
+  }
+
+  /**
+   * コマンドを送信して応答を待つ（接続済みのソケットを使用）
+   * 応答がタイムアウトした場合は、以降の応答の対応が崩れないよう接続を破棄する
+   *
+   * @param target 送信先のソケット
+   * @param args コマンド名と引数
+   * @returns 応答
+   */
+  function send(target: Socket, args: string[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new Error(
+          REDIS_CLIENT_ERROR_MESSAGES.COMMAND_TIMEOUT(args[0], commandTimeoutMs)
+        );
+        if (activeSocket === target) handleDisconnect(error);
+        target.destroy();
+        reject(error);
+      }, commandTimeoutMs);
+
+      pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      target.write(encodeCommand(args));
+    });
+  }
+
+  /**
+   * サーバーに接続し、認証とDBの選択を行う
+   *
+   * @returns 接続済みのソケット
+   */
+  function connect(): Promise<Socket> {
+    return new Promise<Socket>((resolve, reject) => {
+      const { host, port } = options;
+      const target = options.tls
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+      const readyEvent = options.tls ? "secureConnect" : "connect";
+      activeSocket = target;
+
+      target.setTimeout(REDIS_CLIENT_SETTINGS.CONNECT_TIMEOUT_MS, () => {
+        target.destroy(
+          new Error(REDIS_CLIENT_ERROR_MESSAGES.CONNECT_TIMEOUT(host, port))
+        );
+      });
+      target.on("data", handleData);
+      target.on("error", (error) => {
+        if (activeSocket === target) handleDisconnect(error);
+        reject(error);
+      });
+      target.on("close", () => {
+        const error = new Error(REDIS_CLIENT_ERROR_MESSAGES.CONNECTION_CLOSED);
+        if (activeSocket === target) handleDisconnect(error);
+        // 接続の完了前に閉じられた場合は接続を失敗させる
+        reject(error);
+      });
+      target.once(readyEvent, async () => {
+        target.setTimeout(0);
+        try {
+          if (options.password) {
+            await send(
+              target,
+              options.username
+                ? ["AUTH", options.username, options.password]
+                : ["AUTH", options.password]
+            );
+          }
+          if (options.db !== undefined) {
+            await send(target, ["SELECT", String(options.db)]);
+          }
+          socket = target;
+          resolve(target);
+        } catch (error) {
+          target.destroy();
+          reject(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * 接続済みのソケットを取得する（未接続の場合は接続する）
+   *
+   * @returns 接続済みのソケット
+   */
+  function getSocket(): Promise<Socket> {
+    if (socket) return Promise.resolve(socket);
+    if (!connecting) {
+      connecting = connect().finally(() => {
+        connecting = null;
+      });
+    }
+    return connecting;
+  }
+
+  return {
+    command: async (args) => send(await getSocket(), args),
+    close: () => {
+      activeSocket?.end();
+      socket = null;
+      activeSocket = null;
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Redisに状態を保存するレート制限ストア
+ *
+ * 複数のNext.jsインスタンスでレート制限を共有するためのストアです。
+ * Redisプロトコルに対応したサーバー（Redis / Valkey / KeyDB / Dragonflyなど）を使用できます。
+ *
+ * 状態はJSONとしてキーに保存し、有効期間をキーの有効期限（PX）として設定します。
+ * 読み込みから書き込みまでの間に他のインスタンスが同じキーを更新した場合は、
+ * WATCH / MULTI / EXECによる楽観的ロックで検知して更新をやり直します。
+ * 1つの接続上でトランザクションが混ざらないよう、同じストアの更新は順番に実行します。
+ *
+ * @module rateLimit/redisStore
+ */
+
+import { createRedisClient, RedisClient } from "./redisClient";
+import {
+  RateLimitStateUpdate,
+  RateLimitStateUpdater,
+  RateLimitStore,
+} from "./types";
+
+/**
+ * Redisストアの設定値
+ */
+const REDIS_STORE_SETTINGS = {
+  /**
+   * キーの接頭辞の既定値
+   */
+  DEFAULT_KEY_PREFIX: "ratelimit:",
+
+  /**
+   * 他のインスタンスとの競合時に更新をやり直す最大回数
+   */
+  MAX_RETRIES: 5,
+};
+
+/**
+ * エラーメッセージ
+ */
+export const REDIS_STORE_ERROR_MESSAGES = {
+  CONFLICT: (key: string) =>
+    `レート制限の状態の更新が他のインスタンスと競合し続けました: ${key}`,
+};
+
+/**
+ * Redisストアの設定オプション
+ */
+export interface RedisRateLimitStoreOptions {
+  /** RedisのURL（例: redis://localhost:6379/0） */
+  url?: string;
+  /** 接続済みのRedisクライアント（テストなどでurlの代わりに指定） */
+  client?: RedisClient;
+  /** キーの接頭辞（既定値: ratelimit:） */
+  keyPrefix?: string;
+}
+
+/**
+ * Redisレート制限ストアを生成する関数
+ * サーバーへの接続は最初の更新時に行います
+ *
+ * @param options Redisストアの設定
+ * @returns Redisレート制限ストア
+ * @throws URLの形式が不正な場合エラーをスロー
+ */
+export function createRedisRateLimitStore(
+  options: RedisRateLimitStoreOptions
+): RateLimitStore {
+  const client = options.client ?? createRedisClient(options.url ?? "");
+  const keyPrefix =
+    options.keyPrefix ?? REDIS_STORE_SETTINGS.DEFAULT_KEY_PREFIX;
+  // 更新を順番に実行するための待ち行列
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 楽観的ロックを使用して状態を1回更新する
+   *
+   * @param redisKey Redisのキー
+   * @param updater 状態の更新関数
+   * @returns 更新できた場合は更新関数の結果、競合した場合はnull
+   */
+  async function tryUpdate<S, R>(
+    redisKey: string,
+    updater: RateLimitStateUpdater<S, R>
+  ): Promise<{ result: R } | null> {
+    await client.command(["WATCH", redisKey]);
+
+    let stateUpdate: RateLimitStateUpdate<S, R>;
+    try {
+      const stored = await client.command(["GET", redisKey]);
+      const current =
+        typeof stored === "string" ? (JSON.parse(stored) as S) : undefined;
+      stateUpdate = updater(current);
+    } catch (error) {
+      await client.command(["UNWATCH"]);
+      throw error;
+    }
+
+    await client.command(["MULTI"]);
+    await client.command([
+      "SET",
+      redisKey,
+      JSON.stringify(stateUpdate.state),
+      "PX",
+      String(Math.max(Math.ceil(stateUpdate.ttlMs), 1)),
+    ]);
+    const committed = await client.command(["EXEC"]);
+
+    // 他のインスタンスが更新した場合、EXECはnullを返す
+    return committed === null ? null : { result: stateUpdate.result };
+  }
+
+  async function updateWithRetry<S, R>(
+    key: string,
+    updater: RateLimitStateUpdater<S, R>
+  ): Promise<R> {
+    const redisKey = `${keyPrefix}${key}`;
+
+    for (let i = 0; i <= REDIS_STORE_SETTINGS.MAX_RETRIES; i++) {
+      const updated = await tryUpdate(redisKey, updater);
+      if (updated) return updated.result;
+    }
+
+    throw new Error(REDIS_STORE_ERROR_MESSAGES.CONFLICT(key));
+  }
+
+  function update<S, R>(
+    key: string,
+    updater: RateLimitStateUpdater<S, R>
+  ): Promise<R> {
+    const result = queue.then(() => updateWithRetry(key, updater));
+    // 失敗した更新があっても後続の更新は実行する
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  function get<S>(key: string): Promise<S | undefined> {
+    // WATCHからEXECまでの間に割り込まないよう、更新と同じ待ち行列で実行する
+    const result = queue.then(async () => {
+      const stored = await client.command(["GET", `${keyPrefix}${key}`]);
+      return typeof stored === "string" ? (JSON.parse(stored) as S) : undefined;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return { name: "redis", update, get };
+}
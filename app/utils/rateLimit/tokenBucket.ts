@@ -0,0 +1,330 @@
+/**
+ * トークンバケット方式のレート制限
+ *
+ * このモジュールは、リクエストごとに重み（コスト）を消費するトークンバケット方式の
+ * レート制限を提供します。安価なリクエストと高価なリクエストを同じ1回として数える
+ * スライディングウィンドウ方式（limiter）と異なり、処理のコストに応じて上限を消費します。
+ *
+ * 特徴:
+ * - バケットは容量いっぱいのトークンから始まり、補充間隔をかけて容量まで連続的に補充
+ * - 複数のバケット（1分あたり・1日あたりなど）をまとめて判定し、すべてに余裕がある場合のみ消費
+ * - 処理の途中で判明した追加のコストを、上限を超えても差し引く（次回以降のリクエストで精算）
+ * - 状態の保存先（レート制限ストア）を差し替え可能
+ *
+ * @module rateLimit/tokenBucket
+ */
+
+import { RateLimitStore } from "./types";
+
+/**
+ * トークンバケットの設定
+ */
+export interface TokenBucketConfig {
+  /** バケット名（状態の保存や、制限されたバケットの報告に使用） */
+  name: string;
+  /** バケットの容量（保持できるトークンの最大数） */
+  capacity: number;
+  /** 空のバケットが容量いっぱいまで補充されるのにかかる時間（ミリ秒） */
+  refillIntervalMs: number;
+}
+
+/**
+ * トークンバケットの状態
+ */
+export interface TokenBucketState {
+  /** 残りのトークン数（追加のコストを差し引いた場合は負になることがある） */
+  tokens: number;
+  /** トークン数を計算した時刻（UNIX時刻、ミリ秒） */
+  updatedAt: number;
+}
+
+/**
+ * トークンバケットの判定結果
+ * 複数のバケットを判定した場合は、最も上限に近いバケットの値を返します
+ */
+export interface TokenBucketResult {
+  /** リクエストが許可されたかどうか */
+  allowed: boolean;
+  /** 報告するバケットの名前 */
+  bucket: string;
+  /** バケットの容量 */
+  limit: number;
+  /** 残りのトークン数（0以上の整数） */
+  remaining: number;
+  /** バケットが容量いっぱいまで補充されるまでの時間（ミリ秒） */
+  resetMs: number;
+  /** 許可されなかった場合に、再試行できるようになるまでの時間（ミリ秒） */
+  retryAfterMs: number;
+}
+
+/**
+ * トークンバケット方式のレート制限のインターフェース
+ */
+export interface TokenBucketLimiter {
+  /**
+   * すべてのバケットに余裕がある場合のみ、コスト分のトークンを消費する関数
+   *
+   * @param key 状態のキー（クライアントの識別子など）
+   * @param buckets 判定するバケット
+   * @param cost 消費するトークン数
+   * @returns 判定結果
+   */
+  consume: (
+    key: string,
+    buckets: TokenBucketConfig[],
+    cost: number
+  ) => Promise<TokenBucketResult>;
+  /**
+   * 残りのトークン数にかかわらず、コスト分のトークンを差し引く関数
+   * 処理の途中で判明した追加のコストを記録するために使用します
+   *
+   * @param key 状態のキー
+   * @param buckets 対象のバケット
+   * @param cost 差し引くトークン数
+   * @returns 差し引いた後の状態
+   */
+  charge: (
+    key: string,
+    buckets: TokenBucketConfig[],
+    cost: number
+  ) => Promise<TokenBucketResult>;
+  /**
+   * トークンを消費せずに、コスト分のトークンを消費できるかどうかを判定する関数
+   * リクエストを拒否した場合など、消費を伴わない応答にも状態を通知するために使用します
+   * 状態を書き込まないため、状態のないクライアントのキーも作成しません
+   *
+   * @param key 状態のキー
+   * @param buckets 判定するバケット
+   * @param cost 消費する場合のトークン数
+   * @returns 判定結果
+   */
+  peek: (
+    key: string,
+    buckets: TokenBucketConfig[],
+    cost: number
+  ) => Promise<TokenBucketResult>;
+}
+
+/**
+ * 保存する状態（バケット名ごとの状態）
+ */
+type TokenBucketStates = Record<string, TokenBucketState>;
+
+/**
+ * 経過時間に応じてトークンを補充する関数
+ *
+ * @param state 保存されている状態（存在しない場合は容量いっぱいのバケットとして扱う）
+ * @param bucket バケットの設定
+ * @param now 現在の時刻（ミリ秒）
+ * @returns 補充後の状態
+ */
+export function refillTokenBucket(
+  state: TokenBucketState | undefined,
+  bucket: TokenBucketConfig,
+  now: number
+): TokenBucketState {
+  if (!state) {
+    return { tokens: bucket.capacity, updatedAt: now };
+  }
+
+  const elapsed = Math.max(now - state.updatedAt, 0);
+  const refilled =
+    state.tokens + (elapsed * bucket.capacity) / bucket.refillIntervalMs;
+  return { tokens: Math.min(refilled, bucket.capacity), updatedAt: now };
+}
+
+/**
+ * 指定したトークン数まで補充されるまでの時間を計算する関数
+ *
+ * @param tokens 現在のトークン数
+ * @param target 目標のトークン数
+ * @param bucket バケットの設定
+ * @returns 補充までの時間（ミリ秒、補充済みの場合は0）
+ */
+function getRefillWaitMs(
+  tokens: number,
+  target: number,
+  bucket: TokenBucketConfig
+): number {
+  if (tokens >= target) return 0;
+  return Math.ceil(
+    ((target - tokens) * bucket.refillIntervalMs) / bucket.capacity
+  );
+}
+
+/**
+ * 消費に必要なトークン数を取得する関数
+ * 容量を超えるコストはいつまでも許可されなくなるため、容量を上限とします
+ *
+ * @param bucket バケットの設定
+ * @param cost リクエストのコスト
+ * @returns 必要なトークン数
+ */
+function getRequiredTokens(bucket: TokenBucketConfig, cost: number): number {
+  return Math.min(cost, bucket.capacity);
+}
+
+/**
+ * バケットごとの状態から判定結果を作成する関数
+ *
+ * @param states 補充後の各バケットの状態
+ * @param buckets バケットの設定
+ * @param allowed リクエストが許可されたかどうか
+ * @param cost リクエストのコスト（再試行までの時間の計算に使用）
+ * @returns 判定結果
+ */
+function toResult(
+  states: TokenBucketStates,
+  buckets: TokenBucketConfig[],
+  allowed: boolean,
+  cost: number
+): TokenBucketResult {
+  const results = buckets.map((bucket): TokenBucketResult => {
+    const { tokens } = states[bucket.name];
+    return {
+      allowed,
+      bucket: bucket.name,
+      limit: bucket.capacity,
+      remaining: Math.max(Math.floor(tokens), 0),
+      resetMs: getRefillWaitMs(tokens, bucket.capacity, bucket),
+      retryAfterMs: allowed
+        ? 0
+        : getRefillWaitMs(tokens, getRequiredTokens(bucket, cost), bucket),
+    };
+  });
+  const ratioOf = (result: TokenBucketResult) =>
+    states[result.bucket].tokens / result.limit;
+
+  // 許可されなかった場合は最も待ち時間の長いバケット、
+  // 許可された場合は残りの割合が最も少ないバケットを報告する
+  return results.reduce((reported, result) =>
+    (
+      allowed
+        ? ratioOf(result) < ratioOf(reported)
+        : result.retryAfterMs > reported.retryAfterMs
+    )
+      ? result
+      : reported
+  );
+}
+
+/**
+ * 状態の有効期間を計算する関数
+ * すべてのバケットが容量いっぱいまで補充された後は、状態を保持する必要がありません
+ *
+ * @param states 更新後の各バケットの状態
+ * @param buckets バケットの設定
+ * @returns 有効期間（ミリ秒）
+ */
+function getStateTtl(
+  states: TokenBucketStates,
+  buckets: TokenBucketConfig[]
+): number {
+  const waits = buckets.map((bucket) =>
+    getRefillWaitMs(states[bucket.name].tokens, bucket.capacity, bucket)
+  );
+  return Math.max(...waits, 1);
+}
+
+/**
+ * トークンバケット方式のレート制限を生成する関数
+ *
+ * @param options.store 状態の保存先
+ * @returns トークンバケット方式のレート制限
+ */
+export function createTokenBucketLimiter(options: {
+  store: RateLimitStore;
+}): TokenBucketLimiter {
+  const { store } = options;
+
+  /**
+   * 保存されている状態から、現在の時刻まで補充した各バケットの状態を計算する
+   *
+   * @param current 保存されている状態（存在しない場合は空）
+   * @param buckets 対象のバケット
+   * @param now 現在の時刻（ミリ秒）
+   * @returns 補充後の各バケットの状態
+   */
+  function refillStates(
+    current: TokenBucketStates,
+    buckets: TokenBucketConfig[],
+    now: number
+  ): TokenBucketStates {
+    return Object.fromEntries(
+      buckets.map((bucket) => [
+        bucket.name,
+        refillTokenBucket(current[bucket.name], bucket, now),
+      ])
+    );
+  }
+
+  /**
+   * すべてのバケットにコスト分のトークンが残っているかどうかを判定する
+   *
+   * @param states 補充後の各バケットの状態
+   * @param buckets 対象のバケット
+   * @param cost 消費するトークン数
+   * @returns 消費できる場合はtrue
+   */
+  function hasTokens(
+    states: TokenBucketStates,
+    buckets: TokenBucketConfig[],
+    cost: number
+  ): boolean {
+    return buckets.every(
+      (bucket) => states[bucket.name].tokens >= getRequiredTokens(bucket, cost)
+    );
+  }
+
+  /**
+   * トークンを消費または差し引く
+   *
+   * @param key 状態のキー
+   * @param buckets 対象のバケット
+   * @param cost 消費するトークン数
+   * @param force 残りのトークン数にかかわらず差し引く場合はtrue
+   * @returns 判定結果
+   */
+  function take(
+    key: string,
+    buckets: TokenBucketConfig[],
+    cost: number,
+    force: boolean
+  ): Promise<TokenBucketResult> {
+    const now = Date.now();
+
+    return store.update<TokenBucketStates, TokenBucketResult>(
+      key,
+      (current = {}) => {
+        const states = refillStates(current, buckets, now);
+        const allowed = force || hasTokens(states, buckets, cost);
+        if (allowed) {
+          buckets.forEach((bucket) => {
+            states[bucket.name].tokens -= cost;
+          });
+        }
+
+        return {
+          state: states,
+          ttlMs: getStateTtl(states, buckets),
+          result: toResult(states, buckets, allowed, cost),
+        };
+      }
+    );
+  }
+
+  return {
+    consume: (key, buckets, cost) => take(key, buckets, cost, false),
+    charge: (key, buckets, cost) => take(key, buckets, cost, true),
+    peek: async (key, buckets, cost) => {
+      const current = await store.get<TokenBucketStates>(key);
+      const states = refillStates(current ?? {}, buckets, Date.now());
+      return toResult(
+        states,
+        buckets,
+        hasTokens(states, buckets, cost),
+        cost
+      );
+    },
+  };
+}
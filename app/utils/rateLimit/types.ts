@@ -0,0 +1,60 @@
+/**
+ * レート制限ストア関連の型定義
+ *
+ * このファイルは、レート制限の状態（リクエストの記録など）の保存先を
+ * 差し替えられるようにするためのストアの共通インターフェースを定義します。
+ * ストアはレート制限のアルゴリズムを知らず、キーごとの状態の読み込みと
+ * 置き換えをアトミックに行うこと（と、置き換えを伴わない読み込み）だけを担当します。
+ *
+ * @module rateLimit/types
+ */
+
+/**
+ * 状態の更新結果
+ */
+export interface RateLimitStateUpdate<S, R> {
+  /** 保存する新しい状態（JSONとしてシリアライズ可能な値） */
+  state: S;
+  /** 状態の有効期間（ミリ秒）。経過後の状態は存在しないものとして扱われます */
+  ttlMs: number;
+  /** 更新関数の呼び出し元に返す値 */
+  result: R;
+}
+
+/**
+ * 状態の更新関数
+ * 保存されている状態（存在しない・期限切れの場合はundefined）から新しい状態を計算します
+ * 他のプロセスと競合した場合に再実行されることがあるため、副作用を持たないようにします
+ */
+export type RateLimitStateUpdater<S, R> = (
+  current: S | undefined
+) => RateLimitStateUpdate<S, R>;
+
+/**
+ * レート制限ストアのインターフェース
+ *
+ * 保存先に接続できない場合などはエラーをスローします
+ */
+export interface RateLimitStore {
+  /** ストア名（ログ出力や設定値に使用） */
+  name: string;
+  /**
+   * キーに対応する状態を読み込み、更新関数の結果で置き換える関数
+   * 同じキーに対する読み込みから置き換えまでをアトミックに実行します
+   *
+   * @param key 状態のキー（クライアントの識別子など）
+   * @param updater 状態の更新関数
+   * @returns 更新関数が返した値
+   */
+  update: <S, R>(
+    key: string,
+    updater: RateLimitStateUpdater<S, R>
+  ) => Promise<R>;
+  /**
+   * キーに対応する状態を書き込まずに読み込む関数
+   *
+   * @param key 状態のキー
+   * @returns 保存されている状態（存在しない・期限切れの場合はundefined）
+   */
+  get: <S>(key: string) => Promise<S | undefined>;
+}
@@ -0,0 +1,87 @@
+/**
+ * DuckDuckGoを使用する検索プロバイダー
+ *
+ * duck-duck-scrapeを使用してDuckDuckGoでWeb検索を行います。
+ *
+ * @module search/duckDuckGoProvider
+ */
+
+import {
+  search,
+  SearchOptions,
+  SearchResults,
+  SafeSearchType,
+} from "duck-duck-scrape";
+import { SearchResult } from "@/types/message";
+import { SearchProvider } from "./types";
+
+/**
+ * DuckDuckGo検索の設定
+ * SearchOptions型に適合させるため、小文字のキーを使用
+ */
+const DUCKDUCKGO_SEARCH_OPTIONS: SearchOptions = {
+  safeSearch: SafeSearchType.MODERATE,
+  locale: "ja-jp",
+};
+
+/**
+ * 到達できるかの確認に使用するURL
+ */
+const DUCKDUCKGO_HEALTH_CHECK_URL = "https://duckduckgo.com/";
+
+/**
+ * エラーメッセージ
+ */
+export const DUCKDUCKGO_ERROR_MESSAGES = {
+  UNREACHABLE: (status: number) =>
+    `DuckDuckGoから異常なステータスコードが返されました: ${status}`,
+};
+
+/**
+ * DuckDuckGoの検索結果を共通の検索結果形式に変換する関数
+ *
+ * @param searchResults DuckDuckGoの検索結果
+ * @param limit 結果の最大数
+ * @returns 変換された検索結果
+ */
+function toSearchResults(
+  searchResults: SearchResults,
+  limit: number
+): SearchResult[] {
+  if (!searchResults || searchResults.noResults || !searchResults.results) {
+    return [];
+  }
+
+  return searchResults.results.slice(0, limit).map((result) => ({
+    title: result.title || "",
+    url: result.url || "",
+    description: result.description || "",
+  }));
+}
+
+/**
+ * DuckDuckGo検索プロバイダーを生成する関数
+ *
+ * 到達できるかの確認では、検索の回数制限を消費しないよう
+ * 検索APIではなくトップページへのHEADリクエストを送信します。
+ *
+ * @returns DuckDuckGo検索プロバイダー
+ */
+export function createDuckDuckGoProvider(): SearchProvider {
+  return {
+    name: "duckduckgo",
+    search: async (query, { limit }) => {
+      const searchResults = await search(query, DUCKDUCKGO_SEARCH_OPTIONS);
+      return toSearchResults(searchResults, limit);
+    },
+    checkHealth: async (signal) => {
+      const response = await fetch(DUCKDUCKGO_HEALTH_CHECK_URL, {
+        method: "HEAD",
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(DUCKDUCKGO_ERROR_MESSAGES.UNREACHABLE(response.status));
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * ダミーの検索結果を返す検索プロバイダー
+ *
+ * 外部への接続を行わず、検索クエリを含む固定の検索結果を返します。
+ * テストモードやモデル未設定時に使用します。
+ *
+ * @module search/dummyProvider
+ */
+
+import { SearchResult } from "@/types/message";
+import { SearchProvider } from "./types";
+
+/**
+ * ダミーの検索結果を生成する関数
+ *
+ * @param query 検索クエリ
+ * @param limit 返却する検索結果の最大数
+ * @returns ダミーの検索結果
+ */
+function generateDummySearchResults(
+  query: string,
+  limit: number
+): SearchResult[] {
+  const currentDate = new Date().toLocaleString("ja-JP");
+
+  const dummyResults: SearchResult[] = [
+    {
+      title: `テスト検索結果1 - ${query}の解説`,
+      url: "https://example.com/test-result-1",
+      description: `これはテストモードで生成されたダミーの検索結果です。実際のWeb検索は行われていません。検索クエリ: "${query}", 生成時刻: ${currentDate}`,
+    },
+    {
+      title: `${query}に関する最新情報（テスト）`,
+      url: "https://example.com/test-result-2",
+      description:
+        "これはテストモードのダミー検索結果です。実際のWebコンテンツは含まれていません。",
+    },
+    {
+      title: `${query}の使い方ガイド - テスト検索結果`,
+      url: "https://example.com/test-result-3",
+      description:
+        "テストモードで生成された3つ目のダミー検索結果です。このデータは固定で、実際のWeb検索結果ではありません。",
+    },
+    {
+      title: `テスト結果4: ${query}のよくある質問`,
+      url: "https://example.com/test-result-4",
+      description:
+        "これは4つ目のテスト用ダミー検索結果です。実際の検索エンジンは使用されていません。",
+    },
+  ];
+
+  // 指定された上限数まで結果を返す
+  return dummyResults.slice(0, Math.min(limit, dummyResults.length));
+}
+
+/**
+ * ダミー検索プロバイダーを生成する関数
+ *
+ * @returns ダミー検索プロバイダー
+ */
+export function createDummyProvider(): SearchProvider {
+  return {
+    name: "dummy",
+    search: async (query, { limit }) =>
+      generateDummySearchResults(query, limit),
+  };
+}
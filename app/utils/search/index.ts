@@ -0,0 +1,103 @@
+/**
+ * 検索プロバイダーの選択
+ *
+ * このファイルは、環境変数の設定に応じて使用する検索プロバイダーを生成します。
+ *
+ * 環境変数:
+ * - SEARCH_PROVIDER: 使用するプロバイダー（duckduckgo / local / dummy、既定値: duckduckgo）
+ * - SEARCH_CORPUS_PATH: localプロバイダーで使用するコーパスファイル（JSON）のパス
+ *
+ * @module search
+ */
+
+import { createDuckDuckGoProvider } from "./duckDuckGoProvider";
+import { createDummyProvider } from "./dummyProvider";
+import { createLocalCorpusProvider } from "./localCorpusProvider";
+import { SearchProvider } from "./types";
+
+export type { SearchProvider, SearchProviderOptions } from "./types";
+export { createDuckDuckGoProvider } from "./duckDuckGoProvider";
+export { createDummyProvider } from "./dummyProvider";
+export { createLocalCorpusProvider } from "./localCorpusProvider";
+
+/**
+ * 設定可能な検索プロバイダー名
+ */
+export const SEARCH_PROVIDER_NAMES = {
+  DUCKDUCKGO: "duckduckgo",
+  LOCAL: "local",
+  DUMMY: "dummy",
+};
+
+/**
+ * エラーメッセージ
+ */
+export const SEARCH_PROVIDER_ERROR_MESSAGES = {
+  UNKNOWN_PROVIDER: (name: string) =>
+    `不明な検索プロバイダーが指定されました: ${name}（${Object.values(
+      SEARCH_PROVIDER_NAMES
+    ).join(" / ")}のいずれかを指定してください）`,
+  CORPUS_PATH_REQUIRED:
+    "localプロバイダーを使用するにはSEARCH_CORPUS_PATHを設定してください",
+};
+
+/**
+ * 検索プロバイダーの設定
+ */
+export interface SearchProviderConfig {
+  /** 使用するプロバイダー名（未指定の場合はDuckDuckGo） */
+  provider?: string;
+  /** localプロバイダーで使用するコーパスファイルのパス */
+  corpusPath?: string;
+}
+
+/**
+ * 設定に応じて検索プロバイダーを生成する関数
+ *
+ * @param config 検索プロバイダーの設定
+ * @returns 検索プロバイダー
+ * @throws 不明なプロバイダー名や必要な設定が不足している場合エラーをスロー
+ */
+export function createSearchProvider(
+  config: SearchProviderConfig
+): SearchProvider {
+  const name = (config.provider || SEARCH_PROVIDER_NAMES.DUCKDUCKGO)
+    .trim()
+    .toLowerCase();
+
+  switch (name) {
+    case SEARCH_PROVIDER_NAMES.DUCKDUCKGO:
+      return createDuckDuckGoProvider();
+    case SEARCH_PROVIDER_NAMES.LOCAL:
+      if (!config.corpusPath) {
+        throw new Error(SEARCH_PROVIDER_ERROR_MESSAGES.CORPUS_PATH_REQUIRED);
+      }
+      return createLocalCorpusProvider(config.corpusPath);
+    case SEARCH_PROVIDER_NAMES.DUMMY:
+      return createDummyProvider();
+    default:
+      throw new Error(SEARCH_PROVIDER_ERROR_MESSAGES.UNKNOWN_PROVIDER(name));
+  }
+}
+
+/**
+ * 環境変数の設定から生成した検索プロバイダー（初回使用時に生成）
+ */
+let configuredProvider: SearchProvider | null = null;
+
+/**
+ * 環境変数で設定された検索プロバイダーを取得する関数
+ * ローカルコーパスの読み込み結果を再利用するため、生成したプロバイダーを保持します
+ *
+ * @returns 検索プロバイダー
+ * @throws 環境変数の設定が不正な場合エラーをスロー
+ */
+export function getConfiguredSearchProvider(): SearchProvider {
+  if (!configuredProvider) {
+    configuredProvider = createSearchProvider({
+      provider: process.env.SEARCH_PROVIDER,
+      corpusPath: process.env.SEARCH_CORPUS_PATH,
+    });
+  }
+  return configuredProvider;
+}
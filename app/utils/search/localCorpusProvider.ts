@@ -0,0 +1,174 @@
+/**
+ * ローカルのJSONコーパスを検索する検索プロバイダー
+ *
+ * 外部に接続できない環境（エアギャップ環境）やテスト向けに、
+ * JSONファイルに保存された文書から検索クエリに一致するものを返します。
+ * コーパスは最初の検索時に読み込み、以降はメモリ上のデータを使用します。
+ *
+ * コーパスファイルの形式:
+ * [{ "title": "...", "url": "https://...", "description": "...", "content": "..." }]
+ * （contentは検索対象にのみ使用され、検索結果には含まれません）
+ *
+ * @module search/localCorpusProvider
+ */
+
+import { readFile } from "fs/promises";
+import { SearchResult } from "@/types/message";
+import { SearchProvider } from "./types";
+
+/**
+ * ローカルコーパスの検索スコアの重み
+ */
+const SCORE_WEIGHTS = {
+  /**
+   * タイトルに検索語が含まれる場合のスコア
+   */
+  TITLE: 3,
+
+  /**
+   * 説明文に検索語が含まれる場合のスコア
+   */
+  DESCRIPTION: 2,
+
+  /**
+   * 本文に検索語が含まれる場合のスコア
+   */
+  CONTENT: 1,
+};
+
+/**
+ * エラーメッセージ
+ */
+export const LOCAL_CORPUS_ERROR_MESSAGES = {
+  INVALID_CORPUS: (path: string) =>
+    `ローカル検索コーパスの形式が不正です（文書の配列である必要があります）: ${path}`,
+};
+
+/**
+ * コーパスに含まれる文書の型定義
+ */
+export interface CorpusDocument extends SearchResult {
+  /** 検索対象とする本文（検索結果には含まれない） */
+  content?: string;
+}
+
+/**
+ * 値がコーパスの文書として有効かどうかを判定する関数
+ *
+ * @param value 検証する値
+ * @returns 有効な文書であればtrue
+ */
+function isCorpusDocument(value: unknown): value is CorpusDocument {
+  if (!value || typeof value !== "object") return false;
+
+  const document = value as Partial<CorpusDocument>;
+  return (
+    typeof document.title === "string" &&
+    typeof document.url === "string" &&
+    typeof document.description === "string" &&
+    (document.content === undefined || typeof document.content === "string")
+  );
+}
+
+/**
+ * コーパスファイルを読み込む関数
+ *
+ * @param corpusPath コーパスファイルのパス
+ * @returns コーパスの文書一覧
+ * @throws ファイルが読み込めない場合や形式が不正な場合エラーをスロー
+ */
+async function loadCorpus(corpusPath: string): Promise<CorpusDocument[]> {
+  const parsed: unknown = JSON.parse(await readFile(corpusPath, "utf-8"));
+
+  if (!Array.isArray(parsed) || !parsed.every(isCorpusDocument)) {
+    throw new Error(LOCAL_CORPUS_ERROR_MESSAGES.INVALID_CORPUS(corpusPath));
+  }
+
+  return parsed;
+}
+
+/**
+ * 検索クエリを検索語に分割する関数
+ * 空白・カンマ・読点で区切り、大文字小文字を区別しないよう小文字に変換します
+ *
+ * @param query 検索クエリ
+ * @returns 検索語の一覧
+ */
+function toSearchTerms(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[\s,、，]+/)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * 文書の検索スコアを計算する関数
+ *
+ * @param document 対象の文書
+ * @param terms 検索語の一覧
+ * @returns 検索スコア（一致しない場合は0）
+ */
+function scoreDocument(document: CorpusDocument, terms: string[]): number {
+  const title = document.title.toLowerCase();
+  const description = document.description.toLowerCase();
+  const content = (document.content || "").toLowerCase();
+
+  return terms.reduce(
+    (score, term) =>
+      score +
+      (title.includes(term) ? SCORE_WEIGHTS.TITLE : 0) +
+      (description.includes(term) ? SCORE_WEIGHTS.DESCRIPTION : 0) +
+      (content.includes(term) ? SCORE_WEIGHTS.CONTENT : 0),
+    0
+  );
+}
+
+/**
+ * ローカルコーパス検索プロバイダーを生成する関数
+ *
+ * @param corpusPath コーパスファイル（JSON）のパス
+ * @returns ローカルコーパス検索プロバイダー
+ */
+export function createLocalCorpusProvider(corpusPath: string): SearchProvider {
+  let corpusPromise: Promise<CorpusDocument[]> | null = null;
+
+  /**
+   * コーパスを取得する関数
+   * 初回のみ読み込み、失敗した場合は次回の呼び出しで再読み込みします
+   */
+  const getCorpus = (): Promise<CorpusDocument[]> => {
+    if (!corpusPromise) {
+      corpusPromise = loadCorpus(corpusPath).catch((error) => {
+        corpusPromise = null;
+        throw error;
+      });
+    }
+    return corpusPromise;
+  };
+
+  return {
+    name: "local",
+    search: async (query, { limit }) => {
+      const corpus = await getCorpus();
+      const terms = toSearchTerms(query);
+
+      return corpus
+        .map((document) => ({
+          document,
+          score: scoreDocument(document, terms),
+        }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ document: { title, url, description } }) => ({
+          title,
+          url,
+          description,
+        }));
+    },
+    // コーパスを読み込めれば検索できる
+    checkHealth: async () => {
+      await getCorpus();
+    },
+  };
+}
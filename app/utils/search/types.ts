@@ -0,0 +1,48 @@
+/**
+ * 検索プロバイダー関連の型定義
+ *
+ * このファイルは、Web検索の実装を差し替えられるようにするための
+ * 検索プロバイダーの共通インターフェースを定義します。
+ *
+ * @module search/types
+ */
+
+import { SearchResult } from "@/types/message";
+
+/**
+ * 検索時のオプション
+ */
+export interface SearchProviderOptions {
+  /** 返却する検索結果の最大数 */
+  limit: number;
+}
+
+/**
+ * 検索プロバイダーのインターフェース
+ *
+ * 検索結果が見つからない場合は空配列を返し、
+ * 検索自体に失敗した場合はエラーをスローします
+ */
+export interface SearchProvider {
+  /** プロバイダー名（ログ出力や設定値に使用） */
+  name: string;
+  /**
+   * 検索を実行する関数
+   *
+   * @param query 検索クエリ
+   * @param options 検索オプション
+   * @returns 検索結果のリスト
+   */
+  search: (
+    query: string,
+    options: SearchProviderOptions
+  ) => Promise<SearchResult[]>;
+  /**
+   * 検索を実行できる状態かどうかを確認する関数（GET /api/ready で使用）
+   * 外部のサービスに依存しないプロバイダーでは省略します
+   *
+   * @param signal 確認を中断するシグナル（タイムアウト用）
+   * @throws 検索を実行できない場合エラーをスロー
+   */
+  checkHealth?: (signal: AbortSignal) => Promise<void>;
+}
@@ -0,0 +1,42 @@
+/**
+ * 言語によらない年月の表記
+ *
+ * このファイルは、どの言語の応答にも現れる数字のみの年月の表記（2023-09、2023/09、09/2023）の
+ * パターンを提供します。
+ *
+ * @module searchPatterns/common
+ */
+
+import { MonthYear, MonthYearPattern } from "./types";
+
+/**
+ * 年と月の文字列を年月に変換する関数
+ *
+ * @param year 年の文字列
+ * @param month 月の文字列
+ * @returns 年月（月が1〜12でない場合はnull）
+ */
+export function toMonthYear(year: string, month: string): MonthYear | null {
+  const parsedYear = parseInt(year, 10);
+  const parsedMonth = parseInt(month, 10);
+  if (isNaN(parsedYear) || isNaN(parsedMonth)) return null;
+  if (parsedMonth < 1 || parsedMonth > 12) return null;
+
+  return { year: parsedYear, month: parsedMonth };
+}
+
+/**
+ * 数字のみの年月の表記のパターン
+ */
+export const NUMERIC_MONTH_YEAR_PATTERNS: MonthYearPattern[] = [
+  // 2023-09、2023/09
+  {
+    pattern: /\b((?:19|20)\d{2})[-/](\d{1,2})\b/,
+    toMonthYear: (match) => toMonthYear(match[1], match[2]),
+  },
+  // 09/2023
+  {
+    pattern: /\b(\d{1,2})\/((?:19|20)\d{2})\b/,
+    toMonthYear: (match) => toMonthYear(match[2], match[1]),
+  },
+];
@@ -0,0 +1,145 @@
+/**
+ * 英語の応答用のWeb検索の必要性判定パターン
+ *
+ * @module searchPatterns/en
+ */
+
+import { NUMERIC_MONTH_YEAR_PATTERNS } from "./common";
+import { MonthYear, SearchPatternPack } from "./types";
+
+/**
+ * 月名（省略形を含む）の先頭3文字と月の対応
+ */
+const MONTH_NUMBERS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+/**
+ * 月名（省略形を含む）の一覧
+ */
+const MONTH_NAMES =
+  "January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept|Sep|Oct|Nov|Dec";
+
+/**
+ * 月名の表記（January / Jan. / Sept など、1つのグループで月名を取得）
+ */
+const MONTH_NAME = `(${MONTH_NAMES})\\.?`;
+
+/**
+ * 西暦の年（1900〜2099年）
+ */
+const YEAR = "(?:19|20)\\d{2}";
+
+/**
+ * 直後の4桁の数字を年とみなす表現（in 2024 / since 2023 / September 2023 / mid-2023 など）
+ * 「2048 bytes」「port 2049」のような年ではない数字を年として扱わないよう、年の表記は文脈で限定します
+ * （「up to」「around」などは数量にも使われるため含めません）
+ */
+const YEAR_CONTEXT = `(?:(?:in|since|as of|as at|until|till|through|during|between|end of|(?:the )?year|(?:${MONTH_NAMES})\\.?,?)\\s+|(?:early|mid|late)[\\s-])`;
+
+/**
+ * 年の直後に続く場合は年とみなさない表記（in 2048 bytes / in 2048-bit keys など）
+ */
+const NOT_YEAR_SUFFIX = "(?!\\s*(?:bytes?|bits?|[KMG]B|px|ms)\\b|-[A-Za-z])";
+
+/**
+ * 月名と年の文字列を年月に変換する関数
+ *
+ * @param monthName 月名
+ * @param year 年の文字列
+ * @returns 年月
+ */
+function toMonthYearFromName(monthName: string, year: string): MonthYear {
+  return {
+    year: parseInt(year, 10),
+    month: MONTH_NUMBERS[monthName.slice(0, 3).toLowerCase()],
+  };
+}
+
+/**
+ * 英語のパターン集
+ */
+export const EN_PATTERN_PACK: SearchPatternPack = {
+  language: "en",
+
+  getStrongPatterns: (currentYear) => [
+    /\bas of my (last|latest|most recent) (update|training|knowledge)/i,
+    /\bmy (knowledge|training data|training|information|data)( cut-?off)? (is |was |only )?(limited|current|up to date|goes|extends|runs)\b/i,
+    /\b(knowledge|training( data)?) cut-?off\b/i,
+    /\bI (don't|do not|can't|cannot) (have|access|provide) (access to )?(real-time|live|current|up-to-date|the latest|recent) (data|information|updates|news)/i,
+    /\bI (don't|do not) have (any )?(information|data|knowledge) (on|about) (events|developments|changes) (after|since|beyond)\b/i,
+    /\b(information|data|knowledge) (up to|until|through) (\w+ )?(\d{4})\b/i,
+    new RegExp(
+      `\\b(information|data) (from|as of|up to|until|through|before) ${
+        currentYear - 1
+      }\\b`,
+      "i"
+    ),
+    new RegExp(
+      `\\b(information|data) (from|as of|up to|until|through|before) ${
+        currentYear - 2
+      }\\b`,
+      "i"
+    ),
+  ],
+
+  getModeratePatterns: (currentYear) => [
+    /\b(latest|newest) (status|versions?|releases?|products?|technolog(y|ies)|developments?)\b/i,
+    new RegExp(`\\b(in|as of|during) ${currentYear}\\b`, "i"),
+    new RegExp(`\\bsince ${currentYear - 1}\\b`, "i"),
+    /\brecent (trends|developments|changes|advances)\b/i,
+    /\bcurrent (market|situation|standards?|specifications?)\b/i,
+    /\bfor (the most )?(accurate|up-to-date) (information|data)\b/i,
+    /\b(check|refer to|visit|consult) (the )?official (website|site|sources?|documentation)\b/i,
+    /\b(latest|up-to-date) (information|updates?)\b.{0,40}\b(check|visit|refer)/i,
+    /\bfor more detailed (information|data)\b.{0,40}\b(search|check)/i,
+  ],
+
+  exclusionPatterns: [
+    /\bI have detailed information\b/i,
+    /\baccording to the (latest|most recent) data\b/i,
+    /\bbased on current information\b/i,
+    /\b(the )?latest research (shows|suggests|indicates)\b/i,
+    /\brecent (studies|surveys) (show|suggest|indicate)\b/i,
+    /\baccording to my knowledge\b/i,
+    /\blet me explain in detail\b/i,
+    /\bto give a (concrete|specific) example\b/i,
+  ],
+
+  // 年を表す表現の後、または月名の前（2023 September）の4桁の数字のみを年とする
+  yearPattern: new RegExp(
+    `\\b(?:${YEAR_CONTEXT}|(?=${YEAR},?\\s+(?:${MONTH_NAMES})\\b))(${YEAR})\\b${NOT_YEAR_SUFFIX}`,
+    "gi"
+  ),
+
+  monthYearPatterns: [
+    // September 2023、Sept. 2023
+    {
+      pattern: new RegExp(`\\b${MONTH_NAME},? ((?:19|20)\\d{2})\\b`, "i"),
+      toMonthYear: (match) => toMonthYearFromName(match[1], match[2]),
+    },
+    ...NUMERIC_MONTH_YEAR_PATTERNS,
+  ],
+
+  timeContextPattern:
+    /\b(?:as of|as at) (?:(?:early|mid|late) )?((?:19|20)\d{2})\b/i,
+
+  recentTermsPattern: /\b(latest|recent|recently|current|currently|now)\b/i,
+
+  historicalFactPattern:
+    /\b(was|were) (released|founded|established|launched|announced|published|introduced)\b/i,
+
+  shortAnswerPattern:
+    /\b(I don't know|I do not know|unknown|I'm not sure|I am not sure|unable to (confirm|verify))\b/i,
+};
@@ -0,0 +1,83 @@
+/**
+ * Web検索の必要性判定パターンの選択
+ *
+ * このファイルは、AIの応答の言語を判定し、その言語のパターン集を選択する機能を提供します。
+ * パターン集を用意していない言語の場合は、日本語のパターン集を使用します。
+ *
+ * @module searchPatterns
+ */
+
+import { EN_PATTERN_PACK } from "./en";
+import { JA_PATTERN_PACK } from "./ja";
+import { PatternLanguage, SearchPatternPack } from "./types";
+
+export type {
+  MonthYear,
+  MonthYearPattern,
+  PatternLanguage,
+  SearchPatternPack,
+} from "./types";
+export { EN_PATTERN_PACK } from "./en";
+export { JA_PATTERN_PACK } from "./ja";
+
+/**
+ * 言語の判定の設定値
+ */
+const LANGUAGE_DETECTION_SETTINGS = {
+  /**
+   * パターン集を用意していない言語の場合に使用する言語
+   */
+  DEFAULT_LANGUAGE: "ja" as PatternLanguage,
+
+  /**
+   * 英語と判定する、空白・数字・記号を除く文字に占めるラテン文字の割合の下限
+   */
+  LATIN_RATIO_THRESHOLD: 0.5,
+};
+
+/**
+ * 言語ごとのパターン集
+ */
+export const SEARCH_PATTERN_PACKS: Record<PatternLanguage, SearchPatternPack> =
+  {
+    ja: JA_PATTERN_PACK,
+    en: EN_PATTERN_PACK,
+  };
+
+/**
+ * テキストの言語を判定する関数
+ *
+ * ひらがな・カタカナを含む場合は日本語、文字の大半がラテン文字の場合は英語と判定します。
+ * どちらでもない場合（文字を含まない場合を含む）は既定の言語（日本語）とします。
+ *
+ * @param text 判定するテキスト
+ * @returns 判定した言語
+ */
+export function detectLanguage(text: string): PatternLanguage {
+  if (/[\u3040-\u30ff]/.test(text)) return "ja";
+
+  // 空白・数字・ASCIIの記号を除いた文字に占めるラテン文字の割合で判定する
+  const letters = text.replace(
+    /[\s\d\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/g,
+    ""
+  );
+  if (letters.length === 0) {
+    return LANGUAGE_DETECTION_SETTINGS.DEFAULT_LANGUAGE;
+  }
+
+  const latinCount = (letters.match(/[A-Za-z]/g) ?? []).length;
+  return latinCount / letters.length >=
+    LANGUAGE_DETECTION_SETTINGS.LATIN_RATIO_THRESHOLD
+    ? "en"
+    : LANGUAGE_DETECTION_SETTINGS.DEFAULT_LANGUAGE;
+}
+
+/**
+ * テキストの言語に応じたパターン集を取得する関数
+ *
+ * @param text 判定するテキスト
+ * @returns パターン集
+ */
+export function getPatternPackForText(text: string): SearchPatternPack {
+  return SEARCH_PATTERN_PACKS[detectLanguage(text)];
+}
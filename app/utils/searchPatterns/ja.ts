@@ -0,0 +1,68 @@
+/**
+ * 日本語の応答用のWeb検索の必要性判定パターン
+ *
+ * @module searchPatterns/ja
+ */
+
+import { NUMERIC_MONTH_YEAR_PATTERNS, toMonthYear } from "./common";
+import { SearchPatternPack } from "./types";
+
+/**
+ * 日本語のパターン集
+ */
+export const JA_PATTERN_PACK: SearchPatternPack = {
+  language: "ja",
+
+  getStrongPatterns: (currentYear) => [
+    /私の(知識|情報|データ)(は|が|では)(.{0,10})(まで|更新|制限)/i,
+    /私が(持っている|アクセスできる)(情報|データ|知識)(は|が)(.{0,10})(まで|古い|限られて)/i,
+    /(\d{4})年(.*?)までの(情報|データ)/i,
+    /最新の(情報|データ|アップデート)(が|は)(ない|あり(ません|ません|ません|ません))/i,
+    /現時点での正確な(情報|データ)(は|が)(わから|把握|確認でき)/i,
+    /私の(トレーニング|学習)(データ|期間)(は|が)(.{0,15})(まで|終了|制限)/i,
+    new RegExp(`${currentYear - 1}年(以前|まで)の(情報|データ)`, "i"),
+    new RegExp(`${currentYear - 2}年(以前|まで)の(情報|データ)`, "i"),
+  ],
+
+  getModeratePatterns: (currentYear) => [
+    /最新の(状況|バージョン|リリース|製品|技術)/i,
+    new RegExp(`${currentYear}年(の|における)`, "i"),
+    new RegExp(`${currentYear - 1}年以降`, "i"),
+    /最近の(傾向|動向|発展|変化)/i,
+    /(現在|今)の(市場|状況|標準|規格)/i,
+    /正確な(情報|データ)を(得る|確認する)には/i,
+    /公式(サイト|ウェブサイト|情報源)で(確認|参照)/i,
+    /最新(情報|アップデート)は(.{0,20})(確認|参照)/i,
+    /より詳細な(情報|データ)は(.{0,20})(検索|確認)/i,
+  ],
+
+  exclusionPatterns: [
+    /詳細な情報をお持ちしています/i,
+    /最新のデータによると/i,
+    /現在の情報では/i,
+    /最新の研究では/i,
+    /最近の調査によれば/i,
+    /私の知識によれば/i,
+    /詳しく説明します/i,
+    /具体的な例を挙げると/i,
+  ],
+
+  yearPattern: /(\d{4})年/g,
+
+  monthYearPatterns: [
+    {
+      pattern: /(\d{4})年(\d{1,2})月/,
+      toMonthYear: (match) => toMonthYear(match[1], match[2]),
+    },
+    ...NUMERIC_MONTH_YEAR_PATTERNS,
+  ],
+
+  timeContextPattern: /(\d{4})年(現在|時点)/,
+
+  recentTermsPattern: /最新|最近|現在|今の/,
+
+  historicalFactPattern:
+    /(発売|設立|創業|創立|開始|発表|公開)(された|した|れた)/,
+
+  shortAnswerPattern: /わかりません|不明|確認できません|把握していません/,
+};
@@ -0,0 +1,83 @@
+/**
+ * Web検索の必要性判定に使用するパターン集の型定義
+ *
+ * このファイルは、AIの応答の言語ごとに判定用のパターンを差し替えられるようにするための
+ * パターン集の共通インターフェースを定義します。
+ *
+ * @module searchPatterns/types
+ */
+
+/**
+ * パターン集を用意している言語
+ */
+export type PatternLanguage = "ja" | "en";
+
+/**
+ * テキスト中の年月
+ */
+export interface MonthYear {
+  /** 年（西暦） */
+  year: number;
+  /** 月（1〜12） */
+  month: number;
+}
+
+/**
+ * 年月の表記を検出するパターン
+ */
+export interface MonthYearPattern {
+  /** 年月の表記に一致する正規表現 */
+  pattern: RegExp;
+  /**
+   * 一致した結果を年月に変換する関数
+   *
+   * @param match 正規表現の一致結果
+   * @returns 年月（年月として解釈できない場合はnull）
+   */
+  toMonthYear: (match: RegExpMatchArray) => MonthYear | null;
+}
+
+/**
+ * 言語ごとのWeb検索の必要性判定用のパターン集
+ */
+export interface SearchPatternPack {
+  /** 対象の言語 */
+  language: PatternLanguage;
+
+  /**
+   * 1つでも一致すれば検索が必要と判断する強いパターンを取得する関数
+   *
+   * @param currentYear 現在の年
+   * @returns 正規表現パターンの配列
+   */
+  getStrongPatterns: (currentYear: number) => RegExp[];
+
+  /**
+   * 一定数以上一致すれば検索が必要と判断する中程度のパターンを取得する関数
+   *
+   * @param currentYear 現在の年
+   * @returns 正規表現パターンの配列
+   */
+  getModeratePatterns: (currentYear: number) => RegExp[];
+
+  /** 強いパターンに一致しない場合に検索不要と判断する除外パターン */
+  exclusionPatterns: RegExp[];
+
+  /** 年の表記（1番目のグループが西暦の年、gフラグ付き） */
+  yearPattern: RegExp;
+
+  /** 年月の表記 */
+  monthYearPatterns: MonthYearPattern[];
+
+  /** 「X年時点」のように時点を示す表記（1番目のグループが西暦の年） */
+  timeContextPattern: RegExp;
+
+  /** 古い年に言及していても検索の必要性を残す、現在や最近を示す語 */
+  recentTermsPattern: RegExp;
+
+  /** 古い年月に言及していても検索不要と判断する、歴史的事実を示す表現 */
+  historicalFactPattern: RegExp;
+
+  /** 短い回答で情報不足を示す表現 */
+  shortAnswerPattern: RegExp;
+}
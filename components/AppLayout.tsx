@@ -3,6 +3,7 @@
  *
  * ドロワーメニューを備えたメインレイアウトを提供します。
  * クライアントコンポーネントとして実装し、ドロワーの状態管理を行います。
+ * 会話スレッドの状態はConversationProviderを通じてドロワーとチャット画面で共有します。
  *
  * @module AppLayout
  */
@@ -10,6 +11,8 @@
 
 import { ReactNode, useState } from "react";
 import Drawer, { DrawerToggleButton } from "@/components/Drawer";
+import ConversationList from "@/components/ConversationList";
+import { ConversationProvider } from "@/hooks/useConversations";
 
 /**
  * ドロワーメニューを備えたアプリケーションレイアウトコンポーネント
@@ -43,17 +46,21 @@ export default function AppLayout({ children }: { children: ReactNode }) {
   };
 
   return (
-    <div className="flex flex-col min-h-screen">
-      {/* ドロワーメニュー */}
-      <Drawer isOpen={isDrawerOpen} onClose={closeDrawer} />
+    <ConversationProvider>
+      <div className="flex flex-col min-h-screen">
+        {/* ドロワーメニュー - 会話スレッド一覧を表示 */}
+        <Drawer isOpen={isDrawerOpen} onClose={closeDrawer}>
+          <ConversationList onSelect={closeDrawer} />
+        </Drawer>
 
-      {/* ドロワー表示ボタン - 左上に固定表示 */}
-      <div className="fixed top-4 left-4 z-30">
-        <DrawerToggleButton onClick={openDrawer} />
-      </div>
+        {/* ドロワー表示ボタン - 左上に固定表示 */}
+        <div className="fixed top-4 left-4 z-30">
+          <DrawerToggleButton onClick={openDrawer} />
+        </div>
 
-      {/* メインコンテンツ */}
-      <main className="flex-grow px-4 sm:px-8">{children}</main>
-    </div>
+        {/* メインコンテンツ */}
+        <main className="flex-grow px-4 sm:px-8">{children}</main>
+      </div>
+    </ConversationProvider>
   );
 }
@@ -0,0 +1,238 @@
+/**
+ * 会話スレッド一覧コンポーネント
+ *
+ * ドロワー内に保存済みの会話スレッドを一覧表示します。
+ * 主な機能:
+ * - 新しい会話の作成
+ * - 会話の切り替え（選択中の会話を強調表示）
+ * - 会話の名前変更（インライン編集）
+ * - 会話の削除
+ *
+ * @module ConversationList
+ */
+"use client";
+
+import { FC, KeyboardEvent, useState } from "react";
+import { useConversations } from "@/hooks/useConversations";
+
+interface ConversationListProps {
+  /** 会話を選択・作成した後に呼ばれる関数（ドロワーを閉じる用途など） */
+  onSelect?: () => void;
+}
+
+/**
+ * UI表示用の定数
+ */
+const UI_STRINGS = {
+  /**
+   * セクションの見出し
+   */
+  SECTION_LABEL: "会話履歴",
+
+  /**
+   * 新しい会話ボタンのラベル
+   */
+  NEW_CONVERSATION: "新しい会話",
+
+  /**
+   * 名前変更ボタンのアクセシビリティラベル
+   */
+  RENAME_LABEL: (title: string) => `「${title}」の名前を変更`,
+
+  /**
+   * 削除ボタンのアクセシビリティラベル
+   */
+  DELETE_LABEL: (title: string) => `「${title}」を削除`,
+
+  /**
+   * 名前変更入力欄のアクセシビリティラベル
+   */
+  RENAME_INPUT_LABEL: "会話の名前",
+
+  /**
+   * 削除確認メッセージ
+   */
+  DELETE_CONFIRM: (title: string) =>
+    `「${title}」を削除しますか？この操作は取り消せません。`,
+};
+
+/**
+ * 会話スレッド一覧コンポーネント
+ *
+ * @param onSelect 会話を選択・作成した後に呼ばれる関数
+ */
+const ConversationList: FC<ConversationListProps> = ({ onSelect }) => {
+  const {
+    conversations,
+    activeConversationId,
+    createConversation,
+    renameConversation,
+    deleteConversation,
+    switchConversation,
+  } = useConversations();
+
+  // 名前変更中の会話IDと入力中のタイトル
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  /**
+   * 新しい会話を作成する
+   */
+  const handleCreate = () => {
+    createConversation();
+    onSelect?.();
+  };
+
+  /**
+   * 会話を選択する
+   *
+   * @param id 選択する会話ID
+   */
+  const handleSelect = (id: string) => {
+    switchConversation(id);
+    onSelect?.();
+  };
+
+  /**
+   * 名前変更を開始する
+   *
+   * @param id 対象の会話ID
+   * @param title 現在のタイトル
+   */
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setEditingTitle(title);
+  };
+
+  /**
+   * 名前変更を確定する
+   */
+  const commitRename = () => {
+    if (editingId) {
+      renameConversation(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * 名前変更入力欄のキーダウンハンドラ
+   * Enterで確定、Escapeで取り消します
+   *
+   * @param e キーボードイベント
+   */
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === "Escape") {
+      setEditingId(null);
+    }
+  };
+
+  /**
+   * 確認のうえで会話を削除する
+   *
+   * @param id 削除する会話ID
+   * @param title 会話のタイトル
+   */
+  const handleDelete = (id: string, title: string) => {
+    if (window.confirm(UI_STRINGS.DELETE_CONFIRM(title))) {
+      deleteConversation(id);
+    }
+  };
+
+  return (
+    <nav aria-label={UI_STRINGS.SECTION_LABEL}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium">{UI_STRINGS.SECTION_LABEL}</span>
+        <button
+          onClick={handleCreate}
+          className="text-sm px-2 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {UI_STRINGS.NEW_CONVERSATION}
+        </button>
+      </div>
+      <ul className="space-y-1 max-h-[60vh] overflow-y-auto">
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeConversationId;
+
+          return (
+            <li
+              key={conversation.id}
+              className={`group flex items-center rounded-md ${
+                isActive
+                  ? "bg-blue-100 dark:bg-blue-900"
+                  : "hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={commitRename}
+                  className="flex-1 min-w-0 text-sm px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  aria-label={UI_STRINGS.RENAME_INPUT_LABEL}
+                  autoFocus
+                />
+              ) : (
+                <button
+                  onClick={() => handleSelect(conversation.id)}
+                  className="flex-1 min-w-0 text-left text-sm px-2 py-2 truncate"
+                  aria-current={isActive ? "true" : undefined}
+                  title={conversation.title}
+                >
+                  {conversation.title}
+                </button>
+              )}
+              <button
+                onClick={() =>
+                  startRename(conversation.id, conversation.title)
+                }
+                className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                aria-label={UI_STRINGS.RENAME_LABEL(conversation.title)}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z"
+                  />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDelete(conversation.id, conversation.title)}
+                className="p-1 mr-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                aria-label={UI_STRINGS.DELETE_LABEL(conversation.title)}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="h-4 w-4"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6M9 7V4a1 1 0 011-1h4a1 1 0 011 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+};
+
+export default ConversationList;
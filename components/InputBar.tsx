@@ -9,13 +9,15 @@
  * - エンターキーによる送信（Shift+Enterによる改行対応）
  * - IME入力のハンドリング（日本語等の入力中は送信しない）
  * - LLMモデル選択機能
+ * - 応答生成中の停止ボタン
+ * - レート制限による待機中の送信の無効化と残り時間の表示
  *
  * @module InputBar
  */
 "use client";
 
 import { useState, FC, ChangeEvent, KeyboardEvent } from "react";
-import { OpenAIModel } from "@/types/model";
+import { ModelCatalogEntry, ModelId } from "@/types/model";
 import ModelSelector from "@/components/ModelSelector";
 import DOMPurify from "dompurify";
 
@@ -23,8 +25,16 @@ interface InputBarProps {
   input: string;
   setInput: (value: string) => void;
   handleSend: () => void;
-  selectedModel: OpenAIModel;
-  onModelChange: (model: OpenAIModel) => void;
+  selectedModel: ModelId;
+  /** サーバーのモデルカタログのモデル一覧 */
+  models: ModelCatalogEntry[];
+  onModelChange: (model: ModelId) => void;
+  /** 応答を生成中かどうか（生成中は送信ボタンの代わりに停止ボタンを表示） */
+  isGenerating?: boolean;
+  /** 応答の生成を停止する関数 */
+  onStop?: () => void;
+  /** レート制限により送信できるようになるまでの残り秒数（0の場合は待機なし） */
+  cooldownSeconds?: number;
 }
 
 /**
@@ -56,6 +66,22 @@ const INPUT_CONSTANTS = {
    * 送信ボタンのアクセシビリティラベル
    */
   SUBMIT_ARIA_LABEL: "送信",
+
+  /**
+   * 停止ボタンのラベル
+   */
+  STOP_BUTTON_LABEL: "停止",
+
+  /**
+   * 停止ボタンのアクセシビリティラベル
+   */
+  STOP_ARIA_LABEL: "応答の生成を停止",
+
+  /**
+   * レート制限による待機中に表示するメッセージ
+   */
+  COOLDOWN_MESSAGE: (seconds: number) =>
+    `リクエスト回数の制限に達しました。あと${seconds}秒で送信できます`,
 };
 
 /**
@@ -85,11 +111,18 @@ const InputBar: FC<InputBarProps> = ({
   setInput,
   handleSend,
   selectedModel,
+  models,
   onModelChange,
+  isGenerating = false,
+  onStop,
+  cooldownSeconds = 0,
 }) => {
   // IME入力中かどうかの状態（日本語などの入力中にEnterで確定できるようにするため）
   const [isComposing, setIsComposing] = useState(false);
 
+  // レート制限による待機中かどうか
+  const isCoolingDown = cooldownSeconds > 0;
+
   /**
    * テキストエリアの変更イベントハンドラ
    *
@@ -111,6 +144,7 @@ const InputBar: FC<InputBarProps> = ({
    *
    * エンターキーで送信、Shift+Enterで改行を行います
    * IME入力中（isComposing=true）の場合は送信せず、確定処理を優先します
+   * レート制限による待機中は送信しません
    *
    * @param e キーボードイベント
    */
@@ -118,7 +152,7 @@ const InputBar: FC<InputBarProps> = ({
     try {
       if (e.key === "Enter" && !isComposing && !e.shiftKey) {
         e.preventDefault();
-        handleSend();
+        if (!isCoolingDown) handleSend();
       }
     } catch (error) {
       console.error("キー入力処理中にエラーが発生しました:", error);
@@ -152,7 +186,7 @@ const InputBar: FC<InputBarProps> = ({
   /**
    * 送信ボタンが無効かどうかを判定
    */
-  const isSubmitDisabled = !input.trim();
+  const isSubmitDisabled = !input.trim() || isCoolingDown;
 
   return (
     <div className="fixed bottom-0 left-0 w-full p-4 bg-white dark:bg-gray-800 shadow-inner border-t border-gray-200 dark:border-gray-700 transition-colors duration-200">
@@ -160,6 +194,7 @@ const InputBar: FC<InputBarProps> = ({
         <div className="flex justify-end mb-2 mr-20">
           <ModelSelector
             selectedModel={selectedModel}
+            models={models}
             onChange={onModelChange}
           />
         </div>
@@ -175,19 +210,37 @@ const InputBar: FC<InputBarProps> = ({
             aria-label={INPUT_CONSTANTS.ARIA_LABEL}
             maxLength={INPUT_CONSTANTS.MAX_LENGTH}
           />
-          <button
-            onClick={handleSend}
-            disabled={isSubmitDisabled}
-            className={`ml-4 p-3 rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-transform transform active:scale-95 ${
-              isSubmitDisabled
-                ? "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed"
-                : "bg-blue-500 text-white hover:bg-blue-600"
-            }`}
-            aria-label={INPUT_CONSTANTS.SUBMIT_ARIA_LABEL}
-          >
-            {INPUT_CONSTANTS.SUBMIT_BUTTON_LABEL}
-          </button>
+          {isGenerating ? (
+            <button
+              onClick={onStop}
+              className="ml-4 p-3 rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-red-500 transition-transform transform active:scale-95 bg-red-500 text-white hover:bg-red-600"
+              aria-label={INPUT_CONSTANTS.STOP_ARIA_LABEL}
+            >
+              {INPUT_CONSTANTS.STOP_BUTTON_LABEL}
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isSubmitDisabled}
+              className={`ml-4 p-3 rounded-full shadow-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition-transform transform active:scale-95 ${
+                isSubmitDisabled
+                  ? "bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed"
+                  : "bg-blue-500 text-white hover:bg-blue-600"
+              }`}
+              aria-label={INPUT_CONSTANTS.SUBMIT_ARIA_LABEL}
+            >
+              {INPUT_CONSTANTS.SUBMIT_BUTTON_LABEL}
+            </button>
+          )}
         </div>
+        {isCoolingDown && (
+          <p
+            role="status"
+            className="mt-2 text-sm text-red-600 dark:text-red-400"
+          >
+            {INPUT_CONSTANTS.COOLDOWN_MESSAGE(cooldownSeconds)}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -6,9 +6,11 @@
  * - ユーザーとボットのメッセージの視覚的区別
  * - 新しいメッセージが追加された際の自動スクロール
  * - ローディング状態のアニメーション表示
+ * - ストリーミング中の応答への自動追従
  * - MarkdownコンテンツのHTMLレンダリング
  * - Web検索結果の表示（拡張機能）
  * - メッセージのクリップボードへのコピー
+ * - 最新の応答の再生成とバージョンの切り替え、ユーザーのメッセージの編集・再送信
  *
  * @module MessageList
  */
@@ -17,9 +19,18 @@
 import { useEffect, useRef, FC, useMemo } from "react";
 import { Message } from "@/types/message";
 import { MessageBubble } from "@/components/message/MessageBubble";
+import { findRegenerableIndex } from "@/utils/messageVersions";
 
 interface MessageListProps {
   messages: Message[];
+  /** 応答を生成中かどうか（生成中は再生成・編集を受け付けない） */
+  isGenerating?: boolean;
+  /** 指定した応答を再生成する関数 */
+  onRegenerate?: (messageId: string) => void;
+  /** 指定したユーザーメッセージを編集して再送信する関数 */
+  onEdit?: (messageId: string, text: string) => void;
+  /** 指定した応答の表示するバージョンを切り替える関数 */
+  onSelectVersion?: (messageId: string, versionIndex: number) => void;
 }
 
 /**
@@ -38,8 +49,18 @@ export const COPY_FEEDBACK_DURATION_MS = 2000;
  * メッセージの表示やスクロール処理などを管理する中心的なコンポーネント
  *
  * @param messages 表示するメッセージの配列
+ * @param isGenerating 応答を生成中かどうか
+ * @param onRegenerate 応答を再生成する関数
+ * @param onEdit ユーザーメッセージを編集して再送信する関数
+ * @param onSelectVersion 応答のバージョンを切り替える関数
  */
-const MessageList: FC<MessageListProps> = ({ messages }) => {
+const MessageList: FC<MessageListProps> = ({
+  messages,
+  isGenerating = false,
+  onRegenerate,
+  onEdit,
+  onSelectVersion,
+}) => {
   // メッセージリストの最下部への参照
   const messagesEndRef = useRef<HTMLDivElement>(null);
   // メッセージコンテナへの参照（スクロール用）
@@ -100,9 +121,11 @@ const MessageList: FC<MessageListProps> = ({ messages }) => {
     try {
       const prevMessagesLength = prevMessagesLengthRef.current;
       const newMessageAdded = messages.length > prevMessagesLength;
+      // ストリーミング中は応答が伸びるたびに追従する
+      const isStreaming = messages[messages.length - 1]?.isStreaming === true;
 
-      // 新しいメッセージが追加された時だけ自動スクロール
-      if (newMessageAdded) {
+      // 新しいメッセージが追加された時とストリーミング中だけ自動スクロール
+      if (newMessageAdded || isStreaming) {
         // レンダリングサイクル後に少し遅延してスクロール実行（描画完了を待つため）
         requestAnimationFrame(() => {
           setTimeout(scrollToBottom, 50);
@@ -117,10 +140,17 @@ const MessageList: FC<MessageListProps> = ({ messages }) => {
 
   // useMemoを使用して不要な再計算を避ける
   const messageElements = useMemo(() => {
+    // 再生成できるのは最新の応答のみ（生成中は再生成・編集を受け付けない）
+    const regenerableIndex = isGenerating ? -1 : findRegenerableIndex(messages);
+
     return messages.map((message, index) => {
       // コピーボタンを表示すべきかどうかを判断
       const showCopyButton = (() => {
-        if (message.isLoading || message.sender !== "bot") {
+        if (
+          message.isLoading ||
+          message.isStreaming ||
+          message.sender !== "bot"
+        ) {
           return false;
         }
 
@@ -138,11 +168,29 @@ const MessageList: FC<MessageListProps> = ({ messages }) => {
             message.sender === "bot" ? "flex justify-start" : "flex justify-end"
           }`}
         >
-          <MessageBubble message={message} showCopyButton={showCopyButton} />
+          <MessageBubble
+            message={message}
+            showCopyButton={showCopyButton}
+            onRegenerate={
+              onRegenerate && index === regenerableIndex
+                ? () => onRegenerate(message.id)
+                : undefined
+            }
+            onEdit={
+              onEdit && !isGenerating && message.sender === "user"
+                ? (text) => onEdit(message.id, text)
+                : undefined
+            }
+            onSelectVersion={
+              onSelectVersion && !isGenerating
+                ? (versionIndex) => onSelectVersion(message.id, versionIndex)
+                : undefined
+            }
+          />
         </div>
       );
     });
-  }, [messages]);
+  }, [messages, isGenerating, onRegenerate, onEdit, onSelectVersion]);
 
   return (
     <div className="relative flex-1 w-full flex flex-col">
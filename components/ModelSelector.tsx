@@ -2,6 +2,8 @@
  * モデル選択コンポーネント
  *
  * ユーザーがLLMモデルを選択するためのドロップダウンメニューを提供します。
+ * モデルの一覧はサーバーのモデルカタログ（GET /api/models）から取得したものを表示し、
+ * 現在のサーバー設定で選択できないモデルは無効化して表示します。
  * 選択されたモデルはローカルストレージに保存され、ページをリロードしても維持されます。
  *
  * @module ModelSelector
@@ -9,15 +11,13 @@
 "use client";
 
 import { FC, ChangeEvent } from "react";
-import {
-  AVAILABLE_MODELS,
-  MODEL_DISPLAY_NAMES,
-  OpenAIModel,
-} from "@/types/model";
+import { getModelDisplayName, ModelCatalogEntry, ModelId } from "@/types/model";
 
 interface ModelSelectorProps {
-  selectedModel: OpenAIModel;
-  onChange: (model: OpenAIModel) => void;
+  selectedModel: ModelId;
+  /** サーバーのモデルカタログのモデル一覧 */
+  models: ModelCatalogEntry[];
+  onChange: (model: ModelId) => void;
 }
 
 /**
@@ -33,6 +33,11 @@ const UI_STRINGS = {
    * アクセシビリティラベル
    */
   ARIA_LABEL: "AIモデルを選択",
+
+  /**
+   * 選択できないモデルの表示名に付与する文字列
+   */
+  DISABLED_SUFFIX: "（利用不可）",
 };
 
 /**
@@ -41,16 +46,26 @@ const UI_STRINGS = {
  * 利用可能なLLMモデルを選択するためのUIを提供します
  *
  * @param selectedModel 現在選択されているモデル
+ * @param models サーバーのモデルカタログのモデル一覧
  * @param onChange モデル変更時のコールバック関数
  */
-const ModelSelector: FC<ModelSelectorProps> = ({ selectedModel, onChange }) => {
+const ModelSelector: FC<ModelSelectorProps> = ({
+  selectedModel,
+  models,
+  onChange,
+}) => {
+  // 選択中のモデルが一覧にない場合（モデル一覧の取得前・取得失敗時）も表示できるようにする
+  const isSelectedModelListed = models.some(
+    (model) => model.id === selectedModel
+  );
+
   /**
    * ドロップダウン選択変更ハンドラ
    *
    * @param e 選択変更イベント
    */
   const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
-    const newModel = e.target.value as OpenAIModel;
+    const newModel = e.target.value;
     onChange(newModel);
   };
 
@@ -69,9 +84,16 @@ const ModelSelector: FC<ModelSelectorProps> = ({ selectedModel, onChange }) => {
         className="text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
         aria-label={UI_STRINGS.ARIA_LABEL}
       >
-        {AVAILABLE_MODELS.map((model) => (
-          <option key={model} value={model}>
-            {MODEL_DISPLAY_NAMES[model]}
+        {!isSelectedModelListed && (
+          <option value={selectedModel}>
+            {getModelDisplayName(selectedModel)}
+          </option>
+        )}
+        {models.map((model) => (
+          <option key={model.id} value={model.id} disabled={!model.enabled}>
+            {model.enabled
+              ? model.displayName
+              : `${model.displayName}${UI_STRINGS.DISABLED_SUFFIX}`}
           </option>
         ))}
       </select>
@@ -2,23 +2,72 @@
  * メッセージバブル表示コンポーネント
  *
  * ユーザー/ボットのメッセージに応じた適切なスタイルでバブルを表示します
+ * ボットの応答には再生成ボタンとバージョンの切り替え、使用したトークン数と推定コスト、
+ * ユーザーのメッセージには編集ボタン（編集して再送信）を表示します
  */
-import { FC } from "react";
+import { FC, useState } from "react";
 import { Message } from "@/types/message";
 import { MessageContent } from "@/components/message/MessageContent";
 import { CopyButton } from "@/components/message/CopyButton";
+import { MessageEditor } from "@/components/message/MessageEditor";
+import { VersionPager } from "@/components/message/VersionPager";
+import { UsageLabel } from "@/components/message/UsageLabel";
+import { getVersionCount } from "@/utils/messageVersions";
 
 interface MessageBubbleProps {
   message: Message;
   showCopyButton: boolean;
+  /** 応答を再生成する関数（指定した場合のみ再生成ボタンを表示） */
+  onRegenerate?: () => void;
+  /** 編集したメッセージを再送信する関数（指定した場合のみ編集ボタンを表示） */
+  onEdit?: (text: string) => void;
+  /** 表示する応答のバージョンを切り替える関数（指定しない場合は切り替え不可） */
+  onSelectVersion?: (versionIndex: number) => void;
 }
 
+/**
+ * UI表示用の定数
+ */
+const UI_STRINGS = {
+  /**
+   * 再生成ボタンのアクセシビリティラベル
+   */
+  REGENERATE_LABEL: "応答を再生成",
+
+  /**
+   * 編集ボタンのアクセシビリティラベル
+   */
+  EDIT_LABEL: "メッセージを編集して再送信",
+};
+
+/**
+ * アクションボタンのスタイル
+ */
+const ACTION_BUTTON_CLASS =
+  "p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 flex items-center justify-center";
+
 export const MessageBubble: FC<MessageBubbleProps> = ({
   message,
   showCopyButton,
+  onRegenerate,
+  onEdit,
+  onSelectVersion,
 }) => {
   // ボットからのメッセージかどうかを判定
   const isBotMessage = message.sender === "bot";
+  // 編集中かどうか
+  const [isEditing, setIsEditing] = useState(false);
+  const versionCount = getVersionCount(message);
+
+  /**
+   * 編集したメッセージを再送信する
+   *
+   * @param text 編集後のテキスト
+   */
+  const handleEditSubmit = (text: string) => {
+    setIsEditing(false);
+    onEdit?.(text);
+  };
 
   return (
     <div className="flex flex-col">
@@ -29,9 +78,74 @@ export const MessageBubble: FC<MessageBubbleProps> = ({
             : "sm:max-w-md md:max-w-lg lg:max-w-xl p-4 rounded-xl shadow-lg transition-transform bg-gray-300 dark:bg-gray-600 text-black dark:text-white"
         } ${message.isMarkdown ? "" : "whitespace-pre-wrap"} hover:shadow-md`}
       >
-        <MessageContent message={message} />
+        {isEditing ? (
+          <MessageEditor
+            initialText={message.text}
+            onSubmit={handleEditSubmit}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <MessageContent message={message} />
+        )}
       </div>
-      <div className="self-end mt-1">
+      <div className="self-end mt-1 flex items-center gap-1">
+        {isBotMessage && message.usage && !message.isStreaming && (
+          <UsageLabel usage={message.usage} />
+        )}
+        {onSelectVersion && versionCount > 1 && (
+          <VersionPager
+            versionIndex={message.versionIndex ?? 0}
+            versionCount={versionCount}
+            model={message.model}
+            onSelect={onSelectVersion}
+          />
+        )}
+        {onEdit && !isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className={ACTION_BUTTON_CLASS}
+            aria-label={UI_STRINGS.EDIT_LABEL}
+            title={UI_STRINGS.EDIT_LABEL}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M12 20h9"></path>
+              <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+            </svg>
+          </button>
+        )}
+        {onRegenerate && (
+          <button
+            onClick={onRegenerate}
+            className={ACTION_BUTTON_CLASS}
+            aria-label={UI_STRINGS.REGENERATE_LABEL}
+            title={UI_STRINGS.REGENERATE_LABEL}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <polyline points="23 4 23 10 17 10"></polyline>
+              <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path>
+            </svg>
+          </button>
+        )}
         {showCopyButton && <CopyButton text={message.text} />}
       </div>
     </div>
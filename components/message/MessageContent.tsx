@@ -1,24 +1,37 @@
 /**
  * メッセージ内容表示コンポーネント
  *
- * メッセージの種類（通常/ローディング）や形式（マークダウン/プレーンテキスト）に応じて
+ * メッセージの種類（通常/ローディング/ストリーミング中）や形式（マークダウン/プレーンテキスト）に応じて
  * 適切なレンダリング方法を選択します
+ * 検索結果付きのメッセージでは、本文の引用番号から対応する検索結果へリンクします
+ * ユーザーが生成を停止したメッセージには、途中までの応答であることを表示します
  */
 import { FC } from "react";
 import { Message } from "@/types/message";
 import { LoadingIndicator } from "@/components/message/LoadingIndicator";
-import { SearchResultsDisplay } from "@/components/message/SearchResultsDisplay";
+import {
+  SearchResultsDisplay,
+  scopeCitationLinks,
+} from "@/components/message/SearchResultsDisplay";
 
 interface MessageContentProps {
   message: Message;
 }
 
+/**
+ * 生成を停止したメッセージに表示する文言
+ */
+const STOPPED_LABEL = "応答の生成を停止しました";
+
 export const MessageContent: FC<MessageContentProps> = ({ message }) => {
   // ローディング中の場合はローディングインジケーターを表示
   if (message.isLoading) {
     return <LoadingIndicator />;
   }
 
+  const hasSearchResults =
+    !!message.searchResults && message.searchResults.length > 0;
+
   return (
     <>
       <div>
@@ -26,15 +39,40 @@ export const MessageContent: FC<MessageContentProps> = ({ message }) => {
         {message.isMarkdown && message.html ? (
           <div
             className="markdown-content"
-            dangerouslySetInnerHTML={{ __html: message.html }}
+            dangerouslySetInnerHTML={{
+              __html: hasSearchResults
+                ? scopeCitationLinks(message.html, message.id)
+                : message.html,
+            }}
           />
         ) : (
-          <div>{message.text}</div>
+          <div>
+            {message.text}
+            {/* ストリーミング中は入力中を示すカーソルを表示 */}
+            {message.isStreaming && (
+              <span
+                className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-800 dark:bg-gray-200 animate-pulse"
+                data-testid="streaming-cursor"
+                aria-hidden="true"
+              />
+            )}
+          </div>
+        )}
+
+        {/* 生成を停止した場合は途中までの応答であることを表示 */}
+        {message.isStopped && (
+          <p className="text-xs mt-2 opacity-70">{STOPPED_LABEL}</p>
         )}
 
         {/* 検索結果がある場合は表示 */}
         {message.searchResults && message.searchResults.length > 0 && (
-          <SearchResultsDisplay results={message.searchResults} />
+          <SearchResultsDisplay
+            results={message.searchResults}
+            keywords={message.searchKeywords}
+            reason={message.searchDecision?.reason}
+            anchorIdPrefix={message.id}
+            unusedSources={message.unusedSources}
+          />
         )}
       </div>
     </>
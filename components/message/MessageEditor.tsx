@@ -0,0 +1,97 @@
+/**
+ * メッセージ編集コンポーネント
+ *
+ * 送信済みのユーザーメッセージをバブル内で編集し、再送信するための入力欄を表示します
+ * Ctrl+Enter（MacではCmd+Enter）で送信、Escapeで編集を取り消します
+ */
+import { FC, KeyboardEvent, useState } from "react";
+
+interface MessageEditorProps {
+  /** 編集前のテキスト */
+  initialText: string;
+  /** 編集後のテキストを送信する関数 */
+  onSubmit: (text: string) => void;
+  /** 編集を取り消す関数 */
+  onCancel: () => void;
+}
+
+/**
+ * UI表示用の定数
+ */
+const UI_STRINGS = {
+  /**
+   * 入力欄のアクセシビリティラベル
+   */
+  INPUT_LABEL: "メッセージを編集",
+
+  /**
+   * 送信ボタンのラベル
+   */
+  SUBMIT: "送信",
+
+  /**
+   * キャンセルボタンのラベル
+   */
+  CANCEL: "キャンセル",
+};
+
+export const MessageEditor: FC<MessageEditorProps> = ({
+  initialText,
+  onSubmit,
+  onCancel,
+}) => {
+  const [text, setText] = useState(initialText);
+  const canSubmit = text.trim() !== "";
+
+  /**
+   * 編集内容を送信する
+   */
+  const handleSubmit = () => {
+    if (canSubmit) {
+      onSubmit(text);
+    }
+  };
+
+  /**
+   * 入力欄のキーダウンハンドラ
+   *
+   * @param e キーボードイベント
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "Escape") {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={3}
+        className="w-full min-w-[16rem] border border-gray-300 dark:border-gray-600 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+        aria-label={UI_STRINGS.INPUT_LABEL}
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="text-sm px-3 py-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          {UI_STRINGS.CANCEL}
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="text-sm px-3 py-1 rounded-md bg-blue-500 text-white hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {UI_STRINGS.SUBMIT}
+        </button>
+      </div>
+    </div>
+  );
+};
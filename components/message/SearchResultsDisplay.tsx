@@ -3,40 +3,119 @@
  *
  * AIが外部情報を使用した場合に、参照した検索結果を表示します
  * 各検索結果はクリック可能なリンクとして表示されます
+ * 検索キーワードやWeb検索を行った理由が指定された場合は見出しの下に表示します
+ * 各検索結果には本文の引用番号（[1]など）からリンクできるよう番号とアンカーIDを付与し、
+ * 本文で引用されなかった検索結果は控えめに表示します
  */
 import { FC } from "react";
 import { SearchResult } from "@/types/message";
 
+/**
+ * 情報源へのアンカーIDの接頭辞（サーバー側の定義と一致させる）
+ */
+const SOURCE_ANCHOR_PREFIX = "source-";
+
 interface SearchResultsDisplayProps {
   results: SearchResult[];
+  /** 検索に使用したキーワード */
+  keywords?: string;
+  /** Web検索による情報の補完が必要と判断した理由 */
+  reason?: string;
+  /** アンカーIDを一意にするための接頭辞（メッセージIDなど） */
+  anchorIdPrefix?: string;
+  /** 本文で引用されなかった検索結果の番号（1始まり） */
+  unusedSources?: number[];
+}
+
+/**
+ * 情報源のアンカーIDを生成する関数
+ *
+ * @param anchorIdPrefix アンカーIDを一意にするための接頭辞
+ * @param sourceNumber 情報源の番号（1始まり）
+ * @returns アンカーID
+ */
+export function getSourceAnchorId(
+  anchorIdPrefix: string,
+  sourceNumber: number
+): string {
+  return `${anchorIdPrefix}-${SOURCE_ANCHOR_PREFIX}${sourceNumber}`;
+}
+
+/**
+ * HTML内の引用リンクのリンク先を、メッセージごとに一意なアンカーIDに変換する関数
+ * 同じ画面に複数の検索結果付きメッセージがあっても正しい情報源に移動できるようにします
+ *
+ * @param html サーバーで生成されたHTML
+ * @param anchorIdPrefix アンカーIDを一意にするための接頭辞
+ * @returns リンク先を変換したHTML
+ */
+export function scopeCitationLinks(
+  html: string,
+  anchorIdPrefix: string
+): string {
+  return html.replace(
+    new RegExp(`href="#${SOURCE_ANCHOR_PREFIX}(\\d+)"`, "g"),
+    (_, sourceNumber: string) =>
+      `href="#${getSourceAnchorId(anchorIdPrefix, Number(sourceNumber))}"`
+  );
 }
 
 export const SearchResultsDisplay: FC<SearchResultsDisplayProps> = ({
   results,
+  keywords,
+  reason,
+  anchorIdPrefix,
+  unusedSources = [],
 }) => {
   if (!results || results.length === 0) return null;
 
   return (
     <div className="mt-3 border-t pt-3 border-gray-300 dark:border-gray-500">
       <h4 className="font-semibold mb-2">Web検索結果:</h4>
+      {keywords && (
+        <p className="text-xs opacity-70 mb-2">検索キーワード: {keywords}</p>
+      )}
+      {reason && (
+        <p className="text-xs opacity-70 mb-2">検索した理由: {reason}</p>
+      )}
       <div className="space-y-3">
-        {results.map((result, idx) => (
-          <div
-            key={idx}
-            className="hover:bg-gray-100 dark:hover:bg-gray-700 p-2 rounded transition-colors"
-          >
-            <a
-              href={result.url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="block"
+        {results.map((result, idx) => {
+          const sourceNumber = idx + 1;
+          const isUnused = unusedSources.includes(sourceNumber);
+
+          return (
+            <div
+              key={idx}
+              id={
+                anchorIdPrefix
+                  ? getSourceAnchorId(anchorIdPrefix, sourceNumber)
+                  : undefined
+              }
+              className={`hover:bg-gray-100 dark:hover:bg-gray-700 p-2 rounded transition-colors target:ring-2 target:ring-blue-500 ${
+                isUnused ? "opacity-60" : ""
+              }`}
             >
-              <h5 className="text-sm font-bold underline">{result.title}</h5>
-              <p className="text-xs opacity-90">{result.description}</p>
-              <p className="text-xs italic mt-1 opacity-70">{result.url}</p>
-            </a>
-          </div>
-        ))}
+              <a
+                href={result.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block"
+              >
+                <h5 className="text-sm font-bold underline">
+                  <span className="mr-1">[{sourceNumber}]</span>
+                  {result.title}
+                </h5>
+                <p className="text-xs opacity-90">{result.description}</p>
+                <p className="text-xs italic mt-1 opacity-70">{result.url}</p>
+              </a>
+              {isUnused && (
+                <p className="text-xs mt-1 opacity-70">
+                  本文では引用されていません
+                </p>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+/**
+ * トークン使用量の表示コンポーネント
+ *
+ * 応答の生成に使用したトークン数の合計と推定コストを控えめに表示します
+ * 入力・出力のトークン数の内訳はツールチップで表示します
+ */
+import { FC } from "react";
+import { MessageUsage } from "@/types/message";
+
+interface UsageLabelProps {
+  /** 応答の生成に使用したトークン数と推定コスト */
+  usage: MessageUsage;
+}
+
+/**
+ * 推定コストの表示の最小単位（米ドル）
+ */
+const MIN_DISPLAY_COST = 0.0001;
+
+/**
+ * UI表示用の定数
+ */
+const UI_STRINGS = {
+  /**
+   * トークン数の表示
+   */
+  TOKENS: (tokens: number) => `${tokens.toLocaleString("ja-JP")} トークン`,
+
+  /**
+   * 推定コストの表示（最小単位未満の場合は「<$0.0001」と表示）
+   */
+  COST: (cost: number) =>
+    cost > 0 && cost < MIN_DISPLAY_COST
+      ? `<$${MIN_DISPLAY_COST}`
+      : `約$${cost.toFixed(4)}`,
+
+  /**
+   * 入力・出力のトークン数の内訳（ツールチップ）
+   */
+  BREAKDOWN: (usage: MessageUsage) =>
+    `入力 ${usage.promptTokens.toLocaleString(
+      "ja-JP"
+    )} / 出力 ${usage.completionTokens.toLocaleString("ja-JP")} トークン`,
+};
+
+export const UsageLabel: FC<UsageLabelProps> = ({ usage }) => {
+  return (
+    <span
+      className="px-1 text-xs text-gray-400 dark:text-gray-500"
+      title={UI_STRINGS.BREAKDOWN(usage)}
+    >
+      {UI_STRINGS.TOKENS(usage.totalTokens)}
+      {usage.estimatedCostUsd !== null &&
+        ` · ${UI_STRINGS.COST(usage.estimatedCostUsd)}`}
+    </span>
+  );
+};
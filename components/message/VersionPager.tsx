@@ -0,0 +1,73 @@
+/**
+ * 応答のバージョン切り替えコンポーネント
+ *
+ * 再生成した応答の前後のバージョンに切り替えるボタンと、
+ * 表示中のバージョンの番号（例: 2 / 3）を表示します
+ * 応答を生成したモデルが記録されている場合はモデルの表示名もあわせて表示します
+ */
+import { FC } from "react";
+import { ModelId, getModelDisplayName } from "@/types/model";
+
+interface VersionPagerProps {
+  /** 表示中のバージョンの番号（0始まり） */
+  versionIndex: number;
+  /** バージョン数 */
+  versionCount: number;
+  /** 表示中のバージョンを生成したモデル */
+  model?: ModelId;
+  /** バージョンを切り替える関数 */
+  onSelect: (versionIndex: number) => void;
+}
+
+/**
+ * UI表示用の定数
+ */
+const UI_STRINGS = {
+  /**
+   * 前のバージョンボタンのアクセシビリティラベル
+   */
+  PREVIOUS_LABEL: "前の応答を表示",
+
+  /**
+   * 次のバージョンボタンのアクセシビリティラベル
+   */
+  NEXT_LABEL: "次の応答を表示",
+};
+
+/**
+ * 切り替えボタンのスタイル
+ */
+const BUTTON_CLASS =
+  "px-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+export const VersionPager: FC<VersionPagerProps> = ({
+  versionIndex,
+  versionCount,
+  model,
+  onSelect,
+}) => {
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+      <button
+        onClick={() => onSelect(versionIndex - 1)}
+        disabled={versionIndex <= 0}
+        className={BUTTON_CLASS}
+        aria-label={UI_STRINGS.PREVIOUS_LABEL}
+      >
+        ‹
+      </button>
+      <span>
+        {versionIndex + 1} / {versionCount}
+      </span>
+      <button
+        onClick={() => onSelect(versionIndex + 1)}
+        disabled={versionIndex >= versionCount - 1}
+        className={BUTTON_CLASS}
+        aria-label={UI_STRINGS.NEXT_LABEL}
+      >
+        ›
+      </button>
+      {model && <span className="ml-1">{getModelDisplayName(model)}</span>}
+    </div>
+  );
+};
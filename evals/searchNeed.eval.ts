@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * Web検索の必要性判定の評価の実行
+ *
+ * `npm run eval:search`で実行し、コーパスに対する判定方式ごとの評価結果を出力します。
+ * 評価結果が回帰テストの閾値（SEARCH_EVAL_SETTINGS.THRESHOLDS）を下回った場合は失敗します。
+ * 別のコーパスを評価する場合は、環境変数 SEARCH_EVAL_CORPUS_PATH でパスを指定します。
+ * SEARCH_EVAL_LLM=on の場合は、LLM APIを呼び出す判定方式（llm / hybrid）も評価します。
+ *
+ * @module evals/searchNeed
+ */
+import { createRequestContext } from "@/app/utils/openai/requestContext";
+import {
+  createConfiguredSearchEvalStrategies,
+  evaluateSearchNeedStrategy,
+  findThresholdViolations,
+  formatSearchEvalReport,
+  loadSearchNeedCorpus,
+  SEARCH_EVAL_SETTINGS,
+} from "@/app/utils/openai/searchEval";
+import { DEFAULT_MODEL } from "@/types/model";
+
+/**
+ * 判定方式ごとの評価のタイムアウト時間（ミリ秒、LLM APIの呼び出しを含むため長めにする）
+ */
+const EVAL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * 評価する判定方式
+ */
+const STRATEGIES = createConfiguredSearchEvalStrategies();
+
+describe("Web検索の必要性判定の評価", () => {
+  test.each(STRATEGIES.map((strategy) => [strategy.name, strategy]))(
+    "%s",
+    async (_, strategy) => {
+      const samples = await loadSearchNeedCorpus();
+      const report = await evaluateSearchNeedStrategy(
+        samples,
+        strategy,
+        createRequestContext(DEFAULT_MODEL)
+      );
+
+      // Jestのconsole出力の装飾を避けるため標準出力に直接書き込む
+      process.stdout.write(`\n${formatSearchEvalReport(report)}\n\n`);
+
+      const thresholds = SEARCH_EVAL_SETTINGS.THRESHOLDS[strategy.name];
+      expect(
+        thresholds ? findThresholdViolations(report, thresholds) : []
+      ).toEqual([]);
+    },
+    EVAL_TIMEOUT_MS
+  );
+});
@@ -0,0 +1,258 @@
+/**
+ * 会話スレッド管理のコンテキストとカスタムフック
+ *
+ * このファイルは、保存された会話スレッドの一覧と選択中のスレッドを
+ * アプリケーション全体（ドロワーの会話一覧とチャット画面）で共有する機能を提供します。
+ * 主な機能：
+ * - 会話の作成・名前変更・削除・切り替え
+ * - 会話ごとのメッセージ更新
+ * - ローカルストレージへの自動保存と読み込み
+ *   （ストリーミング中の差分ごとに保存しないよう、変更が落ち着いてからまとめて保存）
+ *
+ * @module useConversations
+ */
+"use client";
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Conversation } from "@/types/conversation";
+import { Message } from "@/types/message";
+import {
+  createConversation as createNewConversation,
+  deleteConversation as removeConversation,
+  loadConversationState,
+  renameConversation as changeConversationTitle,
+  saveConversationState,
+  sortConversations,
+  updateConversationMessages,
+} from "@/utils/conversationStore";
+
+/**
+ * 最後の変更からストレージに保存するまでの待機時間（ミリ秒）
+ */
+const SAVE_DEBOUNCE_MS = 500;
+
+/**
+ * 会話管理コンテキストの値の型
+ */
+interface ConversationContextValue {
+  /** 最終更新日時の新しい順に並べた会話一覧 */
+  conversations: Conversation[];
+  /** 選択中の会話 */
+  activeConversation: Conversation | null;
+  /** 選択中の会話ID */
+  activeConversationId: string | null;
+  /** ストレージからの読み込みが完了したかどうか */
+  isLoaded: boolean;
+  /** 新しい会話を作成して選択する関数 */
+  createConversation: () => string;
+  /** 会話の名前を変更する関数 */
+  renameConversation: (id: string, title: string) => void;
+  /** 会話を削除する関数 */
+  deleteConversation: (id: string) => void;
+  /** 選択中の会話を切り替える関数 */
+  switchConversation: (id: string) => void;
+  /** 指定した会話のメッセージを更新する関数 */
+  updateMessages: (
+    id: string,
+    updater: (messages: Message[]) => Message[]
+  ) => void;
+}
+
+/**
+ * 会話の状態の型
+ */
+interface ConversationState {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+}
+
+const ConversationContext = createContext<ConversationContextValue | null>(
+  null
+);
+
+/**
+ * 会話管理のコンテキストを提供するコンポーネント
+ *
+ * @param children コンテキストを利用する子コンポーネント
+ */
+export function ConversationProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<ConversationState>({
+    conversations: [],
+    activeConversationId: null,
+  });
+  // ストレージからの読み込み完了フラグ（SSR対策）
+  const [isLoaded, setIsLoaded] = useState(false);
+  // ストレージへの保存を待っている状態
+  const pendingSaveRef = useRef<ConversationState | null>(null);
+
+  // 初期化処理（マウント時に一度だけ実行）
+  useEffect(() => {
+    const stored = loadConversationState();
+
+    // 保存された会話がない場合は新しい会話を作成
+    if (stored.conversations.length === 0) {
+      const conversation = createNewConversation();
+      setState({
+        conversations: [conversation],
+        activeConversationId: conversation.id,
+      });
+    } else {
+      // 選択中の会話が存在しない場合は最新の会話を選択
+      const hasActive = stored.conversations.some(
+        (conversation) => conversation.id === stored.activeConversationId
+      );
+      setState({
+        conversations: stored.conversations,
+        activeConversationId: hasActive
+          ? stored.activeConversationId
+          : sortConversations(stored.conversations)[0].id,
+      });
+    }
+
+    setIsLoaded(true);
+  }, []);
+
+  // 保存を待っている状態をストレージに保存
+  const flushPendingSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    saveConversationState(pending);
+  }, []);
+
+  // 状態が変更されたら、変更が落ち着いてからストレージに保存
+  useEffect(() => {
+    if (!isLoaded) return;
+    pendingSaveRef.current = state;
+    const timeoutId = setTimeout(flushPendingSave, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [state, isLoaded, flushPendingSave]);
+
+  // ページを離れる場合やアンマウント時は、保存を待っている状態をすぐに保存
+  useEffect(() => {
+    window.addEventListener("pagehide", flushPendingSave);
+    return () => {
+      window.removeEventListener("pagehide", flushPendingSave);
+      flushPendingSave();
+    };
+  }, [flushPendingSave]);
+
+  const createConversation = useCallback(() => {
+    const conversation = createNewConversation();
+    setState((prev) => ({
+      conversations: [conversation, ...prev.conversations],
+      activeConversationId: conversation.id,
+    }));
+    return conversation.id;
+  }, []);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    setState((prev) => ({
+      ...prev,
+      conversations: changeConversationTitle(prev.conversations, id, title),
+    }));
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    setState((prev) => {
+      const remaining = removeConversation(prev.conversations, id);
+
+      // すべて削除された場合は新しい会話を作成
+      if (remaining.length === 0) {
+        const conversation = createNewConversation();
+        return {
+          conversations: [conversation],
+          activeConversationId: conversation.id,
+        };
+      }
+
+      // 選択中の会話を削除した場合は最新の会話を選択
+      return {
+        conversations: remaining,
+        activeConversationId:
+          prev.activeConversationId === id
+            ? sortConversations(remaining)[0].id
+            : prev.activeConversationId,
+      };
+    });
+  }, []);
+
+  const switchConversation = useCallback((id: string) => {
+    setState((prev) =>
+      prev.conversations.some((conversation) => conversation.id === id)
+        ? { ...prev, activeConversationId: id }
+        : prev
+    );
+  }, []);
+
+  const updateMessages = useCallback(
+    (id: string, updater: (messages: Message[]) => Message[]) => {
+      setState((prev) => ({
+        ...prev,
+        conversations: updateConversationMessages(
+          prev.conversations,
+          id,
+          updater
+        ),
+      }));
+    },
+    []
+  );
+
+  const value = useMemo<ConversationContextValue>(
+    () => ({
+      conversations: sortConversations(state.conversations),
+      activeConversation:
+        state.conversations.find(
+          (conversation) => conversation.id === state.activeConversationId
+        ) || null,
+      activeConversationId: state.activeConversationId,
+      isLoaded,
+      createConversation,
+      renameConversation,
+      deleteConversation,
+      switchConversation,
+      updateMessages,
+    }),
+    [
+      state,
+      isLoaded,
+      createConversation,
+      renameConversation,
+      deleteConversation,
+      switchConversation,
+      updateMessages,
+    ]
+  );
+
+  return (
+    <ConversationContext.Provider value={value}>
+      {children}
+    </ConversationContext.Provider>
+  );
+}
+
+/**
+ * 会話管理のコンテキストを利用するカスタムフック
+ *
+ * @returns 会話一覧と操作関数
+ * @throws ConversationProviderの外で使用された場合エラーをスロー
+ */
+export function useConversations(): ConversationContextValue {
+  const context = useContext(ConversationContext);
+  if (!context) {
+    throw new Error(
+      "useConversations must be used within a ConversationProvider"
+    );
+  }
+  return context;
+}
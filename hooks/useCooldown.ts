@@ -0,0 +1,71 @@
+/**
+ * 待機時間のカウントダウン用カスタムフック
+ *
+ * このフックは、レート制限を超えた場合などに、指定された時間が経過するまでの
+ * 残り秒数を1秒ごとに更新して提供します。
+ * 残り秒数は開始時刻ではなく終了時刻から計算するため、タイマーの遅延による誤差は蓄積しません。
+ *
+ * @module useCooldown
+ */
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+/**
+ * カウントダウンの更新間隔（ミリ秒）
+ */
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * カウントダウンフックの戻り値の型
+ */
+interface UseCooldownReturn {
+  /** 待機が終わるまでの残り秒数（待機中でなければ0） */
+  remainingSeconds: number;
+  /** 待機を開始する関数（待機中の場合は、より遅い終了時刻を優先） */
+  startCooldown: (durationMs: number) => void;
+}
+
+/**
+ * 終了時刻までの残り秒数を計算する関数
+ *
+ * @param endsAt 終了時刻（UNIX時刻、ミリ秒）
+ * @returns 残り秒数（端数は切り上げ）
+ */
+const getRemainingSeconds = (endsAt: number): number =>
+  Math.max(Math.ceil((endsAt - Date.now()) / 1000), 0);
+
+/**
+ * 待機時間のカウントダウンフック
+ *
+ * @returns 残り秒数と待機を開始する関数
+ */
+export function useCooldown(): UseCooldownReturn {
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const tick = () => {
+      const remaining = getRemainingSeconds(endsAt);
+      setRemainingSeconds(remaining);
+      if (remaining === 0) setEndsAt(null);
+    };
+
+    tick();
+    const intervalId = setInterval(tick, TICK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [endsAt]);
+
+  const startCooldown = useCallback((durationMs: number) => {
+    if (!(durationMs > 0)) return;
+
+    const nextEndsAt = Date.now() + durationMs;
+    setEndsAt((current) =>
+      current !== null && current > nextEndsAt ? current : nextEndsAt
+    );
+  }, []);
+
+  return { remainingSeconds, startCooldown };
+}
@@ -0,0 +1,60 @@
+/**
+ * モデルカタログ取得カスタムフック
+ *
+ * このフックは、サーバーのモデルカタログ（GET /api/models）を取得し、
+ * 選択可能なモデルの一覧と初期選択されるモデルを提供します。
+ * 取得に失敗した場合はモデルの一覧を空のままとし、デフォルトモデルを使用します。
+ *
+ * @module useModelCatalog
+ */
+"use client";
+
+import { useState, useEffect } from "react";
+import { DEFAULT_MODEL, ModelCatalog } from "@/types/model";
+import { fetchModelCatalog } from "@/utils/modelCatalogApi";
+
+/**
+ * モデルカタログ取得フックの戻り値の型
+ */
+interface UseModelCatalogReturn {
+  /** モデルカタログ（取得前・取得失敗時はモデルの一覧が空） */
+  catalog: ModelCatalog;
+  /** 取得が完了したかどうか（失敗した場合も含む） */
+  isLoaded: boolean;
+}
+
+/**
+ * 取得前・取得失敗時のモデルカタログ
+ */
+const EMPTY_CATALOG: ModelCatalog = {
+  models: [],
+  defaultModel: DEFAULT_MODEL,
+};
+
+/**
+ * モデルカタログ取得フック
+ *
+ * @returns モデルカタログと取得状態
+ */
+export function useModelCatalog(): UseModelCatalogReturn {
+  const [catalog, setCatalog] = useState<ModelCatalog>(EMPTY_CATALOG);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetchModelCatalog(controller.signal)
+      .then(setCatalog)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("モデル一覧の取得中にエラーが発生しました:", error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoaded(true);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  return { catalog, isLoaded };
+}
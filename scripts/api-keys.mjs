@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+/**
+ * APIキーの発行・一覧・失効を行うCLI
+ *
+ * 使い方:
+ *   npm run api-keys -- create <名前> [--models=モデルID,...] [--quota=1分あたり/1日あたり]
+ *   npm run api-keys -- list
+ *   npm run api-keys -- revoke <キーのID>
+ *
+ * キーは発行時に一度だけ表示され、ファイルには秘密の部分のSHA-256ハッシュ値のみを保存します。
+ * 保存先は環境変数 API_KEYS_FILE（既定値: ./data/api-keys.json）で指定します。
+ * キーの形式とファイルの形式は app/utils/apiKeys の定義と一致させています。
+ *
+ * @module scripts/api-keys
+ */
+
+import "dotenv/config";
+import { createHash, randomBytes } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+/**
+ * APIキーを保存するファイルの既定のパス
+ */
+const DEFAULT_FILE_PATH = "./data/api-keys.json";
+
+/**
+ * キーのIDと秘密の部分のバイト数（16進数の桁数はこの2倍）
+ */
+const KEY_BYTES = {
+  ID: 6,
+  SECRET: 32,
+};
+
+/**
+ * 使い方の説明
+ */
+const USAGE = `使い方:
+  npm run api-keys -- create <名前> [--models=モデルID,...] [--quota=1分あたり/1日あたり]
+  npm run api-keys -- list
+  npm run api-keys -- revoke <キーのID>`;
+
+/**
+ * APIキーのファイルを読み込む関数
+ *
+ * @param path ファイルのパス
+ * @returns APIキーの記録の一覧（ファイルが存在しない場合は空）
+ */
+async function loadKeys(path) {
+  try {
+    const { keys } = JSON.parse(await readFile(path, "utf-8"));
+    if (!Array.isArray(keys)) throw new Error("keysが配列ではありません");
+    return keys;
+  } catch (error) {
+    if (error.code === "ENOENT") return [];
+    throw new Error(
+      `APIキーのファイルを読み込めません: ${path}（${error.message}）`
+    );
+  }
+}
+
+/**
+ * APIキーのファイルを保存する関数
+ * 読み込み中のサーバーが書きかけの内容を読まないよう、一時ファイルから置き換えます
+ *
+ * @param path ファイルのパス
+ * @param keys APIキーの記録の一覧
+ */
+async function saveKeys(path, keys) {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify({ keys }, null, 2)}\n`, {
+    mode: 0o600,
+  });
+  await rename(tempPath, path);
+}
+
+/**
+ * コマンドライン引数を位置引数とオプションに分ける関数
+ *
+ * @param args コマンドライン引数
+ * @returns 位置引数とオプション
+ */
+function parseArgs(args) {
+  const positional = [];
+  const options = {};
+  args.forEach((arg) => {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (match) {
+      options[match[1]] = match[2];
+    } else {
+      positional.push(arg);
+    }
+  });
+  return { positional, options };
+}
+
+/**
+ * --quotaオプションを解析する関数
+ *
+ * @param value オプションの値（例: 20/500）
+ * @returns 1分あたり・1日あたりの上限
+ */
+function parseQuota(value) {
+  const limits = value.split("/").map(Number);
+  if (
+    limits.length !== 2 ||
+    !limits.every((limit) => Number.isInteger(limit) && limit > 0)
+  ) {
+    throw new Error(
+      `--quotaは「1分あたり/1日あたり」の正の整数で指定してください: ${value}`
+    );
+  }
+  const [perMinute, perDay] = limits;
+  return { perMinute, perDay };
+}
+
+/**
+ * APIキーを発行する関数
+ *
+ * @param path ファイルのパス
+ * @param name キーの名前
+ * @param options オプション（models・quota）
+ */
+async function createKey(path, name, options) {
+  if (!name) throw new Error(USAGE);
+
+  const keys = await loadKeys(path);
+  const id = randomBytes(KEY_BYTES.ID).toString("hex");
+  const secret = randomBytes(KEY_BYTES.SECRET).toString("hex");
+  const models = options.models
+    ?.split(",")
+    .map((model) => model.trim())
+    .filter((model) => model.length > 0);
+
+  keys.push({
+    id,
+    name,
+    hash: createHash("sha256").update(secret).digest("hex"),
+    createdAt: new Date().toISOString(),
+    ...(models && models.length > 0 ? { models } : {}),
+    ...(options.quota ? { quota: parseQuota(options.quota) } : {}),
+  });
+  await saveKeys(path, keys);
+
+  console.log(
+    `APIキーを発行しました（ID: ${id}）。このキーは再表示できません:`
+  );
+  console.log(`ck_${id}_${secret}`);
+}
+
+/**
+ * APIキーの一覧を表示する関数
+ *
+ * @param path ファイルのパス
+ */
+async function listKeys(path) {
+  const keys = await loadKeys(path);
+  if (keys.length === 0) {
+    console.log("APIキーは発行されていません");
+    return;
+  }
+
+  keys.forEach((key) => {
+    const status = key.revokedAt ? `失効 ${key.revokedAt}` : "有効";
+    const models = key.models ? key.models.join(",") : "すべて";
+    const quota = key.quota
+      ? `${key.quota.perMinute}/${key.quota.perDay}`
+      : "モデルごと";
+    console.log(
+      [
+        key.id,
+        key.name,
+        status,
+        `発行 ${key.createdAt}`,
+        `モデル ${models}`,
+        `上限 ${quota}`,
+      ].join("  ")
+    );
+  });
+}
+
+/**
+ * APIキーを失効させる関数
+ *
+ * @param path ファイルのパス
+ * @param id 失効させるキーのID
+ */
+async function revokeKey(path, id) {
+  if (!id) throw new Error(USAGE);
+
+  const keys = await loadKeys(path);
+  const key = keys.find((candidate) => candidate.id === id);
+  if (!key) throw new Error(`APIキーが見つかりません: ${id}`);
+  if (key.revokedAt) {
+    console.log(`APIキーは失効済みです（${key.revokedAt}）: ${id}`);
+    return;
+  }
+
+  key.revokedAt = new Date().toISOString();
+  await saveKeys(path, keys);
+  console.log(`APIキーを失効させました: ${id}`);
+}
+
+/**
+ * コマンドを実行する関数
+ */
+async function main() {
+  const path = process.env.API_KEYS_FILE || DEFAULT_FILE_PATH;
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+
+  switch (command) {
+    case "create":
+      return createKey(path, positional.join(" "), options);
+    case "list":
+      return listKeys(path);
+    case "revoke":
+      return revokeKey(path, positional[0]);
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,27 @@
+/**
+ * 会話スレッド関連の型定義
+ *
+ * このファイルは、保存・切り替え可能な会話スレッドの型定義を提供します。
+ *
+ * @module types/conversation
+ */
+
+import { Message } from "@/types/message";
+
+/**
+ * 会話スレッドの型定義
+ *
+ * 1つの会話に含まれるメッセージと、一覧表示用のメタデータを保持します
+ */
+export interface Conversation {
+  /** 会話の一意識別子 */
+  id: string;
+  /** 会話のタイトル（一覧に表示） */
+  title: string;
+  /** 会話に含まれるメッセージ */
+  messages: Message[];
+  /** 作成日時（ISO 8601形式） */
+  createdAt: string;
+  /** 最終更新日時（ISO 8601形式） */
+  updatedAt: string;
+}
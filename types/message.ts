@@ -4,11 +4,16 @@
  * このファイルはチャットアプリケーションで使用されるメッセージの型定義を提供します:
  * - ユーザーとボット間のメッセージ構造
  * - Web検索結果の構造
+ * - 再生成した応答のバージョンの構造
+ * - 応答の生成に使用したトークン数と推定コストの構造
+ * - Web検索による情報の補完の要否の判断結果の構造
  * - 各種フラグやメタデータ
  *
  * @module types/message
  */
 
+import { ModelId } from "@/types/model";
+
 /**
  * Web検索結果の型定義
  *
@@ -23,6 +28,71 @@ export interface SearchResult {
   description: string;
 }
 
+/**
+ * 応答の生成に使用したトークン数と推定コストの型定義
+ *
+ * 1回の応答の生成で行ったすべてのLLM API呼び出し
+ * （初期応答・検索キーワードの抽出・Web検索結果による再生成）の合計
+ */
+export interface MessageUsage {
+  /** 入力（プロンプト）のトークン数 */
+  promptTokens: number;
+  /** 出力（応答）のトークン数 */
+  completionTokens: number;
+  /** 入力と出力の合計のトークン数 */
+  totalTokens: number;
+  /** 推定コスト（米ドル、料金表にないモデルを使用した場合はnull） */
+  estimatedCostUsd: number | null;
+}
+
+/**
+ * Web検索による情報の補完の要否の判断結果の型定義
+ *
+ * ユーザーの質問または初期応答を基に、Web検索で情報を補完するかどうかを判断した結果と理由
+ */
+export interface SearchDecision {
+  /** Web検索による情報の補完が必要と判断したかどうか */
+  needsSearch: boolean;
+  /** 判断の理由 */
+  reason: string;
+  /**
+   * 判断した方式
+   * （regex: 初期応答に対するパターンマッチング、llm: LLMによる分類、
+   * prompt: 初期応答の生成前のユーザーの質問に対するパターンマッチング）
+   */
+  decidedBy: "regex" | "llm" | "prompt";
+  /** 判断の確信度（0〜1、LLMによる分類の場合のみ） */
+  confidence?: number;
+}
+
+/**
+ * 応答を生成した経路の型定義
+ *
+ * - pre-answer: ユーザーの質問から最新の情報が必要と判断し、初期応答を生成せずにWeb検索で補完した
+ * - post-hoc: 初期応答を基にWeb検索による補完が必要と判断し、Web検索で補完した
+ * - none: Web検索を行わずに応答した（Web検索で補完できなかった場合を含む）
+ */
+export type SearchRoute = "pre-answer" | "post-hoc" | "none";
+
+/**
+ * 応答のバージョンの型定義
+ *
+ * 再生成する前の応答を、ユーザーが切り替えて表示できるよう保持するデータ構造
+ */
+export type MessageVersion = Pick<
+  Message,
+  | "text"
+  | "html"
+  | "isMarkdown"
+  | "searchResults"
+  | "searchKeywords"
+  | "unusedSources"
+  | "isStopped"
+  | "model"
+  | "usage"
+  | "searchDecision"
+>;
+
 /**
  * チャットメッセージの型定義
  *
@@ -41,8 +111,28 @@ export interface Message {
   isMarkdown?: boolean;
   /** 処理中のメッセージかどうかを示すフラグ（ローディング状態表示用） */
   isLoading?: boolean;
+  /** ストリーミングで応答を受信中かどうかを示すフラグ（途中経過の表示用） */
+  isStreaming?: boolean;
+  /** エラー表示用のメッセージかどうかを示すフラグ（会話履歴から除外される） */
+  isError?: boolean;
+  /** ユーザーが生成を停止したメッセージかどうかを示すフラグ（途中までの応答を保持） */
+  isStopped?: boolean;
   /** メッセージのタイムスタンプ */
   timestamp?: string;
   /** 検索結果を格納するための配列（AIが外部情報を参照した場合） */
   searchResults?: SearchResult[];
+  /** Web検索に使用したキーワード（検索結果とあわせて表示） */
+  searchKeywords?: string;
+  /** 本文で引用されなかった検索結果の番号（1始まり） */
+  unusedSources?: number[];
+  /** 応答を生成したモデルのID */
+  model?: ModelId;
+  /** 応答の生成に使用したトークン数と推定コスト */
+  usage?: MessageUsage;
+  /** Web検索による情報の補完の要否の判断結果 */
+  searchDecision?: SearchDecision;
+  /** 再生成した応答のすべてのバージョン（再生成したことがある場合のみ） */
+  versions?: MessageVersion[];
+  /** 表示中のバージョンの番号（0始まり） */
+  versionIndex?: number;
 }
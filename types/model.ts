@@ -2,29 +2,122 @@
  * チャットボットで使用できるLLMモデルを定義するモジュール
  *
  * このファイルは、以下を提供します：
- * - 利用可能なモデルの型定義
+ * - モデルIDとモデル定義の型
+ * - 組み込みのモデルレジストリ（モデルID・表示名・プロバイダー・上限値・レート制限の割り当ての対応表）
+ * - モデルカタログ（GET /api/modelsの応答）の型
  * - デフォルトモデルの設定
- * - モデル表示名のマッピング
  * - テストモードの設定と管理
  *
+ * OpenAI互換サーバーのモデルなど、環境変数で追加されるモデルは
+ * サーバー側のモデルレジストリ（app/utils/llm/modelRegistry）で組み込みモデルに追加されます。
+ * クライアントで選択可能なモデルは、サーバーのモデルカタログ（GET /api/models）から取得します。
+ *
  * @module types/model
  */
 
 /**
- * 利用可能なOpenAIモデルの型定義
+ * モデルIDの型定義
+ * 環境変数で任意のモデルを追加できるため、文字列として扱います
+ */
+export type ModelId = string;
+
+/**
+ * LLMプロバイダーの識別子
+ * - openai: OpenAI API
+ * - openai-compatible: OpenAI互換APIを提供するサーバー（llama.cpp / Ollama / vLLMなど）
+ * - test: APIに接続せずテスト用の応答を返すプロバイダー
+ */
+export type LLMProviderId = "openai" | "openai-compatible" | "test";
+
+/**
+ * モデルの利用コストの目安
+ * - free: 課金なし（ローカルサーバーやテスト用モデル）
+ * - low: 低コスト
+ * - standard: 標準
+ * - high: 高コスト
+ */
+export type ModelCostTier = "free" | "low" | "standard" | "high";
+
+/**
+ * モデルごとのレート制限の割り当て
+ * リクエストは重み（コスト）の単位で数え、1分あたり・1日あたりの上限をクライアントごとに設けます
+ */
+export interface ModelQuota {
+  /** 1リクエストあたりの重み */
+  requestWeight: number;
+  /** Web検索による情報の補完（キーワード抽出と再生成）を行った場合に追加する重み */
+  webSearchWeight: number;
+  /** 1分あたりの上限（重みの合計） */
+  perMinute: number;
+  /** 1日あたりの上限（重みの合計） */
+  perDay: number;
+}
+
+/**
+ * モデル定義の型
  */
-export type OpenAIModel = "gpt-3.5-turbo" | "gpt-4o-mini" | "test-model";
+export interface ModelDefinition {
+  /** モデルID（APIに送信するモデル名） */
+  id: ModelId;
+  /** UIに表示する名称 */
+  displayName: string;
+  /** 応答を生成するプロバイダー */
+  provider: LLMProviderId;
+  /** 応答の最大トークン数 */
+  maxOutputTokens: number;
+  /** 会話履歴に割り当てるトークン予算 */
+  maxHistoryTokens: number;
+  /** コンテキストウィンドウ（入力と出力の合計の最大トークン数） */
+  contextWindow: number;
+  /** Web検索による情報の補完に対応しているかどうか */
+  supportsSearch: boolean;
+  /** 利用コストの目安 */
+  costTier: ModelCostTier;
+  /** レート制限の割り当て */
+  quota: ModelQuota;
+  /** テストモード時のみ選択可能なモデルかどうか */
+  testOnly?: boolean;
+}
+
+/**
+ * モデルカタログの各モデルの型定義
+ * クライアントに公開するモデルの情報です
+ */
+export interface ModelCatalogEntry {
+  /** モデルID */
+  id: ModelId;
+  /** UIに表示する名称 */
+  displayName: string;
+  /** コンテキストウィンドウ（入力と出力の合計の最大トークン数） */
+  contextWindow: number;
+  /** Web検索による情報の補完に対応しているかどうか */
+  supportsSearch: boolean;
+  /** 利用コストの目安 */
+  costTier: ModelCostTier;
+  /** 現在のサーバー設定で選択可能かどうか */
+  enabled: boolean;
+}
+
+/**
+ * モデルカタログ（GET /api/modelsの応答）の型定義
+ */
+export interface ModelCatalog {
+  /** モデルの一覧 */
+  models: ModelCatalogEntry[];
+  /** 初期選択されるモデル（選択可能なモデル） */
+  defaultModel: ModelId;
+}
 
 /**
  * デフォルトモデル設定
  * アプリケーション起動時に初期選択されるモデル
  */
-export const DEFAULT_MODEL: OpenAIModel = "gpt-4o-mini";
+export const DEFAULT_MODEL: ModelId = "gpt-4o-mini";
 
 /**
- * テストモード環境変数キー
+ * テスト用モデルのID
  */
-const TEST_MODE_ENV_KEY = "NEXT_PUBLIC_ENABLE_TEST_MODE";
+export const TEST_MODEL_ID: ModelId = "test-model";
 
 /**
  * テストモードの有効値
@@ -34,42 +127,87 @@ const TEST_MODE_ENABLED_VALUE = "true";
 /**
  * テストモードが有効かどうかを確認する関数
  *
- * サーバーサイド実行時（window未定義時）は常にfalseを返します
+ * クライアントとサーバーで同じ環境変数（NEXT_PUBLIC_ENABLE_TEST_MODE）を参照するため、
+ * 両者の判定は一致します
+ * （クライアント向けのビルドで値が埋め込まれるよう、環境変数はプロパティ名で直接参照します）
  *
  * @returns テストモードが有効ならtrue
  */
 export const isTestModeEnabled = (): boolean => {
-  // サーバーサイドでは常にtrue
-  if (typeof window === "undefined") return true;
-
-  // 環境変数の値をチェック
-  return process.env[TEST_MODE_ENV_KEY] === TEST_MODE_ENABLED_VALUE;
+  return process.env.NEXT_PUBLIC_ENABLE_TEST_MODE === TEST_MODE_ENABLED_VALUE;
 };
 
 /**
- * 基本モデルリスト（テストモードに関わらず常に利用可能）
+ * 組み込みのモデルレジストリ
+ * モデルIDと表示名・プロバイダー・上限値・レート制限の割り当ての対応を定義します
  */
-const BASE_MODELS: OpenAIModel[] = ["gpt-3.5-turbo", "gpt-4o-mini"];
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  {
+    id: "gpt-3.5-turbo",
+    displayName: "GPT-3.5 Turbo",
+    provider: "openai",
+    maxOutputTokens: 1000,
+    maxHistoryTokens: 2000,
+    contextWindow: 16385,
+    supportsSearch: true,
+    costTier: "low",
+    quota: { requestWeight: 2, webSearchWeight: 2, perMinute: 10, perDay: 300 },
+  },
+  {
+    id: "gpt-4o-mini",
+    displayName: "GPT-4o Mini",
+    provider: "openai",
+    maxOutputTokens: 1000,
+    maxHistoryTokens: 2000,
+    contextWindow: 128000,
+    supportsSearch: true,
+    costTier: "low",
+    quota: { requestWeight: 2, webSearchWeight: 2, perMinute: 10, perDay: 300 },
+  },
+  {
+    id: TEST_MODEL_ID,
+    displayName: "テスト用モデル（APIなし）",
+    provider: "test",
+    maxOutputTokens: 1000,
+    maxHistoryTokens: 2000,
+    contextWindow: 4096,
+    supportsSearch: true,
+    costTier: "free",
+    quota: {
+      requestWeight: 1,
+      webSearchWeight: 1,
+      perMinute: 60,
+      perDay: 10000,
+    },
+    testOnly: true,
+  },
+];
 
 /**
- * テストモデル（テストモード時のみ追加）
- */
-const TEST_MODEL: OpenAIModel = "test-model";
-
-/**
- * 選択可能なモデルのリスト
- * テストモードが有効の場合はテストモデルを追加
+ * モデルIDからモデル定義を取得する関数
+ *
+ * @param modelId モデルID
+ * @param registry 検索対象のモデルレジストリ（省略時は組み込みのレジストリ）
+ * @returns モデル定義（登録されていない場合はundefined）
  */
-export const AVAILABLE_MODELS: OpenAIModel[] = isTestModeEnabled()
-  ? [...BASE_MODELS, TEST_MODEL]
-  : [...BASE_MODELS];
+export function findModelDefinition(
+  modelId: ModelId,
+  registry: ModelDefinition[] = MODEL_REGISTRY
+): ModelDefinition | undefined {
+  return registry.find((model) => model.id === modelId);
+}
 
 /**
- * モデル表示名のマッピング
- * UIに表示する名称を定義
+ * モデルの表示名を取得する関数
+ * 登録されていないモデルの場合はモデルIDをそのまま返します
+ *
+ * @param modelId モデルID
+ * @param registry 検索対象のモデルレジストリ（省略時は組み込みのレジストリ）
+ * @returns 表示名
  */
-export const MODEL_DISPLAY_NAMES: Record<OpenAIModel, string> = {
-  "gpt-3.5-turbo": "GPT-3.5 Turbo",
-  "gpt-4o-mini": "GPT-4o Mini",
-  "test-model": "テスト用モデル（APIなし）",
-};
+export function getModelDisplayName(
+  modelId: ModelId,
+  registry: ModelDefinition[] = MODEL_REGISTRY
+): string {
+  return findModelDefinition(modelId, registry)?.displayName ?? modelId;
+}
@@ -0,0 +1,375 @@
+/**
+ * 会話スレッドの保存と操作を行うユーティリティ
+ *
+ * このファイルは、会話スレッドをブラウザのlocalStorageに永続化し、
+ * 作成・名前変更・削除・メッセージ更新を行う関数を提供します。
+ * 操作関数はすべて新しい配列を返す純粋関数として実装しています。
+ *
+ * @module conversationStore
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { Conversation } from "@/types/conversation";
+import { Message } from "@/types/message";
+import { restoreMessageVersion } from "@/utils/messageVersions";
+
+/**
+ * 会話スレッドの既定値
+ */
+export const CONVERSATION_DEFAULTS = {
+  /**
+   * 新しい会話のタイトル（最初の質問からタイトルを付けるまでの仮タイトル）
+   */
+  TITLE: "新しい会話",
+
+  /**
+   * 初期ウェルカムメッセージID（固定値）
+   */
+  WELCOME_MESSAGE_ID: "welcome-message-id",
+
+  /**
+   * 初期ウェルカムメッセージ
+   */
+  WELCOME_MESSAGE: "こんにちは！何をお手伝いしましょうか？",
+};
+
+/**
+ * ストレージ関連の定数
+ */
+const STORAGE_SETTINGS = {
+  /**
+   * 会話一覧を保存するローカルストレージのキー
+   */
+  CONVERSATIONS_KEY: "chat-conversations",
+
+  /**
+   * 選択中の会話IDを保存するローカルストレージのキー
+   */
+  ACTIVE_ID_KEY: "active-conversation-id",
+
+  /**
+   * 保存する会話の最大数（古いものから削除）
+   */
+  MAX_CONVERSATIONS: 50,
+
+  /**
+   * 最初の質問から生成するタイトルの最大文字数
+   */
+  MAX_TITLE_LENGTH: 30,
+};
+
+/**
+ * ストレージから読み込んだ会話の状態
+ */
+export interface StoredConversationState {
+  /** 保存されている会話一覧 */
+  conversations: Conversation[];
+  /** 選択中の会話ID */
+  activeConversationId: string | null;
+}
+
+/**
+ * 会話の状態の保存結果
+ */
+export interface ConversationSaveResult {
+  /** 保存できたかどうか */
+  saved: boolean;
+  /** ストレージの容量が不足したため保存から除外した会話のID */
+  droppedConversationIds: string[];
+}
+
+/**
+ * ストレージの容量不足によるエラーかどうかを判定する関数
+ *
+ * @param error 発生したエラー
+ * @returns 容量不足によるエラーであればtrue
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
+
+/**
+ * 保存された値が会話として有効かどうかを判定する関数
+ *
+ * @param value 検証する値
+ * @returns 有効な会話であればtrue
+ */
+function isValidConversation(value: unknown): value is Conversation {
+  if (!value || typeof value !== "object") return false;
+
+  const conversation = value as Partial<Conversation>;
+  return (
+    typeof conversation.id === "string" &&
+    typeof conversation.title === "string" &&
+    Array.isArray(conversation.messages) &&
+    typeof conversation.createdAt === "string" &&
+    typeof conversation.updatedAt === "string"
+  );
+}
+
+/**
+ * 保存対象のメッセージに絞り込む関数
+ * 応答待ちやストリーミング中のメッセージは再読み込み後に完了しないため保存しません
+ * ただし再生成中のメッセージは、再生成前に表示していたバージョンとして保存します
+ *
+ * @param messages メッセージ一覧
+ * @returns 保存対象のメッセージ
+ */
+function toPersistableMessages(messages: Message[]): Message[] {
+  return messages
+    .map((msg) =>
+      (msg.isLoading || msg.isStreaming) && msg.versions
+        ? restoreMessageVersion(msg)
+        : msg
+    )
+    .filter((msg) => !msg.isLoading && !msg.isStreaming);
+}
+
+/**
+ * ウェルカムメッセージを生成する関数
+ *
+ * @returns ウェルカムメッセージ
+ */
+export function createWelcomeMessage(): Message {
+  return {
+    sender: "bot",
+    text: CONVERSATION_DEFAULTS.WELCOME_MESSAGE,
+    id: CONVERSATION_DEFAULTS.WELCOME_MESSAGE_ID,
+  };
+}
+
+/**
+ * 新しい会話を生成する関数
+ *
+ * @returns ウェルカムメッセージのみを含む新しい会話
+ */
+export function createConversation(): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    title: CONVERSATION_DEFAULTS.TITLE,
+    messages: [createWelcomeMessage()],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * ユーザーの最初の質問から会話タイトルを生成する関数
+ *
+ * @param text ユーザーの質問
+ * @returns 会話タイトル
+ */
+export function deriveTitle(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  if (singleLine.length <= STORAGE_SETTINGS.MAX_TITLE_LENGTH) {
+    return singleLine || CONVERSATION_DEFAULTS.TITLE;
+  }
+  return `${singleLine.slice(0, STORAGE_SETTINGS.MAX_TITLE_LENGTH)}…`;
+}
+
+/**
+ * 会話の名前を変更する関数
+ *
+ * @param conversations 会話一覧
+ * @param id 対象の会話ID
+ * @param title 新しいタイトル（空の場合は変更しない）
+ * @returns 更新後の会話一覧
+ */
+export function renameConversation(
+  conversations: Conversation[],
+  id: string,
+  title: string
+): Conversation[] {
+  const trimmedTitle = title.trim();
+  if (!trimmedTitle) return conversations;
+
+  return conversations.map((conversation) =>
+    conversation.id === id
+      ? { ...conversation, title: trimmedTitle }
+      : conversation
+  );
+}
+
+/**
+ * 会話を削除する関数
+ *
+ * @param conversations 会話一覧
+ * @param id 削除する会話ID
+ * @returns 更新後の会話一覧
+ */
+export function deleteConversation(
+  conversations: Conversation[],
+  id: string
+): Conversation[] {
+  return conversations.filter((conversation) => conversation.id !== id);
+}
+
+/**
+ * 会話のメッセージを更新する関数
+ *
+ * タイトルが仮タイトルのままの場合は、最初のユーザーメッセージからタイトルを付けます。
+ *
+ * @param conversations 会話一覧
+ * @param id 対象の会話ID
+ * @param updater メッセージを更新する関数
+ * @returns 更新後の会話一覧
+ */
+export function updateConversationMessages(
+  conversations: Conversation[],
+  id: string,
+  updater: (messages: Message[]) => Message[]
+): Conversation[] {
+  return conversations.map((conversation) => {
+    if (conversation.id !== id) return conversation;
+
+    const messages = updater(conversation.messages);
+    const firstUserMessage = messages.find((msg) => msg.sender === "user");
+    const title =
+      conversation.title === CONVERSATION_DEFAULTS.TITLE && firstUserMessage
+        ? deriveTitle(firstUserMessage.text)
+        : conversation.title;
+
+    return {
+      ...conversation,
+      title,
+      messages,
+      updatedAt: new Date().toISOString(),
+    };
+  });
+}
+
+/**
+ * 会話を最終更新日時の新しい順に並べ替える関数
+ *
+ * @param conversations 会話一覧
+ * @returns 並べ替えた会話一覧
+ */
+export function sortConversations(
+  conversations: Conversation[]
+): Conversation[] {
+  return [...conversations].sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt)
+  );
+}
+
+/**
+ * ローカルストレージから会話の状態を読み込む関数
+ *
+ * @returns 保存されている会話一覧と選択中の会話ID
+ */
+export function loadConversationState(): StoredConversationState {
+  try {
+    // クライアントサイドでのみlocalStorageを使用
+    if (typeof window === "undefined") {
+      return { conversations: [], activeConversationId: null };
+    }
+
+    const stored = localStorage.getItem(STORAGE_SETTINGS.CONVERSATIONS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    const conversations = Array.isArray(parsed)
+      ? parsed.filter(isValidConversation)
+      : [];
+
+    const activeConversationId = localStorage.getItem(
+      STORAGE_SETTINGS.ACTIVE_ID_KEY
+    );
+
+    return { conversations, activeConversationId };
+  } catch (error) {
+    console.error("会話履歴の読み込み中にエラーが発生しました:", error);
+    return { conversations: [], activeConversationId: null };
+  }
+}
+
+/**
+ * 会話一覧をローカルストレージに書き込む関数
+ *
+ * ストレージの容量が不足した場合は、選択中の会話を除いて最終更新日時の古い会話から
+ * 順に除外して書き込み直します。
+ *
+ * @param conversations 最終更新日時の新しい順に並べた会話一覧
+ * @param activeConversationId 選択中の会話ID
+ * @returns 保存から除外した会話のID
+ * @throws 選択中の会話のみでも書き込めない場合や、容量不足以外のエラーの場合はエラーをスロー
+ */
+function writeConversations(
+  conversations: Conversation[],
+  activeConversationId: string | null
+): string[] {
+  // 書き込み直すたびに変換しないよう、会話ごとにJSONへ変換しておく
+  const entries = conversations.map((conversation) => ({
+    id: conversation.id,
+    json: JSON.stringify(conversation),
+  }));
+  const droppedIds: string[] = [];
+
+  for (;;) {
+    try {
+      localStorage.setItem(
+        STORAGE_SETTINGS.CONVERSATIONS_KEY,
+        `[${entries.map((entry) => entry.json).join(",")}]`
+      );
+      return droppedIds;
+    } catch (error) {
+      // 選択中の会話を除いた最も古い会話を除外する
+      const dropped = entries
+        .filter((entry) => entry.id !== activeConversationId)
+        .pop();
+      if (!isQuotaExceededError(error) || !dropped) throw error;
+
+      droppedIds.push(dropped.id);
+      entries.splice(entries.indexOf(dropped), 1);
+    }
+  }
+}
+
+/**
+ * ローカルストレージに会話の状態を保存する関数
+ *
+ * 保存数の上限を超えた場合は、最終更新日時の古い会話から削除します。
+ * ストレージの容量が不足した場合も、選択中の会話を残して古い会話から保存を諦めます。
+ *
+ * @param state 保存する会話一覧と選択中の会話ID
+ * @returns 保存結果
+ */
+export function saveConversationState(
+  state: StoredConversationState
+): ConversationSaveResult {
+  try {
+    const conversations = sortConversations(state.conversations)
+      .slice(0, STORAGE_SETTINGS.MAX_CONVERSATIONS)
+      .map((conversation) => ({
+        ...conversation,
+        messages: toPersistableMessages(conversation.messages),
+      }));
+
+    const droppedConversationIds = writeConversations(
+      conversations,
+      state.activeConversationId
+    );
+    if (droppedConversationIds.length > 0) {
+      console.warn(
+        `ストレージの容量が不足したため、古い会話${droppedConversationIds.length}件を保存しませんでした`
+      );
+    }
+
+    if (state.activeConversationId) {
+      localStorage.setItem(
+        STORAGE_SETTINGS.ACTIVE_ID_KEY,
+        state.activeConversationId
+      );
+    } else {
+      localStorage.removeItem(STORAGE_SETTINGS.ACTIVE_ID_KEY);
+    }
+
+    return { saved: true, droppedConversationIds };
+  } catch (error) {
+    console.error("会話履歴の保存中にエラーが発生しました:", error);
+    return { saved: false, droppedConversationIds: [] };
+  }
+}
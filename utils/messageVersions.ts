@@ -0,0 +1,186 @@
+/**
+ * 応答のバージョンを操作するユーティリティ
+ *
+ * このファイルは、再生成した応答を以前の応答とあわせてメッセージに保持し、
+ * 表示するバージョンを切り替えるための関数を提供します。
+ * メッセージ本体のフィールド（textやhtmlなど）には表示中のバージョンの内容を反映します。
+ * 再生成していないメッセージはバージョンを持たず、メッセージ本体のみで表します。
+ * 操作関数はすべて新しいオブジェクトを返す純粋関数として実装しています。
+ *
+ * @module messageVersions
+ */
+
+import { Message, MessageVersion } from "@/types/message";
+
+/**
+ * メッセージの応答部分をバージョンとして取り出す関数
+ *
+ * @param message 対象のメッセージ
+ * @returns 応答のバージョン
+ */
+export function toMessageVersion(message: Message): MessageVersion {
+  return {
+    text: message.text,
+    html: message.html,
+    isMarkdown: message.isMarkdown,
+    searchResults: message.searchResults,
+    searchKeywords: message.searchKeywords,
+    unusedSources: message.unusedSources,
+    isStopped: message.isStopped,
+    model: message.model,
+    usage: message.usage,
+    searchDecision: message.searchDecision,
+  };
+}
+
+/**
+ * バージョンの内容をメッセージ本体に反映する関数
+ * 応答待ち・ストリーミング中の状態は解除します
+ *
+ * @param message 対象のメッセージ
+ * @param version 反映するバージョン
+ * @returns バージョンの内容を反映したメッセージ
+ */
+function applyMessageVersion(
+  message: Message,
+  version: MessageVersion
+): Message {
+  return {
+    ...message,
+    // バージョンに含まれないフィールドは以前の応答の値を残さない
+    text: version.text,
+    html: version.html,
+    isMarkdown: version.isMarkdown,
+    searchResults: version.searchResults,
+    searchKeywords: version.searchKeywords,
+    unusedSources: version.unusedSources,
+    isStopped: version.isStopped,
+    model: version.model,
+    usage: version.usage,
+    searchDecision: version.searchDecision,
+    isLoading: false,
+    isStreaming: false,
+  };
+}
+
+/**
+ * 再生成を始める前に、現在の応答をバージョンとして保持する関数
+ * すでにバージョンを持つメッセージはそのまま返します
+ *
+ * @param message 再生成する応答のメッセージ
+ * @returns 現在の応答をバージョンとして保持したメッセージ
+ */
+export function preserveMessageVersion(message: Message): Message {
+  if (message.versions) return message;
+
+  return {
+    ...message,
+    versions: [toMessageVersion(message)],
+    versionIndex: 0,
+  };
+}
+
+/**
+ * 生成した応答をメッセージに反映する関数
+ * 再生成の場合（バージョンを持つ場合）は新しいバージョンとして追加して表示し、
+ * そうでない場合はメッセージ本体にのみ反映します
+ *
+ * @param message 応答を反映するメッセージ
+ * @param version 生成した応答
+ * @returns 応答を反映したメッセージ
+ */
+export function addMessageVersion(
+  message: Message,
+  version: MessageVersion
+): Message {
+  if (!message.versions) {
+    return applyMessageVersion(message, version);
+  }
+
+  const versions = [...message.versions, version];
+  return {
+    ...applyMessageVersion(message, version),
+    versions,
+    versionIndex: versions.length - 1,
+  };
+}
+
+/**
+ * 表示するバージョンを切り替える関数
+ * 範囲外の番号は範囲内に丸めます。バージョンを持たないメッセージはそのまま返します
+ *
+ * @param message 対象のメッセージ
+ * @param index 表示するバージョンの番号（0始まり）
+ * @returns 指定したバージョンを表示するメッセージ
+ */
+export function selectMessageVersion(message: Message, index: number): Message {
+  if (!message.versions || message.versions.length === 0) return message;
+
+  const versionIndex = Math.min(
+    Math.max(index, 0),
+    message.versions.length - 1
+  );
+  return {
+    ...applyMessageVersion(message, message.versions[versionIndex]),
+    versionIndex,
+  };
+}
+
+/**
+ * 再生成を中断・失敗した場合に、再生成前に表示していたバージョンに戻す関数
+ *
+ * @param message 再生成中のメッセージ
+ * @returns 再生成前のバージョンを表示するメッセージ
+ */
+export function restoreMessageVersion(message: Message): Message {
+  return selectMessageVersion(message, message.versionIndex ?? 0);
+}
+
+/**
+ * メッセージのバージョン数を取得する関数
+ *
+ * @param message 対象のメッセージ
+ * @returns バージョン数（再生成していない場合は1）
+ */
+export function getVersionCount(message: Message): number {
+  return message.versions?.length || 1;
+}
+
+/**
+ * 応答に対応する質問（直前のユーザーメッセージ）の位置を取得する関数
+ * 応答待ち・ストリーミング中のメッセージやエラーメッセージ、
+ * 直前に質問がないメッセージ（ウェルカムメッセージなど）は再生成できないため-1を返します
+ *
+ * @param messages メッセージ一覧
+ * @param index 対象のボットの応答の位置
+ * @returns 質問の位置（再生成できない場合は-1）
+ */
+export function findPromptIndex(messages: Message[], index: number): number {
+  const message = messages[index];
+  if (
+    !message ||
+    message.sender !== "bot" ||
+    message.isLoading ||
+    message.isStreaming ||
+    message.isError
+  ) {
+    return -1;
+  }
+
+  return messages[index - 1]?.sender === "user" ? index - 1 : -1;
+}
+
+/**
+ * 再生成できる最新の応答の位置を取得する関数
+ * 以降に質問が続く応答は、再生成すると会話の流れと食い違うため対象外とします
+ *
+ * @param messages メッセージ一覧
+ * @returns 最新の応答の位置（再生成できる応答がない場合は-1）
+ */
+export function findRegenerableIndex(messages: Message[]): number {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].sender === "user") return -1;
+    if (findPromptIndex(messages, index) >= 0) return index;
+  }
+  return -1;
+}
@@ -0,0 +1,103 @@
+/**
+ * モデルカタログAPIクライアントユーティリティ
+ *
+ * このファイルは、サーバーのモデルカタログ（GET /api/models）の取得を処理します。
+ * 主な機能:
+ * - モデルカタログの取得
+ * - レスポンスデータの検証（不正な形式のモデルは除外）
+ * - 保存されたモデル設定とモデルカタログの照合
+ *
+ * @module modelCatalogApi
+ */
+
+import {
+  ModelCatalog,
+  ModelCatalogEntry,
+  ModelCostTier,
+  ModelId,
+} from "@/types/model";
+
+/**
+ * APIエンドポイントURL
+ */
+const API_ENDPOINT = "/api/models";
+
+/**
+ * 利用コストの目安として有効な値
+ */
+const COST_TIERS: ModelCostTier[] = ["free", "low", "standard", "high"];
+
+/**
+ * エラーメッセージの定数
+ */
+export const MODEL_CATALOG_ERROR_MESSAGES = {
+  FETCH_FAILED: (status: number) =>
+    `モデル一覧の取得に失敗しました（ステータス: ${status}）`,
+  INVALID_RESPONSE: "モデル一覧のレスポンス形式が不正です",
+};
+
+/**
+ * 値がモデルカタログの項目として有効かどうかを判定する関数
+ *
+ * @param value 検証する値
+ * @returns 有効な項目であればtrue
+ */
+function isModelCatalogEntry(value: unknown): value is ModelCatalogEntry {
+  if (!value || typeof value !== "object") return false;
+
+  const entry = value as Partial<ModelCatalogEntry>;
+  return (
+    typeof entry.id === "string" &&
+    entry.id.length > 0 &&
+    typeof entry.displayName === "string" &&
+    typeof entry.contextWindow === "number" &&
+    typeof entry.supportsSearch === "boolean" &&
+    COST_TIERS.includes(entry.costTier as ModelCostTier) &&
+    typeof entry.enabled === "boolean"
+  );
+}
+
+/**
+ * サーバーからモデルカタログを取得する関数
+ * 不正な形式のモデルは除外します
+ *
+ * @param signal AbortSignal（アンマウント時の中断用）
+ * @returns モデルカタログ
+ * @throws 取得に失敗した場合やレスポンス形式が不正な場合エラーをスロー
+ */
+export async function fetchModelCatalog(
+  signal?: AbortSignal
+): Promise<ModelCatalog> {
+  const response = await fetch(API_ENDPOINT, { signal });
+  if (!response.ok) {
+    throw new Error(MODEL_CATALOG_ERROR_MESSAGES.FETCH_FAILED(response.status));
+  }
+
+  const data = (await response.json()) as Partial<ModelCatalog> | null;
+  if (
+    !data ||
+    !Array.isArray(data.models) ||
+    typeof data.defaultModel !== "string"
+  ) {
+    throw new Error(MODEL_CATALOG_ERROR_MESSAGES.INVALID_RESPONSE);
+  }
+
+  return {
+    models: data.models.filter(isModelCatalogEntry),
+    defaultModel: data.defaultModel,
+  };
+}
+
+/**
+ * モデルがモデルカタログで選択可能かどうかを判定する関数
+ *
+ * @param catalog モデルカタログ
+ * @param modelId モデルID
+ * @returns 選択可能な場合はtrue
+ */
+export function isSelectableModel(
+  catalog: ModelCatalog,
+  modelId: ModelId
+): boolean {
+  return catalog.models.some((model) => model.id === modelId && model.enabled);
+}
@@ -9,11 +9,23 @@
  * - エラーハンドリングと適切なエラーメッセージの提供
  * - レスポンスデータの型変換と検証
  * - LLMモデル選択のサポート
+ * - 会話履歴の送信（マルチターン対応）
+ * - Server-Sent Eventsによるストリーミング応答の受信
+ * - 応答の生成に使用したWeb検索結果（情報源）の受信と検証
+ * - レート制限を超えた場合の再試行までの時間（Retry-Afterヘッダー）の取得
  *
  * @module openaiApi
  */
 
-import { OpenAIModel, DEFAULT_MODEL } from "@/types/model";
+import { ModelId, DEFAULT_MODEL } from "@/types/model";
+import {
+  Message,
+  MessageUsage,
+  SearchDecision,
+  SearchResult,
+  SearchRoute,
+} from "@/types/message";
+import { createSSEParser, SSEEvent } from "@/utils/sseParser";
 
 /**
  * 入力文字数の最大値（サーバー側の制限に合わせる）
@@ -33,11 +45,85 @@ const ERROR_MESSAGES = {
   RATE_LIMIT:
     "リクエスト回数の制限を超えました。しばらく待ってからお試しください。",
   TIMEOUT: "リクエストがタイムアウトしました。もう一度お試しください。",
+  UNAUTHORIZED: "APIキーが無効か、指定されていません",
   NETWORK: "ネットワークエラーが発生しました。接続を確認してください。",
   INVALID_RESPONSE: "無効なレスポンス形式です",
+  STREAM_INTERRUPTED: "応答のストリーミングが途中で終了しました",
   DEFAULT: "バックエンドからの応答の取得に失敗しました",
 };
 
+/**
+ * レート制限を超えた場合のエラー名
+ */
+const RATE_LIMIT_ERROR_NAME = "RateLimitError";
+
+/**
+ * 再試行までの時間を通知するヘッダー名
+ */
+const RETRY_AFTER_HEADER = "Retry-After";
+
+/**
+ * ストリーミング応答のイベント名（サーバー側の定義と一致させる）
+ */
+const STREAM_EVENTS = {
+  DELTA: "delta",
+  RESET: "reset",
+  DONE: "done",
+  ERROR: "error",
+};
+
+/**
+ * チャットボット応答の型定義
+ */
+export interface ChatbotResponse {
+  /** 応答テキスト */
+  text: string;
+  /** マークダウンレンダリング済みのHTML */
+  html?: string;
+  /** 応答がマークダウン形式かどうか */
+  isMarkdown?: boolean;
+  /** 応答の生成に使用したWeb検索結果 */
+  searchResults?: SearchResult[];
+  /** Web検索に使用したキーワード */
+  searchKeywords?: string;
+  /** 本文で引用されなかった情報源の番号（1始まり） */
+  unusedSources?: number[];
+  /** 応答の生成に使用したトークン数と推定コスト */
+  usage?: MessageUsage;
+  /** Web検索による情報の補完の要否の判断結果 */
+  searchDecision?: SearchDecision;
+  /** 応答を生成した経路（サーバーが通知した場合のみ） */
+  searchRoute?: SearchRoute;
+}
+
+/**
+ * レート制限を超えた場合のエラーの型定義
+ */
+export interface RateLimitError extends Error {
+  /** 再試行できるようになるまでの時間（ミリ秒、サーバーが通知しなかった場合はundefined） */
+  retryAfterMs?: number;
+}
+
+/**
+ * エラーがレート制限を超えたことによるものかどうかを判定する関数
+ *
+ * @param error 判定するエラー
+ * @returns レート制限を超えたことによるエラーであればtrue
+ */
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof Error && error.name === RATE_LIMIT_ERROR_NAME;
+}
+
+/**
+ * ストリーミング応答の進行状況を受け取るコールバックの型定義
+ */
+export interface StreamCallbacks {
+  /** 差分を受信したときに、差分とそれまでの応答全体を受け取る */
+  onDelta: (delta: string, text: string) => void;
+  /** それまでの差分が破棄され、応答が再生成されるときに呼ばれる */
+  onReset?: (reason: string) => void;
+}
+
 /**
  * ユーザー入力をサニタイズする関数
  *
@@ -51,6 +137,16 @@ const sanitizePrompt = (input: string): string => {
   return input.trim().slice(0, MAX_INPUT_LENGTH);
 };
 
+/**
+ * 会話履歴を送信用の最小限の形式に変換する関数
+ * HTMLや検索結果などサーバー側で不要な情報は送信しません
+ *
+ * @param history 会話履歴
+ * @returns 送信用の会話履歴
+ */
+const toHistoryPayload = (history: Message[]): Message[] =>
+  history.map(({ id, sender, text }) => ({ id, sender, text }));
+
 /**
  * バックエンドのOpenAI APIエンドポイントを呼び出してチャットボットの応答を取得する
  *
@@ -62,13 +158,15 @@ const sanitizePrompt = (input: string): string => {
  * @param prompt ユーザーの質問/入力
  * @param signal AbortSignal（タイムアウト処理用）
  * @param model 使用するLLMモデル
+ * @param history これまでの会話履歴（今回の質問は含まない）
  * @returns テキスト応答、HTML（マークダウンレンダリング済）、フォーマットフラグを含むオブジェクト
  */
 export async function getChatbotResponse(
   prompt: string,
   signal?: AbortSignal,
-  model: OpenAIModel = DEFAULT_MODEL
-): Promise<{ text: string; html?: string; isMarkdown?: boolean }> {
+  model: ModelId = DEFAULT_MODEL,
+  history: Message[] = []
+): Promise<ChatbotResponse> {
   try {
     // 入力のサニタイズ
     const sanitizedPrompt = sanitizePrompt(prompt);
@@ -77,11 +175,60 @@ export async function getChatbotResponse(
     console.log(`モデル「${model}」でリクエストを送信します`);
 
     // サーバーへのリクエスト送信
-    const response = await fetchFromBackend(sanitizedPrompt, model, signal);
+    const response = await fetchFromBackend(
+      sanitizedPrompt,
+      model,
+      history,
+      signal
+    );
 
     // レスポンスデータの解析と検証
     return processResponse(response);
-  } catch (error: any) {
+  } catch (error) {
+    // エラーハンドリング
+    return handleApiError(error);
+  }
+}
+
+/**
+ * バックエンドのOpenAI APIエンドポイントからストリーミングで応答を取得する
+ *
+ * getChatbotResponseのストリーミング版です。差分を受信するたびにコールバックを呼び出し、
+ * 最終的にサーバーでHTML変換済みの応答全体を返します。
+ *
+ * @param prompt ユーザーの質問/入力
+ * @param callbacks ストリーミングの進行状況を受け取るコールバック
+ * @param signal AbortSignal（タイムアウト処理用）
+ * @param model 使用するLLMモデル
+ * @param history これまでの会話履歴（今回の質問は含まない）
+ * @returns テキスト応答、HTML（マークダウンレンダリング済）、フォーマットフラグを含むオブジェクト
+ */
+export async function getChatbotResponseStream(
+  prompt: string,
+  callbacks: StreamCallbacks,
+  signal?: AbortSignal,
+  model: ModelId = DEFAULT_MODEL,
+  history: Message[] = []
+): Promise<ChatbotResponse> {
+  try {
+    // 入力のサニタイズ
+    const sanitizedPrompt = sanitizePrompt(prompt);
+
+    // リクエスト情報のログ出力
+    console.log(`モデル「${model}」でストリーミングリクエストを送信します`);
+
+    // サーバーへのリクエスト送信
+    const response = await fetchFromBackend(
+      sanitizedPrompt,
+      model,
+      history,
+      signal,
+      true
+    );
+
+    // ストリームの受信と解析
+    return await processStreamResponse(response, callbacks);
+  } catch (error) {
     // エラーハンドリング
     return handleApiError(error);
   }
@@ -92,13 +239,17 @@ export async function getChatbotResponse(
  *
  * @param sanitizedPrompt サニタイズ済みのユーザー入力
  * @param model 使用するLLMモデル
+ * @param history これまでの会話履歴
  * @param signal AbortSignal（タイムアウト処理用）
+ * @param stream ストリーミング応答を要求するかどうか
  * @returns サーバーからのレスポンス
  */
 async function fetchFromBackend(
   sanitizedPrompt: string,
-  model: OpenAIModel,
-  signal?: AbortSignal
+  model: ModelId,
+  history: Message[],
+  signal?: AbortSignal,
+  stream: boolean = false
 ): Promise<Response> {
   return fetch(API_ENDPOINT, {
     method: "POST",
@@ -108,51 +259,341 @@ async function fetchFromBackend(
     body: JSON.stringify({
       prompt: sanitizedPrompt,
       model: model,
+      history: toHistoryPayload(history),
+      ...(stream ? { stream: true } : {}),
     }),
     signal, // タイムアウトシグナルを渡す
   });
 }
 
+/**
+ * Retry-Afterヘッダーの値を解析する関数
+ * 秒数とHTTP日付の両方の形式に対応します
+ *
+ * @param value ヘッダーの値
+ * @returns 再試行できるようになるまでの時間（ミリ秒、解析できない場合はundefined）
+ */
+function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * エラーレスポンスからエラーをスローする関数
+ *
+ * @param response サーバーからのエラーレスポンス
+ * @throws 常にエラーをスロー
+ */
+async function throwResponseError(response: Response): Promise<never> {
+  const errorData = await response.json().catch(() => ({}));
+  throwStatusError(
+    response.status,
+    errorData.error,
+    parseRetryAfter(response.headers?.get(RETRY_AFTER_HEADER))
+  );
+}
+
+/**
+ * ステータスコードとエラーメッセージからエラーをスローする関数
+ *
+ * @param status HTTPステータスコード
+ * @param errorMessage サーバーから返されたエラーメッセージ
+ * @param retryAfterMs 再試行できるようになるまでの時間（ミリ秒）
+ * @throws 常にエラーをスロー
+ */
+function throwStatusError(
+  status: number,
+  errorMessage?: string,
+  retryAfterMs?: number
+): never {
+  // 特定のエラーコードに対する詳細なメッセージ
+  if (status === 429) {
+    const error: RateLimitError = new Error(ERROR_MESSAGES.RATE_LIMIT);
+    error.name = RATE_LIMIT_ERROR_NAME;
+    error.retryAfterMs = retryAfterMs;
+    throw error;
+  } else if (status === 401) {
+    throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+  } else if (status === 504) {
+    throw new Error(ERROR_MESSAGES.TIMEOUT);
+  }
+
+  throw new Error(errorMessage || ERROR_MESSAGES.DEFAULT);
+}
+
+/**
+ * 値が表示可能な検索結果かどうかを判定する関数
+ * リンクとして表示するため、URLはhttp(s)のみ許可します
+ *
+ * @param value 検証する値
+ * @returns 有効な検索結果であればtrue
+ */
+function isValidSearchResult(value: unknown): value is SearchResult {
+  if (!value || typeof value !== "object") return false;
+
+  const { title, url, description } = value as Partial<SearchResult>;
+  return (
+    typeof title === "string" &&
+    typeof description === "string" &&
+    typeof url === "string" &&
+    /^https?:\/\//i.test(url)
+  );
+}
+
+/**
+ * レスポンスデータに含まれる検索結果を検証する関数
+ * 不正な形式の項目は除外します
+ *
+ * @param value サーバーから受信した検索結果
+ * @returns 検証済みの検索結果（有効な項目がない場合はundefined）
+ */
+function validateSearchResults(value: unknown): SearchResult[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const results = value
+    .filter(isValidSearchResult)
+    .map(({ title, url, description }) => ({ title, url, description }));
+
+  return results.length > 0 ? results : undefined;
+}
+
+/**
+ * レスポンスデータに含まれる未引用の情報源番号を検証する関数
+ * 検索結果の範囲外の番号は除外します
+ *
+ * @param value サーバーから受信した情報源番号
+ * @param sourceCount 検索結果の件数
+ * @returns 検証済みの情報源番号
+ */
+function validateUnusedSources(value: unknown, sourceCount: number): number[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(
+    (sourceNumber): sourceNumber is number =>
+      Number.isInteger(sourceNumber) &&
+      sourceNumber >= 1 &&
+      sourceNumber <= sourceCount
+  );
+}
+
+/**
+ * 値が0以上の整数かどうかを判定する関数
+ */
+const isTokenCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * レスポンスデータに含まれるトークン使用量を検証する関数
+ * 表示に使用する合計と推定コストのみを取り出します
+ *
+ * @param value サーバーから受信したトークン使用量
+ * @returns 検証済みのトークン使用量（不正な形式の場合はundefined）
+ */
+function validateUsage(value: unknown): MessageUsage | undefined {
+  if (!value || typeof value !== "object") return undefined;
+
+  const { promptTokens, completionTokens, totalTokens, estimatedCostUsd } =
+    value as Partial<MessageUsage>;
+  if (
+    !isTokenCount(promptTokens) ||
+    !isTokenCount(completionTokens) ||
+    !isTokenCount(totalTokens)
+  ) {
+    return undefined;
+  }
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    estimatedCostUsd:
+      typeof estimatedCostUsd === "number" && estimatedCostUsd >= 0
+        ? estimatedCostUsd
+        : null,
+  };
+}
+
+/**
+ * レスポンスデータに含まれるWeb検索の要否の判断結果を検証する関数
+ *
+ * @param value サーバーから受信した判断結果
+ * @returns 検証済みの判断結果（不正な形式の場合はundefined）
+ */
+function validateSearchDecision(value: unknown): SearchDecision | undefined {
+  if (!value || typeof value !== "object") return undefined;
+
+  const { needsSearch, reason, decidedBy, confidence } =
+    value as Partial<SearchDecision>;
+  if (
+    typeof needsSearch !== "boolean" ||
+    typeof reason !== "string" ||
+    (decidedBy !== "regex" && decidedBy !== "llm" && decidedBy !== "prompt")
+  ) {
+    return undefined;
+  }
+
+  return {
+    needsSearch,
+    reason,
+    decidedBy,
+    ...(typeof confidence === "number" ? { confidence } : {}),
+  };
+}
+
+/**
+ * レスポンスデータに含まれる応答を生成した経路を検証する関数
+ *
+ * @param value サーバーから受信した経路
+ * @returns 検証済みの経路（不正な値の場合はundefined）
+ */
+function validateSearchRoute(value: unknown): SearchRoute | undefined {
+  return value === "pre-answer" || value === "post-hoc" || value === "none"
+    ? value
+    : undefined;
+}
+
+/**
+ * レスポンスデータを検証して応答オブジェクトに変換する関数
+ *
+ * @param value サーバーから受信したデータ
+ * @returns 検証済みの応答
+ * @throws 形式が不正な場合エラーをスロー
+ */
+function validateResponseData(value: unknown): ChatbotResponse {
+  // レスポンスデータの検証
+  if (!value || typeof value !== "object") {
+    throw new Error(ERROR_MESSAGES.INVALID_RESPONSE);
+  }
+  const data = value as Record<string, unknown>;
+  if (typeof data.text !== "string") {
+    throw new Error(ERROR_MESSAGES.INVALID_RESPONSE);
+  }
+
+  const searchResults = validateSearchResults(data.searchResults);
+  const usage = validateUsage(data.usage);
+  const searchDecision = validateSearchDecision(data.searchDecision);
+  const searchRoute = validateSearchRoute(data.searchRoute);
+
+  return {
+    text: data.text,
+    html: (typeof data.html === "string" && data.html) || undefined,
+    isMarkdown: data.isMarkdown === true,
+    ...(searchResults
+      ? {
+          searchResults,
+          searchKeywords:
+            typeof data.searchKeywords === "string"
+              ? data.searchKeywords
+              : undefined,
+          unusedSources: validateUnusedSources(
+            data.unusedSources,
+            searchResults.length
+          ),
+        }
+      : {}),
+    ...(usage ? { usage } : {}),
+    ...(searchDecision ? { searchDecision } : {}),
+    ...(searchRoute ? { searchRoute } : {}),
+  };
+}
+
 /**
  * サーバーからのレスポンスを処理する関数
  *
  * @param response サーバーからのレスポンス
  * @returns 処理済みのレスポンスデータ
  */
-async function processResponse(response: Response): Promise<{
-  text: string;
-  html?: string;
-  isMarkdown?: boolean;
-}> {
+async function processResponse(response: Response): Promise<ChatbotResponse> {
   // エラーレスポンスの処理
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    const errorMessage = errorData.error || ERROR_MESSAGES.DEFAULT;
-
-    // 特定のエラーコードに対する詳細なメッセージ
-    if (response.status === 429) {
-      throw new Error(ERROR_MESSAGES.RATE_LIMIT);
-    } else if (response.status === 504) {
-      throw new Error(ERROR_MESSAGES.TIMEOUT);
-    }
-
-    throw new Error(errorMessage);
+    await throwResponseError(response);
   }
 
   // レスポンスデータの解析
   const data = await response.json();
 
-  // レスポンスデータの検証
-  if (!data || typeof data.text !== "string") {
+  // 正常なレスポンスを返却
+  return validateResponseData(data);
+}
+
+/**
+ * サーバーからのストリーミングレスポンスを処理する関数
+ *
+ * deltaイベントでコールバックを呼び出し、doneイベントで受信した応答全体を返します。
+ * errorイベントを受信した場合や、doneイベントを受信せずにストリームが終了した場合はエラーとします。
+ *
+ * @param response サーバーからのレスポンス
+ * @param callbacks ストリーミングの進行状況を受け取るコールバック
+ * @returns 処理済みのレスポンスデータ
+ */
+async function processStreamResponse(
+  response: Response,
+  callbacks: StreamCallbacks
+): Promise<ChatbotResponse> {
+  // ストリーム開始前のエラー（レート制限や入力検証エラー）はJSONで返される
+  if (!response.ok) {
+    await throwResponseError(response);
+  }
+
+  if (!response.body) {
     throw new Error(ERROR_MESSAGES.INVALID_RESPONSE);
   }
 
-  // 正常なレスポンスを返却
-  return {
-    text: data.text || "",
-    html: data.html || undefined,
-    isMarkdown: data.isMarkdown || false,
+  let text = "";
+  let result: ChatbotResponse | null = null;
+  let streamError: { status?: number; error?: string } | null = null;
+
+  const handleEvent = ({ event, data }: SSEEvent) => {
+    const payload = JSON.parse(data);
+
+    switch (event) {
+      case STREAM_EVENTS.DELTA:
+        text += payload.delta;
+        callbacks.onDelta(payload.delta, text);
+        break;
+      case STREAM_EVENTS.RESET:
+        text = "";
+        callbacks.onReset?.(payload.reason);
+        break;
+      case STREAM_EVENTS.DONE:
+        result = validateResponseData(payload);
+        break;
+      case STREAM_EVENTS.ERROR:
+        streamError = payload;
+        break;
+    }
   };
+
+  const parser = createSSEParser(handleEvent);
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  parser.flush();
+
+  if (streamError) {
+    const { status, error } = streamError;
+    throwStatusError(status ?? 500, error);
+  }
+
+  if (!result) {
+    throw new Error(ERROR_MESSAGES.STREAM_INTERRUPTED);
+  }
+
+  return result;
 }
 
 /**
@@ -161,15 +602,17 @@ async function processResponse(response: Response): Promise<{
  * @param error 発生したエラー
  * @returns エラーメッセージを含むレスポンス（再スロー）
  */
-function handleApiError(error: any): never {
+function handleApiError(error: unknown): never {
+  const { name, message } = (error ?? {}) as Partial<Error>;
+
   // タイムアウトエラーの処理
-  if (error.name === "AbortError") {
+  if (name === "AbortError") {
     console.error("Request was aborted", error);
     throw new Error(ERROR_MESSAGES.TIMEOUT);
   }
 
   // ネットワークエラーの処理
-  if (error.name === "TypeError" && error.message.includes("Failed to fetch")) {
+  if (name === "TypeError" && message?.includes("Failed to fetch")) {
     console.error("Network error:", error);
     throw new Error(ERROR_MESSAGES.NETWORK);
   }
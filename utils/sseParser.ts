@@ -0,0 +1,104 @@
+/**
+ * Server-Sent Events（SSE）パーサー
+ *
+ * このファイルは、fetchで受信したSSEストリームのテキストを
+ * イベント単位に分割して解析する機能を提供します。
+ * チャンクの境界がイベントの途中にあっても正しく処理できるよう、
+ * 未完了のイベントはバッファに保持します。
+ *
+ * @module sseParser
+ */
+
+/**
+ * 解析済みSSEイベントの型定義
+ */
+export interface SSEEvent {
+  /** イベント名（未指定の場合は"message"） */
+  event: string;
+  /** イベントデータ（複数行の場合は改行で連結） */
+  data: string;
+}
+
+/**
+ * SSEパーサーの型定義
+ */
+export interface SSEParser {
+  /** 受信したテキストを追加し、完了したイベントを通知する */
+  push: (chunk: string) => void;
+  /** バッファに残った最後のイベントを通知する */
+  flush: () => void;
+}
+
+/**
+ * SSEイベントの区切り（空行）
+ */
+const EVENT_SEPARATOR = /\r?\n\r?\n/;
+
+/**
+ * デフォルトのイベント名
+ */
+const DEFAULT_EVENT_NAME = "message";
+
+/**
+ * 1イベント分のテキストを解析する関数
+ *
+ * @param block 空行で区切られた1イベント分のテキスト
+ * @returns 解析済みイベント、データがない場合はnull
+ */
+function parseEventBlock(block: string): SSEEvent | null {
+  let event = DEFAULT_EVENT_NAME;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    // コメント行は無視
+    if (line === "" || line.startsWith(":")) continue;
+
+    const separatorIndex = line.indexOf(":");
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    const value =
+      separatorIndex === -1 ? "" : line.slice(separatorIndex + 1).replace(/^ /, "");
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  return { event, data: dataLines.join("\n") };
+}
+
+/**
+ * SSEパーサーを生成する関数
+ *
+ * @param onEvent イベントを受け取るコールバック
+ * @returns SSEパーサー
+ */
+export function createSSEParser(
+  onEvent: (event: SSEEvent) => void
+): SSEParser {
+  let buffer = "";
+
+  function push(chunk: string) {
+    buffer += chunk;
+
+    const blocks = buffer.split(EVENT_SEPARATOR);
+    // 最後の要素は未完了のイベントの可能性があるためバッファに残す
+    buffer = blocks.pop() || "";
+
+    for (const block of blocks) {
+      const parsed = parseEventBlock(block);
+      if (parsed) onEvent(parsed);
+    }
+  }
+
+  function flush() {
+    const parsed = parseEventBlock(buffer);
+    buffer = "";
+    if (parsed) onEvent(parsed);
+  }
+
+  return { push, flush };
+}